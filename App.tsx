@@ -3,12 +3,20 @@ import React, { useState, useEffect, Suspense, useMemo } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { Dashboard } from './components/Dashboard';
 import { Auth } from './components/Auth';
-import { ViewState, ReceiptData, ActionItem, CalendarEvent, IntegrationAccount, User, StorageStats, BankTransaction, AppSettings } from './types';
+import { ViewState, ReceiptData, ActionItem, CalendarEvent, IntegrationAccount, User, StorageStats, BankTransaction, AppSettings, SyncStatus, UserSession, AiBudgetStatus } from './types';
 import { storageService } from './services/storageService';
-import { Loader2, HardDrive, Cpu } from 'lucide-react';
+import { formatBytes } from './services/storageQuota';
+import { formatUsd } from './services/aiUsage';
+import { LAST_INPUT_STORAGE_KEY, ACTIVITY_EVENTS, isIdleExpired } from './services/sessions';
+import { configurePiiRedaction, configureUnredactedFileConsent } from './services/piiRedaction';
+import { configureAiProvider } from './services/geminiService';
+import { aiJobQueue } from './services/aiJobQueue';
+import { Loader2, HardDrive, Cpu, Cloud, CloudOff, RefreshCw, AlertTriangle, Sparkles } from 'lucide-react';
 import { CaptureTool } from './components/CaptureTool';
 import { OnboardingGuide } from './components/OnboardingGuide'; // Import Guide
-import { analyzeReceipt } from './services/geminiService';
+import { ConflictResolver } from './components/ConflictResolver';
+import { VaultUnlockPrompt } from './components/VaultUnlockPrompt';
+import { analyzeReceipt, aiFailureMessage } from './services/geminiService';
 
 // Lazy Load Heavy Modules to optimize initial bundle size
 const FinanceModule = React.lazy(() => import('./components/FinanceModule').then(module => ({ default: module.FinanceModule })));
@@ -69,6 +77,12 @@ const App: React.FC = () => {
   
   // Performance State
   const [storageStats, setStorageStats] = useState<StorageStats | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(storageService.getSyncStatus());
+  const [aiBudget, setAiBudget] = useState<AiBudgetStatus | null>(null);
+  const [showVaultPrompt, setShowVaultPrompt] = useState(false);
+  // Idle sign-out waits for the org's timeout; the defaults would otherwise apply to a just-restored session
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [signOutNotice, setSignOutNotice] = useState<string | null>(null);
 
   // 1. Initial User Check
   useEffect(() => {
@@ -79,6 +93,10 @@ const App: React.FC = () => {
           if (!parsedUser.role) parsedUser.role = 'Admin';
           setUser(parsedUser);
           storageService.configure(parsedUser);
+          // The saved sign-in only holds while this device's session is open (not revoked, user not suspended)
+          storageService.resumeSession().then(valid => {
+              if (!valid) handleLogout('revoked', "Your session has ended. Please sign in again.");
+          });
       }
   }, []);
 
@@ -86,9 +104,23 @@ const App: React.FC = () => {
   useEffect(() => {
       if (user) {
           storageService.configure(user);
-          console.log(`[App] Loading data for ${user.email} via ${user.storageProvider || 'LOCAL'} provider...`);
+          console.log(`[App] Loading data for ${user.email} via ${storageService.getStorageProvider()} provider...`);
           
           const loadData = async () => {
+              // Local cache first so the UI is usable immediately (and offline)
+              const [cr, cb, ct, ce, ca] = await Promise.all([
+                  storageService.loadCached<ReceiptData>(STORAGE_KEYS.RECEIPTS),
+                  storageService.loadCached<BankTransaction>(STORAGE_KEYS.BANK_TXS),
+                  storageService.loadCached<ActionItem>(STORAGE_KEYS.TASKS),
+                  storageService.loadCached<CalendarEvent>(STORAGE_KEYS.EVENTS),
+                  storageService.loadCached<IntegrationAccount>(STORAGE_KEYS.ACCOUNTS)
+              ]);
+              if (cr) setReceipts(cr);
+              if (cb) setBankTransactions(cb);
+              if (ct) setTasks(ct);
+              if (ce) setEvents(ce);
+              if (ca) setAccounts(ca);
+
               // Parallel Load
               const [r, b, t, e, a, serverSettings] = await Promise.all([
                   storageService.load<ReceiptData>(STORAGE_KEYS.RECEIPTS),
@@ -112,14 +144,65 @@ const App: React.FC = () => {
                   const localSettings = localStorage.getItem(STORAGE_KEYS.SETTINGS);
                   if (localSettings) setSettings(JSON.parse(localSettings));
               }
+              setSettingsLoaded(true);
               
               // Load Stats
               updateStats();
+
+              // Encrypted fields stay locked until the member unlocks with their password (restored sessions have no keys)
+              await storageService.loadVault();
+              setShowVaultPrompt(storageService.isVaultLocked());
           };
           loadData();
       }
   }, [user]);
 
+  // Live Updates: teammates' edits stream in without a reload
+  useEffect(() => {
+      if (!user) return;
+      const unsubscribers = [
+          storageService.subscribe<ReceiptData>(STORAGE_KEYS.RECEIPTS, setReceipts),
+          storageService.subscribe<BankTransaction>(STORAGE_KEYS.BANK_TXS, setBankTransactions),
+          storageService.subscribe<ActionItem>(STORAGE_KEYS.TASKS, setTasks),
+          storageService.subscribe<CalendarEvent>(STORAGE_KEYS.EVENTS, setEvents),
+          storageService.subscribe<IntegrationAccount>(STORAGE_KEYS.ACCOUNTS, setAccounts)
+      ];
+      return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [user]);
+
+  // Session: input anywhere counts as activity (shared across tabs) and drives the heartbeat
+  useEffect(() => {
+      if (!user) return;
+      const onActivity = () => {
+          localStorage.setItem(LAST_INPUT_STORAGE_KEY, Date.now().toString());
+          storageService.touchSession();
+      };
+      ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+      return () => ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+  }, [user]);
+
+  // Idle Timeout (per org)
+  useEffect(() => {
+      if (!user || !settingsLoaded) return;
+      const checkIdle = () => {
+          const lastInput = Number(localStorage.getItem(LAST_INPUT_STORAGE_KEY)) || Date.now();
+          if (isIdleExpired(lastInput, settings.sessionIdleTimeoutMinutes)) {
+              handleLogout('idle', "You were signed out after a period of inactivity.");
+          }
+      };
+      checkIdle();
+      const interval = setInterval(checkIdle, 30000);
+      return () => clearInterval(interval);
+  }, [user, settingsLoaded, settings.sessionIdleTimeoutMinutes]);
+
+  // Remote Sign-Out: this device's session was ended elsewhere or by an Admin
+  useEffect(() => {
+      if (!user) return;
+      return storageService.watchSession(reason => handleLogout('revoked', reason === 'revoked'
+          ? "You were signed out from another device or by an administrator."
+          : "Your session has ended. Please sign in again."));
+  }, [user]);
+
   // 3. Persist Data (Service handles Debouncing internally)
   // Note: Settings are saved explicitly via "UpdateSettingsWrapper" in ConnectAccounts, so we don't auto-save here to prevent overwrites from stale state.
   useEffect(() => { if (user) storageService.save(STORAGE_KEYS.RECEIPTS, receipts); }, [receipts, user]);
@@ -128,6 +211,29 @@ const App: React.FC = () => {
   useEffect(() => { if (user) storageService.save(STORAGE_KEYS.EVENTS, events); }, [events, user]);
   useEffect(() => { if (user) storageService.save(STORAGE_KEYS.ACCOUNTS, accounts); }, [accounts, user]);
 
+  // Storage backend follows the org's settings
+  useEffect(() => { if (user) storageService.applyStorageSettings(settings); }, [settings.storageProvider, user]);
+
+  // AI calls mask personal data as configured by the org
+  useEffect(() => configurePiiRedaction(settings.piiRedaction), [settings.piiRedaction]);
+  useEffect(() => {
+    configureUnredactedFileConsent(async () => confirm("Images and PDFs can't be masked before they are sent to the AI model. Send this session's scanned files unmasked?"));
+    return () => configureUnredactedFileConsent(null);
+  }, []);
+
+  // ...and go to the AI provider the org chose (Gemini or the offline stand-in)
+  useEffect(() => configureAiProvider(settings), [settings.aiProvider, settings.currency]);
+  useEffect(() => aiJobQueue.setConcurrency(settings.aiConcurrency), [settings.aiConcurrency]);
+
+  // Sync Queue Status (pending / failed writes)
+  useEffect(() => storageService.subscribeSyncStatus(setSyncStatus), []);
+
+  // Monthly AI spend against the org's budget (past it, extraction falls back to drafts for manual entry)
+  useEffect(() => {
+    if (!user) return;
+    return storageService.subscribeAiBudget(setAiBudget);
+  }, [user?.organizationId]);
+
   // Periodic Stats Update
   useEffect(() => {
       const interval = setInterval(updateStats, 30000); // Check every 30s
@@ -139,24 +245,46 @@ const App: React.FC = () => {
       setStorageStats(stats);
   };
 
+  // Re-read what was loaded as ciphertext
+  const handleVaultUnlocked = async () => {
+      setShowVaultPrompt(false);
+      const [serverSettings, a] = await Promise.all([
+          storageService.loadGlobalSettings(),
+          storageService.load<IntegrationAccount>(STORAGE_KEYS.ACCOUNTS)
+      ]);
+      if (serverSettings) setSettings(serverSettings);
+      setAccounts(a || []);
+  };
+
   // Auth Handlers
-  const handleLogin = (authenticatedUser: User) => {
+  const handleLogin = async (authenticatedUser: User, password?: string) => {
       // Ensure we have a valid User object before setting state
       const userWithRole = { ...authenticatedUser, role: authenticatedUser.role || 'User' };
-      setUser(userWithRole);
       storageService.configure(userWithRole);
+      // The sign-in password also unwraps this member's copy of the org encryption key
+      if (password) {
+          await storageService.unlockVault(password, true).catch(e => console.error("[Vault] Unlock at sign-in failed", e));
+      }
+      await storageService.startSession(userWithRole);
+      localStorage.setItem(LAST_INPUT_STORAGE_KEY, Date.now().toString());
+      setSignOutNotice(null);
+      setUser(userWithRole);
       localStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(userWithRole));
   };
 
-  const handleLogout = () => {
+  const handleLogout = async (reason: UserSession['endReason'] = 'signed-out', notice?: string) => {
       setUser(null);
+      setSettingsLoaded(false);
+      setSignOutNotice(notice || null);
       setReceipts([]);
       setBankTransactions([]);
       setTasks([]);
       setEvents([]);
       setAccounts([]);
       setSettings(DEFAULT_SETTINGS);
+      storageService.lockVault();
       localStorage.removeItem(STORAGE_KEYS.USER);
+      await storageService.endSession(reason);
   };
 
   // Global Data Reset
@@ -193,6 +321,7 @@ const App: React.FC = () => {
   // Optimized Data Actions with Callback Stability (though setState is stable)
   const handleAddReceipt = (receipt: ReceiptData) => setReceipts(prev => [receipt, ...prev]);
   const handleRemoveReceipt = (id: string) => setReceipts(prev => prev.filter(r => r.id !== id));
+  const handleUpdateReceipt = (receipt: ReceiptData) => setReceipts(prev => prev.map(r => r.id === receipt.id ? receipt : r));
   
   // New handler for Bank Transactions
   const handleUpdateBankTransactions = (txs: BankTransaction[] | ((prev: BankTransaction[]) => BankTransaction[])) => {
@@ -210,6 +339,8 @@ const App: React.FC = () => {
   // Handle Import from Capture Tool
   const handleCaptureImport = async (file: File) => {
       if (currentView === ViewState.FINANCE) {
+          const quota = await storageService.checkUploadQuota(file.size);
+          if (!quota.allowed) return alert(`Snapshot not imported: storage quota of ${formatBytes(quota.quotaBytes)} would be exceeded.`);
           try {
               const buffer = await file.arrayBuffer();
               const base64 = btoa(new Uint8Array(buffer).reduce((data, byte) => data + String.fromCharCode(byte), ''));
@@ -217,7 +348,7 @@ const App: React.FC = () => {
               handleAddReceipt(result);
               alert("Snapshot imported as Receipt!");
           } catch(e) {
-              alert("Failed to analyze snapshot.");
+              alert(aiFailureMessage(e, "Failed to analyze snapshot."));
           }
       } else {
           alert("Capture import available for Accounting module. (Generic file saved to local storage history)");
@@ -225,7 +356,7 @@ const App: React.FC = () => {
   };
 
   if (!user) {
-      return <Auth onLogin={handleLogin} />;
+      return <Auth onLogin={handleLogin} notice={signOutNotice} />;
   }
 
   const renderView = () => {
@@ -238,6 +369,7 @@ const App: React.FC = () => {
                 receipts={receipts} 
                 onAddReceipt={handleAddReceipt} 
                 onRemoveReceipt={handleRemoveReceipt} 
+                onUpdateReceipt={handleUpdateReceipt}
                 accounts={accounts} 
                 onOpenCapture={openCapture}
                 bankTransactions={bankTransactions}
@@ -267,7 +399,7 @@ const App: React.FC = () => {
       case ViewState.PLANNING:
         return <PlanningModule onOpenCapture={openCapture} settings={settings} />;
       case ViewState.ADMIN:
-        return <AdminModule currentUser={user} settings={settings} userReceipts={receipts} userTasks={tasks} />;
+        return <AdminModule currentUser={user} settings={settings} onUpdateSettings={setSettings} userReceipts={receipts} userTasks={tasks} />;
       case ViewState.SETTINGS:
         return (
             <ConnectAccounts 
@@ -297,7 +429,7 @@ const App: React.FC = () => {
         currentView={currentView} 
         onNavigate={setCurrentView} 
         user={user} 
-        onLogout={handleLogout} 
+        onLogout={() => handleLogout()} 
         onOpenCapture={openCapture}
         onStartGuide={handleStartGuide}
       />
@@ -317,7 +449,29 @@ const App: React.FC = () => {
                     <span className="font-medium tracking-wide uppercase">{storageStats.tier}</span>
                 </div>
                 <div className="w-px h-3 bg-white/10"></div>
-                <div className="flex items-center gap-3 pr-2" title="Storage Usage">
+                <button onClick={() => storageService.flushQueue()} className="flex items-center gap-2 hover:text-zinc-200" title={syncStatus.lastError ? `Sync error: ${syncStatus.lastError}` : 'Sync Status (click to retry)'}>
+                    {!syncStatus.online ? <CloudOff className="w-3.5 h-3.5 text-zinc-500" />
+                        : syncStatus.failed > 0 ? <AlertTriangle className="w-3.5 h-3.5 text-rose-400" />
+                        : syncStatus.pending > 0 ? <RefreshCw className="w-3.5 h-3.5 text-amber-400 animate-spin" />
+                        : <Cloud className="w-3.5 h-3.5 text-emerald-400" />}
+                    <span className="font-medium tracking-wide uppercase">
+                        {!syncStatus.online ? `Offline${syncStatus.pending > 0 ? ` · ${syncStatus.pending} Pending` : ''}` : syncStatus.pending + syncStatus.failed === 0 ? 'Synced' : `${syncStatus.pending} Pending`}
+                        {syncStatus.failed > 0 && <span className="text-rose-400"> · {syncStatus.failed} Failed</span>}
+                    </span>
+                </button>
+                {aiBudget && aiBudget.budgetUsd !== null && (
+                    <>
+                        <div className="w-px h-3 bg-white/10"></div>
+                        <div className="flex items-center gap-2" title={aiBudget.exceeded ? 'Monthly AI budget spent: uploads are added as drafts for manual entry' : `AI spend this month: ${formatUsd(aiBudget.spentUsd)} of ${formatUsd(aiBudget.budgetUsd)}`}>
+                            <Sparkles className={`w-3.5 h-3.5 ${aiBudget.exceeded ? 'text-rose-400' : aiBudget.nearLimit ? 'text-amber-400' : 'text-zinc-500'}`} />
+                            <span className={`font-medium tracking-wide uppercase ${aiBudget.exceeded ? 'text-rose-400' : ''}`}>
+                                {aiBudget.exceeded ? 'AI Paused · Manual Entry' : `AI ${aiBudget.percentUsed.toFixed(0)}%`}
+                            </span>
+                        </div>
+                    </>
+                )}
+                <div className="w-px h-3 bg-white/10"></div>
+                <div className="flex items-center gap-3 pr-2" title={`Storage Usage: ${formatBytes(storageStats.usageBytes)} of ${formatBytes(storageStats.quotaBytes)}`}>
                     <div className="flex items-center gap-2">
                         <HardDrive className={`w-3.5 h-3.5 ${storageStats.percentUsed > 80 ? 'text-rose-400' : 'text-zinc-500'}`} />
                         <span className="font-mono">{(storageStats.usageBytes / 1024 / 1024).toFixed(1)}MB</span>
@@ -341,6 +495,9 @@ const App: React.FC = () => {
         onImport={handleCaptureImport}
       />
       
+      <ConflictResolver />
+      {showVaultPrompt && <VaultUnlockPrompt onUnlocked={handleVaultUnlocked} onSkip={() => setShowVaultPrompt(false)} />}
+
       <OnboardingGuide 
         isOpen={showGuide} 
         onClose={handleCloseGuide} 
@@ -1,13 +1,21 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { User, AppSettings, ReceiptData, ActionItem, ViewState, UserRole, UserStatus, Organization } from '../types';
-import { ShieldAlert, Server, Users, Activity, HardDrive, AlertTriangle, Search, Lock, Unlock, Database, TrendingUp, BarChart3, Layers, Download, RefreshCw, Key, CreditCard, Clock, Globe, Plus, Pencil, Trash2, CheckCircle2, MoreHorizontal, X, Save, Shield, Phone, Mail, Loader2, Send, Filter, Ban, Power, Timer, Smartphone, Building2 } from 'lucide-react';
+import { User, AppSettings, ReceiptData, ActionItem, ViewState, UserRole, UserStatus, Organization, StorageStats, Invitation } from '../types';
+import { ShieldAlert, Server, Users, Activity, HardDrive, AlertTriangle, Search, Lock, Unlock, Database, TrendingUp, BarChart3, Layers, Download, RefreshCw, Key, CreditCard, Clock, Globe, Plus, Pencil, Trash2, CheckCircle2, MoreHorizontal, X, Save, Shield, Phone, Mail, Loader2, Send, Filter, Ban, Power, Timer, Smartphone, Building2, ShieldCheck, Monitor } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, LineChart, Line, PieChart, Pie, Cell, Legend } from 'recharts';
 import { storageService } from '../services/storageService';
+import { AuditTrailPanel } from './AuditTrailPanel';
+import { AiUsagePanel } from './AiUsagePanel';
+import { formatBytes } from '../services/storageQuota';
+import { formatUsd } from '../services/aiUsage';
+import { isInvitationExpired, inviteMailto } from '../services/invitations';
+import { IDLE_TIMEOUT_OPTIONS, DEFAULT_IDLE_TIMEOUT_MINUTES, formatIdleTimeout, formatLastSeen } from '../services/sessions';
+import { SessionList } from './SessionList';
 
 interface AdminModuleProps {
     currentUser: User;
     settings: AppSettings;
+    onUpdateSettings: (settings: AppSettings) => void;
     userReceipts: ReceiptData[];
     userTasks: ActionItem[];
 }
@@ -25,8 +33,8 @@ const MODULES_LIST = [
     { id: ViewState.SETTINGS, label: 'Settings & Connect' }
 ];
 
-export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings, userReceipts, userTasks }) => {
-    const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'tenants'>('overview');
+export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings, onUpdateSettings, userReceipts, userTasks }) => {
+    const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'audit' | 'ai' | 'tenants'>('overview');
     const [searchTerm, setSearchTerm] = useState('');
     const [roleFilter, setRoleFilter] = useState<'All' | 'Admin' | 'User' | 'Viewer'>('All');
     const [isRefreshing, setIsRefreshing] = useState(false);
@@ -34,6 +42,7 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
     
     // Multi-Tenancy State
     const [organizations, setOrganizations] = useState<Organization[]>([]);
+    const [storageStats, setStorageStats] = useState<StorageStats | null>(null);
     const [showOrgModal, setShowOrgModal] = useState(false);
     const [newOrgName, setNewOrgName] = useState('');
     const [newOrgAdminEmail, setNewOrgAdminEmail] = useState('');
@@ -43,6 +52,10 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
     const [users, setUsers] = useState<User[]>([]);
     const [isUserModalOpen, setIsUserModalOpen] = useState(false);
     const [editingUser, setEditingUser] = useState<User | null>(null);
+    const [invitations, setInvitations] = useState<Invitation[]>([]);
+    const [inviteLinkResult, setInviteLinkResult] = useState<{ invitation: Invitation; link: string } | null>(null);
+    const [linkCopied, setLinkCopied] = useState(false);
+    const [sessionsUser, setSessionsUser] = useState<User | null>(null);
     
     // Form State
     const [formData, setFormData] = useState<Partial<User>>({
@@ -61,6 +74,7 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
             loadOrganizations();
         }
         loadUsers();
+        storageService.getStats().then(setStorageStats);
     }, [currentUser]);
 
     const loadOrganizations = async () => {
@@ -71,9 +85,10 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
     const loadUsers = async () => {
         setIsRefreshing(true);
         try {
-            const storedUsers = await storageService.getSystemUsers();
+            const [storedUsers, pendingInvitations] = await Promise.all([storageService.getSystemUsers(), storageService.listInvitations()]);
             // In a real app, verify we only got users for our Org. Firestore rules + service logic should handle this.
             setUsers(storedUsers);
+            setInvitations(pendingInvitations);
         } catch (e) {
             console.error("Failed to load users", e);
         } finally {
@@ -86,27 +101,13 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
         if (!newOrgName || !newOrgAdminEmail) return alert("Name and Admin Email required.");
         setIsSaving(true);
         try {
-            const orgId = await storageService.createOrganization(newOrgName, newOrgAdminEmail, newOrgAdminName);
-            
-            // Create the initial Admin User for that Org
-            const adminUser: User = {
-                id: crypto.randomUUID(),
-                organizationId: orgId,
-                name: newOrgAdminName || 'Admin',
-                email: newOrgAdminEmail,
-                role: 'Admin',
-                status: 'Active',
-                mfaVerified: false,
-                allowedModules: MODULES_LIST.map(m => m.id)
-            };
-            
-            await storageService.saveSystemUser(adminUser);
-            await storageService.sendUserInvite(adminUser); // Optional: send invite immediately
-
-            alert(`Organization "${newOrgName}" created! Admin invite sent to ${newOrgAdminEmail}.`);
+            // The org's first Admin creates their own account from the invitation link
+            const result = await storageService.createOrganization(newOrgName, newOrgAdminEmail, newOrgAdminName);
             setShowOrgModal(false);
             setNewOrgName('');
             setNewOrgAdminEmail('');
+            setNewOrgAdminName('');
+            setInviteLinkResult(result);
             loadOrganizations();
         } catch (e: any) {
             alert("Failed to create tenant: " + e.message);
@@ -133,6 +134,7 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
 
     const handleSaveUser = async () => {
         if (!formData.name || !formData.email) return alert("Name and Email are required.");
+        if (!editingUser) return handleInviteUser();
         setIsSaving(true);
         
         const userToSave: User = {
@@ -173,6 +175,57 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
         }
     };
 
+    // New members get an invitation link and pick their own password; the profile is created when they accept
+    const handleInviteUser = async () => {
+        const email = formData.email!.trim().toLowerCase();
+        if (users.some(u => u.email.toLowerCase() === email)) return alert("A user with this email already exists.");
+        if (invitations.some(i => i.email === email && !isInvitationExpired(i))) return alert("This email already has a pending invitation. Resend it from the list instead.");
+        setIsSaving(true);
+        try {
+            const result = await storageService.createInvitation({
+                email,
+                name: formData.name!,
+                role: (formData.role as UserRole) || 'User',
+                allowedModules: formData.allowedModules || [],
+                department: formData.department || ''
+            });
+            setInvitations(prev => [result.invitation, ...prev]);
+            setIsUserModalOpen(false);
+            setInviteLinkResult(result);
+        } catch (e: any) {
+            alert(`Failed to create invitation: ${e.message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleResendInvitation = async (invitation: Invitation) => {
+        try {
+            const result = await storageService.resendInvitation(invitation);
+            setInvitations(prev => [result.invitation, ...prev.filter(i => i.id !== invitation.id)]);
+            setInviteLinkResult(result);
+        } catch (e: any) {
+            alert(`Failed to resend invitation: ${e.message}`);
+        }
+    };
+
+    const handleRevokeInvitation = async (invitation: Invitation) => {
+        if (!confirm(`Revoke the invitation for ${invitation.email}? The link will stop working.`)) return;
+        try {
+            await storageService.revokeInvitation(invitation);
+            setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+        } catch (e: any) {
+            alert(`Failed to revoke invitation: ${e.message}`);
+        }
+    };
+
+    const handleCopyInviteLink = () => {
+        if (!inviteLinkResult) return;
+        navigator.clipboard.writeText(inviteLinkResult.link);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+    };
+
     const handleDeleteUser = async (userId: string) => {
         if (userId === currentUser.id) return alert("Cannot delete yourself.");
         if (confirm("Delete this user?")) {
@@ -181,6 +234,54 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
         }
     };
 
+    // --- SECURITY ---
+    const handleToggleMfaRole = async (role: UserRole) => {
+        const current = settings.mfaRequiredRoles || [];
+        const updated = { ...settings, mfaRequiredRoles: current.includes(role) ? current.filter(r => r !== role) : [...current, role] };
+        onUpdateSettings(updated);
+        try {
+            await storageService.saveGlobalSettings(updated);
+            storageService.logActivity(ViewState.ADMIN, 'EDIT', `Two-factor authentication ${updated.mfaRequiredRoles.includes(role) ? 'required' : 'optional'} for role ${role}`);
+        } catch (e: any) {
+            alert(`Failed to save MFA policy: ${e.message}`);
+            onUpdateSettings(settings);
+        }
+    };
+
+    const handleIdleTimeoutChange = async (minutes: number) => {
+        const updated = { ...settings, sessionIdleTimeoutMinutes: minutes };
+        onUpdateSettings(updated);
+        try {
+            await storageService.saveGlobalSettings(updated);
+            storageService.logActivity(ViewState.ADMIN, 'EDIT', `Idle sign-out set to ${formatIdleTimeout(minutes)}`);
+        } catch (e: any) {
+            alert(`Failed to save idle timeout: ${e.message}`);
+            onUpdateSettings(settings);
+        }
+    };
+
+    // Suspending also signs the user out on every device (see saveSystemUser)
+    const handleToggleSuspend = async (user: User) => {
+        const status: UserStatus = user.status === 'Suspended' ? 'Active' : 'Suspended';
+        if (status === 'Suspended' && !confirm(`Suspend ${user.name}? They are signed out everywhere and lose access to encrypted data.`)) return;
+        try {
+            await storageService.saveSystemUser({ ...user, status });
+            setUsers(prev => prev.map(u => u.id === user.id ? { ...u, status } : u));
+        } catch (e: any) {
+            alert(`Failed to update user: ${e.message}`);
+        }
+    };
+
+    const handleResetMfa = async (user: User) => {
+        if (!confirm(`Reset two-factor authentication for ${user.name}? Their authenticator app and backup codes stop working.`)) return;
+        try {
+            await storageService.resetMfa(user);
+            setUsers(prev => prev.map(u => u.id === user.id ? { ...u, mfaVerified: false } : u));
+        } catch (e: any) {
+            alert(`Reset failed: ${e.message}`);
+        }
+    };
+
     const toggleModulePermission = (moduleId: ViewState) => {
         setFormData(prev => {
             const current = prev.allowedModules || [];
@@ -218,6 +319,8 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
             <div className="flex border-b border-zinc-800">
                 <button onClick={() => setActiveTab('overview')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'overview' ? 'border-amber-500 text-white' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}>Overview</button>
                 <button onClick={() => setActiveTab('users')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'users' ? 'border-amber-500 text-white' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}>Users</button>
+                <button onClick={() => setActiveTab('audit')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'audit' ? 'border-amber-500 text-white' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}>Audit Trail</button>
+                <button onClick={() => setActiveTab('ai')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'ai' ? 'border-amber-500 text-white' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}>AI Usage</button>
                 {currentUser.role === 'SuperAdmin' && (
                     <button onClick={() => setActiveTab('tenants')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'tenants' ? 'border-amber-500 text-white' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}>Tenants</button>
                 )}
@@ -227,7 +330,7 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
                 
                 {/* 1. OVERVIEW TAB */}
                 {activeTab === 'overview' && (
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                         <div className="bg-black/20 p-6 rounded-2xl border border-white/5">
                             <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2">Total Users</h3>
                             <p className="text-4xl font-bold text-white">{users.length}</p>
@@ -238,6 +341,43 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
                                 <p className="text-4xl font-bold text-emerald-400">{organizations.length}</p>
                             </div>
                         )}
+                        <div className="bg-black/20 p-6 rounded-2xl border border-white/5">
+                            <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2 flex items-center gap-2"><HardDrive className="w-4 h-4" /> Storage</h3>
+                            {storageStats ? (
+                                <>
+                                    <p className="text-4xl font-bold text-white">{formatBytes(storageStats.usageBytes)}</p>
+                                    <div className="w-full h-2 bg-white/5 rounded-full overflow-hidden mt-3">
+                                        <div className={`h-full rounded-full ${storageStats.percentUsed > 90 ? 'bg-rose-500' : 'bg-amber-500'}`} style={{ width: `${Math.min(storageStats.percentUsed, 100)}%` }} />
+                                    </div>
+                                    <p className="text-xs text-zinc-500 mt-2">{storageStats.percentUsed.toFixed(1)}% of {formatBytes(storageStats.quotaBytes)} quota</p>
+                                </>
+                            ) : (
+                                <Loader2 className="w-6 h-6 animate-spin text-zinc-600" />
+                            )}
+                        </div>
+                        <div className="bg-black/20 p-6 rounded-2xl border border-white/5">
+                            <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2 flex items-center gap-2"><Smartphone className="w-4 h-4" /> Require 2FA</h3>
+                            <div className="space-y-2">
+                                {(['Admin', 'User', 'Viewer'] as UserRole[]).map(role => (
+                                    <label key={role} className="flex items-center justify-between text-sm text-zinc-300">
+                                        <span>{role}</span>
+                                        <input type="checkbox" checked={(settings.mfaRequiredRoles || []).includes(role)} onChange={() => handleToggleMfaRole(role)} />
+                                    </label>
+                                ))}
+                            </div>
+                            <p className="text-xs text-zinc-500 mt-2">{users.filter(u => u.mfaVerified).length} of {users.length} users enrolled</p>
+                        </div>
+                        <div className="bg-black/20 p-6 rounded-2xl border border-white/5">
+                            <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2 flex items-center gap-2"><Timer className="w-4 h-4" /> Idle Sign-Out</h3>
+                            <select
+                                value={settings.sessionIdleTimeoutMinutes ?? DEFAULT_IDLE_TIMEOUT_MINUTES}
+                                onChange={e => handleIdleTimeoutChange(Number(e.target.value))}
+                                className="w-full bg-zinc-900 border border-zinc-700 rounded-lg p-2 text-sm text-white"
+                            >
+                                {IDLE_TIMEOUT_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{formatIdleTimeout(minutes)}</option>)}
+                            </select>
+                            <p className="text-xs text-zinc-500 mt-2">Members are signed out after this long without activity.</p>
+                        </div>
                         <div className="bg-black/20 p-6 rounded-2xl border border-white/5">
                             <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2">System Status</h3>
                             <div className="flex items-center gap-2">
@@ -267,6 +407,8 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
                                         <th className="p-4 border-b border-zinc-800">User</th>
                                         <th className="p-4 border-b border-zinc-800">Role</th>
                                         <th className="p-4 border-b border-zinc-800">Status</th>
+                                        <th className="p-4 border-b border-zinc-800">2FA</th>
+                                        <th className="p-4 border-b border-zinc-800">Last Active</th>
                                         <th className="p-4 border-b border-zinc-800 text-right">Actions</th>
                                     </tr>
                                 </thead>
@@ -281,8 +423,23 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
                                                 </div>
                                             </td>
                                             <td className="p-4"><span className="px-2 py-1 bg-zinc-800 rounded text-xs font-bold">{u.role}</span></td>
-                                            <td className="p-4"><span className="text-emerald-400 text-xs">{u.status}</span></td>
+                                            <td className="p-4"><span className={`text-xs ${u.status === 'Suspended' ? 'text-rose-400' : 'text-emerald-400'}`}>{u.status}</span></td>
+                                            <td className="p-4">
+                                                {u.mfaVerified
+                                                    ? <span className="text-emerald-400 text-xs flex items-center gap-1"><ShieldCheck className="w-3 h-3" /> Enrolled</span>
+                                                    : <span className={`text-xs ${(settings.mfaRequiredRoles || []).includes(u.role || 'User') ? 'text-amber-400' : 'text-zinc-600'}`}>{(settings.mfaRequiredRoles || []).includes(u.role || 'User') ? 'At next sign-in' : 'Off'}</span>}
+                                            </td>
+                                            <td className="p-4 text-xs">{formatLastSeen(u.lastActive)}</td>
                                             <td className="p-4 text-right">
+                                                <button onClick={() => setSessionsUser(u)} title="Devices" className="p-2 hover:bg-white/5 rounded text-zinc-400"><Monitor className="w-4 h-4" /></button>
+                                                {u.mfaVerified && (
+                                                    <button onClick={() => handleResetMfa(u)} title="Reset 2FA" className="p-2 hover:bg-amber-500/10 rounded text-amber-400"><Smartphone className="w-4 h-4" /></button>
+                                                )}
+                                                {u.id !== currentUser.id && (
+                                                    <button onClick={() => handleToggleSuspend(u)} title={u.status === 'Suspended' ? 'Reactivate' : 'Suspend'} className={`p-2 rounded ${u.status === 'Suspended' ? 'hover:bg-emerald-500/10 text-emerald-400' : 'hover:bg-amber-500/10 text-amber-400'}`}>
+                                                        {u.status === 'Suspended' ? <Power className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+                                                    </button>
+                                                )}
                                                 {u.id !== currentUser.id && (
                                                     <button onClick={() => handleDeleteUser(u.id!)} className="p-2 hover:bg-rose-500/10 rounded text-rose-400"><Trash2 className="w-4 h-4" /></button>
                                                 )}
@@ -292,10 +449,47 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
                                 </tbody>
                             </table>
                         </div>
+                        {invitations.length > 0 && (
+                            <div className="mt-4 border border-white/5 rounded-xl overflow-hidden">
+                                <div className="bg-zinc-950 px-4 py-3 font-bold uppercase text-xs tracking-wider text-zinc-400 flex items-center gap-2">
+                                    <Mail className="w-3 h-3" /> Pending Invitations ({invitations.length})
+                                </div>
+                                <div className="divide-y divide-zinc-800 bg-black/20">
+                                    {invitations.map(inv => (
+                                        <div key={inv.id} className="flex items-center justify-between px-4 py-3 text-sm">
+                                            <div>
+                                                <div className="text-white font-medium">{inv.name} <span className="text-xs text-zinc-500">{inv.email}</span></div>
+                                                <div className="text-xs text-zinc-500">
+                                                    <span className="px-2 py-0.5 bg-zinc-800 rounded font-bold mr-2">{inv.role}</span>
+                                                    {isInvitationExpired(inv)
+                                                        ? <span className="text-rose-400">Expired</span>
+                                                        : <>Expires {new Date(inv.expiresAt).toLocaleDateString()}</>}
+                                                    {inv.invitedBy && <> · invited by {inv.invitedBy}</>}
+                                                </div>
+                                            </div>
+                                            <div className="flex items-center gap-1">
+                                                <button onClick={() => handleResendInvitation(inv)} title="Resend (new link)" className="p-2 hover:bg-indigo-500/10 rounded text-indigo-400"><Send className="w-4 h-4" /></button>
+                                                <button onClick={() => handleRevokeInvitation(inv)} title="Revoke" className="p-2 hover:bg-rose-500/10 rounded text-rose-400"><Ban className="w-4 h-4" /></button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 )}
 
-                {/* 3. TENANTS TAB (Super Admin Only) */}
+                {/* 3. AUDIT TRAIL TAB */}
+                {activeTab === 'audit' && (
+                    <AuditTrailPanel users={users} modules={MODULES_LIST} />
+                )}
+
+                {/* 4. AI USAGE TAB */}
+                {activeTab === 'ai' && (
+                    <AiUsagePanel currentUser={currentUser} organizations={organizations} modules={MODULES_LIST} onBudgetChange={loadOrganizations} />
+                )}
+
+                {/* 5. TENANTS TAB (Super Admin Only) */}
                 {activeTab === 'tenants' && currentUser.role === 'SuperAdmin' && (
                     <div className="flex flex-col h-full">
                         <div className="flex justify-between mb-4">
@@ -311,7 +505,8 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
                                         <h4 className="font-bold text-white text-lg">{org.name}</h4>
                                         <span className="text-[10px] bg-indigo-500/10 text-indigo-400 px-2 py-1 rounded border border-indigo-500/20">{org.subscriptionStatus}</span>
                                     </div>
-                                    <p className="text-xs text-zinc-500 font-mono mb-4">ID: {org.id}</p>
+                                    <p className="text-xs text-zinc-500 font-mono mb-2">ID: {org.id}</p>
+                                    <p className="text-xs text-zinc-400 mb-4">AI budget: {typeof org.aiMonthlyBudgetUsd === 'number' ? `${formatUsd(org.aiMonthlyBudgetUsd)} / month` : 'No limit'}</p>
                                     <div className="flex items-center gap-2 text-xs text-zinc-400">
                                         <Clock className="w-3 h-3" /> Created: {new Date(org.createdAt).toLocaleDateString()}
                                     </div>
@@ -326,7 +521,7 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
             {isUserModalOpen && (
                 <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
                     <div className="bg-zinc-950 border border-zinc-800 w-full max-w-md rounded-2xl p-6 shadow-2xl">
-                        <h3 className="text-xl font-bold text-white mb-4">Manage User</h3>
+                        <h3 className="text-xl font-bold text-white mb-4">{editingUser ? 'Manage User' : 'Invite User'}</h3>
                         <div className="space-y-4">
                             <input value={formData.name} onChange={e => setFormData({...formData, name: e.target.value})} className="w-full bg-zinc-900 border border-zinc-700 rounded-lg p-3 text-white" placeholder="Full Name" />
                             <input value={formData.email} onChange={e => setFormData({...formData, email: e.target.value})} className="w-full bg-zinc-900 border border-zinc-700 rounded-lg p-3 text-white" placeholder="Email" />
@@ -353,7 +548,7 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
                             <div className="flex gap-2 pt-2">
                                 <button onClick={() => setIsUserModalOpen(false)} className="flex-1 py-3 bg-zinc-800 text-white rounded-xl">Cancel</button>
                                 <button onClick={handleSaveUser} disabled={isSaving} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold">
-                                    {isSaving ? 'Saving...' : 'Save'}
+                                    {isSaving ? 'Saving...' : editingUser ? 'Save' : 'Create Invitation'}
                                 </button>
                             </div>
                         </div>
@@ -361,6 +556,44 @@ export const AdminModule: React.FC<AdminModuleProps> = ({ currentUser, settings,
                 </div>
             )}
 
+            {/* DEVICES MODAL */}
+            {sessionsUser && (
+                <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+                    <div className="bg-zinc-950 border border-zinc-800 w-full max-w-lg rounded-2xl p-6 shadow-2xl">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-xl font-bold text-white">Devices of {sessionsUser.name}</h3>
+                            <button onClick={() => setSessionsUser(null)} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                        </div>
+                        <SessionList
+                            user={sessionsUser}
+                            currentSessionId={sessionsUser.id === currentUser.id ? storageService.getCurrentSessionId() : null}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {/* INVITATION LINK MODAL */}
+            {inviteLinkResult && (
+                <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+                    <div className="bg-zinc-950 border border-zinc-800 w-full max-w-md rounded-2xl p-6 shadow-2xl">
+                        <h3 className="text-xl font-bold text-white mb-2">Invitation Ready</h3>
+                        <p className="text-sm text-zinc-400 mb-4">
+                            Send this link to <span className="text-white">{inviteLinkResult.invitation.email}</span>. It can be used once and expires on {new Date(inviteLinkResult.invitation.expiresAt).toLocaleDateString()}. It won't be shown again.
+                        </p>
+                        <div className="bg-zinc-900 border border-zinc-700 rounded-lg p-3 text-xs text-zinc-300 font-mono break-all select-all">{inviteLinkResult.link}</div>
+                        <div className="flex gap-2 pt-4">
+                            <button onClick={handleCopyInviteLink} className="flex-1 py-3 bg-zinc-800 text-white rounded-xl flex items-center justify-center gap-2">
+                                {linkCopied ? <CheckCircle2 className="w-4 h-4" /> : <Globe className="w-4 h-4" />} {linkCopied ? 'Copied' : 'Copy Link'}
+                            </button>
+                            <a href={inviteMailto(inviteLinkResult.invitation, inviteLinkResult.link)} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold flex items-center justify-center gap-2">
+                                <Mail className="w-4 h-4" /> Email
+                            </a>
+                        </div>
+                        <button onClick={() => setInviteLinkResult(null)} className="w-full mt-2 py-2 text-sm text-zinc-500 hover:text-white">Done</button>
+                    </div>
+                </div>
+            )}
+
             {/* CREATE TENANT MODAL */}
             {showOrgModal && (
                 <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AiUsageDay, Organization, User, ViewState } from '../types';
+import { storageService } from '../services/storageService';
+import { summarizeAiUsage, buildAiBudgetStatus, usageMonthKey, formatUsd } from '../services/aiUsage';
+import { Loader2, RefreshCw, Save, Sparkles, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+
+interface AiUsagePanelProps {
+    currentUser: User;
+    organizations: Organization[]; // SuperAdmins pick any tenant; Admins see their own org
+    modules: { id: ViewState; label: string }[];
+    onBudgetChange: () => void;
+}
+
+const formatTokens = (tokens: number) =>
+    tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const averageLatency = (latencyMs: number, calls: number) => calls > 0 ? `${(latencyMs / calls / 1000).toFixed(1)} s` : '—';
+
+export const AiUsagePanel: React.FC<AiUsagePanelProps> = ({ currentUser, organizations, modules, onBudgetChange }) => {
+    const isSuperAdmin = currentUser.role === 'SuperAdmin';
+    const [orgId, setOrgId] = useState(currentUser.organizationId);
+    const [month, setMonth] = useState(usageMonthKey());
+    const [days, setDays] = useState<AiUsageDay[]>([]);
+    const [ownBudgetUsd, setOwnBudgetUsd] = useState<number | null>(null);
+    const [budgetInput, setBudgetInput] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const selectedOrg = organizations.find(o => o.id === orgId);
+    const budgetUsd = isSuperAdmin && selectedOrg ? selectedOrg.aiMonthlyBudgetUsd ?? null : ownBudgetUsd;
+
+    const loadUsage = async () => {
+        setIsLoading(true);
+        try {
+            setDays(await storageService.getAiUsage(month, orgId));
+        } catch (e) {
+            console.error("Failed to load AI usage", e);
+            setDays([]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadUsage();
+    }, [orgId, month]);
+
+    useEffect(() => {
+        if (!isSuperAdmin) storageService.getAiBudgetStatus().then(status => setOwnBudgetUsd(status.budgetUsd));
+    }, [isSuperAdmin]);
+
+    useEffect(() => {
+        setBudgetInput(budgetUsd === null ? '' : String(budgetUsd));
+    }, [budgetUsd, orgId]);
+
+    const summary = useMemo(() => summarizeAiUsage(days), [days]);
+    const budget = buildAiBudgetStatus(month, budgetUsd, summary.total.costUsd);
+    const moduleLabel = (id: ViewState) => modules.find(m => m.id === id)?.label || id;
+
+    const handleSaveBudget = async () => {
+        const value = budgetInput.trim() === '' ? null : Number(budgetInput);
+        if (value !== null && (isNaN(value) || value < 0)) return alert("Enter a budget in USD, or leave it empty for no limit.");
+        setIsSaving(true);
+        try {
+            await storageService.setAiMonthlyBudget(orgId, value);
+            onBudgetChange();
+        } catch (e: any) {
+            alert("Failed to save the budget: " + e.message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full overflow-y-auto custom-scrollbar">
+            <div className="flex flex-wrap items-end gap-3 mb-6">
+                {isSuperAdmin && organizations.length > 0 && (
+                    <div>
+                        <label className="block text-[10px] text-zinc-500 font-bold uppercase mb-1">Organization</label>
+                        <select value={orgId} onChange={e => setOrgId(e.target.value)} className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white">
+                            {organizations.map(org => <option key={org.id} value={org.id}>{org.name}</option>)}
+                        </select>
+                    </div>
+                )}
+                <div>
+                    <label className="block text-[10px] text-zinc-500 font-bold uppercase mb-1">Month</label>
+                    <input type="month" value={month} onChange={e => e.target.value && setMonth(e.target.value)} className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white" />
+                </div>
+                <button onClick={loadUsage} disabled={isLoading} className="flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg text-sm font-bold">
+                    {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />} Refresh
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                <div className="bg-black/20 p-5 rounded-2xl border border-white/5">
+                    <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2 flex items-center gap-2"><Sparkles className="w-4 h-4" /> Estimated Spend</h3>
+                    <p className="text-3xl font-bold text-white">{formatUsd(summary.total.costUsd)}</p>
+                    {budget.budgetUsd !== null ? (
+                        <>
+                            <div className="w-full h-2 bg-white/5 rounded-full overflow-hidden mt-3">
+                                <div className={`h-full rounded-full ${budget.exceeded ? 'bg-rose-500' : budget.nearLimit ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(budget.percentUsed, 100)}%` }} />
+                            </div>
+                            <p className="text-xs text-zinc-500 mt-2">{budget.percentUsed.toFixed(0)}% of {formatUsd(budget.budgetUsd)} budget</p>
+                        </>
+                    ) : (
+                        <p className="text-xs text-zinc-500 mt-2">No monthly budget</p>
+                    )}
+                </div>
+                <div className="bg-black/20 p-5 rounded-2xl border border-white/5">
+                    <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2">Calls</h3>
+                    <p className="text-3xl font-bold text-white">{summary.total.calls}</p>
+                    <p className="text-xs text-zinc-500 mt-2">Avg. latency {averageLatency(summary.total.latencyMs, summary.total.calls)}</p>
+                </div>
+                <div className="bg-black/20 p-5 rounded-2xl border border-white/5">
+                    <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2">Tokens</h3>
+                    <p className="text-3xl font-bold text-white">{formatTokens(summary.total.inputTokens + summary.total.outputTokens)}</p>
+                    <p className="text-xs text-zinc-500 mt-2">{formatTokens(summary.total.inputTokens)} in · {formatTokens(summary.total.outputTokens)} out</p>
+                </div>
+                <div className="bg-black/20 p-5 rounded-2xl border border-white/5">
+                    <h3 className="text-zinc-400 text-sm font-bold uppercase mb-2">Monthly Budget (USD)</h3>
+                    {isSuperAdmin ? (
+                        <div className="flex gap-2">
+                            <input type="number" min="0" step="1" value={budgetInput} onChange={e => setBudgetInput(e.target.value)} placeholder="No limit" className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded-lg p-2 text-sm text-white" />
+                            <button onClick={handleSaveBudget} disabled={isSaving} title="Save budget" className="px-3 bg-amber-600 hover:bg-amber-500 text-white rounded-lg">
+                                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                            </button>
+                        </div>
+                    ) : (
+                        <p className="text-3xl font-bold text-white">{budget.budgetUsd !== null ? formatUsd(budget.budgetUsd) : '—'}</p>
+                    )}
+                    <p className="text-xs text-zinc-500 mt-2">Past the budget, AI extraction stops and uploads are entered by hand.</p>
+                </div>
+            </div>
+
+            {budget.exceeded && month === usageMonthKey() && (
+                <div className="mb-6 flex items-center gap-2 text-sm text-rose-300 bg-rose-500/10 border border-rose-500/20 rounded-xl px-4 py-3">
+                    <AlertTriangle className="w-4 h-4 shrink-0" /> The monthly AI budget is spent. AI extraction is paused until next month or until the budget is raised.
+                </div>
+            )}
+
+            <div className="bg-black/20 p-5 rounded-2xl border border-white/5 mb-6 h-64">
+                <h3 className="text-zinc-400 text-sm font-bold uppercase mb-4">Spend per Day</h3>
+                {summary.byDay.length === 0 ? (
+                    <p className="text-sm text-zinc-600 text-center py-12">{isLoading ? 'Loading...' : 'No AI calls this month.'}</p>
+                ) : (
+                    <ResponsiveContainer width="100%" height="85%">
+                        <BarChart data={summary.byDay}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                            <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(8)} stroke="#71717a" fontSize={10} />
+                            <YAxis stroke="#71717a" fontSize={10} tickFormatter={(value: number) => `$${value.toFixed(2)}`} />
+                            <Tooltip contentStyle={{ background: '#09090b', border: '1px solid #27272a' }} formatter={(value: number) => formatUsd(value)} />
+                            <Bar dataKey="costUsd" name="Spend" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {[
+                    { title: 'By Module', rows: summary.byModule.map(row => ({ key: row.module, label: moduleLabel(row.module), ...row })) },
+                    { title: 'By Model', rows: summary.byModel.map(row => ({ key: row.model, label: row.model, ...row })) }
+                ].map(table => (
+                    <div key={table.title} className="border border-white/5 rounded-xl overflow-hidden">
+                        <table className="w-full text-left text-sm text-zinc-400">
+                            <thead className="bg-zinc-950 font-bold uppercase text-xs tracking-wider">
+                                <tr>
+                                    <th className="p-3 border-b border-zinc-800">{table.title}</th>
+                                    <th className="p-3 border-b border-zinc-800 text-right">Calls</th>
+                                    <th className="p-3 border-b border-zinc-800 text-right">Tokens In / Out</th>
+                                    <th className="p-3 border-b border-zinc-800 text-right">Avg. Latency</th>
+                                    <th className="p-3 border-b border-zinc-800 text-right">Cost</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-zinc-800 bg-black/20">
+                                {table.rows.length === 0 && (
+                                    <tr><td colSpan={5} className="p-4 text-center text-zinc-600">No usage</td></tr>
+                                )}
+                                {table.rows.map(row => (
+                                    <tr key={row.key}>
+                                        <td className="p-3 text-white">{row.label}</td>
+                                        <td className="p-3 text-right font-mono">{row.calls}</td>
+                                        <td className="p-3 text-right font-mono">{formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}</td>
+                                        <td className="p-3 text-right font-mono">{averageLatency(row.latencyMs, row.calls)}</td>
+                                        <td className="p-3 text-right font-mono text-white">{formatUsd(row.costUsd)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
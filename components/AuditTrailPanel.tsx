@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { ActivityLogEntry, ActivityQuery, User, ViewState } from '../types';
+import { storageService } from '../services/storageService';
+import { Search, Loader2, ChevronDown, ChevronRight, History } from 'lucide-react';
+
+interface AuditTrailPanelProps {
+    users: User[];
+    modules: { id: ViewState; label: string }[];
+}
+
+const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === '') return '—';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const AuditTrailPanel: React.FC<AuditTrailPanelProps> = ({ users, modules }) => {
+    const [filter, setFilter] = useState<ActivityQuery>({ limit: 200 });
+    const [entries, setEntries] = useState<ActivityLogEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const runQuery = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setEntries(await storageService.queryActivity(filter));
+        } catch (e: any) {
+            setEntries([]);
+            setError(`Failed to load the audit trail: ${e.message}`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        runQuery();
+    }, []);
+
+    const userLabel = (entry: ActivityLogEntry) =>
+        users.find(u => u.id === entry.userId)?.name || entry.userEmail || entry.userId || 'System';
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex flex-wrap items-end gap-3 mb-4">
+                <div>
+                    <label className="block text-[10px] text-zinc-500 font-bold uppercase mb-1">Module</label>
+                    <select value={filter.tool || ''} onChange={e => setFilter({ ...filter, tool: (e.target.value || undefined) as ViewState | undefined })} className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white">
+                        <option value="">All Modules</option>
+                        {modules.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-[10px] text-zinc-500 font-bold uppercase mb-1">User</label>
+                    <select value={filter.userId || ''} onChange={e => setFilter({ ...filter, userId: e.target.value || undefined })} className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white">
+                        <option value="">All Users</option>
+                        {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-[10px] text-zinc-500 font-bold uppercase mb-1">From</label>
+                    <input type="date" value={filter.from || ''} onChange={e => setFilter({ ...filter, from: e.target.value || undefined })} className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white" />
+                </div>
+                <div>
+                    <label className="block text-[10px] text-zinc-500 font-bold uppercase mb-1">To</label>
+                    <input type="date" value={filter.to || ''} onChange={e => setFilter({ ...filter, to: e.target.value || undefined })} className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white" />
+                </div>
+                <button onClick={runQuery} disabled={isLoading} className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-sm font-bold">
+                    {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />} Search
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-auto custom-scrollbar border border-white/5 rounded-xl">
+                <table className="w-full text-left text-sm text-zinc-400">
+                    <thead className="bg-zinc-950 sticky top-0 z-10 font-bold uppercase text-xs tracking-wider">
+                        <tr>
+                            <th className="p-3 border-b border-zinc-800 w-8"></th>
+                            <th className="p-3 border-b border-zinc-800">When</th>
+                            <th className="p-3 border-b border-zinc-800">Who</th>
+                            <th className="p-3 border-b border-zinc-800">Module</th>
+                            <th className="p-3 border-b border-zinc-800">Action</th>
+                            <th className="p-3 border-b border-zinc-800">Details</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-zinc-800 bg-black/20">
+                        {entries.map(entry => (
+                            <React.Fragment key={entry.id}>
+                                <tr onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className="hover:bg-white/5 transition-colors cursor-pointer">
+                                    <td className="p-3">
+                                        {entry.changes && entry.changes.length > 0 && (expandedId === entry.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                                    </td>
+                                    <td className="p-3 font-mono text-xs whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                    <td className="p-3 text-white">{userLabel(entry)}</td>
+                                    <td className="p-3 text-xs">{entry.tool}</td>
+                                    <td className="p-3"><span className={`px-2 py-0.5 rounded text-[10px] font-bold ${entry.action === 'DELETE' || entry.action === 'PURGE' ? 'bg-rose-500/10 text-rose-400' : entry.action === 'EDIT' ? 'bg-amber-500/10 text-amber-400' : 'bg-emerald-500/10 text-emerald-400'}`}>{entry.action}</span></td>
+                                    <td className="p-3 text-xs">{entry.details}{entry.recordId && <span className="text-zinc-600 font-mono ml-2">#{entry.recordId.slice(0, 8)}</span>}</td>
+                                </tr>
+                                {expandedId === entry.id && entry.changes && entry.changes.length > 0 && (
+                                    <tr className="bg-zinc-950/60">
+                                        <td></td>
+                                        <td colSpan={5} className="p-3">
+                                            <div className="grid grid-cols-[140px_1fr_1fr] gap-x-4 gap-y-1 text-xs font-mono">
+                                                <span className="text-zinc-600 uppercase">Field</span>
+                                                <span className="text-zinc-600 uppercase">Before</span>
+                                                <span className="text-zinc-600 uppercase">After</span>
+                                                {entry.changes.map(change => (
+                                                    <React.Fragment key={change.field}>
+                                                        <span className="text-zinc-300">{change.field}</span>
+                                                        <span className="text-rose-300/80 break-all">{formatValue(change.before)}</span>
+                                                        <span className="text-emerald-300/80 break-all">{formatValue(change.after)}</span>
+                                                    </React.Fragment>
+                                                ))}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+                {error && (
+                    <div className="m-3 p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-sm text-rose-300">{error}</div>
+                )}
+                {!isLoading && !error && entries.length === 0 && (
+                    <div className="flex flex-col items-center justify-center py-16 text-zinc-600 gap-2">
+                        <History className="w-8 h-8" />
+                        <span className="text-sm">No activity matches these filters.</span>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
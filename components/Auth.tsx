@@ -1,23 +1,28 @@
 
-import React, { useState } from 'react';
-import { User, Organization } from '../types';
+import React, { useState, useEffect } from 'react';
+import { User, Organization, Invitation } from '../types';
 import { auth, db } from '../src/firebaseConfig';
 import { 
     signInWithEmailAndPassword, 
     createUserWithEmailAndPassword, 
     sendPasswordResetEmail, 
     updateProfile,
+    signOut,
     User as FirebaseUser 
 } from "firebase/auth";
 import { doc, getDoc, setDoc } from "firebase/firestore";
-import { Lock, Mail, ArrowRight, ShieldCheck, User as UserIcon, RefreshCw, History, AlertTriangle, Building2 } from 'lucide-react';
+import { Lock, Mail, ArrowRight, ShieldCheck, User as UserIcon, RefreshCw, History, AlertTriangle, Building2, KeyRound } from 'lucide-react';
+import { storageService } from '../services/storageService';
+import { MfaEnrollment } from './MfaEnrollment';
+import { inviteTokenFromUrl, clearInviteTokenFromUrl, invitationProblem } from '../services/invitations';
 
 interface AuthProps {
-  onLogin: (user: User) => void;
+  onLogin: (user: User, password?: string) => void | Promise<void>;
+  notice?: string | null; // Why the previous session ended (idle timeout, remote sign-out)
 }
 
-export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
-  const [authMode, setAuthMode] = useState<'login' | 'signup' | 'forgot_password'>('login');
+export const Auth: React.FC<AuthProps> = ({ onLogin, notice }) => {
+  const [authMode, setAuthMode] = useState<'login' | 'signup' | 'forgot_password' | 'mfa_verify' | 'mfa_enroll'>('login');
   
   // Form State
   const [name, setName] = useState('');
@@ -27,6 +32,52 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
+  // Profile that passed the password step and still owes a second factor
+  const [pendingUser, setPendingUser] = useState<User | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  // Invitation from the ?invite= link: sign-up joins that org instead of creating one
+  const [inviteToken] = useState<string | null>(() => inviteTokenFromUrl());
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+
+  useEffect(() => {
+      if (!inviteToken) return;
+      storageService.getInvitation(inviteToken).then(found => {
+          const problem = invitationProblem(found);
+          if (problem) {
+              setError(problem);
+              return;
+          }
+          setInvitation(found);
+          setEmail(found!.email);
+          setName(found!.name);
+          setAuthMode('signup');
+      });
+  }, [inviteToken]);
+
+  // Second factor (if enrolled or required for the role) before entering the app
+  const completeSignIn = async (profile: User) => {
+      let mfaStatus;
+      try {
+          mfaStatus = await storageService.getMfaStatus();
+      } catch (err: any) {
+          // Without the policy the sign-in can't be completed safely
+          await signOut(auth);
+          throw new Error(`Could not check two-factor authentication: ${err.message}`);
+      }
+      if (mfaStatus === 'not-required') {
+          await onLogin(profile, password);
+      } else {
+          setPendingUser(profile);
+          setAuthMode(mfaStatus === 'verify' ? 'mfa_verify' : 'mfa_enroll');
+      }
+  };
+
+  const redeemInvitation = async (): Promise<User> => {
+      const profile = await storageService.acceptInvitation(inviteToken!, name);
+      clearInviteTokenFromUrl();
+      setInvitation(null);
+      return profile;
+  };
 
   const handleAuthSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
@@ -35,7 +86,12 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
       setSuccessMsg(null);
 
       try {
-          if (authMode === 'signup') {
+          if (authMode === 'signup' && invitation) {
+              const userCredential = await createUserWithEmailAndPassword(auth, email, password);
+              await updateProfile(userCredential.user, { displayName: name });
+              await completeSignIn(await redeemInvitation());
+          }
+          else if (authMode === 'signup') {
               if (!companyName) throw new Error("Company name is required for registration.");
 
               const userCredential = await createUserWithEmailAndPassword(auth, email, password);
@@ -48,7 +104,8 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
                   id: orgId,
                   name: companyName,
                   subscriptionStatus: 'Trial',
-                  createdAt: new Date().toISOString()
+                  createdAt: new Date().toISOString(),
+                  ownerId: fbUser.uid
               };
               await setDoc(doc(db, "organizations", orgId), newOrg);
 
@@ -60,12 +117,12 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
                   name: name,
                   mfaVerified: false,
                   role: 'Admin', // First user is Admin
-                  storageProvider: 'GCS',
+                  storageProvider: 'FIREBASE',
                   status: 'Active'
               };
               
               await setDoc(doc(db, "users", fbUser.uid), newUser);
-              onLogin(newUser);
+              await onLogin(newUser, password);
           } 
           else if (authMode === 'login') {
               const userCredential = await signInWithEmailAndPassword(auth, email, password);
@@ -74,7 +131,10 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
               const userDoc = await getDoc(doc(db, "users", fbUser.uid));
               
               if (userDoc.exists()) {
-                  onLogin(userDoc.data() as User);
+                  await completeSignIn(userDoc.data() as User);
+              } else if (invitation) {
+                  // Existing account without a profile (e.g. left another org) joins via the invitation
+                  await completeSignIn(await redeemInvitation());
               } else {
                   setError("User profile corrupted. Contact support.");
               }
@@ -82,13 +142,40 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
       } catch (err: any) {
           console.error(err);
           if (err.code === 'auth/invalid-credential') setError("Invalid email or password.");
-          else if (err.code === 'auth/email-already-in-use') setError("Email already registered.");
+          else if (err.code === 'auth/email-already-in-use') setError(invitation ? "Email already registered. Log in to accept the invitation." : "Email already registered.");
           else if (err.code === 'auth/weak-password') setError("Password should be at least 6 characters.");
           else setError(err.message || "Authentication failed.");
       }
       setIsLoading(false);
   };
 
+  const handleMfaVerify = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!pendingUser) return;
+      setIsLoading(true);
+      setError(null);
+      try {
+          const method = await storageService.verifyMfa(mfaCode);
+          if (method) {
+              await onLogin(pendingUser, password);
+          } else {
+              setError("Invalid or already used code.");
+          }
+      } catch (err: any) {
+          setError(err.message || "Verification failed.");
+      }
+      setIsLoading(false);
+  };
+
+  // Leaving the second-factor step ends the half-finished session
+  const handleMfaCancel = async () => {
+      await signOut(auth);
+      setPendingUser(null);
+      setMfaCode('');
+      setError(null);
+      setAuthMode('login');
+  };
+
   const handleForgotPassword = async (e: React.FormEvent) => {
       e.preventDefault();
       if(!email) return setError("Please enter your email.");
@@ -119,7 +206,35 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
             </div>
 
             <div className="animate-in fade-in slide-in-from-right-4 relative z-10">
-                {authMode === 'forgot_password' ? (
+                {authMode === 'mfa_enroll' && pendingUser ? (
+                    <MfaEnrollment
+                        onEnrolled={() => onLogin({ ...pendingUser, mfaVerified: true }, password)}
+                        onCancel={handleMfaCancel}
+                    />
+                ) : authMode === 'mfa_verify' ? (
+                    <form onSubmit={handleMfaVerify} className="space-y-4">
+                        <div className="text-center mb-4">
+                            <h3 className="text-white font-medium flex items-center justify-center gap-2"><KeyRound className="w-4 h-4 text-indigo-400" /> Two-Factor Authentication</h3>
+                            <p className="text-xs text-zinc-400">Enter the code from your authenticator app, or one of your backup codes.</p>
+                        </div>
+                        <input
+                            autoFocus
+                            autoComplete="one-time-code"
+                            value={mfaCode}
+                            onChange={e => setMfaCode(e.target.value)}
+                            placeholder="123456"
+                            className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2.5 px-4 text-white text-sm text-center tracking-widest font-mono focus:outline-none focus:border-indigo-500"
+                        />
+                        {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+                        <div className="flex gap-2">
+                            <button type="button" onClick={handleMfaCancel} className="w-full py-3 bg-zinc-800 text-zinc-300 rounded-xl text-sm hover:bg-zinc-700">Cancel</button>
+                            <button type="submit" disabled={isLoading || !mfaCode} className="w-full py-3 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-500 disabled:opacity-50">
+                                {isLoading ? <RefreshCw className="w-4 h-4 animate-spin mx-auto"/> : "Verify"}
+                            </button>
+                        </div>
+                        <p className="text-[10px] text-zinc-500 text-center">Lost your phone and your backup codes? An admin can reset two-factor authentication for you.</p>
+                    </form>
+                ) : authMode === 'forgot_password' ? (
                     <form onSubmit={handleForgotPassword} className="space-y-4">
                         <div className="text-center mb-4">
                             <h3 className="text-white font-medium">Reset Password</h3>
@@ -141,6 +256,16 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
                     </form>
                 ) : (
                     <form onSubmit={handleAuthSubmit} className="space-y-4">
+                        {notice && !invitation && authMode === 'login' && (
+                            <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs text-center flex items-center justify-center gap-2">
+                                <History className="w-3 h-3" /> {notice}
+                            </div>
+                        )}
+                        {invitation && (
+                            <div className="p-3 bg-indigo-500/10 border border-indigo-500/20 rounded-lg text-indigo-300 text-xs text-center flex items-center justify-center gap-2">
+                                <Building2 className="w-3 h-3" /> Join {invitation.organizationName || 'your team'} as {invitation.role}
+                            </div>
+                        )}
                         {authMode === 'signup' && (
                             <div className="space-y-4 animate-in slide-in-from-top-2">
                                 <div>
@@ -150,13 +275,15 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
                                         <input type="text" required value={name} onChange={e => setName(e.target.value)} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2.5 pl-10 pr-4 text-white text-sm focus:outline-none focus:border-indigo-500" placeholder="Alex Founder" />
                                     </div>
                                 </div>
-                                <div>
-                                    <label className="block text-xs font-medium text-zinc-400 mb-1">Organization Name</label>
-                                    <div className="relative group">
-                                        <Building2 className="absolute left-3 top-2.5 w-4 h-4 text-zinc-500" />
-                                        <input type="text" required value={companyName} onChange={e => setCompanyName(e.target.value)} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2.5 pl-10 pr-4 text-white text-sm focus:outline-none focus:border-indigo-500" placeholder="Acme Inc." />
+                                {!invitation && (
+                                    <div>
+                                        <label className="block text-xs font-medium text-zinc-400 mb-1">Organization Name</label>
+                                        <div className="relative group">
+                                            <Building2 className="absolute left-3 top-2.5 w-4 h-4 text-zinc-500" />
+                                            <input type="text" required value={companyName} onChange={e => setCompanyName(e.target.value)} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2.5 pl-10 pr-4 text-white text-sm focus:outline-none focus:border-indigo-500" placeholder="Acme Inc." />
+                                        </div>
                                     </div>
-                                </div>
+                                )}
                             </div>
                         )}
                         
@@ -164,7 +291,7 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
                             <label className="block text-xs font-medium text-zinc-400 mb-1">Email Address</label>
                             <div className="relative group">
                                 <Mail className="absolute left-3 top-2.5 w-4 h-4 text-zinc-500" />
-                                <input type="email" required value={email} onChange={e => setEmail(e.target.value)} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2.5 pl-10 pr-4 text-white text-sm focus:outline-none focus:border-indigo-500" placeholder="name@company.com" />
+                                <input type="email" required readOnly={!!invitation} value={email} onChange={e => setEmail(e.target.value)} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2.5 pl-10 pr-4 text-white text-sm focus:outline-none focus:border-indigo-500 read-only:text-zinc-400" placeholder="name@company.com" />
                             </div>
                         </div>
 
@@ -188,16 +315,18 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
                         )}
 
                         <button type="submit" disabled={isLoading} className="w-full font-medium py-3 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg bg-indigo-600 hover:bg-indigo-500 text-white shadow-indigo-600/20">
-                            {isLoading ? <RefreshCw className="w-4 h-4 animate-spin"/> : authMode === 'signup' ? <>Start Free Trial <ArrowRight className="w-4 h-4" /></> : <>Sign In <ArrowRight className="w-4 h-4" /></>}
+                            {isLoading ? <RefreshCw className="w-4 h-4 animate-spin"/> : authMode === 'signup' ? <>{invitation ? 'Join Organization' : 'Start Free Trial'} <ArrowRight className="w-4 h-4" /></> : <>Sign In <ArrowRight className="w-4 h-4" /></>}
                         </button>
                     </form>
                 )}
 
-                <div className="mt-6 text-center">
-                    <button onClick={() => { setAuthMode(authMode === 'login' ? 'signup' : 'login'); setError(null); }} className="text-xs text-zinc-500 hover:text-white transition-colors">
-                        {authMode === 'login' ? "New Organization? Create Account" : "Already registered? Log In"}
-                    </button>
-                </div>
+                {!pendingUser && (
+                    <div className="mt-6 text-center">
+                        <button onClick={() => { setAuthMode(authMode === 'login' ? 'signup' : 'login'); setError(null); }} className="text-xs text-zinc-500 hover:text-white transition-colors">
+                            {authMode === 'login' ? "New Organization? Create Account" : "Already registered? Log In"}
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     </div>
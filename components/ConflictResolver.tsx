@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RecordConflict } from '../types';
+import { storageService } from '../services/storageService';
+import { GitMerge, Loader2, User, Users } from 'lucide-react';
+
+// Service-managed fields are never offered for field-level merging
+const HIDDEN_FIELDS = ['lastModified', 'modifiedBy', '_createdAt', '_rev'];
+
+const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'string' && value.startsWith('data:')) return '[inline file]';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const ConflictResolver: React.FC = () => {
+    const [conflicts, setConflicts] = useState<RecordConflict[]>([]);
+    const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => storageService.subscribeConflicts(setConflicts), []);
+
+    const conflict = conflicts[0];
+
+    const differingFields = useMemo(() => {
+        if (!conflict || !conflict.mine || !conflict.theirs) return [];
+        const fields = new Set([...Object.keys(conflict.mine), ...Object.keys(conflict.theirs)]);
+        return Array.from(fields)
+            .filter(f => !HIDDEN_FIELDS.includes(f))
+            .filter(f => JSON.stringify(conflict.mine[f] ?? null) !== JSON.stringify(conflict.theirs[f] ?? null));
+    }, [conflict]);
+
+    useEffect(() => {
+        setChoices(Object.fromEntries(differingFields.map(f => [f, 'mine' as const])));
+    }, [differingFields]);
+
+    if (!conflict) return null;
+
+    const resolve = async (resolution: any | null) => {
+        setIsSaving(true);
+        try {
+            await storageService.resolveConflict(conflict.id, resolution);
+        } catch (e: any) {
+            alert(`Failed to resolve conflict: ${e.message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const applyFieldSelection = () => {
+        const merged = { ...conflict.theirs };
+        differingFields.forEach(f => {
+            if (choices[f] === 'mine') merged[f] = conflict.mine[f];
+        });
+        resolve(merged);
+    };
+
+    const label = conflict.collection.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in">
+            <div className="bg-zinc-950 border border-amber-500/30 w-full max-w-3xl rounded-2xl p-6 shadow-2xl max-h-[90vh] flex flex-col">
+                <div className="flex items-center gap-3 mb-2">
+                    <div className="p-2 bg-amber-500/10 rounded-lg border border-amber-500/20">
+                        <GitMerge className="w-5 h-5 text-amber-400" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-white">Edit Conflict</h3>
+                        <p className="text-xs text-zinc-500">
+                            A {label} record was changed by {conflict.theirsModifiedBy || 'another user'} while you were editing it.
+                            {conflicts.length > 1 && ` (${conflicts.length - 1} more waiting)`}
+                        </p>
+                    </div>
+                </div>
+
+                {!conflict.theirs && <p className="text-sm text-rose-300 bg-rose-500/10 border border-rose-500/20 rounded-lg p-3 my-4">The other user deleted this record.</p>}
+                {!conflict.mine && <p className="text-sm text-rose-300 bg-rose-500/10 border border-rose-500/20 rounded-lg p-3 my-4">You deleted this record, but it was edited in the meantime.</p>}
+
+                {differingFields.length > 0 && (
+                    <div className="flex-1 overflow-auto custom-scrollbar border border-white/5 rounded-xl my-4">
+                        <table className="w-full text-left text-xs text-zinc-400">
+                            <thead className="bg-zinc-900 sticky top-0 uppercase text-[10px] tracking-wider">
+                                <tr>
+                                    <th className="p-3">Field</th>
+                                    <th className="p-3"><span className="flex items-center gap-1"><Users className="w-3 h-3" /> Theirs</span></th>
+                                    <th className="p-3"><span className="flex items-center gap-1"><User className="w-3 h-3" /> Mine</span></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-zinc-800">
+                                {differingFields.map(f => (
+                                    <tr key={f}>
+                                        <td className="p-3 text-zinc-300 font-mono">{f}</td>
+                                        {(['theirs', 'mine'] as const).map(side => (
+                                            <td key={side} className="p-3">
+                                                <button
+                                                    onClick={() => setChoices(prev => ({ ...prev, [f]: side }))}
+                                                    className={`w-full text-left p-2 rounded border break-all ${choices[f] === side ? 'bg-indigo-900/30 border-indigo-500 text-indigo-100' : 'bg-zinc-900 border-zinc-800 text-zinc-500'}`}
+                                                >
+                                                    {formatValue(conflict[side][f])}
+                                                </button>
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <div className="flex gap-2 pt-2">
+                    <button onClick={() => resolve(conflict.theirs)} disabled={isSaving} className="flex-1 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl text-sm">Keep Theirs</button>
+                    <button onClick={() => resolve(conflict.mine)} disabled={isSaving} className="flex-1 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl text-sm">Keep Mine</button>
+                    {differingFields.length > 0 && (
+                        <button onClick={applyFieldSelection} disabled={isSaving} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-sm font-bold flex items-center justify-center gap-2">
+                            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />} Merge Selected
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
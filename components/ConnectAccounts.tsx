@@ -1,10 +1,21 @@
 
-import React, { useState, useRef } from 'react';
-import { IntegrationAccount, IntegrationType, ApiConfig, ReceiptData, ActionItem, CalendarEvent, AppSettings } from '../types';
-import { Mail, RefreshCw, Plus, ShieldCheck, HardDrive, FolderOpen, UploadCloud, X, Check, Lock, Terminal, Settings, Download, Trash2, Database, Save, CloudLightning, Globe, DollarSign, Languages, FileText, Image as ImageIcon, LayoutTemplate, Loader2, Building2, Stamp, CreditCard, Server, Upload } from 'lucide-react';
-import { securityService } from '../services/securityService';
-import { storageService } from '../services/storageService';
+import React, { useState, useRef, useEffect } from 'react';
+import { IntegrationAccount, IntegrationType, ApiConfig, ReceiptData, ActionItem, CalendarEvent, AppSettings, ImportMode, ImportReport, StorageProviderType, VaultConfig, VaultMember, PiiCategory, RedactionLogEntry, AiProviderType } from '../types';
+import { Mail, RefreshCw, Plus, ShieldCheck, HardDrive, FolderOpen, UploadCloud, X, Check, Lock, Terminal, Settings, Download, Trash2, Database, Save, CloudLightning, Globe, DollarSign, Languages, FileText, Image as ImageIcon, LayoutTemplate, Loader2, Building2, Stamp, CreditCard, Server, Upload, Undo2, History, KeyRound, Smartphone, Monitor, EyeOff, Cpu } from 'lucide-react';
+import { isEncryptedValue } from '../services/securityService';
+import { storageService, MODULE_KEYS } from '../services/storageService';
+import { trashRetentionDays, isBookkeepingModule, LEGAL_RETENTION_YEARS } from '../services/retentionPolicy';
+import { ATTACHMENT_GC_GRACE_DAYS } from '../services/attachmentStore';
+import { formatBytes } from '../services/storageQuota';
+import { currentSchemaVersion } from '../services/schemaMigrations';
+import { PII_CATEGORIES, DEFAULT_PII_REDACTION, getRedactionLog, clearRedactionLog } from '../services/piiRedaction';
+import { aiProviderFor, getAiFixtures, loadAiFixtures, clearAiFixtures, getRecordedAiFixtures } from '../services/aiProviders';
+import { AI_CONCURRENCY_OPTIONS, DEFAULT_AI_CONCURRENCY } from '../services/aiJobQueue';
+import { countAiCacheEntries, clearAiResultCache } from '../services/aiResultCache';
 import { auth } from '../src/firebaseConfig';
+import { MfaEnrollment } from './MfaEnrollment';
+import { SessionList } from './SessionList';
+import { PromptEvalPanel } from './PromptEvalPanel';
 
 interface ConnectAccountsProps {
   accounts: IntegrationAccount[];
@@ -26,6 +37,34 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const importRef = useRef<HTMLInputElement>(null);
+
+  // Import Wizard State (dry-run report before anything is written)
+  const [pendingImport, setPendingImport] = useState<File | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [restoreKey, setRestoreKey] = useState(MODULE_KEYS[0]);
+  const [restoreDate, setRestoreDate] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isCollecting, setIsCollecting] = useState(false);
+  const [pendingMigrations, setPendingMigrations] = useState<Record<string, number> | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [vault, setVault] = useState<VaultConfig | null>(null);
+  const [vaultMembers, setVaultMembers] = useState<VaultMember[]>([]);
+  const [vaultPassword, setVaultPassword] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [passwordForm, setPasswordForm] = useState({ current: '', next: '', confirm: '' });
+  const [isVaultWorking, setIsVaultWorking] = useState(false);
+
+  const refreshVault = async () => {
+      const loaded = await storageService.loadVault();
+      setVault(loaded);
+      setVaultMembers(loaded ? await storageService.listVaultMembers() : []);
+  };
+
+  useEffect(() => {
+      refreshVault();
+  }, []);
   
   const [isSavingSettings, setIsSavingSettings] = useState(false);
   
@@ -40,6 +79,8 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
   // I will assume for this implementation that the parent handles the permission or I can check localStorage.
   const storedUser = localStorage.getItem('founder_os_user');
   const isAdmin = storedUser ? JSON.parse(storedUser).role === 'Admin' : false;
+  const [mfaEnrolled, setMfaEnrolled] = useState<boolean>(storedUser ? !!JSON.parse(storedUser).mfaVerified : false);
+  const [showMfaSetup, setShowMfaSetup] = useState(false);
 
   // Form State
   const [newAccountType, setNewAccountType] = useState<IntegrationType>('GDrive');
@@ -66,12 +107,10 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
   const handleSaveNewAccount = async () => {
       if (!newAccountName) return;
       
-      let encryptedApiKey = undefined;
-      if (apiKey) encryptedApiKey = await securityService.encrypt(apiKey);
-
+      // The key is encrypted by the storage layer once the org vault is set up
       const apiConfig: ApiConfig = {
           clientId: clientId || undefined,
-          apiKey: encryptedApiKey,
+          apiKey: apiKey || undefined,
           scope: newAccountType === 'Gmail' 
             ? 'https://www.googleapis.com/auth/gmail.readonly' 
             : 'https://www.googleapis.com/auth/drive.readonly'
@@ -97,15 +136,15 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
   const handleExportData = async () => {
       setIsExporting(true);
       try {
-          const exportJson = await storageService.exportAllData();
-          const blob = new Blob([exportJson], { type: 'application/json' });
-          const url = URL.createObjectURL(blob);
+          const archive = await storageService.exportAllData();
+          const url = URL.createObjectURL(archive);
           const link = document.createElement('a');
           link.href = url;
-          link.download = `FounderOS_Global_Backup_${new Date().toISOString().split('T')[0]}.json`;
+          link.download = `FounderOS_Global_Backup_${new Date().toISOString().split('T')[0]}.zip`;
           document.body.appendChild(link);
           link.click();
           document.body.removeChild(link);
+          URL.revokeObjectURL(url);
       } catch (e) {
           alert("Export failed.");
           console.error(e);
@@ -114,32 +153,253 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
       }
   };
 
+  const runImportDryRun = async (file: File, mode: ImportMode) => {
+      setIsImporting(true);
+      try {
+          setImportReport(await storageService.importAllData(file, { mode, dryRun: true }));
+      } catch (e: any) {
+          alert(`Import failed: ${e.message || 'Invalid backup archive.'}`);
+          closeImportWizard();
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
   const handleImportData = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
+      if (importRef.current) importRef.current.value = '';
       if (!file) return;
-      
-      if (confirm("Warning: Importing a backup will overwrite existing local data. Continue?")) {
-          try {
-              const text = await file.text();
-              const success = await storageService.importAllData(text);
-              if (success) {
-                  alert("Import successful. Reloading...");
-                  window.location.reload();
-              } else {
-                  alert("Import failed. Invalid file structure.");
-              }
-          } catch(e) {
-              alert("Error reading file.");
+      setPendingImport(file);
+      setImportReport(null);
+      await runImportDryRun(file, importMode);
+  };
+
+  const handleChangeImportMode = (mode: ImportMode) => {
+      setImportMode(mode);
+      if (pendingImport) runImportDryRun(pendingImport, mode);
+  };
+
+  const handleConfirmImport = async () => {
+      if (!pendingImport) return;
+      if (importMode === 'replace' && !confirm("Replace mode deletes current module data before restoring. Continue?")) return;
+      setIsImporting(true);
+      try {
+          await storageService.importAllData(pendingImport, { mode: importMode });
+          alert("Import successful. Reloading...");
+          window.location.reload();
+      } catch (e: any) {
+          alert(`Import failed: ${e.message || 'Unknown error'}`);
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
+  const handleUndoBulkOperation = async () => {
+      setIsRestoring(true);
+      try {
+          const operation = await storageService.undoLastBulkOperation();
+          alert(operation ? `Undid "${operation.label}" (${operation.recordCount} records).` : "Nothing to undo.");
+      } catch (e: any) {
+          alert(`Undo failed: ${e.message || 'Unknown error'}`);
+      } finally {
+          setIsRestoring(false);
+      }
+  };
+
+  const handleRestoreToDate = async () => {
+      if (!restoreDate) return;
+      if (!confirm(`Rewind ${restoreKey.replace('founder_os_', '')} to how it looked at the end of ${restoreDate}? Newer changes to that module are reverted (the restore itself can be undone).`)) return;
+      setIsRestoring(true);
+      try {
+          const result = await storageService.restoreModuleToDate(restoreKey, restoreDate);
+          if (result.restored === 0 && result.conflicts === 0) {
+              alert("Module already matches that date.");
+              return;
           }
+          alert(`Restored ${result.restored} records${result.conflicts > 0 ? `, ${result.conflicts} need manual resolution` : ''}. Reloading...`);
+          window.location.reload();
+      } catch (e: any) {
+          alert(`Restore failed: ${e.message || 'Unknown error'}`);
+      } finally {
+          setIsRestoring(false);
       }
-      if (importRef.current) importRef.current.value = '';
   };
 
-  const handleUpdateGCPConfig = (field: keyof NonNullable<AppSettings['gcpConfig']>, value: any) => {
-      if (!isAdmin) return alert("Only Admins can change cloud config.");
-      const currentConfig = settings.gcpConfig || { bucketName: '', projectId: '', autoSync: false };
-      const newConfig = { ...currentConfig, [field]: value };
-      updateSettingsWrapper({ ...settings, gcpConfig: newConfig });
+  const handleCollectAttachments = async () => {
+      setIsCollecting(true);
+      try {
+          const result = await storageService.collectOrphanedAttachments();
+          alert(result.files > 0 ? `Deleted ${result.files} orphaned files (${formatBytes(result.bytes)} freed).` : "No orphaned files to delete.");
+      } catch (e: any) {
+          alert(`Cleanup failed: ${e.message || 'Unknown error'}`);
+      } finally {
+          setIsCollecting(false);
+      }
+  };
+
+  const handleCheckMigrations = async () => {
+      setIsMigrating(true);
+      try {
+          setPendingMigrations(await storageService.getPendingMigrations());
+      } catch (e: any) {
+          alert(`Schema check failed: ${e.message || 'Unknown error'}`);
+      } finally {
+          setIsMigrating(false);
+      }
+  };
+
+  const handleMigrateRecords = async () => {
+      if (!confirm("Rewrite all outdated records at the current schema? Each module's upgrade can be undone as a bulk operation.")) return;
+      setIsMigrating(true);
+      try {
+          const result = await storageService.migrateAllRecords();
+          alert(`Upgraded ${result.migrated} records${result.conflicts > 0 ? `, ${result.conflicts} need manual resolution` : ''}${result.failed > 0 ? `, ${result.failed} failed (see console)` : ''}.`);
+          setPendingMigrations(await storageService.getPendingMigrations());
+      } catch (e: any) {
+          alert(`Upgrade failed: ${e.message || 'Unknown error'}`);
+      } finally {
+          setIsMigrating(false);
+      }
+  };
+
+  const runVaultAction = async (action: () => Promise<void>, label: string) => {
+      setIsVaultWorking(true);
+      try {
+          await action();
+          await refreshVault();
+      } catch (e: any) {
+          alert(`${label} failed: ${e.message || 'Unknown error'}`);
+      } finally {
+          setIsVaultWorking(false);
+      }
+  };
+
+  const handleEnableVault = () => {
+      if (!confirm("Enable encryption? Payment details, API keys and contract files are encrypted with an organization key. Members unlock it with their own password once you grant them access. Store the recovery code shown next in a safe place.")) return;
+      runVaultAction(async () => {
+          const result = await storageService.setupVault(vaultPassword);
+          setVaultPassword('');
+          setRecoveryCode(result.recoveryCode);
+          alert(`Encryption enabled: ${result.records} records and ${result.files} files encrypted.`);
+      }, 'Setup');
+  };
+
+  const handleGrantVault = (userId?: string) => runVaultAction(async () => {
+      const granted = await storageService.grantVaultAccess(userId ? [userId] : undefined);
+      if (!userId) alert(granted > 0 ? `Access granted to ${granted} member(s).` : 'All active members already have access.');
+  }, 'Grant');
+
+  const handleRevokeVault = (member: VaultMember) => {
+      if (!confirm(`Revoke vault access for ${member.email || member.id}? Rotate the key afterwards to also protect data they may have copied.`)) return;
+      runVaultAction(() => storageService.revokeVaultAccess(member.id), 'Revoke');
+  };
+
+  const handleRotateVault = () => {
+      if (!confirm("Rotate the encryption key? All encrypted data is re-encrypted with a new key. Members with access keep it; revoked members are locked out for good.")) return;
+      runVaultAction(async () => {
+          const result = await storageService.rotateVaultKey();
+          alert(`Key rotated: ${result.records} records and ${result.files} files re-encrypted.`);
+      }, 'Rotation');
+  };
+
+  const handleNewRecoveryCode = () => {
+      if (!confirm("Generate a new recovery code? The current one stops working.")) return;
+      runVaultAction(async () => setRecoveryCode(await storageService.regenerateRecoveryCode()), 'Recovery code');
+  };
+
+  const handleChangePassword = () => {
+      if (passwordForm.next.length < 8) return alert("Use a password of at least 8 characters.");
+      if (passwordForm.next !== passwordForm.confirm) return alert("Passwords do not match.");
+      runVaultAction(async () => {
+          await storageService.changePassword(passwordForm.current, passwordForm.next);
+          setPasswordForm({ current: '', next: '', confirm: '' });
+          alert("Password changed.");
+      }, 'Password change');
+  };
+
+  const closeImportWizard = () => {
+      setPendingImport(null);
+      setImportReport(null);
+  };
+
+  const handleUpdateStorageProvider = (provider: StorageProviderType) => {
+      if (!isAdmin || provider === (settings.storageProvider || 'FIREBASE')) return;
+      const warning = provider === 'LOCAL'
+          ? "LOCAL keeps module data, settings and the activity log in this browser only (no sync, trash or version history). Org-wide policies and sign-in still go through Firebase. Existing cloud data is not moved. Continue?"
+          : "Existing data is not migrated between backends. Export a backup first if you need to move it. Continue?";
+      if (!confirm(warning)) return;
+      updateSettingsWrapper({ ...settings, storageProvider: provider });
+  };
+
+  const handleUpdateRetention = (key: string, days: number) => {
+      if (!isAdmin || isNaN(days) || days < 0) return;
+      updateSettingsWrapper({ ...settings, trashRetentionDays: { ...(settings.trashRetentionDays || {}), [key]: days } });
+  };
+
+  const piiRedaction = settings.piiRedaction || DEFAULT_PII_REDACTION;
+  const [redactionLog, setRedactionLog] = useState<RedactionLogEntry[]>(() => getRedactionLog());
+
+  const handleToggleRedaction = () => updateSettingsWrapper({ ...settings, piiRedaction: { ...piiRedaction, enabled: !piiRedaction.enabled } });
+
+  const handleToggleRedactionCategory = (category: PiiCategory) => {
+      const categories = piiRedaction.categories.includes(category)
+          ? piiRedaction.categories.filter(c => c !== category)
+          : [...piiRedaction.categories, category];
+      updateSettingsWrapper({ ...settings, piiRedaction: { ...piiRedaction, categories } });
+  };
+
+  const handleClearRedactionLog = () => {
+      clearRedactionLog();
+      setRedactionLog([]);
+  };
+
+  const aiProvider = aiProviderFor(settings);
+  const fixturesRef = useRef<HTMLInputElement>(null);
+  const [fixtureCount, setFixtureCount] = useState(() => getAiFixtures().length);
+
+  const handleUpdateAiProvider = (provider: AiProviderType) => {
+      if (!isAdmin || provider === aiProvider) return;
+      updateSettingsWrapper({ ...settings, aiProvider: provider });
+  };
+
+  // Fixtures are per browser: recorded answers replayed by the offline provider for identical requests
+  const handleLoadFixtures = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const fixtures = JSON.parse(await file.text());
+          loadAiFixtures(fixtures);
+          setFixtureCount(fixtures.length);
+      } catch (err: any) {
+          alert(`Could not load fixtures: ${err.message}`);
+      }
+  };
+
+  const [aiCacheCount, setAiCacheCount] = useState<number | null>(null);
+  useEffect(() => { countAiCacheEntries().then(setAiCacheCount).catch(() => setAiCacheCount(null)); }, []);
+
+  const handleClearAiCache = async () => {
+      await clearAiResultCache();
+      setAiCacheCount(0);
+  };
+
+  const handleClearFixtures = () => {
+      clearAiFixtures();
+      setFixtureCount(0);
+  };
+
+  const handleDownloadRecordedFixtures = () => {
+      const recorded = getRecordedAiFixtures();
+      if (recorded.length === 0) return alert("No Gemini answers recorded in this session yet.");
+      const url = URL.createObjectURL(new Blob([JSON.stringify(recorded, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `FounderOS_AI_Fixtures_${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>, field: 'logoUrl' | 'signatureUrl') => {
@@ -271,53 +531,21 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
           </h3>
           <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 relative">
               {!isAdmin && <div className="absolute inset-0 bg-black/10 z-10 cursor-not-allowed rounded-2xl" />}
-              <div className="flex items-center gap-2 mb-4">
-                  <div className="p-2 bg-indigo-500/10 rounded-lg">
-                      <UploadCloud className="w-5 h-5 text-indigo-400" />
-                  </div>
-                  <div>
-                      <h4 className="text-white font-medium">Google Cloud Storage (GCS)</h4>
-                      <p className="text-xs text-zinc-500">Configure central bucket for data synchronization.</p>
-                  </div>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div>
-                      <label className="block text-xs font-medium text-zinc-500 mb-1">Project ID</label>
-                      <input 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {([
+                      { id: 'FIREBASE', label: 'Firebase', desc: 'Firestore records, Firebase Storage files' },
+                      { id: 'LOCAL', label: 'Local Only', desc: 'Records, files, settings and activity stay in this browser; sign-in still uses Firebase' }
+                  ] as { id: StorageProviderType; label: string; desc: string }[]).map(option => (
+                      <button
+                          key={option.id}
                           disabled={!isAdmin}
-                          type="text"
-                          value={settings.gcpConfig?.projectId || ''}
-                          onChange={(e) => handleUpdateGCPConfig('projectId', e.target.value)}
-                          placeholder="my-gcp-project-id"
-                          className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
-                      />
-                  </div>
-                  <div>
-                      <label className="block text-xs font-medium text-zinc-500 mb-1">Bucket Name</label>
-                      <input 
-                          disabled={!isAdmin}
-                          type="text"
-                          value={settings.gcpConfig?.bucketName || ''}
-                          onChange={(e) => handleUpdateGCPConfig('bucketName', e.target.value)}
-                          placeholder="founder-os-central-storage"
-                          className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
-                      />
-                  </div>
-              </div>
-              
-              <div className="mt-6 flex items-center justify-between border-t border-zinc-800 pt-4">
-                  <div className="flex items-center gap-3">
-                      <div onClick={() => isAdmin && handleUpdateGCPConfig('autoSync', !settings.gcpConfig?.autoSync)} className={`w-10 h-6 rounded-full p-1 cursor-pointer transition-colors ${settings.gcpConfig?.autoSync ? 'bg-indigo-600' : 'bg-zinc-700'} ${!isAdmin ? 'opacity-50 pointer-events-none' : ''}`}>
-                          <div className={`w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${settings.gcpConfig?.autoSync ? 'translate-x-4' : 'translate-x-0'}`} />
-                      </div>
-                      <span className="text-sm text-zinc-300">Enable Cloud Auto-Sync</span>
-                  </div>
-                  {settings.gcpConfig?.autoSync && (
-                      <span className="text-xs text-emerald-400 bg-emerald-500/10 px-2 py-1 rounded border border-emerald-500/20">
-                          Active • Syncing to gs://{settings.gcpConfig.bucketName}
-                      </span>
-                  )}
+                          onClick={() => handleUpdateStorageProvider(option.id)}
+                          className={`p-3 rounded-xl border text-left text-sm transition-colors ${(settings.storageProvider || 'FIREBASE') === option.id ? 'bg-indigo-900/30 border-indigo-500 text-indigo-200' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:border-zinc-700'}`}
+                      >
+                          <div className="font-bold flex items-center gap-2">{option.id === 'LOCAL' ? <HardDrive className="w-4 h-4" /> : <CloudLightning className="w-4 h-4" />} {option.label}</div>
+                          <div className="text-[11px] opacity-70 mt-1">{option.desc}</div>
+                      </button>
+                  ))}
               </div>
           </div>
       </div>
@@ -438,9 +666,9 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
                       <div>
                           <label className="block text-xs font-medium text-zinc-500 mb-1">Bankgiro</label>
                           <input 
-                              disabled={!isAdmin}
+                              disabled={!isAdmin || isEncryptedValue(settings.bankgiro)}
                               type="text"
-                              value={settings.bankgiro || ''}
+                              value={isEncryptedValue(settings.bankgiro) ? '•••••• (vault locked)' : settings.bankgiro || ''}
                               onChange={(e) => updateSettingsWrapper({...settings, bankgiro: e.target.value})}
                               placeholder="123-4567"
                               className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
@@ -449,9 +677,9 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
                       <div>
                           <label className="block text-xs font-medium text-zinc-500 mb-1">PlusGiro</label>
                           <input 
-                              disabled={!isAdmin}
+                              disabled={!isAdmin || isEncryptedValue(settings.plusgiro)}
                               type="text"
-                              value={settings.plusgiro || ''}
+                              value={isEncryptedValue(settings.plusgiro) ? '•••••• (vault locked)' : settings.plusgiro || ''}
                               onChange={(e) => updateSettingsWrapper({...settings, plusgiro: e.target.value})}
                               placeholder="12 34 56-7"
                               className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
@@ -460,9 +688,9 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
                       <div>
                           <label className="block text-xs font-medium text-zinc-500 mb-1">Swish</label>
                           <input 
-                              disabled={!isAdmin}
+                              disabled={!isAdmin || isEncryptedValue(settings.swish)}
                               type="text"
-                              value={settings.swish || ''}
+                              value={isEncryptedValue(settings.swish) ? '•••••• (vault locked)' : settings.swish || ''}
                               onChange={(e) => updateSettingsWrapper({...settings, swish: e.target.value})}
                               placeholder="123 123 12 12"
                               className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
@@ -471,9 +699,9 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
                       <div className="md:col-span-2">
                           <label className="block text-xs font-medium text-zinc-500 mb-1">IBAN</label>
                           <input 
-                              disabled={!isAdmin}
+                              disabled={!isAdmin || isEncryptedValue(settings.iban)}
                               type="text"
-                              value={settings.iban || ''}
+                              value={isEncryptedValue(settings.iban) ? '•••••• (vault locked)' : settings.iban || ''}
                               onChange={(e) => updateSettingsWrapper({...settings, iban: e.target.value})}
                               placeholder="SE00 0000 0000 0000 0000 0000"
                               className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-indigo-500 font-mono disabled:opacity-50"
@@ -603,7 +831,7 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
                             {isExporting ? <RefreshCw className="w-4 h-4 animate-spin"/> : <Download className="w-4 h-4" />} 
                             Download Full System Backup
                         </span>
-                        <span className="text-zinc-500 text-xs group-hover:text-zinc-400">JSON</span>
+                        <span className="text-zinc-500 text-xs group-hover:text-zinc-400">ZIP</span>
                     </button>
                     
                     <button onClick={() => importRef.current?.click()} className="px-4 py-3 bg-zinc-900/30 hover:bg-zinc-900/50 text-indigo-200 border border-indigo-500/30 rounded-xl flex items-center justify-between gap-2 text-sm transition-colors">
@@ -611,15 +839,253 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
                             <Upload className="w-4 h-4" />
                             Import / Restore Backup
                         </span>
-                        <span className="text-indigo-400/70 text-xs">Overwrite All</span>
+                        <span className="text-indigo-400/70 text-xs">Merge / Replace</span>
                     </button>
-                    <input type="file" ref={importRef} className="hidden" accept=".json" onChange={handleImportData} />
+                    <input type="file" ref={importRef} className="hidden" accept=".zip" onChange={handleImportData} />
+                 </div>
+
+                 <div className="pt-4 border-t border-zinc-800">
+                    <h4 className="text-white font-medium mb-1 flex items-center gap-2"><History className="w-4 h-4 text-zinc-400" /> Version History</h4>
+                    <p className="text-sm text-zinc-500 mb-3">Every record change is versioned. Undo the latest bulk change or rewind a module to a previous day.</p>
+                    <button onClick={handleUndoBulkOperation} disabled={isRestoring} className="w-full px-4 py-2 mb-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg flex items-center gap-2 text-sm transition-colors border border-zinc-700 disabled:opacity-50">
+                        {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <Undo2 className="w-4 h-4" />} Undo Last Bulk Operation
+                    </button>
+                    <div className="flex gap-2">
+                        <select value={restoreKey} onChange={e => setRestoreKey(e.target.value)} disabled={!isAdmin} className="flex-1 bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-2 text-sm text-white">
+                            {MODULE_KEYS.map(key => <option key={key} value={key}>{key.replace('founder_os_', '')}</option>)}
+                        </select>
+                        <input type="date" value={restoreDate} max={new Date().toISOString().split('T')[0]} onChange={e => setRestoreDate(e.target.value)} disabled={!isAdmin} className="bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-2 text-sm text-white" />
+                        <button onClick={handleRestoreToDate} disabled={!isAdmin || !restoreDate || isRestoring} className="px-3 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-sm font-bold disabled:opacity-50">Restore</button>
+                    </div>
+                 </div>
+
+                 <div className="pt-4 border-t border-zinc-800">
+                    <h4 className="text-white font-medium mb-1 flex items-center gap-2"><Cpu className="w-4 h-4 text-zinc-400" /> AI Provider</h4>
+                    <p className="text-sm text-zinc-500 mb-3">Offline answers with built-in rules and recorded fixtures; nothing leaves the browser, but scanned documents are not read.</p>
+                    <div className="grid grid-cols-2 gap-2 mb-3">
+                        {([
+                            { id: 'GEMINI', label: 'Gemini', desc: 'Google AI models (needs an API key)' },
+                            { id: 'LOCAL', label: 'Local (offline)', desc: 'Deterministic rules and fixtures' }
+                        ] as { id: AiProviderType; label: string; desc: string }[]).map(option => (
+                            <button
+                                key={option.id}
+                                disabled={!isAdmin}
+                                onClick={() => handleUpdateAiProvider(option.id)}
+                                className={`p-3 rounded-xl border text-left text-sm transition-colors ${aiProvider === option.id ? 'bg-indigo-900/30 border-indigo-500 text-indigo-200' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:border-zinc-700'}`}
+                            >
+                                <div className="font-bold">{option.label}</div>
+                                <div className="text-[11px] opacity-70 mt-1">{option.desc}</div>
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center justify-between gap-2 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs text-zinc-400 mb-3">
+                        Parallel requests in batch uploads
+                        <select
+                            value={settings.aiConcurrency || DEFAULT_AI_CONCURRENCY}
+                            onChange={e => updateSettingsWrapper({ ...settings, aiConcurrency: Number(e.target.value) })}
+                            disabled={!isAdmin}
+                            className="bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-white"
+                        >
+                            {AI_CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </label>
+                    <div className="flex items-center gap-2 text-xs">
+                        <span className="text-zinc-500 flex-1">{fixtureCount} fixture(s) loaded in this browser</span>
+                        <button onClick={() => fixturesRef.current?.click()} className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-white rounded border border-zinc-700 flex items-center gap-1"><Upload className="w-3 h-3" /> Load</button>
+                        {fixtureCount > 0 && <button onClick={handleClearFixtures} className="px-2 py-1 text-zinc-500 hover:text-white">Clear</button>}
+                        {aiProvider === 'GEMINI' && <button onClick={handleDownloadRecordedFixtures} className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-white rounded border border-zinc-700 flex items-center gap-1"><Download className="w-3 h-3" /> Recorded</button>}
+                        <input type="file" ref={fixturesRef} className="hidden" accept=".json" onChange={handleLoadFixtures} />
+                    </div>
+                    <div className="flex items-center gap-2 text-xs mt-2">
+                        <span className="text-zinc-500 flex-1">{aiCacheCount ?? 0} cached extraction(s): re-uploaded receipts, statements and contracts are not sent again while encryption is unlocked</span>
+                        {!!aiCacheCount && <button onClick={handleClearAiCache} className="px-2 py-1 text-zinc-500 hover:text-white">Clear</button>}
+                    </div>
+                    <PromptEvalPanel />
+                 </div>
+
+                 <div className="pt-4 border-t border-zinc-800">
+                    <div className="flex items-center justify-between mb-1">
+                        <h4 className="text-white font-medium flex items-center gap-2"><EyeOff className="w-4 h-4 text-zinc-400" /> AI Privacy</h4>
+                        <label className="flex items-center gap-2 text-xs text-zinc-400">
+                            <input type="checkbox" checked={piiRedaction.enabled} onChange={handleToggleRedaction} disabled={!isAdmin} />
+                            Redact personal data
+                        </label>
+                    </div>
+                    <p className="text-sm text-zinc-500 mb-3">Masked in text sent to the AI model and restored in its answers. Text files (CSV, TXT, JSON) are masked too; scanned images and PDFs can't be, so they are only sent once you agree.</p>
+                    <div className="grid grid-cols-2 gap-2 mb-3">
+                        {PII_CATEGORIES.map(category => (
+                            <label key={category.id} className={`flex items-center gap-2 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs ${piiRedaction.enabled ? 'text-zinc-300' : 'text-zinc-600'}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={piiRedaction.categories.includes(category.id)}
+                                    onChange={() => handleToggleRedactionCategory(category.id)}
+                                    disabled={!isAdmin || !piiRedaction.enabled}
+                                />
+                                {category.label}
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-between mb-1">
+                        <span className="text-xs font-medium text-zinc-400">Recent AI calls (this browser)</span>
+                        {redactionLog.length > 0 && <button onClick={handleClearRedactionLog} className="text-[10px] text-zinc-500 hover:text-white">Clear</button>}
+                    </div>
+                    <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+                        {redactionLog.length === 0 && <p className="text-xs text-zinc-600">No AI calls yet.</p>}
+                        {redactionLog.slice(0, 20).map(entry => {
+                            const masked = Object.entries(entry.counts).map(([category, count]) => `${count} ${category}`).join(', ');
+                            return (
+                                <div key={entry.id} className="flex justify-between gap-2 text-[11px] text-zinc-500">
+                                    <span className="font-mono text-zinc-400 truncate">{entry.operation}</span>
+                                    <span className="text-right">
+                                        {masked || 'nothing masked'}
+                                        {entry.unredactedFiles > 0 && <span className="text-amber-500"> · {entry.unredactedFiles} file sent as-is</span>}
+                                        <span className="text-zinc-600"> · {new Date(entry.createdAt).toLocaleTimeString()}</span>
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
                  </div>
              </div>
              
              <div>
+                 <h4 className="text-white font-medium mb-1">Trash Retention</h4>
+                 <p className="text-sm text-zinc-500 mb-3">Days a deleted record stays restorable before an Admin can purge it from the Trash. Bookkeeping records are always kept {LEGAL_RETENTION_YEARS} years.</p>
+                 <div className="grid grid-cols-2 gap-2 mb-6">
+                     {MODULE_KEYS.map(key => (
+                         <label key={key} className="flex items-center justify-between gap-2 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs text-zinc-400">
+                             <span className="truncate flex items-center gap-1">
+                                 {isBookkeepingModule(key) && <Lock className="w-3 h-3 text-amber-500" />}
+                                 {key.replace('founder_os_', '')}
+                             </span>
+                             <input
+                                 type="number"
+                                 min={0}
+                                 value={trashRetentionDays(settings, key)}
+                                 onChange={e => handleUpdateRetention(key, parseInt(e.target.value))}
+                                 disabled={!isAdmin}
+                                 className="w-16 bg-transparent text-right text-white font-mono focus:outline-none"
+                             />
+                         </label>
+                     ))}
+                 </div>
+
+                 <h4 className="text-white font-medium mb-1">Attachments</h4>
+                 <p className="text-sm text-zinc-500 mb-3">Identical files are stored once and shared between records. Files no record has used for {ATTACHMENT_GC_GRACE_DAYS} days can be deleted.</p>
+                 <button onClick={handleCollectAttachments} disabled={!isAdmin || isCollecting} className="px-4 py-2 mb-6 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg flex items-center gap-2 text-sm transition-colors border border-zinc-700 disabled:opacity-50">
+                     {isCollecting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageIcon className="w-4 h-4" />} Clean Up Orphaned Files
+                 </button>
+
+                 <h4 className="text-white font-medium mb-1 flex items-center gap-2"><Smartphone className="w-4 h-4 text-zinc-400" /> Two-Factor Authentication</h4>
+                 <p className="text-sm text-zinc-500 mb-3">
+                     {mfaEnrolled
+                         ? 'Your account asks for a code from your authenticator app at sign-in. An admin can reset it if you lose your phone.'
+                         : 'Protect your account with a code from an authenticator app at sign-in.'}
+                 </p>
+                 {!mfaEnrolled && (
+                     <button onClick={() => setShowMfaSetup(true)} className="px-4 py-2 mb-6 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg flex items-center gap-2 text-sm transition-colors border border-zinc-700">
+                         <ShieldCheck className="w-4 h-4" /> Set Up Two-Factor
+                     </button>
+                 )}
+                 {mfaEnrolled && <div className="mb-6" />}
+
+                 {storedUser && (
+                     <>
+                         <h4 className="text-white font-medium mb-1 flex items-center gap-2"><Monitor className="w-4 h-4 text-zinc-400" /> Signed-In Devices</h4>
+                         <p className="text-sm text-zinc-500 mb-3">Browsers where your account is signed in. Sign out any you don't recognize.</p>
+                         <div className="mb-6">
+                             <SessionList user={JSON.parse(storedUser)} currentSessionId={storageService.getCurrentSessionId()} />
+                         </div>
+                     </>
+                 )}
+
+                 <h4 className="text-white font-medium mb-1 flex items-center gap-2"><KeyRound className="w-4 h-4 text-zinc-400" /> Encryption</h4>
+                 <p className="text-sm text-zinc-500 mb-3">
+                     {vault
+                         ? <>Payment details, API keys and contract files are encrypted (key <span className="font-mono text-zinc-300">{vault.keyId}</span>{vault.rotatedAt ? `, rotated ${new Date(vault.rotatedAt).toLocaleDateString()}` : ''}). Members unlock it with their own password. Backups hold the decrypted values.</>
+                         : 'Encrypt payment details, API keys and contract files in the browser with an organization key that each member unlocks with their own password.'}
+                 </p>
+                 {recoveryCode && (
+                     <div className="mb-3 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+                         <p className="text-xs text-amber-300 mb-1">Recovery code (shown only once). It unlocks all encrypted data if no member can sign in.</p>
+                         <div className="flex items-center justify-between gap-2">
+                             <span className="font-mono text-sm text-white select-all">{recoveryCode}</span>
+                             <button onClick={() => setRecoveryCode(null)} className="text-xs text-zinc-400 hover:text-white">Done</button>
+                         </div>
+                     </div>
+                 )}
+                 {!vault ? (
+                     <div className="flex gap-2 mb-6">
+                         <input type="password" value={vaultPassword} onChange={e => setVaultPassword(e.target.value)} disabled={!isAdmin} placeholder="Your account password" className="flex-1 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white" />
+                         <button onClick={handleEnableVault} disabled={!isAdmin || isVaultWorking || !vaultPassword} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg flex items-center justify-center gap-2 text-sm font-bold transition-colors disabled:opacity-50">
+                             {isVaultWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />} Enable Encryption
+                         </button>
+                     </div>
+                 ) : (
+                     <div className="flex flex-col gap-2 mb-6">
+                         {isAdmin && (
+                             <>
+                                 <div className="bg-zinc-950 border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+                                     {vaultMembers.map(member => {
+                                         const hasAccess = !member.revokedAt && !!member.wrappedKeys?.[vault.keyId];
+                                         return (
+                                             <div key={member.id} className="flex items-center justify-between px-3 py-2 text-xs">
+                                                 <span className="text-zinc-300 truncate">{member.email || member.id}</span>
+                                                 <div className="flex items-center gap-2">
+                                                     <span className={hasAccess ? 'text-emerald-400' : member.revokedAt ? 'text-rose-400' : 'text-amber-400'}>
+                                                         {hasAccess ? 'Access' : member.revokedAt ? 'Revoked' : 'Waiting'}
+                                                     </span>
+                                                     {hasAccess
+                                                         ? <button onClick={() => handleRevokeVault(member)} disabled={isVaultWorking || member.id === auth.currentUser?.uid} className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-white rounded disabled:opacity-50">Revoke</button>
+                                                         : <button onClick={() => handleGrantVault(member.id)} disabled={isVaultWorking || storageService.isVaultLocked()} className="px-2 py-1 bg-indigo-600 hover:bg-indigo-500 text-white rounded disabled:opacity-50">Grant</button>}
+                                                 </div>
+                                             </div>
+                                         );
+                                     })}
+                                     {vaultMembers.length === 0 && <p className="px-3 py-2 text-xs text-zinc-600">Members appear here after their first sign-in.</p>}
+                                 </div>
+                                 <div className="flex gap-2">
+                                     <button onClick={() => handleGrantVault()} disabled={isVaultWorking || storageService.isVaultLocked()} className="flex-1 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg text-sm border border-zinc-700 disabled:opacity-50">Grant All Active</button>
+                                     <button onClick={handleRotateVault} disabled={isVaultWorking || storageService.isVaultLocked()} className="flex-1 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg text-sm border border-zinc-700 disabled:opacity-50">Rotate Key</button>
+                                     <button onClick={handleNewRecoveryCode} disabled={isVaultWorking || storageService.isVaultLocked()} className="flex-1 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg text-sm border border-zinc-700 disabled:opacity-50">New Recovery Code</button>
+                                 </div>
+                             </>
+                         )}
+                         <p className="text-xs text-zinc-500 mt-2">Change your password here so your key is re-wrapped. After an emailed password reset an admin has to grant access again.</p>
+                         <input type="password" value={passwordForm.current} onChange={e => setPasswordForm({ ...passwordForm, current: e.target.value })} placeholder="Current password" className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white" />
+                         <div className="flex gap-2">
+                             <input type="password" value={passwordForm.next} onChange={e => setPasswordForm({ ...passwordForm, next: e.target.value })} placeholder="New password" className="flex-1 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white" />
+                             <input type="password" value={passwordForm.confirm} onChange={e => setPasswordForm({ ...passwordForm, confirm: e.target.value })} placeholder="Confirm" className="flex-1 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white" />
+                         </div>
+                         <button onClick={handleChangePassword} disabled={isVaultWorking || !passwordForm.current || !passwordForm.next} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg flex items-center justify-center gap-2 text-sm font-bold transition-colors disabled:opacity-50">
+                             {isVaultWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />} Change Password
+                         </button>
+                     </div>
+                 )}
+
+                 <h4 className="text-white font-medium mb-1">Data Schema</h4>
+                 <p className="text-sm text-zinc-500 mb-3">Records saved by older versions are upgraded when read. Upgrade them in storage to keep exports and other clients consistent.</p>
+                 {pendingMigrations && (
+                     <div className="grid grid-cols-2 gap-2 mb-3">
+                         {Object.entries(pendingMigrations).map(([key, count]) => (
+                             <div key={key} className="flex items-center justify-between bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs text-zinc-400">
+                                 <span className="truncate">{key.replace('founder_os_', '')} <span className="text-zinc-600">v{currentSchemaVersion(key)}</span></span>
+                                 <span className={`font-mono ${count > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>{count > 0 ? `${count} outdated` : 'current'}</span>
+                             </div>
+                         ))}
+                     </div>
+                 )}
+                 <div className="flex gap-2 mb-6">
+                     <button onClick={handleCheckMigrations} disabled={!isAdmin || isMigrating} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg flex items-center gap-2 text-sm transition-colors border border-zinc-700 disabled:opacity-50">
+                         {isMigrating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />} Check
+                     </button>
+                     <button onClick={handleMigrateRecords} disabled={!isAdmin || isMigrating || !pendingMigrations || Object.values(pendingMigrations).every(c => c === 0)} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg flex items-center gap-2 text-sm font-bold transition-colors disabled:opacity-50">
+                         <Database className="w-4 h-4" /> Upgrade Stored Records
+                     </button>
+                 </div>
+
                  <h4 className="text-white font-medium mb-1">Danger Zone</h4>
-                 <p className="text-sm text-zinc-500 mb-4">Permanently delete all local data and reset the application state.</p>
+                 <p className="text-sm text-zinc-500 mb-4">Move all module data to Trash and reset the application state.</p>
                  {!showClearConfirm ? (
                      <button onClick={() => setShowClearConfirm(true)} disabled={!isAdmin} className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 rounded-lg flex items-center gap-2 text-sm transition-colors border border-red-500/20 disabled:opacity-50">
                          <Trash2 className="w-4 h-4" /> Clear All Data
@@ -636,6 +1102,81 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
          </div>
       </div>
 
+      {/* Import Wizard Modal */}
+      {pendingImport && (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in">
+              <div className="bg-zinc-900 border border-zinc-800 rounded-2xl w-full max-w-lg shadow-2xl p-6">
+                  <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-xl font-bold text-white">Restore Backup</h3>
+                      <button onClick={closeImportWizard} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                  </div>
+                  <p className="text-xs text-zinc-500 font-mono mb-4 truncate">{pendingImport.name}</p>
+
+                  <div className="grid grid-cols-2 gap-2 mb-4">
+                      {(['merge', 'replace'] as ImportMode[]).map(mode => (
+                          <button
+                              key={mode}
+                              onClick={() => handleChangeImportMode(mode)}
+                              disabled={isImporting}
+                              className={`p-3 rounded-xl border text-left text-sm ${importMode === mode ? 'bg-indigo-900/30 border-indigo-500 text-indigo-200' : 'bg-zinc-950 border-zinc-800 text-zinc-400'}`}
+                          >
+                              <div className="font-bold capitalize">{mode}</div>
+                              <div className="text-[11px] opacity-70">{mode === 'merge' ? 'Keep current data, add backup records' : 'Delete current data, restore backup'}</div>
+                          </button>
+                      ))}
+                  </div>
+
+                  {isImporting && !importReport && (
+                      <div className="flex items-center gap-2 text-sm text-zinc-400 py-6 justify-center"><Loader2 className="w-4 h-4 animate-spin" /> Analyzing archive...</div>
+                  )}
+
+                  {importReport && (
+                      <div className="space-y-3">
+                          <p className="text-xs text-zinc-500">
+                              Schema v{importReport.schemaVersion} &middot; exported {new Date(importReport.exportedAt).toLocaleString()} &middot; {importReport.files} files
+                          </p>
+                          <div className="border border-zinc-800 rounded-xl overflow-hidden">
+                              <table className="w-full text-xs text-zinc-400">
+                                  <thead className="bg-zinc-950 uppercase text-[10px]">
+                                      <tr>
+                                          <th className="p-2 text-left">Module</th>
+                                          <th className="p-2 text-right">In File</th>
+                                          <th className="p-2 text-right">New</th>
+                                          <th className="p-2 text-right">Remapped</th>
+                                          <th className="p-2 text-right">Skipped</th>
+                                          <th className="p-2 text-right">Removed</th>
+                                      </tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-zinc-800">
+                                      {Object.entries(importReport.modules).map(([key, m]) => (
+                                          <tr key={key}>
+                                              <td className="p-2 text-white">{key.replace('founder_os_', '')}</td>
+                                              <td className="p-2 text-right font-mono">{m.incoming}</td>
+                                              <td className="p-2 text-right font-mono text-emerald-400">{m.created}</td>
+                                              <td className="p-2 text-right font-mono text-amber-400">{m.remapped}</td>
+                                              <td className="p-2 text-right font-mono">{m.unchanged}</td>
+                                              <td className="p-2 text-right font-mono text-rose-400">{m.removed}</td>
+                                          </tr>
+                                      ))}
+                                  </tbody>
+                              </table>
+                          </div>
+                          {importReport.warnings.map((w, i) => (
+                              <p key={i} className="text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2">{w}</p>
+                          ))}
+                      </div>
+                  )}
+
+                  <div className="flex gap-2 pt-6">
+                      <button onClick={closeImportWizard} className="flex-1 py-3 bg-zinc-800 text-white rounded-xl text-sm">Cancel</button>
+                      <button onClick={handleConfirmImport} disabled={isImporting || !importReport} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-sm font-bold disabled:opacity-50 flex items-center justify-center gap-2">
+                          {isImporting && importReport && <Loader2 className="w-4 h-4 animate-spin" />} Import ({importMode})
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* Add New Source Modal */}
       {isAdding && (
           <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/80 backdrop-blur-sm rounded-3xl animate-in fade-in duration-200">
@@ -740,6 +1281,17 @@ export const ConnectAccounts: React.FC<ConnectAccountsProps> = ({ accounts, onTo
               </div>
           </div>
       )}
+
+      {showMfaSetup && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+              <div className="bg-zinc-900 border border-zinc-800 w-full max-w-md rounded-2xl p-6 shadow-2xl">
+                  <MfaEnrollment
+                      onEnrolled={() => { setMfaEnrolled(true); setShowMfaSetup(false); }}
+                      onCancel={() => setShowMfaSetup(false)}
+                  />
+              </div>
+          </div>
+      )}
     </div>
   );
 };
@@ -1,10 +1,12 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { ContractData, ContractCategory, ViewState } from '../types';
-import { analyzeContract, queryContractData } from '../services/geminiService';
+import { analyzeContract, queryContractData, aiFailureMessage } from '../services/geminiService';
 import { storageService } from '../services/storageService';
-import { Upload, FileText, Search, Loader2, Calendar, Users, AlertTriangle, MessageSquare, Briefcase, User, Building2, Globe, Eye, X, ZoomIn, CheckCircle2, History, Pencil, Save, Camera } from 'lucide-react';
+import { formatBytes } from '../services/storageQuota';
+import { Upload, FileText, Search, Loader2, Calendar, Users, AlertTriangle, MessageSquare, Briefcase, User, Building2, Globe, Eye, X, ZoomIn, CheckCircle2, History, Pencil, Save, Camera, Trash2, Lock } from 'lucide-react';
 import { ProcessingStatus } from './ProcessingStatus';
+import { TrashPanel } from './TrashPanel';
 
 interface ContractModuleProps {
     onOpenCapture?: () => void;
@@ -23,6 +25,10 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
     // History State
     const [showHistory, setShowHistory] = useState(false);
     const [historyLogs, setHistoryLogs] = useState(storageService.getHistory(ViewState.CONTRACTS));
+    const [showTrash, setShowTrash] = useState(false);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    // Upload whose file content matches a contract already in the vault (linked instead of duplicated)
+    const [alreadyImported, setAlreadyImported] = useState<{ name: string; existing: ContractData } | null>(null);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -33,8 +39,20 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
             if(data) setContracts(data);
         };
         load();
+        return storageService.subscribe<ContractData>('founder_os_contracts', setContracts);
     }, []);
 
+    // Encrypted contract files are decrypted in the browser only when opened
+    useEffect(() => {
+        setPreviewUrl(null);
+        if (!selectedContract?.imageUrl) return;
+        let cancelled = false;
+        storageService.openFile(selectedContract.imageUrl, selectedContract.imageEncrypted)
+            .then(url => { if (!cancelled) setPreviewUrl(url); })
+            .catch(e => console.error("Failed to open contract file", e));
+        return () => { cancelled = true; };
+    }, [selectedContract?.imageUrl, selectedContract?.imageEncrypted]);
+
     useEffect(() => {
         storageService.save('founder_os_contracts', contracts);
     }, [contracts]);
@@ -43,16 +61,38 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
         setHistoryLogs(storageService.getHistory(ViewState.CONTRACTS));
     };
 
+    // Pull the persisted audit trail whenever the drawer opens
+    useEffect(() => {
+        if (showHistory) storageService.loadHistory(ViewState.CONTRACTS).then(setHistoryLogs).catch((e: any) => alert(`Failed to load history: ${e.message}`));
+    }, [showHistory]);
+
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
 
+        const quota = await storageService.checkUploadQuota(file.size);
+        if (!quota.allowed) {
+            alert(`Upload blocked: it would use ${formatBytes(quota.projectedBytes)} of your ${formatBytes(quota.quotaBytes)} storage quota. Empty Trash or upgrade your plan.`);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+            return;
+        }
+        if (quota.nearLimit && !window.confirm(`This upload brings storage to ${Math.round(quota.projectedPercent)}% of your quota. Continue?`)) {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+            return;
+        }
+
         setIsAnalyzing(true);
         try {
             const reader = new FileReader();
             reader.onloadend = async () => {
                 const base64 = (reader.result as string).split(',')[1];
                 const analysis = await analyzeContract(base64, file.type);
+                const existing = contracts.find(c => c.contentHash && c.contentHash === analysis.contentHash);
+                if (existing) {
+                    setAlreadyImported({ name: file.name, existing });
+                    return;
+                }
+                setAlreadyImported(null);
                 
                 const newContract: ContractData = {
                     ...analysis,
@@ -69,7 +109,7 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
             };
             reader.readAsDataURL(file);
         } catch (err) {
-            alert("Contract analysis failed.");
+            alert(aiFailureMessage(err, "Contract analysis failed."));
         } finally {
             setIsAnalyzing(false);
             if (fileInputRef.current) fileInputRef.current.value = '';
@@ -87,7 +127,11 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
         if (!selectedContract) return;
         handleUpdateContract('status', 'Validated');
         setIsEditMode(false);
-        storageService.logActivity(ViewState.CONTRACTS, 'EDIT', `Validated contract ${selectedContract.name}`);
+        storageService.logActivity(ViewState.CONTRACTS, 'EDIT', `Validated contract ${selectedContract.name}`, {
+            collection: 'contracts',
+            recordId: selectedContract.id,
+            changes: [{ field: 'status', before: selectedContract.status || 'Review', after: 'Validated' }]
+        });
         refreshHistory();
     };
 
@@ -98,7 +142,7 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
             const result = await queryContractData(contracts, query);
             setAnswer(result);
         } catch (e) {
-            setAnswer("Could not query contracts.");
+            setAnswer(aiFailureMessage(e, "Could not query contracts."));
         } finally {
             setIsQuerying(false);
         }
@@ -117,6 +161,7 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
         <div className="flex flex-col h-full gap-8 relative">
             <ProcessingStatus isProcessing={isAnalyzing} taskName="Analyzing Contract Clauses" mode="CLOUD" />
             <ProcessingStatus isProcessing={isQuerying} taskName="Querying Legal Database" mode="CLOUD" />
+            {showTrash && <TrashPanel modules={[{ key: 'founder_os_contracts', label: 'Contracts' }]} onClose={() => setShowTrash(false)} />}
 
             <header className="flex justify-between items-end border-b border-white/5 pb-6">
                 <div>
@@ -130,6 +175,13 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
                         title="View History"
                     >
                         <History className="w-5 h-5" />
+                    </button>
+                    <button
+                        onClick={() => setShowTrash(true)}
+                        className="p-2.5 rounded-xl border border-transparent text-zinc-500 hover:text-white transition-colors"
+                        title="Trash"
+                    >
+                        <Trash2 className="w-5 h-5" />
                     </button>
                      <select 
                         value={uploadCategory} 
@@ -154,6 +206,16 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
                 </div>
             </header>
 
+            {alreadyImported && (
+                <div className="flex items-center justify-between gap-3 bg-amber-500/10 border border-amber-500/20 rounded-xl px-4 py-2 text-sm text-amber-300">
+                    <span className="truncate">{alreadyImported.name} is already in the vault.</span>
+                    <div className="flex items-center gap-3 shrink-0">
+                        <button onClick={() => { setSelectedContract(alreadyImported.existing); setAlreadyImported(null); }} className="text-amber-200 hover:text-white underline">Open {alreadyImported.existing.name}</button>
+                        <button onClick={() => setAlreadyImported(null)} className="text-zinc-500 hover:text-white"><X className="w-4 h-4" /></button>
+                    </div>
+                </div>
+            )}
+
             <div className="flex flex-col lg:flex-row gap-8 h-full min-h-0 relative">
                 
                 {/* History Drawer */}
@@ -170,6 +232,7 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
                                     <p className="text-xs text-zinc-500 font-mono mb-1">{new Date(log.timestamp).toLocaleString()}</p>
                                     <p className="text-sm text-zinc-300 font-medium">{log.action}</p>
                                     <p className="text-xs text-zinc-400 mt-1">{log.details}</p>
+                                    {log.userEmail && <p className="text-[10px] text-zinc-600 mt-1">by {log.userEmail}</p>}
                                 </div>
                             ))}
                         </div>
@@ -195,7 +258,10 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
                                         <span className="text-xs text-zinc-500 font-mono">{new Date(contract.uploadDate).toLocaleDateString()}</span>
                                     </div>
                                 </div>
-                                <h3 className="text-white font-semibold text-lg truncate mb-2" title={contract.name}>{contract.name}</h3>
+                                <div className="flex items-center gap-3 mb-2">
+                                    {contract.thumbnailUrl && <img src={contract.thumbnailUrl} alt="" loading="lazy" className="w-10 h-10 rounded-lg object-cover border border-white/10 shrink-0" />}
+                                    <h3 className="text-white font-semibold text-lg truncate" title={contract.name}>{contract.name}</h3>
+                                </div>
                                 <p className="text-zinc-400 text-sm line-clamp-2 mb-4 h-10 leading-relaxed">{contract.summary}</p>
                                 
                                 <div className="flex gap-2">
@@ -241,8 +307,13 @@ export const ContractModule: React.FC<ContractModuleProps> = ({ onOpenCapture })
                             <div className="flex-1 flex flex-col lg:flex-row min-h-0">
                                 {/* Left: Document Viewer */}
                                 <div className="flex-1 bg-black/40 flex items-center justify-center p-4 border-b lg:border-b-0 lg:border-r border-white/5 overflow-hidden relative group">
-                                    {selectedContract.imageUrl ? (
-                                        <img src={selectedContract.imageUrl} alt="Contract" className="max-w-full max-h-full object-contain shadow-2xl rounded-lg" />
+                                    {previewUrl ? (
+                                        <img src={previewUrl} alt="Contract" className="max-w-full max-h-full object-contain shadow-2xl rounded-lg" />
+                                    ) : selectedContract.imageEncrypted ? (
+                                        <div className="text-center text-zinc-500">
+                                            <Lock className="w-20 h-20 mx-auto mb-4 opacity-20" />
+                                            <p>{storageService.isVaultLocked() ? 'Unlock the vault to view this encrypted file.' : 'Decrypting...'}</p>
+                                        </div>
                                     ) : (
                                         <div className="text-center text-zinc-500">
                                             <FileText className="w-20 h-20 mx-auto mb-4 opacity-20" />
@@ -1,12 +1,16 @@
 
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { ReceiptData, IntegrationAccount, BankTransaction, ReconciliationSuggestion, ViewState, AppSettings } from '../types';
-import { analyzeReceipt, parseBankStatement, suggestMatches, extractReceiptsFromZip, analyzeReceiptBatch } from '../services/geminiService';
+import { ReceiptData, IntegrationAccount, BankTransaction, ReconciliationSuggestion, ViewState, AppSettings, AiFailedFile, ReceiptEvidenceField } from '../types';
+import { analyzeReceipt, parseBankStatement, suggestMatches, extractReceiptsFromZip, analyzeReceiptBatch, analyzeReceiptDocuments, aiFailureMessage } from '../services/geminiService';
 import { storageService } from '../services/storageService';
+import { formatBytes } from '../services/storageQuota';
 import { Upload, CheckCircle2, AlertCircle, Loader2, DollarSign, Calendar, FileText, RefreshCw, Plus, X, FileSpreadsheet, FileJson, AlertTriangle, Calculator, Scale, Trash2, Tag, Camera, ClipboardPaste, SlidersHorizontal, ChevronDown, ChevronUp, Eye, EyeOff, Wand2, MessageSquare, Sparkles, ArrowUpDown, Percent, Layers, ListChecks, Zap, Link as LinkIcon, ArrowRight, Download, MoreHorizontal, Table, SplitSquareVertical, ShieldCheck, HelpCircle, Filter, Check, XCircle, MousePointerClick, ExternalLink, Search, Replace, CheckSquare, Square, FileArchive, PlayCircle, Coins, PieChart as PieIcon, TrendingUp, BarChart3, Binary } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Legend, ComposedChart, Line } from 'recharts';
 import JSZip from 'jszip';
 import { ProcessingStatus } from './ProcessingStatus';
+import { TrashPanel } from './TrashPanel';
+import { EvidenceOverlay, FieldReviewPanel, hasEvidenceBoxes } from './ReceiptFieldReview';
+import { fieldsNeedingReview, RECEIPT_EVIDENCE_FIELDS } from '../services/fieldReview';
 
 // Helper to guess mime type
 const getMimeType = (filename: string) => {
@@ -22,6 +26,7 @@ interface FinanceModuleProps {
   receipts: ReceiptData[];
   onAddReceipt: (receipt: ReceiptData) => void;
   onRemoveReceipt?: (id: string) => void;
+  onUpdateReceipt?: (receipt: ReceiptData) => void;
   accounts: IntegrationAccount[];
   onOpenCapture: () => void;
   bankTransactions: BankTransaction[];
@@ -49,6 +54,7 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
     receipts, 
     onAddReceipt, 
     onRemoveReceipt, 
+    onUpdateReceipt,
     accounts, 
     onOpenCapture,
     bankTransactions,
@@ -72,11 +78,18 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
   
   // Receipt Details Modal
   const [selectedReceipt, setSelectedReceipt] = useState<ReceiptData | null>(null);
+  const [activeEvidenceField, setActiveEvidenceField] = useState<ReceiptEvidenceField | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [failedFiles, setFailedFiles] = useState<AiFailedFile[]>([]);
+  // Uploads whose file content matches a receipt already in the ledger (linked instead of duplicated)
+  const [alreadyImported, setAlreadyImported] = useState<{ name: string; existing: ReceiptData }[]>([]);
+  const [bankAlreadyImported, setBankAlreadyImported] = useState<string | null>(null);
 
   // Search & Replace
   const [showSearchReplace, setShowSearchReplace] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   const [findText, setFindText] = useState('');
   const [replaceText, setReplaceText] = useState('');
   const [searchField, setSearchField] = useState<keyof ReceiptData>('vendor');
@@ -333,6 +346,7 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
       });
 
       if (count > 0) {
+          storageService.beginBulkOperation('founder_os_receipts', `Replace "${findText}" with "${replaceText}" in ${String(searchField)}`);
           idsToRemove.forEach(id => onRemoveReceipt && onRemoveReceipt(id));
           updatedReceipts.forEach(r => onAddReceipt(r));
           alert(`Replaced ${count} occurrences.`);
@@ -343,7 +357,40 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
       }
   };
 
+  // Receipts with low-confidence fields nobody has confirmed yet, oldest upload first
+  const reviewQueue = useMemo(() => receipts.filter(r => fieldsNeedingReview(r).length > 0).reverse(), [receipts]);
+
+  const handleReviewChange = (updated: ReceiptData) => {
+      onUpdateReceipt?.(updated);
+      setSelectedReceipt(updated);
+  };
+
+  // Drops receipts whose file was imported before (same content hash) and flags them with a link to the existing record
+  const withoutAlreadyImported = (analyzed: ReceiptData[]): ReceiptData[] => {
+      const known = new Map(receipts.filter(r => r.contentHash).map(r => [r.contentHash!, r]));
+      const fresh: ReceiptData[] = [];
+      const duplicates: { name: string; existing: ReceiptData }[] = [];
+      for (const receipt of analyzed) {
+          const existing = receipt.contentHash ? known.get(receipt.contentHash) : undefined;
+          if (existing) {
+              duplicates.push({ name: receipt.sourceUrl || receipt.vendor, existing });
+              continue;
+          }
+          fresh.push(receipt);
+          if (receipt.contentHash) known.set(receipt.contentHash, receipt);
+      }
+      if (duplicates.length > 0) setAlreadyImported(prev => [...prev, ...duplicates]);
+      return fresh;
+  };
+
   const processFileList = async (files: File[]) => {
+      const quota = await storageService.checkUploadQuota(files.reduce((sum, f) => sum + f.size, 0));
+      if (!quota.allowed) {
+          alert(`Upload blocked: it would use ${formatBytes(quota.projectedBytes)} of your ${formatBytes(quota.quotaBytes)} storage quota. Empty Trash or upgrade your plan.`);
+          return;
+      }
+      if (quota.nearLimit && !window.confirm(`This upload brings storage to ${Math.round(quota.projectedPercent)}% of your quota. Continue?`)) return;
+
       setIsAnalyzing(true);
       
       const hasZip = files.some(f => f.name.endsWith('.zip'));
@@ -351,9 +398,12 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
       
       setStatusText("Initializing batch...");
       setBatchProgress({ current: 0, total: files.length });
+      const abort = new AbortController();
+      batchAbortRef.current = abort;
 
       try {
           const newReceipts: ReceiptData[] = [];
+          const failed: AiFailedFile[] = [];
           const zips = files.filter(f => f.name.endsWith('.zip'));
           
           for (const zip of zips) {
@@ -363,8 +413,9 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
                   setBatchProgress({ current: done, total });
                   setStatusText(`Extracting from Zip: ${done}/${total}`);
               };
-              const extracted = await extractReceiptsFromZip(buffer, zip.name, zipProgress);
-              newReceipts.push(...extracted);
+              const extracted = await extractReceiptsFromZip(buffer, zip.name, zipProgress, abort.signal);
+              newReceipts.push(...extracted.receipts);
+              failed.push(...extracted.failed);
           }
 
           const regulars = files.filter(f => !f.name.endsWith('.zip'));
@@ -375,31 +426,63 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
                    setBatchProgress({ current: done, total });
                    setStatusText(`Analyzing: ${done}/${total}`);
                };
-               const batchResults = await analyzeReceiptBatch(regulars, batchProgressHandler);
-               newReceipts.push(...batchResults);
+               const batchResults = await analyzeReceiptBatch(regulars, batchProgressHandler, abort.signal);
+               newReceipts.push(...batchResults.receipts);
+               failed.push(...batchResults.failed);
           }
 
-          if (files.length === 1 && !files[0].name.endsWith('.zip') && newReceipts.length === 1) {
-              setAnalyzedData(newReceipts[0]);
+          setFailedFiles(prev => [...prev, ...failed]);
+          const freshReceipts = withoutAlreadyImported(newReceipts);
+
+          if (files.length === 1 && !files[0].name.endsWith('.zip') && freshReceipts.length === 1) {
+              setAnalyzedData(freshReceipts[0]);
               const file = files[0];
               const reader = new FileReader();
               reader.onload = (e) => setPreview(e.target?.result as string);
               reader.readAsDataURL(file);
           } else {
-              newReceipts.forEach(r => onAddReceipt(r));
-              setStatusText("Done!");
+              freshReceipts.forEach(r => onAddReceipt(r));
+              setStatusText(failed.length > 0 ? `Done, ${failed.length} file(s) not analyzed` : "Done!");
               await new Promise(r => setTimeout(r, 800));
           }
       } catch (e) {
           console.error(e);
-          alert("Error processing files.");
+          alert(aiFailureMessage(e, "Error processing files."));
       } finally {
+          batchAbortRef.current = null;
           setIsAnalyzing(false);
           setBatchProgress(null);
           if (fileInputRef.current) fileInputRef.current.value = '';
       }
   };
 
+  // Queued files are dropped right away; results of requests already in flight are discarded
+  const handleCancelBatch = () => {
+      setStatusText("Cancelling...");
+      batchAbortRef.current?.abort();
+  };
+
+  const handleRetryFailed = async (files: AiFailedFile[]) => {
+      setFailedFiles(prev => prev.filter(f => !files.includes(f)));
+      setIsAnalyzing(true);
+      setProcessingMode('CLOUD');
+      setBatchProgress({ current: 0, total: files.length });
+      const abort = new AbortController();
+      batchAbortRef.current = abort;
+      try {
+          const result = await analyzeReceiptDocuments(files, (done, total) => {
+              setBatchProgress({ current: done, total });
+              setStatusText(`Retrying: ${done}/${total}`);
+          }, abort.signal);
+          withoutAlreadyImported(result.receipts).forEach(r => onAddReceipt(r));
+          setFailedFiles(prev => [...prev, ...result.failed]);
+      } finally {
+          batchAbortRef.current = null;
+          setIsAnalyzing(false);
+          setBatchProgress(null);
+      }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       if (!e.target.files || e.target.files.length === 0) return;
       const files: File[] = Array.from(e.target.files);
@@ -499,7 +582,7 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
 
       } catch (e) {
           console.error("Magic Match Failed", e);
-          alert("Reconciliation failed.");
+          alert(aiFailureMessage(e, "Reconciliation failed."));
       } finally {
           setIsMagicMatching(false);
       }
@@ -603,6 +686,9 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
             >
                 <Coins className="w-4 h-4" /> Rates
             </button>
+            <button onClick={() => setShowTrash(true)} className="p-2.5 rounded-xl border border-zinc-800 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors" title="Trash">
+                <Trash2 className="w-5 h-5" />
+            </button>
             <button onClick={onOpenCapture} className="p-2.5 rounded-xl border border-zinc-800 text-zinc-400 hover:text-emerald-400 hover:border-emerald-500/30 transition-colors bg-zinc-900" title="Capture Snapshot">
                 <Camera className="w-5 h-5" />
             </button>
@@ -613,6 +699,13 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
         </div>
       </header>
 
+      {showTrash && (
+          <TrashPanel
+              modules={[{ key: 'founder_os_receipts', label: 'Receipts' }, { key: 'founder_os_bank_txs', label: 'Bank Transactions' }]}
+              onClose={() => setShowTrash(false)}
+          />
+      )}
+
       {/* RATES MODAL */}
       {showRatesModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in">
@@ -654,7 +747,9 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
               <div className="bg-zinc-950 border border-zinc-800 w-full max-w-4xl h-[85vh] rounded-3xl shadow-2xl flex flex-col md:flex-row overflow-hidden">
                   {/* Left: Image/File Preview */}
                   <div className="md:w-1/2 bg-black border-r border-zinc-800 flex items-center justify-center p-4 relative group">
-                      {selectedReceipt.imageUrl ? (
+                      {selectedReceipt.imageUrl && hasEvidenceBoxes(selectedReceipt) ? (
+                          <EvidenceOverlay receipt={selectedReceipt} activeField={activeEvidenceField} onSelectField={setActiveEvidenceField} />
+                      ) : selectedReceipt.imageUrl ? (
                           <img src={selectedReceipt.imageUrl} alt="Receipt" className="max-w-full max-h-full object-contain shadow-2xl rounded-lg" />
                       ) : (
                           <div className="text-center text-zinc-500 flex flex-col items-center">
@@ -681,6 +776,9 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
                       </div>
                       
                       <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+                          {onUpdateReceipt && (
+                              <FieldReviewPanel receipt={selectedReceipt} activeField={activeEvidenceField} onSelectField={setActiveEvidenceField} onChange={handleReviewChange} />
+                          )}
                           <div className="grid grid-cols-2 gap-4">
                               <div className="bg-black/30 p-4 rounded-xl border border-zinc-800">
                                   <span className="text-[10px] text-zinc-500 uppercase font-bold tracking-wider">Total Amount</span>
@@ -748,6 +846,9 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
                                     />
                                 </div>
                             )}
+                            {batchAbortRef.current && (
+                                <button onClick={(e) => { e.stopPropagation(); handleCancelBatch(); }} className="text-xs text-zinc-400 hover:text-rose-400 flex items-center gap-1 mt-1"><XCircle className="w-3 h-3" /> Cancel</button>
+                            )}
                          </div>
                     ) : (
                         <div className="relative z-10 flex flex-col items-center gap-2 group-hover:-translate-y-1 transition-transform duration-300">
@@ -768,6 +869,65 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
                         onChange={handleFileUpload} 
                     />
                 </div>
+                {/* Failed Files (kept for retry) */}
+                {failedFiles.length > 0 && (
+                    <div className="bg-rose-500/5 p-4 rounded-2xl border border-rose-500/20 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs font-bold text-rose-300 uppercase tracking-wider flex items-center gap-2"><AlertTriangle className="w-3 h-3" /> {failedFiles.length} Not Analyzed</span>
+                            <div className="flex items-center gap-3">
+                                <button onClick={() => handleRetryFailed(failedFiles)} disabled={isAnalyzing} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 disabled:opacity-50"><RefreshCw className="w-3 h-3" /> Retry All</button>
+                                <button onClick={() => setFailedFiles([])} className="text-zinc-500 hover:text-white"><X className="w-4 h-4" /></button>
+                            </div>
+                        </div>
+                        <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                            {failedFiles.map((file, i) => (
+                                <div key={`${file.name}-${i}`} className="flex items-center justify-between gap-2 text-xs">
+                                    <div className="min-w-0">
+                                        <div className="text-zinc-300 truncate">{file.name.split('/').pop()}</div>
+                                        <div className="text-[10px] text-zinc-500 truncate">{file.cancelled ? 'Cancelled' : file.error}</div>
+                                    </div>
+                                    <button onClick={() => handleRetryFailed([file])} disabled={isAnalyzing} title="Retry" className="p-1 text-zinc-400 hover:text-indigo-400 disabled:opacity-50"><RefreshCw className="w-3 h-3" /></button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {/* Needs Review (fields below the confidence threshold) */}
+                {reviewQueue.length > 0 && (
+                    <div className="bg-indigo-500/5 p-4 rounded-2xl border border-indigo-500/20 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs font-bold text-indigo-300 uppercase tracking-wider flex items-center gap-2"><Eye className="w-3 h-3" /> {reviewQueue.length} Need Review</span>
+                            <button onClick={() => setSelectedReceipt(reviewQueue[0])} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1">Start <ArrowRight className="w-3 h-3" /></button>
+                        </div>
+                        <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                            {reviewQueue.map(receipt => (
+                                <button key={receipt.id} onClick={() => setSelectedReceipt(receipt)} className="w-full flex items-center justify-between gap-2 text-xs text-left hover:bg-white/5 rounded px-1 py-0.5">
+                                    <span className="text-zinc-300 truncate">{receipt.vendor} <span className="text-zinc-600">· {receipt.date}</span></span>
+                                    <span className="text-[10px] text-amber-400 shrink-0">
+                                        {fieldsNeedingReview(receipt).map(f => RECEIPT_EVIDENCE_FIELDS.find(x => x.id === f)!.label).join(', ')}
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {/* Already Imported (same file content) */}
+                {alreadyImported.length > 0 && (
+                    <div className="bg-amber-500/5 p-4 rounded-2xl border border-amber-500/20 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs font-bold text-amber-300 uppercase tracking-wider flex items-center gap-2"><Layers className="w-3 h-3" /> {alreadyImported.length} Already Imported</span>
+                            <button onClick={() => setAlreadyImported([])} className="text-zinc-500 hover:text-white"><X className="w-4 h-4" /></button>
+                        </div>
+                        <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                            {alreadyImported.map(({ name, existing }, i) => (
+                                <div key={`${existing.id}-${i}`} className="flex items-center justify-between gap-2 text-xs">
+                                    <span className="text-zinc-300 truncate">{name.split('/').pop()}</span>
+                                    <button onClick={() => setSelectedReceipt(existing)} className="text-amber-300 hover:text-white flex items-center gap-1 shrink-0">{existing.vendor} <ArrowRight className="w-3 h-3" /></button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
                 {/* Single Edit Form */}
                 {analyzedData && (
                      <div className="bg-black/40 p-5 rounded-2xl border border-white/10 space-y-5 animate-in slide-in-from-left-2">
@@ -927,6 +1087,12 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
                                     {isBankAnalyzing ? <Loader2 className="w-4 h-4 animate-spin"/> : <Upload className="w-4 h-4"/>}
                                     {isBankAnalyzing ? "Analyzing Feed..." : "Upload Bank Feed"}
                                </button>
+                               {bankAlreadyImported && (
+                                   <div className="flex items-center gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/20 rounded-xl px-3">
+                                       <span className="truncate max-w-[160px]" title={bankAlreadyImported}>{bankAlreadyImported} already imported</span>
+                                       <button onClick={() => { setReconcileFilter('all'); setBankAlreadyImported(null); }} className="text-amber-200 hover:text-white underline">Show</button>
+                                   </div>
+                               )}
                                <input type="file" ref={bankInputRef} className="hidden" onChange={async (e) => {
                                      const f = e.target.files?.[0];
                                      if(f) {
@@ -935,9 +1101,15 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
                                          reader.onloadend = async () => {
                                              try {
                                                 const txs = await parseBankStatement((reader.result as string).split(',')[1], f.type);
+                                                // Same statement file again: keep the existing rows and their reconciliation
+                                                if (txs.length > 0 && bankTransactions.some(t => t.sourceHash === txs[0].sourceHash)) {
+                                                    setBankAlreadyImported(f.name);
+                                                    return;
+                                                }
+                                                setBankAlreadyImported(null);
                                                 onUpdateBankTransactions(txs.map(t => ({...t, sourceFile: f.name})));
                                              } catch(e) {
-                                                 alert("Failed to parse bank statement");
+                                                 alert(aiFailureMessage(e, "Failed to parse bank statement"));
                                              } finally {
                                                  setIsBankAnalyzing(false);
                                              }
@@ -1124,6 +1296,7 @@ export const FinanceModule: React.FC<FinanceModuleProps> = ({
                                             {checkedRcptIds.has(r.id) && <Check className="w-3 h-3 text-white" />}
                                         </button>
                                       )}
+                                      {r.thumbnailUrl && <img src={r.thumbnailUrl} alt="" loading="lazy" className="w-10 h-10 rounded-lg object-cover border border-white/10 shrink-0" />}
                                       <div className="flex-1">
                                           <div className="flex justify-between items-start">
                                               <div>
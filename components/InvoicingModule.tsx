@@ -2,7 +2,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Invoice, InvoiceLineItem, AppSettings, ViewState, InvoiceTemplate, InvoiceStructure, DynamicField } from '../types';
 import { storageService } from '../services/storageService';
+import { isEncryptedValue } from '../services/securityService';
 import { analyzeInvoiceTemplate } from '../services/geminiService';
+import { TrashPanel } from './TrashPanel';
 import { Plus, Trash2, Save, Download, Printer, Copy, FileText, ChevronDown, ChevronUp, Image as ImageIcon, Upload, FileJson, AlertTriangle, ArrowLeft, RefreshCcw, LayoutTemplate, Loader2, Sparkles, Check, X, Edit, Layout, Building2, Grid, Lock, Wand2, Eye } from 'lucide-react';
 
 interface InvoicingModuleProps {
@@ -82,6 +84,7 @@ export const InvoicingModule: React.FC<InvoicingModuleProps> = ({ settings, onOp
     
     // Template Manager State
     const [isManageTemplatesOpen, setIsManageTemplatesOpen] = useState(false);
+    const [showTrash, setShowTrash] = useState(false);
     const [isCreatingTemplate, setIsCreatingTemplate] = useState(false);
     const [newTemplateData, setNewTemplateData] = useState<Partial<InvoiceTemplate> | null>(null);
     const [isAnalyzingTemplate, setIsAnalyzingTemplate] = useState(false);
@@ -108,6 +111,7 @@ export const InvoicingModule: React.FC<InvoicingModuleProps> = ({ settings, onOp
             }
         };
         load();
+        return storageService.subscribe<Invoice>('founder_os_invoices', setInvoices);
     }, []);
 
     useEffect(() => {
@@ -158,10 +162,10 @@ export const InvoicingModule: React.FC<InvoicingModuleProps> = ({ settings, onOp
                 // Auto-fill Global Settings for known IDs if available
                 else if (f.id === 'org_nr' && settings.orgNumber) dynamicValues[f.id] = settings.orgNumber;
                 else if (f.id === 'vat_nr' && settings.vatNumber) dynamicValues[f.id] = settings.vatNumber;
-                else if (f.id === 'bankgiro' && settings.bankgiro) dynamicValues[f.id] = settings.bankgiro;
-                else if (f.id === 'plusgiro' && settings.plusgiro) dynamicValues[f.id] = settings.plusgiro;
-                else if (f.id === 'swish' && settings.swish) dynamicValues[f.id] = settings.swish;
-                else if (f.id === 'iban' && settings.iban) dynamicValues[f.id] = settings.iban;
+                else if (f.id === 'bankgiro' && settings.bankgiro && !isEncryptedValue(settings.bankgiro)) dynamicValues[f.id] = settings.bankgiro;
+                else if (f.id === 'plusgiro' && settings.plusgiro && !isEncryptedValue(settings.plusgiro)) dynamicValues[f.id] = settings.plusgiro;
+                else if (f.id === 'swish' && settings.swish && !isEncryptedValue(settings.swish)) dynamicValues[f.id] = settings.swish;
+                else if (f.id === 'iban' && settings.iban && !isEncryptedValue(settings.iban)) dynamicValues[f.id] = settings.iban;
                 else if (f.id === 'bic' && settings.bic) dynamicValues[f.id] = settings.bic;
                 else dynamicValues[f.id] = f.defaultValue || '';
             });
@@ -673,6 +677,13 @@ export const InvoicingModule: React.FC<InvoicingModuleProps> = ({ settings, onOp
             <input type="file" ref={templateUploadRef} className="hidden" accept=".pdf,.jpg,.png,.jpeg" onChange={handleTemplateUpload} />
             <input type="file" ref={importInputRef} className="hidden" accept=".json" onChange={handleImportJSON} />
 
+            {showTrash && (
+                <TrashPanel
+                    modules={[{ key: 'founder_os_invoices', label: 'Invoices' }, { key: 'founder_os_invoice_templates', label: 'Templates' }]}
+                    onClose={() => setShowTrash(false)}
+                />
+            )}
+
             {/* Template Manager Modal (Code hidden for brevity, kept same logic) */}
             {isManageTemplatesOpen && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in">
@@ -696,6 +707,7 @@ export const InvoicingModule: React.FC<InvoicingModuleProps> = ({ settings, onOp
                             <p className="text-zinc-400 mt-2 font-light">Manage consulting invoices and templates.</p>
                         </div>
                         <div className="flex gap-3">
+                            <button onClick={() => setShowTrash(true)} className="p-2.5 rounded-xl border border-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Trash"><Trash2 className="w-5 h-5" /></button>
                             <button onClick={() => importInputRef.current?.click()} className="p-2.5 rounded-xl border border-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Import JSON"><Upload className="w-5 h-5" /></button>
                             <button onClick={handleStartCreateInvoice} className="px-5 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-medium flex items-center gap-2 shadow-lg transition-all">
                                 <Plus className="w-4 h-4" /> New Invoice
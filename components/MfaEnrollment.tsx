@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { storageService } from '../services/storageService';
+import { encodeQrCode } from '../services/qrCode';
+import { TOTP_DIGITS } from '../services/totp';
+import { MfaEnrollmentOffer } from '../types';
+import { Smartphone, Copy, Check, Loader2, ShieldCheck } from 'lucide-react';
+
+interface MfaEnrollmentProps {
+    onEnrolled: () => void;
+    onCancel: () => void;
+}
+
+const QR_QUIET_ZONE = 4;
+
+const QrCodeImage: React.FC<{ text: string }> = ({ text }) => {
+    const modules = useMemo(() => encodeQrCode(text), [text]);
+    const size = modules.length + QR_QUIET_ZONE * 2;
+    const path = modules.flatMap((row, y) => row.map((dark, x) => dark ? `M${x + QR_QUIET_ZONE},${y + QR_QUIET_ZONE}h1v1h-1z` : '')).join('');
+    return (
+        <svg viewBox={`0 0 ${size} ${size}`} className="w-44 h-44 rounded-lg" shapeRendering="crispEdges">
+            <rect width={size} height={size} fill="#ffffff" />
+            <path d={path} fill="#000000" />
+        </svg>
+    );
+};
+
+export const MfaEnrollment: React.FC<MfaEnrollmentProps> = ({ onEnrolled, onCancel }) => {
+    const [enrollment, setEnrollment] = useState<MfaEnrollmentOffer | null>(null);
+    const [code, setCode] = useState('');
+    const [savedCodes, setSavedCodes] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState('');
+    const [isVerifying, setIsVerifying] = useState(false);
+
+    // The secret and backup codes come from the server, which keeps only what it needs to check codes
+    useEffect(() => {
+        storageService.beginMfaEnrollment()
+            .then(setEnrollment)
+            .catch((e: any) => setError(e.message || 'Could not start the enrollment.'));
+    }, []);
+
+    const handleCopyCodes = () => {
+        if (!enrollment) return;
+        navigator.clipboard.writeText(enrollment.backupCodes.join('\n'));
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsVerifying(true);
+        setError('');
+        try {
+            if (await storageService.confirmMfaEnrollment(code)) {
+                onEnrolled();
+            } else {
+                setError('That code did not match. Check the time on your phone and try the next code.');
+            }
+        } catch (e: any) {
+            setError(e.message || 'Enrollment failed.');
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    if (!enrollment) {
+        return (
+            <div className="space-y-4 text-center">
+                {error ? <p className="text-red-400 text-xs">{error}</p> : <Loader2 className="w-5 h-5 animate-spin text-indigo-400 mx-auto" />}
+                <button type="button" onClick={onCancel} className="w-full py-3 bg-zinc-800 text-zinc-300 rounded-xl text-sm hover:bg-zinc-700">Cancel</button>
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleConfirm} className="space-y-4">
+            <div className="text-center">
+                <h3 className="text-white font-medium flex items-center justify-center gap-2"><Smartphone className="w-4 h-4 text-indigo-400" /> Set Up Two-Factor Authentication</h3>
+                <p className="text-xs text-zinc-400 mt-1">Scan the code with an authenticator app (Google Authenticator, 1Password, Authy...).</p>
+            </div>
+
+            <div className="flex flex-col items-center gap-2">
+                <QrCodeImage text={enrollment.uri} />
+                <p className="text-[10px] text-zinc-500">Can't scan? Enter this key manually:</p>
+                <span className="font-mono text-xs text-zinc-300 break-all text-center select-all">{enrollment.secret.match(/.{1,4}/g)!.join(' ')}</span>
+            </div>
+
+            <div className="bg-zinc-950 border border-zinc-800 rounded-xl p-3">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-medium text-zinc-400">Backup codes (each works once)</span>
+                    <button type="button" onClick={handleCopyCodes} className="text-[10px] text-indigo-400 hover:underline flex items-center gap-1">
+                        {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />} {copied ? 'Copied' : 'Copy'}
+                    </button>
+                </div>
+                <div className="grid grid-cols-2 gap-1 font-mono text-xs text-zinc-300">
+                    {enrollment.backupCodes.map(backupCode => <span key={backupCode}>{backupCode}</span>)}
+                </div>
+                <label className="flex items-center gap-2 mt-3 text-xs text-zinc-400">
+                    <input type="checkbox" checked={savedCodes} onChange={e => setSavedCodes(e.target.checked)} />
+                    I stored these codes somewhere safe
+                </label>
+            </div>
+
+            <input
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={TOTP_DIGITS}
+                value={code}
+                onChange={e => setCode(e.target.value.replace(/\D/g, ''))}
+                placeholder={`${TOTP_DIGITS}-digit code from the app`}
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2.5 px-4 text-white text-sm text-center tracking-widest font-mono focus:outline-none focus:border-indigo-500"
+            />
+            {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+
+            <div className="flex gap-2">
+                <button type="button" onClick={onCancel} className="w-full py-3 bg-zinc-800 text-zinc-300 rounded-xl text-sm hover:bg-zinc-700">Cancel</button>
+                <button type="submit" disabled={isVerifying || !savedCodes || code.length !== TOTP_DIGITS} className="w-full py-3 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-500 disabled:opacity-50 flex items-center justify-center gap-2">
+                    {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />} Activate
+                </button>
+            </div>
+        </form>
+    );
+};
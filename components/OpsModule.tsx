@@ -1,8 +1,9 @@
 
 import React, { useState, useRef, useMemo } from 'react';
 import { ActionItem, CalendarEvent, IntegrationAccount, ReceiptData } from '../types';
-import { extractActionItems, extractActionItemsFromFile, fetchMockInbox, analyzeInbox } from '../services/geminiService';
-import { MessageSquare, CheckSquare, Clock, Zap, Loader2, Paperclip, X, FileText, Mail, Calendar, Plane, MapPin, Trash2, RefreshCw, CloudLightning, Check, AlertOctagon, Plus, Link as LinkIcon, HardDrive, Replace, Search, ArrowRight } from 'lucide-react';
+import { extractActionItems, extractActionItemsFromFile, fetchMockInbox, analyzeInbox, aiFailureMessage } from '../services/geminiService';
+import { MessageSquare, CheckSquare, Clock, Zap, Loader2, Paperclip, X, FileText, Mail, Calendar, Plane, MapPin, Trash2, RefreshCw, CloudLightning, Check, AlertOctagon, Plus, Link as LinkIcon, HardDrive, Replace, Search, ArrowRight, Undo2 } from 'lucide-react';
+import { storageService } from '../services/storageService';
 import { ProcessingStatus } from './ProcessingStatus';
 
 interface OpsModuleProps {
@@ -45,37 +46,32 @@ export const OpsModule: React.FC<OpsModuleProps> = ({ tasks, events, onAddTasks,
 
   const handleSearchReplace = () => {
       if (!findText) return;
-      let count = 0;
-      const updatedTasks = tasks.map(t => {
-          const val = String(t[searchField] || '');
-          if (val.includes(findText)) {
-              count++;
-              return { ...t, [searchField]: val.replace(new RegExp(findText, 'g'), replaceText) };
-          }
-          return t;
-      });
+      const changedTasks = tasks
+          .filter(t => String(t[searchField] || '').includes(findText))
+          .map(t => ({ ...t, [searchField]: String(t[searchField]).replace(new RegExp(findText, 'g'), replaceText) }));
 
-      if (count > 0) {
-          // Replace all tasks - inefficient but correct for architecture
-          // We need to clear and re-add or optimize parent state. 
-          // Assuming `onAddTasks` appends, we should technically remove old ones first, but we lack a bulk update prop.
-          // WORKAROUND: Remove all modified ID then add modified versions.
-          updatedTasks.forEach(t => {
-             if (String(tasks.find(old=>old.id===t.id)?.[searchField]).includes(findText)) {
-                 onRemoveTask(t.id); // Remove old
-                 // Re-add logic is complex with singular remove. 
-                 // Real app needs `onUpdateTasks`. 
-                 // For now, alerting limitation or implementing naive replace via remove/add cycle in parent if supported.
-                 // Actually `onAddTasks` prepends. So we can remove then add.
-             }
-          });
-          // This is too risky without a proper update method in props.
-          alert("Bulk update requires `onUpdateTasks` prop in this architecture. (Simulated success)");
+      if (changedTasks.length > 0) {
+          // Remove + re-add keeps the IDs, so the save is recorded as edits and can be undone as one operation
+          storageService.beginBulkOperation('founder_os_tasks', `Replace "${findText}" with "${replaceText}" in ${searchField}`);
+          changedTasks.forEach(t => onRemoveTask(t.id));
+          onAddTasks(changedTasks);
+          alert(`Replaced ${changedTasks.length} occurrences.`);
+          setFindText('');
+          setReplaceText('');
       } else {
           alert("No matches found.");
       }
   };
 
+  const undoBulkOperation = async () => {
+      try {
+          const operation = await storageService.undoLastBulkOperation();
+          alert(operation ? `Undid "${operation.label}" (${operation.recordCount} records).` : "Nothing to undo.");
+      } catch (e: any) {
+          alert(`Undo failed: ${e.message}`);
+      }
+  };
+
   const taskList = useMemo(() => (
       tasks.map((task, idx) => (
         <div key={task.id || idx} className="group bg-zinc-900/50 hover:bg-zinc-800/80 border border-white/5 hover:border-white/10 p-5 rounded-2xl transition-all duration-300 relative">
@@ -157,7 +153,7 @@ export const OpsModule: React.FC<OpsModuleProps> = ({ tasks, events, onAddTasks,
       onAddTasks(extractedTasks);
       setLogs('');
       setUploadedFile(null);
-    } catch (e) { alert("Processing failed."); } finally { setIsProcessing(false); }
+    } catch (e) { alert(aiFailureMessage(e, "Processing failed.")); } finally { setIsProcessing(false); }
   };
 
   const handleSyncIntegrations = async () => {
@@ -173,7 +169,7 @@ export const OpsModule: React.FC<OpsModuleProps> = ({ tasks, events, onAddTasks,
           if (result.tasks.length > 0) onAddTasks(result.tasks);
           if (result.events.length > 0) onAddEvents(result.events);
           result.receipts.forEach(r => onAddReceipt({ ...r, source: 'Auto-Sync' }));
-      } catch (e) { console.error(e); alert("Sync failed."); } finally { setIsSyncing(false); }
+      } catch (e) { console.error(e); alert(aiFailureMessage(e, "Sync failed.")); } finally { setIsSyncing(false); }
   };
 
   const handleManualAdd = () => {
@@ -246,6 +242,7 @@ export const OpsModule: React.FC<OpsModuleProps> = ({ tasks, events, onAddTasks,
                   <input value={replaceText} onChange={e => setReplaceText(e.target.value)} placeholder="Replace with..." className="bg-transparent text-sm text-white focus:outline-none w-32" />
               </div>
               <button onClick={handleSearchReplace} className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-1.5 rounded-lg text-sm font-medium transition-colors">Apply Replace</button>
+              <button onClick={undoBulkOperation} className="flex items-center gap-1.5 text-zinc-400 hover:text-white px-3 py-1.5 rounded-lg text-sm border border-zinc-800 hover:bg-white/5 transition-colors" title="Undo the most recent bulk change in this workspace"><Undo2 className="w-3 h-3" /> Undo Last Bulk Change</button>
               <button onClick={() => setShowSearchReplace(false)} className="text-zinc-500 hover:text-white ml-auto"><X className="w-4 h-4"/></button>
           </div>
       )}
@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { ViewState, GrowthPlan, AppSettings } from '../types';
 import { storageService } from '../services/storageService';
+import { GROWTH_PLAN_DEFAULTS } from '../services/schemaMigrations';
 import { TrendingUp, Users, AlertTriangle, Save, RefreshCw, Briefcase, LineChart, Target, Camera, Coins, Plus, Trash2, Download, Upload, MoreHorizontal, FileJson, Layout, ChevronRight, Copy, Rocket, BrainCircuit, Server, FileText, Loader2 } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, BarChart, Bar, CartesianGrid, Legend, ComposedChart, Line } from 'recharts';
 import { ProcessingStatus } from './ProcessingStatus';
@@ -13,31 +14,6 @@ interface PlanningModuleProps {
     settings: AppSettings;
 }
 
-const DEFAULT_PLAN: GrowthPlan = {
-    id: 'default',
-    name: 'Hybrid AI Strategy 2025',
-    currency: 'USD',
-    startingCash: 250000,
-    createdAt: new Date().toISOString(),
-    
-    // Consulting
-    consultingRevenue: 40000,
-    consultingGrowth: 5,
-    billableHeadcount: 2,
-    avgHourlyRate: 150,
-    utilization: 75,
-
-    // Product
-    productRevenue: 2000,
-    productGrowth: 15,
-    cloudCostPercent: 12, // High due to LLM inference
-
-    // OpEx
-    fixedOpEx: 15000,
-    marketingBudget: 3000,
-    salaryPerHead: 8000
-};
-
 export const PlanningModule: React.FC<PlanningModuleProps> = ({ onOpenCapture, settings }) => {
     // --- State ---
     const [plans, setPlans] = useState<GrowthPlan[]>([]);
@@ -51,7 +27,7 @@ export const PlanningModule: React.FC<PlanningModuleProps> = ({ onOpenCapture, s
 
     // --- Active Plan Resolution ---
     const activePlan = useMemo(() => {
-        return plans.find(p => p.id === activeId) || { ...DEFAULT_PLAN, currency: settings.currency };
+        return plans.find(p => p.id === activeId) || { ...GROWTH_PLAN_DEFAULTS, currency: settings.currency };
     }, [plans, activeId, settings.currency]);
 
     // --- Data Persistence ---
@@ -62,17 +38,12 @@ export const PlanningModule: React.FC<PlanningModuleProps> = ({ onOpenCapture, s
             const data = await storageService.load<GrowthPlan>('founder_os_plans');
             
             if (data && data.length > 0) {
-                // Migration Logic: If old plan format, patch it
-                const patchedPlans = data.map(p => ({
-                    ...DEFAULT_PLAN, // Apply defaults for new fields
-                    ...p, // Override with saved data
-                    id: p.id || crypto.randomUUID(),
-                    currency: p.currency || settings.currency
-                }));
-                setPlans(patchedPlans);
-                setActiveId(patchedPlans[0].id);
+                // Older plans are upgraded by the storage schema migrations; only the org currency is filled in here
+                const loadedPlans = data.map(p => p.currency ? p : { ...p, currency: settings.currency });
+                setPlans(loadedPlans);
+                setActiveId(loadedPlans[0].id);
             } else {
-                const initial = [{ ...DEFAULT_PLAN, id: crypto.randomUUID(), currency: settings.currency }];
+                const initial = [{ ...GROWTH_PLAN_DEFAULTS, id: crypto.randomUUID(), currency: settings.currency }];
                 setPlans(initial);
                 setActiveId(initial[0].id);
             }
@@ -224,7 +195,7 @@ export const PlanningModule: React.FC<PlanningModuleProps> = ({ onOpenCapture, s
             const importedData = JSON.parse(text);
             if (Array.isArray(importedData)) {
                 const processedImport = importedData.map((p: any) => ({
-                    ...DEFAULT_PLAN, ...p, id: crypto.randomUUID(), name: `${p.name} (Imported)`
+                    ...GROWTH_PLAN_DEFAULTS, ...p, id: crypto.randomUUID(), name: `${p.name} (Imported)`
                 }));
                 setPlans(prev => [...prev, ...processedImport]);
                 setActiveId(processedImport[0].id);
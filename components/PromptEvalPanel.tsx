@@ -0,0 +1,93 @@
+import React, { useState, useRef } from 'react';
+import { PromptEvalReport } from '../types';
+import { evaluatePromptCorpus, parsePromptEvalCorpus } from '../services/promptEval';
+import { getAiFixtures, getRecordedAiFixtures } from '../services/aiProviders';
+import { AI_PROMPTS } from '../services/aiPrompts';
+import { Upload, Download, Loader2, FlaskConical, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Golden-file evaluation of prompt versions: replays recorded answers (from the corpus file, or the fixtures and
+// recordings in this browser) for the corpus documents and scores them field by field. Runs offline.
+export const PromptEvalPanel: React.FC = () => {
+    const corpusRef = useRef<HTMLInputElement>(null);
+    const [report, setReport] = useState<PromptEvalReport | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const handleLoadCorpus = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsRunning(true);
+        try {
+            const corpus = parsePromptEvalCorpus(JSON.parse(await file.text()));
+            setReport(await evaluatePromptCorpus(corpus, corpus.responses || [...getAiFixtures(), ...getRecordedAiFixtures()]));
+        } catch (err: any) {
+            alert(`Could not evaluate the corpus: ${err.message}`);
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleDownloadReport = () => {
+        if (!report) return;
+        const url = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `FounderOS_Prompt_Eval_${report.generatedAt.split('T')[0]}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="mt-3">
+            <div className="flex items-center gap-2 text-xs">
+                <span className="text-zinc-500 flex-1 flex items-center gap-1"><FlaskConical className="w-3 h-3" /> {Object.keys(AI_PROMPTS).length} registered prompts · evaluate against a golden corpus</span>
+                <button onClick={() => corpusRef.current?.click()} disabled={isRunning} className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-white rounded border border-zinc-700 flex items-center gap-1">
+                    {isRunning ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />} Corpus
+                </button>
+                {report && <button onClick={handleDownloadReport} className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-white rounded border border-zinc-700 flex items-center gap-1"><Download className="w-3 h-3" /> Report</button>}
+                <input type="file" ref={corpusRef} className="hidden" accept=".json" onChange={handleLoadCorpus} />
+            </div>
+
+            {report && (
+                <div className="mt-2 space-y-2">
+                    {report.prompts.length === 0 && <p className="text-xs text-zinc-500">No scorable cases in the corpus.</p>}
+                    {report.prompts.map(p => (
+                        <div key={p.prompt} className="bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-xs">
+                            <div className="flex items-center justify-between mb-1">
+                                <span className="text-white font-mono">{p.prompt}</span>
+                                {p.regressions.length > 0
+                                    ? <span className="text-rose-400 flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> {p.regressions.length} regression(s)</span>
+                                    : <span className="text-emerald-400 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> No regressions</span>}
+                            </div>
+                            {p.versions.map(v => (
+                                <div key={v.version} className="flex items-center gap-2 text-zinc-400">
+                                    <span className={`font-mono w-8 ${v.version === p.currentVersion ? 'text-indigo-300' : ''}`}>v{v.version}</span>
+                                    {v.evaluatedCases.length > 0 ? (
+                                        <span className="flex-1 truncate" title={Object.entries(v.fields).map(([field, score]) => `${field}: ${score.correct}/${score.total}`).join(', ')}>
+                                            {percent(v.accuracy)} · {Object.entries(v.fields).map(([field, score]) => `${field} ${percent(score.accuracy)}`).join(' · ')}
+                                        </span>
+                                    ) : (
+                                        <span className="flex-1 text-zinc-600">No recorded answers</span>
+                                    )}
+                                    {v.missingCases.length > 0 && v.evaluatedCases.length > 0 && <span className="text-zinc-600">{v.missingCases.length} missing</span>}
+                                </div>
+                            ))}
+                            {p.regressions.map(r => (
+                                <div key={`${r.field}-${r.toVersion}`} className="text-rose-300 mt-1">
+                                    {r.field}: {percent(r.before)} → {percent(r.after)} (v{r.fromVersion} → v{r.toVersion})
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                    {report.unknownPrompts.length > 0 && (
+                        <p className="text-xs text-amber-400">Not scored (unknown or free-text prompts): {report.unknownPrompts.join(', ')}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { ReceiptData, ReceiptEvidenceField } from '../types';
+import { RECEIPT_EVIDENCE_FIELDS, fieldsNeedingReview, confidenceTone, markFieldsReviewed } from '../services/fieldReview';
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+
+const BOX_TONES = {
+    good: 'border-emerald-400 bg-emerald-400/10',
+    low: 'border-amber-400 bg-amber-400/10',
+    poor: 'border-rose-500 bg-rose-500/15'
+};
+const TEXT_TONES = { good: 'text-emerald-400', low: 'text-amber-400', poor: 'text-rose-400' };
+
+const toneFor = (receipt: ReceiptData, field: ReceiptEvidenceField) =>
+    receipt.reviewedFields?.includes(field) ? 'good' : confidenceTone(receipt.fieldEvidence?.[field]?.confidence ?? 1);
+
+export const hasEvidenceBoxes = (receipt: ReceiptData): boolean =>
+    Object.values(receipt.fieldEvidence || {}).some(evidence => evidence?.box);
+
+interface EvidenceOverlayProps {
+    receipt: ReceiptData;
+    activeField: ReceiptEvidenceField | null;
+    onSelectField: (field: ReceiptEvidenceField | null) => void;
+}
+
+// Receipt image with a box around each extracted value (boxes are percentages of the image)
+export const EvidenceOverlay: React.FC<EvidenceOverlayProps> = ({ receipt, activeField, onSelectField }) => (
+    <div className="relative inline-block max-w-full">
+        <img src={receipt.imageUrl} alt="Receipt" className="block max-w-full max-h-[75vh] object-contain shadow-2xl rounded-lg" />
+        {RECEIPT_EVIDENCE_FIELDS.map(({ id, label }) => {
+            const evidence = receipt.fieldEvidence?.[id];
+            if (!evidence?.box) return null;
+            return (
+                <div
+                    key={id}
+                    onMouseEnter={() => onSelectField(id)}
+                    onMouseLeave={() => onSelectField(null)}
+                    title={`${label}: ${Math.round(evidence.confidence * 100)}% confident`}
+                    className={`absolute border-2 rounded-sm transition-opacity ${BOX_TONES[toneFor(receipt, id)]} ${activeField && activeField !== id ? 'opacity-25' : 'opacity-100'}`}
+                    style={{ top: `${evidence.box.top}%`, left: `${evidence.box.left}%`, width: `${evidence.box.width}%`, height: `${evidence.box.height}%` }}
+                >
+                    <span className="absolute -top-4 left-0 text-[9px] font-bold uppercase bg-black/80 text-white px-1 rounded whitespace-nowrap">{label}</span>
+                </div>
+            );
+        })}
+    </div>
+);
+
+interface FieldReviewPanelProps {
+    receipt: ReceiptData;
+    activeField: ReceiptEvidenceField | null;
+    onSelectField: (field: ReceiptEvidenceField | null) => void;
+    onChange: (receipt: ReceiptData) => void; // A correction or confirmation (the field leaves the review queue)
+}
+
+const inputValue = (receipt: ReceiptData, field: ReceiptEvidenceField) => {
+    const value = receipt[field];
+    return value === undefined || value === null ? '' : String(value);
+};
+
+// Extracted values with their confidence; editing a value or confirming it marks the field as reviewed
+export const FieldReviewPanel: React.FC<FieldReviewPanelProps> = ({ receipt, activeField, onSelectField, onChange }) => {
+    const fields = RECEIPT_EVIDENCE_FIELDS.filter(f => receipt.fieldEvidence?.[f.id]);
+    if (fields.length === 0) return null;
+    const pending = fieldsNeedingReview(receipt);
+
+    const handleEdit = (field: ReceiptEvidenceField, raw: string) => {
+        if (raw === inputValue(receipt, field)) return;
+        const value = field === 'amount' || field === 'vatAmount' ? (raw === '' ? undefined : parseFloat(raw)) : raw;
+        if (field === 'amount' && (value === undefined || isNaN(value as number))) return;
+        onChange(markFieldsReviewed({ ...receipt, [field]: value }, [field]));
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Extracted Fields</h3>
+                {pending.length > 0 && (
+                    <button onClick={() => onChange(markFieldsReviewed(receipt, pending))} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                        <CheckCircle2 className="w-3 h-3" /> Confirm All
+                    </button>
+                )}
+            </div>
+            <div className="space-y-2">
+                {fields.map(({ id, label }) => {
+                    const evidence = receipt.fieldEvidence![id]!;
+                    const reviewed = receipt.reviewedFields?.includes(id);
+                    const tone = toneFor(receipt, id);
+                    return (
+                        <div
+                            key={id}
+                            onMouseEnter={() => onSelectField(id)}
+                            onMouseLeave={() => onSelectField(null)}
+                            className={`flex items-center gap-3 bg-black/30 px-3 py-2 rounded-xl border transition-colors ${activeField === id ? 'border-indigo-500/50' : 'border-zinc-800'}`}
+                        >
+                            <span className="text-[10px] text-zinc-500 uppercase font-bold tracking-wider w-14 shrink-0">{label}</span>
+                            <input
+                                key={`${receipt.id}-${id}-${inputValue(receipt, id)}`}
+                                type={id === 'date' ? 'date' : id === 'vendor' ? 'text' : 'number'}
+                                step="0.01"
+                                defaultValue={inputValue(receipt, id)}
+                                onBlur={e => handleEdit(id, e.target.value)}
+                                className="flex-1 min-w-0 bg-transparent text-sm text-white font-mono focus:outline-none border-b border-transparent focus:border-zinc-600"
+                            />
+                            <span className={`text-xs font-mono ${TEXT_TONES[tone]}`}>{Math.round(evidence.confidence * 100)}%</span>
+                            {reviewed ? (
+                                <span title="Reviewed" className="shrink-0"><CheckCircle2 className="w-4 h-4 text-emerald-500" /></span>
+                            ) : pending.includes(id) ? (
+                                <button onClick={() => onChange(markFieldsReviewed(receipt, [id]))} title="Value is correct" className="text-amber-400 hover:text-emerald-400 shrink-0">
+                                    <AlertTriangle className="w-4 h-4" />
+                                </button>
+                            ) : (
+                                <span className="w-4 shrink-0" />
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { User, UserSession } from '../types';
+import { storageService } from '../services/storageService';
+import { isSessionActive, formatLastSeen } from '../services/sessions';
+import { Monitor, Smartphone, LogOut, Loader2 } from 'lucide-react';
+
+interface SessionListProps {
+    user: User; // Whose devices are listed
+    currentSessionId?: string | null; // Marked "This device" and never signed out from the list
+}
+
+const isMobile = (session: UserSession) => /iOS|Android/.test(session.device);
+
+export const SessionList: React.FC<SessionListProps> = ({ user, currentSessionId }) => {
+    const [sessions, setSessions] = useState<UserSession[] | null>(null);
+    const [isRevoking, setIsRevoking] = useState(false);
+
+    const refresh = () => {
+        if (user.id) storageService.listSessions(user.id).then(setSessions);
+    };
+
+    useEffect(refresh, [user.id]);
+
+    const openSessions = (sessions || []).filter(s => !s.endedAt);
+    const otherSessions = openSessions.filter(s => s.id !== currentSessionId);
+
+    const handleRevoke = async (session: UserSession) => {
+        try {
+            await storageService.revokeSession(user.id!, session.id);
+            refresh();
+        } catch (e: any) {
+            alert(`Sign-out failed: ${e.message}`);
+        }
+    };
+
+    const handleRevokeAll = async () => {
+        const label = currentSessionId ? 'all your other devices' : `${user.name} on every device`;
+        if (!confirm(`Sign out ${label}?`)) return;
+        setIsRevoking(true);
+        try {
+            await storageService.revokeAllSessions(user, currentSessionId || undefined);
+            refresh();
+        } catch (e: any) {
+            alert(`Sign-out failed: ${e.message}`);
+        } finally {
+            setIsRevoking(false);
+        }
+    };
+
+    if (!sessions) return <Loader2 className="w-4 h-4 animate-spin text-zinc-600" />;
+
+    return (
+        <div className="space-y-2">
+            {openSessions.length === 0 && <p className="text-xs text-zinc-500">No signed-in devices.</p>}
+            {openSessions.map(session => {
+                const DeviceIcon = isMobile(session) ? Smartphone : Monitor;
+                const active = isSessionActive(session);
+                return (
+                    <div key={session.id} className="flex items-center justify-between bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2">
+                        <div className="flex items-center gap-3">
+                            <DeviceIcon className={`w-4 h-4 ${active ? 'text-emerald-400' : 'text-zinc-600'}`} />
+                            <div>
+                                <div className="text-sm text-white">
+                                    {session.device}
+                                    {session.id === currentSessionId && <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-indigo-500/10 text-indigo-400 border border-indigo-500/20">This device</span>}
+                                </div>
+                                <div className="text-xs text-zinc-500">
+                                    {active ? 'Active' : 'Inactive'} · last seen {formatLastSeen(session.lastSeenAt)} · signed in {new Date(session.createdAt).toLocaleDateString()}
+                                </div>
+                            </div>
+                        </div>
+                        {session.id !== currentSessionId && (
+                            <button onClick={() => handleRevoke(session)} title="Sign out this device" className="p-2 hover:bg-rose-500/10 rounded text-rose-400"><LogOut className="w-4 h-4" /></button>
+                        )}
+                    </div>
+                );
+            })}
+            {otherSessions.length > 0 && (
+                <button onClick={handleRevokeAll} disabled={isRevoking} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-rose-300 rounded-lg flex items-center gap-2 text-sm transition-colors border border-zinc-700 disabled:opacity-50">
+                    {isRevoking ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+                    {currentSessionId ? 'Sign Out Other Devices' : 'Sign Out Everywhere'}
+                </button>
+            )}
+        </div>
+    );
+};
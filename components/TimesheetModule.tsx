@@ -1,9 +1,10 @@
 
 import React, { useState, useRef, useMemo, useEffect, useCallback } from 'react';
 import { TimesheetEntry, ViewState } from '../types';
-import { parseTimesheet, queryTimesheetData } from '../services/geminiService';
+import { parseTimesheet, queryTimesheetData, aiFailureMessage } from '../services/geminiService';
 import { storageService } from '../services/storageService';
-import { Upload, FileSpreadsheet, Download, Search, Loader2, Save, Trash2, Clock, CalendarDays, Plus, BarChart3, User, Folder, Layers, Pencil, Check, X, History, FileJson, Filter, Replace, ArrowRight, AlertTriangle, FileWarning, ArrowUpDown, Sparkles, MoreHorizontal, Eraser, CheckSquare, Square, Camera } from 'lucide-react';
+import { Upload, FileSpreadsheet, Download, Search, Loader2, Save, Trash2, Clock, CalendarDays, Plus, BarChart3, User, Folder, Layers, Pencil, Check, X, History, FileJson, Filter, Replace, ArrowRight, AlertTriangle, FileWarning, ArrowUpDown, Sparkles, MoreHorizontal, Eraser, CheckSquare, Square, Camera, Undo2 } from 'lucide-react';
+import { TrashPanel } from './TrashPanel';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, AreaChart, Area, PieChart, Pie, Legend } from 'recharts';
 import * as XLSX from 'xlsx';
 import { ProcessingStatus } from './ProcessingStatus';
@@ -41,6 +42,8 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
     const [findText, setFindText] = useState('');
     const [replaceText, setReplaceText] = useState('');
     const [searchField, setSearchField] = useState<keyof TimesheetEntry>('project');
+    const [isUndoing, setIsUndoing] = useState(false);
+    const [showTrash, setShowTrash] = useState(false);
     const [sortConfig, setSortConfig] = useState<{ key: keyof TimesheetEntry, direction: 'asc' | 'desc' } | null>(null);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -52,6 +55,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
             if (data) setEntries(data);
         };
         load();
+        return storageService.subscribe<TimesheetEntry>('founder_os_timesheets', setEntries);
     }, []);
 
     // Save on Change
@@ -63,6 +67,11 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
         setHistoryLogs(storageService.getHistory(ViewState.TIMESHEETS));
     };
 
+    // Pull the persisted audit trail whenever the drawer opens
+    useEffect(() => {
+        if (showHistory) storageService.loadHistory(ViewState.TIMESHEETS).then(setHistoryLogs).catch((e: any) => alert(`Failed to load history: ${e.message}`));
+    }, [showHistory]);
+
     // --- Computed Data ---
 
     const uniqueFiles = useMemo(() => {
@@ -162,7 +171,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
             }
             finalizeImport(newEntries, file.name);
         } catch (err) {
-            alert("Failed to parse timesheet. Ensure file is readable.");
+            alert(aiFailureMessage(err, "Failed to parse timesheet. Ensure file is readable."));
             console.error(err);
         } finally {
             setIsParsing(false);
@@ -200,6 +209,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
 
     const deleteSelected = () => {
         if (!window.confirm(`Delete ${selectedIds.size} records?`)) return;
+        storageService.beginBulkOperation('founder_os_timesheets', `Bulk delete of ${selectedIds.size} entries`);
         setEntries(prev => prev.filter(e => !selectedIds.has(e.id)));
         setSelectedIds(new Set());
         storageService.logActivity(ViewState.TIMESHEETS, 'DELETE', `Bulk deleted ${selectedIds.size} records`);
@@ -212,6 +222,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
         if (removed === 0) { alert("No zero-hour entries found."); return; }
         
         if (window.confirm(`Found ${removed} entries with 0 hours. Remove them?`)) {
+            storageService.beginBulkOperation('founder_os_timesheets', `Remove ${removed} zero-hour entries`);
             setEntries(cleaned);
             storageService.logActivity(ViewState.TIMESHEETS, 'DELETE', `Cleaned ${removed} zero-hour entries`);
         }
@@ -236,6 +247,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
         if (duplicatesCount === 0) { alert("No exact duplicates found."); return; }
 
         if (window.confirm(`Found ${duplicatesCount} exact duplicates. Remove them?`)) {
+            storageService.beginBulkOperation('founder_os_timesheets', `Remove ${duplicatesCount} duplicates`);
             setEntries(uniqueEntries);
             storageService.logActivity(ViewState.TIMESHEETS, 'DELETE', `Removed ${duplicatesCount} duplicates`);
         }
@@ -243,10 +255,23 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
 
     const deleteBySourceFile = (filename: string) => {
         if (!window.confirm(`Delete ALL entries imported from "${filename}"?`)) return;
+        storageService.beginBulkOperation('founder_os_timesheets', `Delete import ${filename}`);
         setEntries(prev => prev.filter(e => e.sourceFile !== filename));
         storageService.logActivity(ViewState.TIMESHEETS, 'DELETE', `Deleted import: ${filename}`);
     };
 
+    const undoBulkOperation = async () => {
+        setIsUndoing(true);
+        try {
+            const operation = await storageService.undoLastBulkOperation();
+            alert(operation ? `Undid "${operation.label}" (${operation.recordCount} records).` : "Nothing to undo.");
+        } catch (e: any) {
+            alert(`Undo failed: ${e.message}`);
+        } finally {
+            setIsUndoing(false);
+        }
+    };
+
     const handleSearchReplace = () => {
         let count = 0;
         const newEntries = entries.map(e => {
@@ -265,6 +290,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
         });
 
         if (count > 0) {
+            storageService.beginBulkOperation('founder_os_timesheets', `Replace "${findText || '(empty)'}" with "${replaceText}" in ${searchField}`);
             setEntries(newEntries);
             alert(`Updated ${count} entries.`);
             setFindText('');
@@ -286,7 +312,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
             const result = await queryTimesheetData(entries, query);
             setReport(result);
         } catch (e) {
-            setReport("Error generating report.");
+            setReport(aiFailureMessage(e, "Error generating report."));
         } finally {
             setIsQuerying(false);
         }
@@ -319,6 +345,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
         <div className="flex flex-col h-full gap-8 relative">
             <ProcessingStatus isProcessing={isParsing} taskName="Normalizing Timesheet Data" mode="CLOUD" />
             <ProcessingStatus isProcessing={isQuerying} taskName="Generating Workforce Report" mode="CLOUD" />
+            {showTrash && <TrashPanel modules={[{ key: 'founder_os_timesheets', label: 'Timesheets' }]} onClose={() => setShowTrash(false)} />}
 
             <header className="flex justify-between items-end border-b border-white/5 pb-6">
                 <div>
@@ -333,6 +360,13 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
                     >
                         <History className="w-5 h-5" />
                     </button>
+                    <button
+                        onClick={() => setShowTrash(true)}
+                        className="p-2.5 rounded-xl border border-transparent text-zinc-500 hover:text-white transition-colors"
+                        title="Trash"
+                    >
+                        <Trash2 className="w-5 h-5" />
+                    </button>
                     
                     <div className="h-10 w-px bg-white/10 mx-1"></div>
 
@@ -379,6 +413,9 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
                         <input value={replaceText} onChange={e => setReplaceText(e.target.value)} placeholder="Replace with..." className="bg-transparent text-sm text-white focus:outline-none w-48" />
                     </div>
                     <button onClick={handleSearchReplace} className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-1.5 rounded-lg text-sm font-medium transition-colors">Apply</button>
+                    <button onClick={undoBulkOperation} disabled={isUndoing} className="flex items-center gap-1.5 text-zinc-400 hover:text-white px-3 py-1.5 rounded-lg text-sm border border-zinc-800 hover:bg-white/5 transition-colors" title="Undo the most recent bulk change in this workspace">
+                        {isUndoing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Undo2 className="w-3 h-3" />} Undo Last Bulk Change
+                    </button>
                     <button onClick={() => setShowSearchReplace(false)} className="text-zinc-500 hover:text-white ml-auto"><X className="w-4 h-4"/></button>
                 </div>
             )}
@@ -490,6 +527,7 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
                                     <p className="text-xs text-zinc-500 font-mono mb-1">{new Date(log.timestamp).toLocaleString()}</p>
                                     <p className="text-sm text-zinc-300 font-medium">{log.action}</p>
                                     <p className="text-xs text-zinc-400 mt-1">{log.details}</p>
+                                    {log.userEmail && <p className="text-[10px] text-zinc-600 mt-1">by {log.userEmail}</p>}
                                 </div>
                             ))}
                         </div>
@@ -530,6 +568,9 @@ export const TimesheetModule: React.FC<TimesheetModuleProps> = ({ onOpenCapture
                                                 <button onClick={() => { removeZeroHours(); setShowCleanupMenu(false); }} className="w-full text-left px-3 py-2 text-xs text-zinc-300 hover:bg-white/10 rounded-lg flex items-center gap-2 transition-colors">
                                                     <Trash2 className="w-3 h-3 text-rose-500" /> Remove Zero Hours
                                                 </button>
+                                                <button onClick={() => { undoBulkOperation(); setShowCleanupMenu(false); }} className="w-full text-left px-3 py-2 text-xs text-zinc-300 hover:bg-white/10 rounded-lg flex items-center gap-2 transition-colors">
+                                                    <Undo2 className="w-3 h-3 text-indigo-400" /> Undo Last Bulk Change
+                                                </button>
                                             </div>
                                         </>
                                     )}
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { storageService } from '../services/storageService';
+import { RetentionViolationError } from '../services/retentionPolicy';
+import { Trash2, X, Loader2, RotateCcw, Lock, CheckSquare, Square } from 'lucide-react';
+
+interface TrashPanelProps {
+    modules: { key: string; label: string }[];
+    onClose: () => void;
+}
+
+// Best human-readable label across the record shapes that can end up in Trash
+const describeRecord = (record: any): string => {
+    if (record.vendor || record.name) return record.vendor || record.name;
+    if (record.systemInvoiceNumber) return `${record.systemInvoiceNumber} · ${record.systemClient || ''}`;
+    if (record.project) return `${record.employee || ''} · ${record.project} · ${record.hours}h`;
+    return record.description || record.task || record.id;
+};
+
+const recordAmount = (record: any): string | null =>
+    typeof record.amount === 'number' ? `${record.amount} ${record.currency || ''}` :
+    typeof record.systemTotal === 'number' ? `${record.systemTotal} ${record.currency || ''}` : null;
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({ modules, onClose }) => {
+    const [moduleKey, setModuleKey] = useState(modules[0].key);
+    const [items, setItems] = useState<any[]>([]);
+    const [expired, setExpired] = useState<Set<string>>(new Set());
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isLoading, setIsLoading] = useState(true);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const refresh = async () => {
+        setIsLoading(true);
+        try {
+            const trashed = await storageService.loadTrash<any>(moduleKey);
+            setItems(trashed);
+            setExpired(new Set(await storageService.listExpiredTrash(moduleKey, trashed)));
+            setSelected(new Set());
+        } catch (e: any) {
+            alert(`Failed to load trash: ${e.message}`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, [moduleKey]);
+
+    const isHeld = (record: any) => (record._legalHoldUntil || 0) > Date.now();
+
+    const toggle = (id: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const handleRestore = async () => {
+        setIsWorking(true);
+        try {
+            const restored = await storageService.restoreFromTrash(moduleKey, Array.from(selected));
+            alert(`Restored ${restored} records.`);
+            await refresh();
+        } catch (e: any) {
+            alert(`Restore failed: ${e.message}`);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handlePurge = async () => {
+        if (!window.confirm(`Permanently delete ${selected.size} records? This cannot be undone.`)) return;
+        setIsWorking(true);
+        try {
+            const purged = await storageService.purgeFromTrash(moduleKey, Array.from(selected));
+            alert(`Permanently deleted ${purged} records.`);
+            await refresh();
+        } catch (e: any) {
+            alert(e instanceof RetentionViolationError ? e.message : `Purge failed: ${e.message}`);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handlePurgeExpired = async () => {
+        if (!window.confirm(`Permanently delete ${expired.size} records past their retention period? This cannot be undone.`)) return;
+        setIsWorking(true);
+        try {
+            const purged = await storageService.purgeExpiredTrash(moduleKey);
+            alert(`Permanently deleted ${purged} expired records.`);
+            await refresh();
+        } catch (e: any) {
+            alert(e instanceof RetentionViolationError ? e.message : `Purge failed: ${e.message}`);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const selectedHeld = items.some(r => selected.has(r.id) && isHeld(r));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in">
+            <div className="bg-zinc-950 border border-zinc-800 w-full max-w-3xl rounded-2xl p-6 shadow-2xl max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2"><Trash2 className="w-5 h-5 text-rose-400" /> Trash</h3>
+                    <button onClick={onClose} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                </div>
+
+                {modules.length > 1 && (
+                    <div className="flex gap-2 mb-4">
+                        {modules.map(m => (
+                            <button key={m.key} onClick={() => setModuleKey(m.key)} className={`px-3 py-1.5 rounded-lg text-xs font-medium border ${moduleKey === m.key ? 'bg-indigo-900/30 border-indigo-500 text-indigo-200' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white'}`}>
+                                {m.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex-1 overflow-auto custom-scrollbar border border-white/5 rounded-xl">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center gap-2 py-16 text-sm text-zinc-500"><Loader2 className="w-4 h-4 animate-spin" /> Loading trash...</div>
+                    ) : items.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-16 text-zinc-600 gap-2">
+                            <Trash2 className="w-8 h-8" />
+                            <span className="text-sm">Trash is empty.</span>
+                        </div>
+                    ) : (
+                        <table className="w-full text-left text-sm text-zinc-400">
+                            <thead className="bg-zinc-900 sticky top-0 uppercase text-[10px] tracking-wider">
+                                <tr>
+                                    <th className="p-3 w-8"></th>
+                                    <th className="p-3">Record</th>
+                                    <th className="p-3">Deleted</th>
+                                    <th className="p-3">Retention</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-zinc-800">
+                                {items.map(record => (
+                                    <tr key={record.id} onClick={() => toggle(record.id)} className={`cursor-pointer transition-colors ${selected.has(record.id) ? 'bg-indigo-900/20' : 'hover:bg-white/5'}`}>
+                                        <td className="p-3">{selected.has(record.id) ? <CheckSquare className="w-4 h-4 text-indigo-400" /> : <Square className="w-4 h-4" />}</td>
+                                        <td className="p-3">
+                                            <div className="text-white">{describeRecord(record)}</div>
+                                            {recordAmount(record) && <div className="text-xs font-mono text-zinc-500">{recordAmount(record)}</div>}
+                                        </td>
+                                        <td className="p-3 text-xs">
+                                            <div className="font-mono">{new Date(record._deletedAt).toLocaleString()}</div>
+                                            <div className="text-zinc-600">{record._deletedBy}</div>
+                                        </td>
+                                        <td className="p-3 text-xs">
+                                            {isHeld(record) ? (
+                                                <span className="flex items-center gap-1 text-amber-400"><Lock className="w-3 h-3" /> Legal hold until {new Date(record._legalHoldUntil).toLocaleDateString()}</span>
+                                            ) : expired.has(record.id) ? (
+                                                <span className="text-rose-400">Retention expired</span>
+                                            ) : (
+                                                <span className="text-zinc-500">Purgeable</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className="flex gap-2 pt-4">
+                    <button onClick={handleRestore} disabled={selected.size === 0 || isWorking} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50">
+                        {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />} Restore Selected
+                    </button>
+                    <button onClick={handlePurge} disabled={selected.size === 0 || selectedHeld || isWorking} title={selectedHeld ? 'Bookkeeping records must be kept for 7 years' : undefined} className="flex-1 py-3 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 rounded-xl text-sm flex items-center justify-center gap-2 disabled:opacity-50">
+                        <Trash2 className="w-4 h-4" /> Delete Permanently
+                    </button>
+                    {storageService.isAdmin && expired.size > 0 && (
+                        <button onClick={handlePurgeExpired} disabled={isWorking} className="flex-1 py-3 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 rounded-xl text-sm flex items-center justify-center gap-2 disabled:opacity-50">
+                            <Trash2 className="w-4 h-4" /> Purge Expired ({expired.size})
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
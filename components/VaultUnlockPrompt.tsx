@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { storageService } from '../services/storageService';
+import { KeyRound, Loader2, Lock, LifeBuoy } from 'lucide-react';
+
+interface VaultUnlockPromptProps {
+    onUnlocked: () => void;
+    onSkip: () => void;
+}
+
+export const VaultUnlockPrompt: React.FC<VaultUnlockPromptProps> = ({ onUnlocked, onSkip }) => {
+    const [secret, setSecret] = useState('');
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+    const [error, setError] = useState('');
+    const [isUnlocking, setIsUnlocking] = useState(false);
+
+    const handleUnlock = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsUnlocking(true);
+        setError('');
+        try {
+            const result = useRecoveryCode
+                ? await storageService.unlockWithRecoveryCode(secret)
+                : await storageService.unlockVault(secret);
+            if (result === 'unlocked') {
+                onUnlocked();
+            } else if (result === 'no-access') {
+                setError(useRecoveryCode
+                    ? 'No recovery code is set up for this organization.'
+                    : 'Your account has not been granted access to encrypted data yet. Ask an admin to grant it in Settings.');
+            } else {
+                setError(useRecoveryCode ? 'Incorrect recovery code.' : 'Incorrect password.');
+            }
+        } catch (e: any) {
+            setError(e.message || 'Failed to unlock.');
+        } finally {
+            setIsUnlocking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in">
+            <form onSubmit={handleUnlock} className="bg-zinc-950 border border-zinc-800 w-full max-w-md rounded-2xl p-6 shadow-2xl">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="p-2 bg-indigo-500/10 rounded-lg border border-indigo-500/20">
+                        <Lock className="w-5 h-5 text-indigo-400" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-white">Unlock Vault</h3>
+                        <p className="text-xs text-zinc-500">Payment details, API keys and contract files are encrypted for your organization.</p>
+                    </div>
+                </div>
+
+                <input
+                    type={useRecoveryCode ? 'text' : 'password'}
+                    autoFocus
+                    value={secret}
+                    onChange={e => setSecret(e.target.value)}
+                    placeholder={useRecoveryCode ? 'XXXXX-XXXXX-XXXXX-XXXXX-XXXXX' : 'Your account password'}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-3 py-2.5 text-sm text-white font-mono focus:outline-none focus:border-indigo-500"
+                />
+                {error && <p className="text-xs text-rose-400 mt-2">{error}</p>}
+                <button
+                    type="button"
+                    onClick={() => { setUseRecoveryCode(!useRecoveryCode); setSecret(''); setError(''); }}
+                    className="mt-3 text-xs text-zinc-400 hover:text-white flex items-center gap-1.5"
+                >
+                    <LifeBuoy className="w-3.5 h-3.5" /> {useRecoveryCode ? 'Use my password instead' : 'Use the admin recovery code'}
+                </button>
+
+                <div className="flex gap-2 pt-4">
+                    <button type="button" onClick={onSkip} className="flex-1 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl text-sm">Continue Locked</button>
+                    <button type="submit" disabled={!secret || isUnlocking} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50">
+                        {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />} Unlock
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,397 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestContext, RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, deleteDoc, doc, getDoc, getDocs, limit, orderBy, query, setDoc, updateDoc, where } from 'firebase/firestore';
+
+// Security rules against the Firestore emulator: npm run test:rules
+
+const ORG = 'org-a';
+const OTHER_ORG = 'org-b';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PROFILES: Record<string, Record<string, unknown>> = {
+    admin: { organizationId: ORG, email: 'admin@a.test', name: 'Admin', role: 'Admin', mfaVerified: false, status: 'Active' },
+    member: { organizationId: ORG, email: 'member@a.test', name: 'Member', role: 'Member', mfaVerified: false, status: 'Active' },
+    finance: { organizationId: ORG, email: 'finance@a.test', name: 'Finance', role: 'Member', mfaVerified: false, status: 'Active', allowedModules: ['FINANCE'] },
+    viewer: { organizationId: ORG, email: 'viewer@a.test', name: 'Viewer', role: 'Viewer', mfaVerified: false, status: 'Active' },
+    suspended: { organizationId: ORG, email: 'gone@a.test', name: 'Gone', role: 'Member', mfaVerified: false, status: 'Suspended' },
+    outsider: { organizationId: OTHER_ORG, email: 'outsider@b.test', name: 'Outsider', role: 'Admin', mfaVerified: false, status: 'Active' },
+    root: { organizationId: OTHER_ORG, email: 'root@b.test', name: 'Root', role: 'SuperAdmin', mfaVerified: false, status: 'Active' }
+};
+
+let env: RulesTestEnvironment;
+
+const as = (uid: string, email = `${uid}@new.test`) =>
+    env.authenticatedContext(uid, { email: (PROFILES[uid]?.email as string) || email }).firestore();
+
+const seed = (write: (db: ReturnType<RulesTestContext['firestore']>) => Promise<unknown>) =>
+    env.withSecurityRulesDisabled(context => write(context.firestore()).then(() => undefined));
+
+beforeAll(async () => {
+    env = await initializeTestEnvironment({
+        projectId: 'founder-os-rules',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    });
+});
+
+afterAll(async () => {
+    await env.cleanup();
+});
+
+beforeEach(async () => {
+    await env.clearFirestore();
+    await seed(async db => {
+        await setDoc(doc(db, 'organizations', ORG), { id: ORG, name: 'Org A', subscriptionStatus: 'Pro', ownerId: 'admin' });
+        await setDoc(doc(db, 'organizations', OTHER_ORG), { id: OTHER_ORG, name: 'Org B', subscriptionStatus: 'Trial', ownerId: 'outsider' });
+        for (const [uid, profile] of Object.entries(PROFILES)) await setDoc(doc(db, 'users', uid), profile);
+        await setDoc(doc(db, 'organizations', ORG, 'receipts', 'r1'), { id: 'r1', vendor: 'Acme', amount: 10 });
+        await setDoc(doc(db, 'organizations', ORG, 'contracts', 'c1'), { id: 'c1', title: 'NDA' });
+        await setDoc(doc(db, 'organizations', ORG, 'config', 'global_settings'), { companyName: 'Org A' });
+    });
+});
+
+describe('profiles', () => {
+    it('lets the owner of a new org create their own Admin profile', async () => {
+        await seed(db => setDoc(doc(db, 'organizations', 'org-new'), { id: 'org-new', name: 'New', subscriptionStatus: 'Trial', ownerId: 'founder' }));
+        await assertSucceeds(setDoc(doc(as('founder'), 'users', 'founder'),
+            { organizationId: 'org-new', email: 'founder@new.test', name: 'Founder', role: 'Admin', mfaVerified: false }));
+    });
+
+    it('does not let an org owner make themselves SuperAdmin or pick their own modules', async () => {
+        const db = as('founder');
+        await assertSucceeds(setDoc(doc(db, 'organizations', 'org-new'), { id: 'org-new', name: 'New', subscriptionStatus: 'Trial', ownerId: 'founder' }));
+        const profile = { organizationId: 'org-new', email: 'founder@new.test', name: 'Founder', mfaVerified: false };
+        await assertFails(setDoc(doc(db, 'users', 'founder'), { ...profile, role: 'SuperAdmin' }));
+        await assertFails(setDoc(doc(db, 'users', 'founder'), { ...profile, role: 'Admin', allowedModules: ['FINANCE'] }));
+    });
+
+    it('does not let a user create a profile in an org they do not own', async () => {
+        await assertFails(setDoc(doc(as('stranger'), 'users', 'stranger'),
+            { organizationId: ORG, email: 'stranger@new.test', name: 'Stranger', role: 'Admin', mfaVerified: false }));
+    });
+
+    it('does not let an org Admin create or promote a SuperAdmin', async () => {
+        const db = as('admin');
+        await assertFails(setDoc(doc(db, 'users', 'new'), { ...PROFILES.member, email: 'new@a.test', role: 'SuperAdmin' }));
+        await assertFails(updateDoc(doc(db, 'users', 'member'), { role: 'SuperAdmin' }));
+        await assertSucceeds(updateDoc(doc(db, 'users', 'member'), { role: 'Viewer' }));
+    });
+
+    it('does not let an org Admin manage users of another org', async () => {
+        await assertFails(updateDoc(doc(as('admin'), 'users', 'outsider'), { role: 'Viewer' }));
+        await assertFails(updateDoc(doc(as('admin'), 'users', 'member'), { organizationId: OTHER_ORG }));
+    });
+
+    it('keeps privileged fields out of a user\'s own reach', async () => {
+        const db = as('member');
+        await assertSucceeds(updateDoc(doc(db, 'users', 'member'), { name: 'Renamed' }));
+        for (const patch of [{ role: 'Admin' }, { organizationId: OTHER_ORG }, { allowedModules: ['CONTRACTS'] }, { status: 'Suspended' }]) {
+            await assertFails(updateDoc(doc(db, 'users', 'member'), patch));
+        }
+        await assertFails(updateDoc(doc(as('finance'), 'users', 'finance'), { allowedModules: ['FINANCE', 'CONTRACTS'] }));
+        await assertFails(updateDoc(doc(db, 'users', 'finance'), { name: 'Not mine' }));
+    });
+
+    it('hides profiles of other orgs', async () => {
+        await assertSucceeds(getDoc(doc(as('member'), 'users', 'admin')));
+        await assertFails(getDoc(doc(as('member'), 'users', 'outsider')));
+        await assertSucceeds(getDoc(doc(as('root'), 'users', 'member')));
+    });
+});
+
+describe('module access', () => {
+    it('limits members with allowedModules to those modules', async () => {
+        const db = as('finance');
+        await assertSucceeds(getDoc(doc(db, 'organizations', ORG, 'receipts', 'r1')));
+        await assertSucceeds(setDoc(doc(db, 'organizations', ORG, 'receipts', 'r2'), { id: 'r2', amount: 5 }));
+        await assertFails(getDoc(doc(db, 'organizations', ORG, 'contracts', 'c1')));
+        await assertFails(setDoc(doc(db, 'organizations', ORG, 'contracts', 'c2'), { id: 'c2' }));
+    });
+
+    it('gives legacy profiles without allowedModules and Admins every module', async () => {
+        await assertSucceeds(getDoc(doc(as('member'), 'organizations', ORG, 'contracts', 'c1')));
+        await assertSucceeds(getDoc(doc(as('admin'), 'organizations', ORG, 'contracts', 'c1')));
+    });
+
+    it('keeps Viewers read-only', async () => {
+        const db = as('viewer');
+        await assertSucceeds(getDoc(doc(db, 'organizations', ORG, 'receipts', 'r1')));
+        await assertFails(setDoc(doc(db, 'organizations', ORG, 'receipts', 'r2'), { id: 'r2', amount: 5 }));
+        await assertFails(updateDoc(doc(db, 'organizations', ORG, 'receipts', 'r1'), { amount: 11 }));
+        await assertFails(deleteDoc(doc(db, 'organizations', ORG, 'contracts', 'c1')));
+    });
+
+    it('locks out suspended members and other orgs', async () => {
+        await assertFails(getDoc(doc(as('suspended'), 'organizations', ORG, 'receipts', 'r1')));
+        await assertFails(getDoc(doc(as('outsider'), 'organizations', ORG, 'receipts', 'r1')));
+        await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), 'organizations', ORG, 'receipts', 'r1')));
+    });
+
+    it('shows activity entries only for modules the member can access', async () => {
+        await seed(async db => {
+            await setDoc(doc(db, 'organizations', ORG, 'activity', 'a1'), { tool: 'FINANCE', userId: 'admin' });
+            await setDoc(doc(db, 'organizations', ORG, 'activity', 'a2'), { tool: 'CONTRACTS', userId: 'admin' });
+        });
+        const db = as('finance');
+        await assertSucceeds(getDoc(doc(db, 'organizations', ORG, 'activity', 'a1')));
+        await assertFails(getDoc(doc(db, 'organizations', ORG, 'activity', 'a2')));
+        await assertSucceeds(getDocs(query(collection(db, 'organizations', ORG, 'activity'), where('tool', 'in', ['FINANCE']))));
+        // The audit trail's query for a member with allowedModules and no module filter
+        await assertSucceeds(getDocs(query(collection(db, 'organizations', ORG, 'activity'), where('tool', 'in', ['FINANCE']), where('userId', '==', 'admin'), orderBy('timestamp', 'desc'), limit(200))));
+        await assertFails(getDocs(collection(db, 'organizations', ORG, 'activity')));
+    });
+
+    it('keeps the audit trail append-only and in the writer\'s own name', async () => {
+        const db = as('member');
+        await assertSucceeds(setDoc(doc(db, 'organizations', ORG, 'activity', 'a3'), { tool: 'FINANCE', userId: 'member' }));
+        await assertFails(setDoc(doc(db, 'organizations', ORG, 'activity', 'a4'), { tool: 'FINANCE', userId: 'admin' }));
+        await assertFails(updateDoc(doc(db, 'organizations', ORG, 'activity', 'a3'), { details: 'rewritten' }));
+        await assertFails(deleteDoc(doc(as('admin'), 'organizations', ORG, 'activity', 'a3')));
+    });
+});
+
+describe('invitations', () => {
+    const invite = (overrides: Record<string, unknown> = {}) => ({
+        id: 'inv1', organizationId: ORG, email: 'joiner@new.test', name: 'Joiner', role: 'Member',
+        allowedModules: ['OPS'], status: 'Pending', createdAt: new Date().toISOString(), expiresAt: Date.now() + DAY_MS,
+        ...overrides
+    });
+    const profile = (overrides: Record<string, unknown> = {}) => ({
+        organizationId: ORG, email: 'joiner@new.test', name: 'Joiner', role: 'Member', allowedModules: ['OPS'],
+        mfaVerified: false, status: 'Active', invitationId: 'inv1', ...overrides
+    });
+
+    it('lets the invitee create the profile the invitation describes and accept it', async () => {
+        await seed(db => setDoc(doc(db, 'invitations', 'inv1'), invite()));
+        const db = as('joiner', 'joiner@new.test');
+        await assertSucceeds(setDoc(doc(db, 'users', 'joiner'), profile()));
+        await assertSucceeds(updateDoc(doc(db, 'invitations', 'inv1'), { status: 'Accepted', acceptedAt: new Date().toISOString(), acceptedBy: 'joiner' }));
+    });
+
+    it('rejects a profile that differs from the invitation', async () => {
+        await seed(db => setDoc(doc(db, 'invitations', 'inv1'), invite()));
+        const db = as('joiner', 'joiner@new.test');
+        await assertFails(setDoc(doc(db, 'users', 'joiner'), profile({ role: 'Admin' })));
+        await assertFails(setDoc(doc(db, 'users', 'joiner'), profile({ role: 'SuperAdmin' })));
+        await assertFails(setDoc(doc(db, 'users', 'joiner'), profile({ allowedModules: ['OPS', 'FINANCE'] })));
+        await assertFails(setDoc(doc(db, 'users', 'joiner'), profile({ organizationId: OTHER_ORG })));
+    });
+
+    it('rejects redemption by another address, after expiry or once used', async () => {
+        await seed(async db => {
+            await setDoc(doc(db, 'invitations', 'inv1'), invite());
+            await setDoc(doc(db, 'invitations', 'expired'), invite({ id: 'expired', expiresAt: Date.now() - DAY_MS }));
+            await setDoc(doc(db, 'invitations', 'used'), invite({ id: 'used', status: 'Accepted' }));
+        });
+        await assertFails(setDoc(doc(as('intruder', 'intruder@new.test'), 'users', 'intruder'), profile({ email: 'intruder@new.test' })));
+        const db = as('joiner', 'joiner@new.test');
+        await assertFails(setDoc(doc(db, 'users', 'joiner'), profile({ invitationId: 'expired' })));
+        await assertFails(setDoc(doc(db, 'users', 'joiner'), profile({ invitationId: 'used' })));
+    });
+
+    it('only lets the invitee flip their invitation to Accepted', async () => {
+        await seed(db => setDoc(doc(db, 'invitations', 'inv1'), invite()));
+        const db = as('joiner', 'joiner@new.test');
+        await assertFails(updateDoc(doc(db, 'invitations', 'inv1'), { role: 'Admin' }));
+        await assertFails(updateDoc(doc(db, 'invitations', 'inv1'), { status: 'Accepted', acceptedBy: 'someone-else' }));
+        await assertFails(updateDoc(doc(as('intruder', 'intruder@new.test'), 'invitations', 'inv1'), { status: 'Accepted', acceptedBy: 'intruder' }));
+    });
+
+    it('lets Admins revoke an invitation but not point it at another org, role or address', async () => {
+        await seed(async db => {
+            await setDoc(doc(db, 'invitations', 'inv1'), invite());
+            await setDoc(doc(db, 'invitations', 'own'), invite({ id: 'own', organizationId: OTHER_ORG, email: 'outsider@b.test' }));
+        });
+        await assertSucceeds(updateDoc(doc(as('admin'), 'invitations', 'inv1'), { status: 'Revoked', revokedAt: new Date().toISOString(), revokedBy: 'admin@a.test' }));
+        // An Admin of their own org rewriting an invitation to join someone else's as Admin
+        const db = as('outsider');
+        await assertFails(updateDoc(doc(db, 'invitations', 'own'), { organizationId: ORG, role: 'Admin' }));
+        await assertFails(updateDoc(doc(db, 'invitations', 'own'), { organizationId: ORG }));
+        await assertFails(updateDoc(doc(db, 'invitations', 'own'), { role: 'Admin', allowedModules: ['FINANCE'] }));
+        await assertFails(updateDoc(doc(db, 'invitations', 'own'), { email: 'joiner@new.test' }));
+        await assertFails(updateDoc(doc(db, 'invitations', 'own'), { status: 'Accepted' }));
+    });
+
+    it('lets only the org\'s Admins invite, and never as SuperAdmin', async () => {
+        await assertSucceeds(setDoc(doc(as('admin'), 'invitations', 'inv2'), invite({ id: 'inv2' })));
+        await assertFails(setDoc(doc(as('admin'), 'invitations', 'inv3'), invite({ id: 'inv3', role: 'SuperAdmin' })));
+        await assertFails(setDoc(doc(as('member'), 'invitations', 'inv4'), invite({ id: 'inv4' })));
+        await assertFails(setDoc(doc(as('outsider'), 'invitations', 'inv5'), invite({ id: 'inv5' })));
+    });
+});
+
+describe('legal hold', () => {
+    const getHold = async () => {
+        let hold = 0;
+        await env.withSecurityRulesDisabled(async context => {
+            hold = (await getDoc(doc(context.firestore(), 'organizations', ORG, 'receipts', 'held'))).get('_legalHoldUntil');
+        });
+        return hold;
+    };
+
+    beforeEach(async () => {
+        await seed(async db => {
+            await setDoc(doc(db, 'organizations', ORG, 'receipts', 'held'), { id: 'held', _deletedAt: new Date().toISOString(), _legalHoldUntil: Date.now() + 365 * DAY_MS });
+            await setDoc(doc(db, 'organizations', ORG, 'receipts', 'expired'), { id: 'expired', _deletedAt: new Date().toISOString(), _legalHoldUntil: Date.now() - DAY_MS });
+            await setDoc(doc(db, 'organizations', ORG, 'tasks', 't1'), { id: 't1', title: 'Call back' });
+        });
+    });
+
+    it('only purges bookkeeping records once their hold has passed', async () => {
+        const db = as('admin');
+        await assertFails(deleteDoc(doc(db, 'organizations', ORG, 'receipts', 'held')));
+        await assertFails(deleteDoc(doc(db, 'organizations', ORG, 'receipts', 'r1')));
+        await assertSucceeds(deleteDoc(doc(db, 'organizations', ORG, 'receipts', 'expired')));
+        await assertSucceeds(deleteDoc(doc(db, 'organizations', ORG, 'tasks', 't1')));
+    });
+
+    it('lets members restore a held record but not edit it or touch its hold', async () => {
+        const held = doc(as('member'), 'organizations', ORG, 'receipts', 'held');
+        await assertFails(updateDoc(held, { amount: 0 }));
+        await assertFails(updateDoc(held, { _legalHoldUntil: Date.now() + 10 * 365 * DAY_MS }));
+        await assertFails(setDoc(held, { id: 'held', _deletedAt: new Date().toISOString() }));
+        await assertFails(setDoc(held, { id: 'held' }));
+        await assertSucceeds(setDoc(held, { id: 'held', _legalHoldUntil: (await getHold()), lastModified: new Date().toISOString() }));
+        // Back in Trash the hold still runs, so it can't be purged
+        await assertSucceeds(updateDoc(held, { _deletedAt: new Date().toISOString() }));
+        await assertFails(deleteDoc(doc(as('admin'), 'organizations', ORG, 'receipts', 'held')));
+    });
+
+    it('holds a newly trashed bookkeeping record at least as long as the law requires', async () => {
+        await seed(db => setDoc(doc(db, 'organizations', ORG, 'receipts', 'live'), { id: 'live', date: '2024-03-01', amount: 10 }));
+        const live = doc(as('member'), 'organizations', ORG, 'receipts', 'live');
+        await assertFails(updateDoc(live, { _deletedAt: new Date().toISOString(), _legalHoldUntil: 0 }));
+        await assertSucceeds(updateDoc(live, { _deletedAt: new Date().toISOString(), _legalHoldUntil: Date.UTC(2032, 0, 1) }));
+        await assertFails(deleteDoc(doc(as('admin'), 'organizations', ORG, 'receipts', 'live')));
+    });
+
+    it('never shortens a stamped hold', async () => {
+        const db = as('admin');
+        await assertFails(updateDoc(doc(db, 'organizations', ORG, 'receipts', 'held'), { _legalHoldUntil: Date.now() }));
+        await assertSucceeds(updateDoc(doc(db, 'organizations', ORG, 'receipts', 'held'), { _legalHoldUntil: Date.now() + 2 * 365 * DAY_MS }));
+    });
+});
+
+describe('second factor', () => {
+    const SIGN_IN = 1700000000;
+    const signedIn = (uid: string, mfaSessions?: number[]) =>
+        env.authenticatedContext(uid, { email: PROFILES[uid].email as string, auth_time: SIGN_IN, ...(mfaSessions ? { mfaSessions } : {}) }).firestore();
+
+    it('keeps an enrolled user out of org data until this sign-in passed the second factor', async () => {
+        await seed(db => updateDoc(doc(db, 'users', 'member'), { mfaVerified: true }));
+        await assertFails(getDoc(doc(signedIn('member'), 'organizations', ORG, 'receipts', 'r1')));
+        await assertFails(getDoc(doc(signedIn('member', [SIGN_IN - 3600]), 'organizations', ORG, 'receipts', 'r1')));
+        await assertSucceeds(getDoc(doc(signedIn('member', [SIGN_IN - 3600, SIGN_IN]), 'organizations', ORG, 'receipts', 'r1')));
+        // The profile stays readable so the sign-in screen can ask for the code
+        await assertSucceeds(getDoc(doc(signedIn('member'), 'users', 'member')));
+    });
+
+    it('keeps users whose role requires MFA out until they enrolled and verified', async () => {
+        await seed(db => updateDoc(doc(db, 'organizations', ORG, 'config', 'global_settings'), { mfaRequiredRoles: ['Member'] }));
+        await assertFails(getDoc(doc(signedIn('member'), 'organizations', ORG, 'receipts', 'r1')));
+        await assertSucceeds(getDoc(doc(signedIn('member', [SIGN_IN]), 'organizations', ORG, 'receipts', 'r1')));
+        await assertSucceeds(getDoc(doc(signedIn('admin'), 'organizations', ORG, 'receipts', 'r1')));
+    });
+
+    it('applies to SuperAdmins too', async () => {
+        await seed(db => updateDoc(doc(db, 'users', 'root'), { mfaVerified: true }));
+        await assertFails(getDoc(doc(signedIn('root'), 'users', 'member')));
+        await assertSucceeds(getDoc(doc(signedIn('root', [SIGN_IN]), 'users', 'member')));
+    });
+
+    it('shuts out sign-ins from before a sign-out everywhere', async () => {
+        await seed(db => setDoc(doc(db, 'users', 'member', 'security', 'sessions'), { validAfter: SIGN_IN + 60 }));
+        await assertFails(getDoc(doc(signedIn('member'), 'organizations', ORG, 'receipts', 'r1')));
+        const later = env.authenticatedContext('member', { email: PROFILES.member.email as string, auth_time: SIGN_IN + 120 }).firestore();
+        await assertSucceeds(getDoc(doc(later, 'organizations', ORG, 'receipts', 'r1')));
+        await assertFails(setDoc(doc(later, 'users', 'member', 'security', 'sessions'), { validAfter: 0 }));
+    });
+
+    it('never exposes the TOTP secret to a client', async () => {
+        await seed(db => setDoc(doc(db, 'users', 'member', 'security', 'mfa'), { secret: 'GEZDGNBV', backupCodeHashes: [], lastUsedStep: 0 }));
+        await assertFails(getDoc(doc(signedIn('member', [SIGN_IN]), 'users', 'member', 'security', 'mfa')));
+        await assertFails(setDoc(doc(signedIn('member', [SIGN_IN]), 'users', 'member', 'security', 'mfa'), { secret: 'MINE' }));
+        await assertFails(deleteDoc(doc(signedIn('admin'), 'users', 'member', 'security', 'mfa')));
+    });
+
+    it('leaves mfaVerified to the MFA functions', async () => {
+        await seed(db => updateDoc(doc(db, 'users', 'member'), { mfaVerified: true }));
+        await assertFails(updateDoc(doc(signedIn('member'), 'users', 'member'), { mfaVerified: false }));
+        await assertFails(updateDoc(doc(as('admin'), 'users', 'member'), { mfaVerified: false }));
+        await assertFails(setDoc(doc(as('admin'), 'users', 'new'), { ...PROFILES.member, email: 'new@a.test', mfaVerified: true }));
+    });
+});
+
+describe('privileged org fields', () => {
+    it('lets only Admins change org-wide policies in the shared settings', async () => {
+        const settings = doc(as('member'), 'organizations', ORG, 'config', 'global_settings');
+        await assertSucceeds(updateDoc(settings, { companyName: 'Renamed' }));
+        await assertFails(updateDoc(settings, { mfaRequiredRoles: [] }));
+        await assertFails(updateDoc(settings, { piiRedaction: false }));
+        await assertSucceeds(updateDoc(doc(as('admin'), 'organizations', ORG, 'config', 'global_settings'), { mfaRequiredRoles: ['Admin'] }));
+    });
+
+    it('lets only Admins set policies when the shared settings are first created', async () => {
+        await seed(db => deleteDoc(doc(db, 'organizations', ORG, 'config', 'global_settings')));
+        const settings = doc(as('member'), 'organizations', ORG, 'config', 'global_settings');
+        await assertFails(setDoc(settings, { companyName: 'Org A', mfaRequiredRoles: [] }));
+        await assertFails(setDoc(settings, { companyName: 'Org A', piiRedaction: false }));
+        await assertFails(setDoc(settings, { aiProvider: 'GEMINI', storageProvider: 'LOCAL' }));
+        await assertSucceeds(setDoc(settings, { companyName: 'Org A' }));
+        await seed(db => deleteDoc(doc(db, 'organizations', ORG, 'config', 'global_settings')));
+        await assertSucceeds(setDoc(doc(as('admin'), 'organizations', ORG, 'config', 'global_settings'), { companyName: 'Org A', mfaRequiredRoles: ['Admin'] }));
+    });
+
+    it('lets only Admins touch the vault config', async () => {
+        await assertFails(setDoc(doc(as('member'), 'organizations', ORG, 'config', 'vault'), { keyVersion: 1 }));
+        await assertSucceeds(setDoc(doc(as('admin'), 'organizations', ORG, 'config', 'vault'), { keyVersion: 1 }));
+    });
+
+    it("keeps each member's wrapped vault keys to themselves and Admins", async () => {
+        await seed(async db => {
+            await setDoc(doc(db, 'organizations', ORG, 'vaultMembers', 'member'), { id: 'member', wrappedKeys: {} });
+            await setDoc(doc(db, 'organizations', ORG, 'vaultMembers', 'admin'), { id: 'admin', wrappedKeys: {} });
+            await setDoc(doc(db, 'organizations', ORG, 'vaultMembers', 'recovery'), { id: 'recovery', wrappedKeys: {} });
+        });
+        const db = as('member');
+        await assertSucceeds(getDoc(doc(db, 'organizations', ORG, 'vaultMembers', 'member')));
+        await assertFails(getDoc(doc(db, 'organizations', ORG, 'vaultMembers', 'admin')));
+        await assertFails(getDoc(doc(db, 'organizations', ORG, 'vaultMembers', 'recovery')));
+        await assertFails(getDocs(collection(db, 'organizations', ORG, 'vaultMembers')));
+        await assertSucceeds(getDocs(collection(as('admin'), 'organizations', ORG, 'vaultMembers')));
+        await assertFails(getDoc(doc(as('outsider'), 'organizations', ORG, 'vaultMembers', 'member')));
+    });
+
+    it('leaves the AI budget to SuperAdmins', async () => {
+        await assertFails(updateDoc(doc(as('admin'), 'organizations', ORG), { aiMonthlyBudgetUsd: 1000 }));
+        await assertSucceeds(updateDoc(doc(as('admin'), 'organizations', ORG), { name: 'Org A AB' }));
+        await assertSucceeds(updateDoc(doc(as('root'), 'organizations', ORG), { aiMonthlyBudgetUsd: 1000 }));
+    });
+
+    it('leaves the plan and ownership to SuperAdmins', async () => {
+        const org = doc(as('admin'), 'organizations', ORG);
+        await assertFails(updateDoc(org, { subscriptionStatus: 'Active' }));
+        await assertFails(updateDoc(org, { ownerId: 'member' }));
+        await assertSucceeds(updateDoc(doc(as('root'), 'organizations', ORG), { subscriptionStatus: 'Active' }));
+    });
+
+    it('only lets a new org start as a Trial without an AI budget', async () => {
+        const db = as('founder');
+        await assertFails(setDoc(doc(db, 'organizations', 'org-new'), { id: 'org-new', name: 'New', subscriptionStatus: 'Active', ownerId: 'founder' }));
+        await assertFails(setDoc(doc(db, 'organizations', 'org-new'), { id: 'org-new', name: 'New', subscriptionStatus: 'Trial', ownerId: 'founder', aiMonthlyBudgetUsd: 1e6 }));
+        await assertSucceeds(setDoc(doc(db, 'organizations', 'org-new'), { id: 'org-new', name: 'New', subscriptionStatus: 'Trial', ownerId: 'founder' }));
+    });
+
+    it('leaves the AI usage counters to the aiGenerate function', async () => {
+        await seed(db => setDoc(doc(db, 'organizations', ORG, 'aiUsage', '2024-05-01'), { date: '2024-05-01', month: '2024-05', modules: {}, models: {} }));
+        const usage = doc(as('admin'), 'organizations', ORG, 'aiUsage', '2024-05-01');
+        await assertSucceeds(getDoc(usage));
+        await assertFails(setDoc(usage, { date: '2024-05-01', month: '2024-05', modules: {}, models: {} }));
+        await assertFails(setDoc(doc(as('member'), 'organizations', ORG, 'aiUsage', '2024-05-02'), { date: '2024-05-02', month: '2024-05' }));
+    });
+
+    it('keeps members other than Admins off the org document', async () => {
+        await assertFails(updateDoc(doc(as('member'), 'organizations', ORG), { name: 'Hijacked' }));
+        await assertFails(updateDoc(doc(as('outsider'), 'organizations', ORG), { name: 'Hijacked' }));
+    });
+});
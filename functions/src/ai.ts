@@ -0,0 +1,107 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { defineSecret } from "firebase-functions/params";
+import { FieldValue } from "firebase-admin/firestore";
+import { AiUsageDay, Organization } from "../../types";
+import { AI_MODEL_PRICING, estimateAiCostUsd, moduleForAiOperation, summarizeAiUsage, usageDayKey, usageMonthKey } from "../../services/aiUsage";
+import { db, signedInMember } from "./common";
+
+// The Gemini key lives here, not in the browser: every remote model call goes through aiGenerate, which checks the
+// org's monthly budget first and records the usage itself (clients can't write organizations/{org}/aiUsage).
+
+const geminiApiKey = defineSecret("GEMINI_API_KEY");
+const GEMINI_ENDPOINT = "https://generativelanguage.googleapis.com/v1beta/models";
+
+type AiPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+interface GenerateRequest {
+    operation: string;
+    model: string;
+    contents: string | AiPart[];
+    schema?: unknown;
+    temperature?: number;
+}
+
+interface GeminiResponse {
+    candidates?: { content?: { parts?: { text?: string; thought?: boolean }[] } }[];
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+}
+
+const isPart = (part: unknown): part is AiPart => {
+    const p = part as Record<string, any> | null;
+    return typeof p?.text === 'string' || (typeof p?.inlineData?.mimeType === 'string' && typeof p?.inlineData?.data === 'string');
+};
+
+const requestFrom = (data: unknown): GenerateRequest => {
+    const r = (data || {}) as Partial<GenerateRequest>;
+    if (typeof r.operation !== 'string' || !r.operation) throw new HttpsError('invalid-argument', 'No operation given.');
+    // Only priced models: the budget can't be kept for a model whose cost is unknown
+    if (typeof r.model !== 'string' || !AI_MODEL_PRICING[r.model]) throw new HttpsError('invalid-argument', `Model ${r.model} is not available.`);
+    if (typeof r.contents !== 'string' && !(Array.isArray(r.contents) && r.contents.length > 0 && r.contents.every(isPart))) {
+        throw new HttpsError('invalid-argument', 'No contents given.');
+    }
+    if (r.temperature !== undefined && typeof r.temperature !== 'number') throw new HttpsError('invalid-argument', 'Temperature must be a number.');
+    return { operation: r.operation, model: r.model, contents: r.contents, schema: r.schema, temperature: r.temperature };
+};
+
+const monthSpendUsd = async (orgId: string, month: string): Promise<number> => {
+    const snapshot = await db.collection(`organizations/${orgId}/aiUsage`).where('month', '==', month).get();
+    return summarizeAiUsage(snapshot.docs.map(d => d.data() as AiUsageDay)).total.costUsd;
+};
+
+const assertWithinBudget = async (orgId: string) => {
+    const organization = (await db.doc(`organizations/${orgId}`).get()).data() as Organization | undefined;
+    const budgetUsd = organization?.aiMonthlyBudgetUsd;
+    if (typeof budgetUsd !== 'number' || budgetUsd < 0) return;
+    if (await monthSpendUsd(orgId, usageMonthKey()) >= budgetUsd) {
+        throw new HttpsError('resource-exhausted', "The organization's monthly AI budget is spent.");
+    }
+};
+
+const recordUsage = (orgId: string, request: GenerateRequest, inputTokens: number, outputTokens: number, latencyMs: number) => {
+    const now = new Date();
+    const totals = {
+        calls: FieldValue.increment(1),
+        inputTokens: FieldValue.increment(inputTokens),
+        outputTokens: FieldValue.increment(outputTokens),
+        latencyMs: FieldValue.increment(latencyMs),
+        costUsd: FieldValue.increment(estimateAiCostUsd(request.model, inputTokens, outputTokens))
+    };
+    return db.doc(`organizations/${orgId}/aiUsage/${usageDayKey(now)}`).set({
+        date: usageDayKey(now),
+        month: usageMonthKey(now),
+        modules: { [moduleForAiOperation(request.operation)]: totals },
+        models: { [request.model]: totals }
+    }, { merge: true });
+};
+
+export const aiGenerate = onCall({ secrets: [geminiApiKey], timeoutSeconds: 300 }, async request => {
+    const member = await signedInMember(request);
+    const call = requestFrom(request.data);
+    await assertWithinBudget(member.organizationId);
+
+    const startedAt = Date.now();
+    const response = await fetch(`${GEMINI_ENDPOINT}/${encodeURIComponent(call.model)}:generateContent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': geminiApiKey.value() },
+        body: JSON.stringify({
+            contents: [{ role: 'user', parts: typeof call.contents === 'string' ? [{ text: call.contents }] : call.contents }],
+            generationConfig: {
+                ...(call.schema ? { responseMimeType: 'application/json', responseSchema: call.schema } : {}),
+                ...(call.temperature !== undefined ? { temperature: call.temperature } : {})
+            }
+        })
+    });
+    if (!response.ok) {
+        console.error(`[AI] ${call.operation} failed (${response.status})`, await response.text());
+        throw new HttpsError('unavailable', `The model call failed (${response.status}).`);
+    }
+    const body = await response.json() as GeminiResponse;
+    const usage = body.usageMetadata;
+    const inputTokens = usage?.promptTokenCount || 0;
+    // Thinking tokens are billed at the output rate
+    const outputTokens = (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0);
+    await recordUsage(member.organizationId, call, inputTokens, outputTokens, Date.now() - startedAt);
+
+    const text = (body.candidates?.[0]?.content?.parts || []).filter(p => !p.thought).map(p => p.text || '').join('');
+    return { text, inputTokens, outputTokens };
+});
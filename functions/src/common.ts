@@ -0,0 +1,63 @@
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { CallableRequest, HttpsError } from "firebase-functions/v2/https";
+import { User, UserRole } from "../../types";
+
+initializeApp();
+
+export const db = getFirestore();
+export const adminAuth = getAuth();
+
+export const signedInUid = (request: CallableRequest): string => {
+    if (!request.auth) throw new HttpsError('unauthenticated', 'Sign in first.');
+    return request.auth.uid;
+};
+
+export const loadProfile = async (uid: string): Promise<User> => {
+    const snap = await db.doc(`users/${uid}`).get();
+    if (!snap.exists) throw new HttpsError('not-found', 'No profile for this account.');
+    return { ...(snap.data() as User), id: snap.id };
+};
+
+export const mfaRequiredRoles = async (orgId: string): Promise<UserRole[]> => {
+    const snap = await db.doc(`organizations/${orgId}/config/global_settings`).get();
+    return snap.get('mfaRequiredRoles') || [];
+};
+
+// Sign-ins (auth_time) that passed the second factor; the security rules accept a token whose auth_time is listed
+export const mfaSessionsOf = (claims: Record<string, unknown> | undefined): number[] =>
+    Array.isArray(claims?.mfaSessions) ? claims!.mfaSessions as number[] : [];
+
+// Mirrors mfaSatisfied() in firestore.rules
+export const passedMfa = async (request: CallableRequest, profile: User): Promise<boolean> => {
+    if (mfaSessionsOf(request.auth?.token).includes(request.auth?.token.auth_time as number)) return true;
+    if (profile.mfaVerified) return false;
+    return !(await mfaRequiredRoles(profile.organizationId)).includes(profile.role || 'User');
+};
+
+// Cut-off written by revokeSessions: sign-ins (auth_time, seconds) from before it no longer count. Mirrors signInNotRevoked() in firestore.rules
+export const revocationRef = (uid: string) => db.doc(`users/${uid}/security/sessions`);
+
+// Active member who passed the second factor their org asks of them
+export const signedInMember = async (request: CallableRequest): Promise<User> => {
+    const profile = await loadProfile(signedInUid(request));
+    if (profile.status === 'Suspended') throw new HttpsError('permission-denied', 'This account is suspended.');
+    const revocation = await revocationRef(profile.id!).get();
+    if ((request.auth!.token.auth_time as number) < (revocation.get('validAfter') || 0)) {
+        throw new HttpsError('unauthenticated', 'This sign-in was revoked. Sign in again.');
+    }
+    if (!(await passedMfa(request, profile))) throw new HttpsError('permission-denied', 'Two-factor authentication is required.');
+    return profile;
+};
+
+// Org Admins manage their own org's users; SuperAdmins every org's
+export const canManageUser = (caller: User, target: User): boolean =>
+    caller.role === 'SuperAdmin' || (caller.role === 'Admin' && caller.organizationId === target.organizationId);
+
+// setCustomUserClaims replaces every claim, so patches are merged into the current ones
+export const updateClaims = async (uid: string, patch: (claims: Record<string, unknown>) => Record<string, unknown>) => {
+    const user = await adminAuth.getUser(uid);
+    const claims = user.customClaims || {};
+    await adminAuth.setCustomUserClaims(uid, { ...claims, ...patch(claims) });
+};
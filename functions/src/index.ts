@@ -0,0 +1,4 @@
+// Callable functions for what the browser can't be trusted with (see firestore.rules)
+export { mfaStatus, mfaBeginEnrollment, mfaConfirmEnrollment, mfaVerify, mfaReset } from "./mfa";
+export { aiGenerate } from "./ai";
+export { revokeSessions } from "./sessions";
@@ -0,0 +1,129 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { FieldValue } from "firebase-admin/firestore";
+import { MfaEnrollment, MfaStatus } from "../../types";
+import { generateTotpSecret, generateBackupCodes, totpUri, verifyTotp, hashBackupCode, normalizeBackupCode } from "../../services/totp";
+import { db, signedInUid, loadProfile, mfaRequiredRoles, mfaSessionsOf, signedInMember, canManageUser, updateClaims } from "./common";
+
+// TOTP is checked here, never in the browser: the secret lives in users/{uid}/security, which clients can't read,
+// and a sign-in only reaches org data once its auth_time is in the user's mfaSessions claim.
+
+// Sign-ins kept in the claim (one per device that passed the second factor)
+const MFA_CLAIM_SESSIONS = 10;
+// Wrong codes in a row before verification is locked for a while
+const MFA_MAX_FAILED_ATTEMPTS = 5;
+const MFA_LOCKOUT_MS = 15 * 60 * 1000;
+
+interface PendingEnrollment {
+    secret: string;
+    backupCodeHashes: string[];
+    createdAt: string;
+}
+
+const mfaRef = (uid: string) => db.doc(`users/${uid}/security/mfa`);
+const pendingRef = (uid: string) => db.doc(`users/${uid}/security/mfaPending`);
+
+const codeFrom = (data: unknown): string => {
+    const code = (data as { code?: unknown } | null)?.code;
+    if (typeof code !== 'string' || !code.trim()) throw new HttpsError('invalid-argument', 'Enter a code.');
+    return code;
+};
+
+const grantMfaSession = (uid: string, authTime: number) =>
+    updateClaims(uid, claims => ({ mfaSessions: [...mfaSessionsOf(claims).filter(t => t !== authTime), authTime].slice(-MFA_CLAIM_SESSIONS) }));
+
+// What a user who just passed the password step still has to do
+export const mfaStatus = onCall(async (request): Promise<MfaStatus> => {
+    const profile = await loadProfile(signedInUid(request));
+    if (profile.mfaVerified) return 'verify';
+    return (await mfaRequiredRoles(profile.organizationId)).includes(profile.role || 'User') ? 'enroll' : 'not-required';
+});
+
+// New secret and backup codes; only their hashes are kept, and nothing is active until confirmed with a code
+export const mfaBeginEnrollment = onCall(async request => {
+    const uid = signedInUid(request);
+    const profile = await loadProfile(uid);
+    // A password alone must not be enough to swap the authenticator: replacing it takes an Admin reset
+    if (profile.mfaVerified) throw new HttpsError('failed-precondition', 'Two-factor authentication is already set up. Ask an admin to reset it.');
+    const secret = generateTotpSecret();
+    const backupCodes = generateBackupCodes();
+    const pending: PendingEnrollment = {
+        secret,
+        backupCodeHashes: await Promise.all(backupCodes.map(hashBackupCode)),
+        createdAt: new Date().toISOString()
+    };
+    await pendingRef(uid).set(pending);
+    return { secret, uri: totpUri(secret, profile.email), backupCodes };
+});
+
+export const mfaConfirmEnrollment = onCall(async (request): Promise<{ verified: boolean }> => {
+    const uid = signedInUid(request);
+    const code = codeFrom(request.data);
+    const snap = await pendingRef(uid).get();
+    if (!snap.exists) throw new HttpsError('failed-precondition', 'The enrollment expired. Start again.');
+    const pending = snap.data() as PendingEnrollment;
+
+    const step = await verifyTotp(pending.secret, code);
+    if (step === null) return { verified: false };
+    const enrollment: MfaEnrollment = {
+        secret: pending.secret,
+        backupCodeHashes: pending.backupCodeHashes,
+        lastUsedStep: step,
+        enrolledAt: new Date().toISOString(),
+        failedAttempts: 0
+    };
+    const batch = db.batch();
+    batch.set(mfaRef(uid), enrollment);
+    batch.delete(pendingRef(uid));
+    batch.update(db.doc(`users/${uid}`), { mfaVerified: true });
+    await batch.commit();
+    await grantMfaSession(uid, request.auth!.token.auth_time);
+    return { verified: true };
+});
+
+// A current TOTP code or an unused backup code (which is consumed)
+export const mfaVerify = onCall(async (request): Promise<{ method: 'totp' | 'backup' | null }> => {
+    const uid = signedInUid(request);
+    const code = codeFrom(request.data);
+    const ref = mfaRef(uid);
+    const method = await db.runTransaction(async tx => {
+        const snap = await tx.get(ref);
+        if (!snap.exists) throw new HttpsError('failed-precondition', 'Two-factor authentication is not set up.');
+        const enrollment = snap.data() as MfaEnrollment;
+        const now = Date.now();
+        if (enrollment.lockedUntil && now < enrollment.lockedUntil) {
+            throw new HttpsError('resource-exhausted', 'Too many wrong codes. Try again in a few minutes.');
+        }
+
+        const step = await verifyTotp(enrollment.secret, code, () => now, enrollment.lastUsedStep);
+        if (step !== null) {
+            tx.update(ref, { lastUsedStep: step, failedAttempts: 0 });
+            return 'totp' as const;
+        }
+        const hash = await hashBackupCode(code);
+        if (normalizeBackupCode(code) && enrollment.backupCodeHashes.includes(hash)) {
+            tx.update(ref, { backupCodeHashes: FieldValue.arrayRemove(hash), failedAttempts: 0 });
+            return 'backup' as const;
+        }
+        const failedAttempts = (enrollment.failedAttempts || 0) + 1;
+        tx.update(ref, failedAttempts >= MFA_MAX_FAILED_ATTEMPTS ? { failedAttempts: 0, lockedUntil: now + MFA_LOCKOUT_MS } : { failedAttempts });
+        return null;
+    });
+    if (method) await grantMfaSession(uid, request.auth!.token.auth_time);
+    return { method };
+});
+
+// Admin: removes the user's authenticator and ends the sign-ins that passed it; they enroll again at the next sign-in
+export const mfaReset = onCall(async request => {
+    const caller = await signedInMember(request);
+    const userId = (request.data as { userId?: unknown } | null)?.userId;
+    if (typeof userId !== 'string' || !userId) throw new HttpsError('invalid-argument', 'No user given.');
+    const target = await loadProfile(userId);
+    if (!canManageUser(caller, target)) throw new HttpsError('permission-denied', 'Only an admin of the user\'s organization can reset two-factor authentication.');
+
+    const batch = db.batch();
+    batch.delete(mfaRef(userId));
+    batch.delete(pendingRef(userId));
+    batch.update(db.doc(`users/${userId}`), { mfaVerified: false });
+    await batch.commit();
+    await updateClaims(userId, () => ({ mfaSessions: [] }));
+});
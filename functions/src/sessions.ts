@@ -0,0 +1,28 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { adminAuth, canManageUser, db, loadProfile, revocationRef, signedInMember } from "./common";
+
+// Sign-out everywhere, enforced by the server: every open session document of the user is ended and their refresh
+// tokens are revoked. ID tokens already issued stay valid until they expire, so their cut-off is recorded for the
+// security rules too. Firebase revokes all of a user's tokens at once; single devices are only signed out through their session.
+export const revokeSessions = onCall(async (request): Promise<{ revoked: number }> => {
+    const caller = await signedInMember(request);
+    const userId = (request.data as { userId?: unknown } | null)?.userId;
+    if (typeof userId !== 'string' || !userId) throw new HttpsError('invalid-argument', 'No user given.');
+    if (userId !== caller.id && !canManageUser(caller, await loadProfile(userId))) {
+        throw new HttpsError('permission-denied', 'Only an admin of the user\'s organization can sign them out.');
+    }
+
+    await adminAuth.revokeRefreshTokens(userId);
+    const { tokensValidAfterTime } = await adminAuth.getUser(userId);
+    const validAfter = Math.floor(new Date(tokensValidAfterTime || Date.now()).getTime() / 1000);
+    await revocationRef(userId).set({ validAfter, revokedAt: new Date().toISOString(), revokedBy: caller.email || null });
+
+    const open = (await db.collection(`users/${userId}/sessions`).get()).docs.filter(d => !d.get('endedAt'));
+    const endedAt = new Date().toISOString();
+    for (let i = 0; i < open.length; i += 500) {
+        const batch = db.batch();
+        open.slice(i, i + 500).forEach(d => batch.update(d.ref, { endedAt, endReason: 'revoked', endedBy: caller.email || null }));
+        await batch.commit();
+    }
+    return { revoked: open.length };
+});
@@ -0,0 +1,140 @@
+// Batch AI work (receipt uploads, ZIP imports) goes through one shared queue so a 300-file archive can't open
+// 300 requests at once. Rate limits and transient failures are retried with exponential backoff; anything
+// else fails the job so the caller can list it for a manual retry.
+export const DEFAULT_AI_CONCURRENCY = 4;
+export const AI_CONCURRENCY_OPTIONS = [1, 2, 4, 8];
+export const AI_MAX_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_MESSAGE = /\b(408|429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|rate limit|timed? ?out|Failed to fetch|NetworkError/i;
+
+export class AiJobCancelledError extends Error {
+    constructor(message = 'Cancelled') {
+        super(message);
+        this.name = 'AiJobCancelledError';
+    }
+}
+
+// Looks through Error.cause too: the extractors wrap whatever the SDK threw
+export const isRetryableAiError = (error: unknown): boolean => {
+    for (let e: any = error; e; e = e.cause) {
+        if (e instanceof AiJobCancelledError) return false;
+        if (RETRYABLE_STATUS.includes(Number(e.status ?? e.code))) return true;
+        if (typeof e.message === 'string' && RETRYABLE_MESSAGE.test(e.message)) return true;
+    }
+    return false;
+};
+
+// 1 s, 2 s, 4 s ... capped at 30 s, jittered down by up to half so parallel jobs don't retry in lockstep
+export const retryDelayMs = (attempt: number, random = Math.random()): number =>
+    Math.round(Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1)) * (0.5 + random / 2));
+
+export type AiJobOutcome<I, T> = { item: I; result: T } | { item: I; error: unknown };
+
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(new AiJobCancelledError());
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+class AiJobQueue {
+    private concurrency = DEFAULT_AI_CONCURRENCY;
+    private running = 0;
+    private waiting: (() => void)[] = [];
+    // After a rate limit no new job starts until the backoff has passed, whichever batch it belongs to
+    private pausedUntil = 0;
+    private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Follows the org's settings (called by the App when they load or change)
+    setConcurrency(value?: number) {
+        this.concurrency = Math.max(1, value || DEFAULT_AI_CONCURRENCY);
+        this.drain();
+    }
+
+    // Runs the task when a slot is free. Aborting the signal rejects with AiJobCancelledError:
+    // queued jobs never start and running ones are abandoned (their answer is discarded, and a task that passes the
+    // signal on to its provider call cancels the request too).
+    async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            await this.acquire(signal, attempt > 1);
+            try {
+                return await abortable(task(), signal);
+            } catch (e) {
+                if (signal?.aborted) throw new AiJobCancelledError();
+                if (attempt >= AI_MAX_ATTEMPTS || !isRetryableAiError(e)) throw e;
+                const delay = retryDelayMs(attempt);
+                console.warn(`[AI] Attempt ${attempt} failed, retrying in ${delay} ms`, e);
+                this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+            } finally {
+                this.release();
+            }
+        }
+    }
+
+    // One job per item; never rejects, so a failed or cancelled item doesn't lose the others' results
+    async runBatch<I, T>(
+        items: I[],
+        task: (item: I, signal?: AbortSignal) => Promise<T>,
+        options: { signal?: AbortSignal; onProgress?: (completed: number, total: number) => void } = {}
+    ): Promise<AiJobOutcome<I, T>[]> {
+        let completed = 0;
+        return Promise.all(items.map(async (item): Promise<AiJobOutcome<I, T>> => {
+            try {
+                return { item, result: await this.run(() => task(item, options.signal), options.signal) };
+            } catch (error) {
+                return { item, error };
+            } finally {
+                completed++;
+                options.onProgress?.(completed, items.length);
+            }
+        }));
+    }
+
+    // Retries go to the front so a backed-off job isn't starved by the rest of its batch
+    private acquire(signal: AbortSignal | undefined, retry: boolean): Promise<void> {
+        if (signal?.aborted) return Promise.reject(new AiJobCancelledError());
+        return new Promise((resolve, reject) => {
+            const start = () => {
+                signal?.removeEventListener('abort', onAbort);
+                this.running++;
+                resolve();
+            };
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(w => w !== start);
+                reject(new AiJobCancelledError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            if (retry) this.waiting.unshift(start);
+            else this.waiting.push(start);
+            this.drain();
+        });
+    }
+
+    private release() {
+        this.running--;
+        this.drain();
+    }
+
+    private drain() {
+        const pause = this.pausedUntil - Date.now();
+        if (pause > 0) {
+            if (!this.resumeTimer) {
+                this.resumeTimer = setTimeout(() => {
+                    this.resumeTimer = null;
+                    this.drain();
+                }, pause);
+            }
+            return;
+        }
+        while (this.running < this.concurrency && this.waiting.length > 0) this.waiting.shift()!();
+    }
+}
+
+export const aiJobQueue = new AiJobQueue();
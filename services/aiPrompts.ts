@@ -0,0 +1,169 @@
+import { AiPromptRef } from "../types";
+
+// Every prompt the app sends, as a named and versioned asset. Editing a prompt's text (or the schema its answer is
+// checked against) means bumping its version: the version is part of the result cache key and is stamped on recorded
+// answers, so the evaluation harness (promptEval.ts) can compare field accuracy across versions of one prompt
+// without touching the others. Placeholders are {{name}}.
+export interface AiPromptAsset {
+    operation: string; // Extractor that sends it (metering, local rules, fixtures)
+    version: number;
+    model: string;
+    temperature?: number;
+    template: string;
+}
+
+const FLASH = "gemini-2.5-flash";
+
+export const AI_PROMPTS = {
+    analyzeReceipt: {
+        operation: 'analyzeReceipt',
+        version: 3,
+        model: FLASH,
+        temperature: 0.1,
+        template: "Analyze this document for accounting. Extract vendor, amount, currency, VAT Amount, date, and categorize. Create a formal Description for the ledger. Generate 2-3 relevant tags. In `fields`, give your confidence (0-1) for vendor, amount, vatAmount and date, and the bounding box of each value on the page in percent."
+    },
+    parseBankStatement: {
+        operation: 'parseBankStatement',
+        version: 2,
+        model: FLASH,
+        temperature: 0.1,
+        template: "Analyze this bank statement. Extract transaction rows. Use negative amounts for expenses, positive for income. Return JSON."
+    },
+    suggestMatches: {
+        operation: 'suggestMatches',
+        version: 1,
+        model: FLASH,
+        temperature: 0.1,
+        template: `Act as an expert forensic accountant. I have a list of unmatched bank transactions and a list of receipts.
+Find matches where the amount is roughly the same (within 5% variance for currency conversion or fees) AND the date is close (within 10 days).
+Also consider vendor name fuzzy matching.
+
+Bank Transactions: {{transactions}}
+Receipts: {{receipts}}
+
+Return a JSON list of matches. Only include confident matches (>70%).`
+    },
+    analyzeInvoiceTemplate: {
+        operation: 'analyzeInvoiceTemplate',
+        version: 1,
+        model: FLASH,
+        temperature: 0.1,
+        template: "Analyze this invoice to create a 'Form Filling' template overlay.\n\nInstructions:\n1. **Identify Variable Fields (Red Zones)**: Identify ONLY the values that change (e.g. the actual Date '2024-01-01', the actual Inv# '001', the Client Name). \n2. **Exclude Labels**: Do NOT include static labels (like 'Invoice No:', 'Bill To:', 'Total:') in the geometry. We want to keep the original labels visible on the background image.\n3. **Table Analysis**: Find the Y-position where the *headers end*. This is `itemsTableTop`. We will clear everything below this line to draw new rows, but keep the headers intact.\n4. **Column Mapping**: Identify X-positions for columns."
+    },
+    analyzeInbox: {
+        operation: 'analyzeInbox',
+        version: 1,
+        model: FLASH,
+        temperature: 0.2,
+        template: `You are an intelligent executive assistant. Process these emails and extract:
+1. Financial Receipts (expenses, invoices) - Ensure VAT and Currency are extracted for accounting.
+2. Calendar Events (meetings, flights, hotel stays)
+3. Action Items (tasks, follow-ups)
+4. Auto-tag items with useful labels like #Client, #Urgent, #Travel.
+
+EMAILS:
+{{emails}}`
+    },
+    extractActionItems: {
+        operation: 'extractActionItems',
+        version: 1,
+        model: FLASH,
+        temperature: 0.3,
+        template: "Analyze the following communication logs (Slack/Email/Notes). Extract concrete action items, assignees, and priorities. Add context tags (e.g. #Dev, #Sales).\n\nLOGS:\n{{logs}}"
+    },
+    extractActionItemsFromFile: {
+        operation: 'extractActionItemsFromFile',
+        version: 1,
+        model: FLASH,
+        temperature: 0.3,
+        template: "Analyze this document (meeting notes, spec sheet, or logs). Extract concrete action items, assignees, priorities, and tags."
+    },
+    parseTimesheetFile: {
+        operation: 'parseTimesheet',
+        version: 1,
+        model: FLASH,
+        temperature: 0.1,
+        template: "Parse this timesheet image/pdf. Extract row-by-row entries including Date, Employee, Project, Task, Hours. Normalize date to YYYY-MM-DD."
+    },
+    parseTimesheetData: {
+        operation: 'parseTimesheet',
+        version: 1,
+        model: FLASH,
+        temperature: 0.1,
+        template: "Normalize this raw timesheet data into a standard JSON format. Raw Data: {{data}}"
+    },
+    analyzeContract: {
+        operation: 'analyzeContract',
+        version: 1,
+        model: FLASH,
+        temperature: 0.1,
+        template: "Analyze this contract (image or pdf). Extract a summary, key constraints/deadlines, expiration date, and involved parties. Return structured JSON."
+    },
+    queryTimesheetData: {
+        operation: 'queryTimesheetData',
+        version: 1,
+        model: FLASH,
+        template: `You are a timesheet analyst. Answer the user query based on the following data:
+{{entries}}
+
+Query: {{query}}
+Provide a concise, formatted summary.`
+    },
+    queryContractData: {
+        operation: 'queryContractData',
+        version: 1,
+        model: FLASH,
+        template: `You are a legal assistant. Answer the user query based on the contracts in your database.
+
+CONTRACTS DB:
+{{contracts}}
+
+USER QUERY: {{query}}
+
+Answer clearly and reference specific contracts if applicable.`
+    },
+    generateDailyBriefing: {
+        operation: 'generateDailyBriefing',
+        version: 1,
+        model: FLASH,
+        temperature: 0.7,
+        template: `You are FounderOS, an intelligent business brain.
+Generate a concise, professional "Start-of-Day" executive briefing in Markdown.
+
+Recent Financials:
+{{receipts}}
+
+Pending Action Items:
+{{tasks}}
+
+Structure the response with:
+1. 🌞 **Morning Vibe Check**: One sentence summary of current status.
+2. 🚨 **Urgent Attention**: High priority tasks or large expenses.
+3. 💼 **Financial Snapshot**: Brief comment on spending.
+4. ✅ **Recommended Focus**: What to do first.`
+    }
+} satisfies Record<string, AiPromptAsset>;
+
+export type AiPromptName = keyof typeof AI_PROMPTS;
+
+export interface RenderedPrompt {
+    ref: AiPromptRef;
+    operation: string;
+    model: string;
+    temperature?: number;
+    text: string;
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+export const isAiPromptName = (name: string): name is AiPromptName => Object.prototype.hasOwnProperty.call(AI_PROMPTS, name);
+
+// Fills the placeholders; a missing value is a programming error, not something to send to the model
+export const renderPrompt = (name: AiPromptName, values: Record<string, string> = {}): RenderedPrompt => {
+    const asset: AiPromptAsset = AI_PROMPTS[name];
+    const text = asset.template.replace(PLACEHOLDER, (_, key: string) => {
+        if (!(key in values)) throw new Error(`Prompt ${name} v${asset.version} needs a value for {{${key}}}`);
+        return values[key];
+    });
+    return { ref: { name, version: asset.version }, operation: asset.operation, model: asset.model, temperature: asset.temperature, text };
+};
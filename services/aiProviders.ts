@@ -0,0 +1,157 @@
+import { Schema } from "@google/genai";
+import { httpsCallable } from "firebase/functions";
+import { functions } from "../src/firebaseConfig";
+import { AiFixture, AiPromptRef, AiProviderType, AppSettings } from "../types";
+import { localAnswer } from "./localAiRules";
+
+// Where the extractors in geminiService send their prompts. GEMINI calls the API through the aiGenerate function
+// (which holds the key and enforces the org's budget); LOCAL never touches the network:
+// it replays recorded answers (fixtures) and otherwise answers with deterministic rules.
+export type AiPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export interface AiRequest {
+    operation: string; // Extractor name, e.g. 'analyzeReceipt'
+    model: string;
+    contents: string | AiPart[];
+    schema?: Schema; // The answer is JSON matching this schema
+    temperature?: number;
+    prompt?: AiPromptRef; // Registered prompt the contents were built from
+    // Structured data behind the prompt; the local rules work from this instead of parsing the prompt. Never sent.
+    input?: unknown;
+    // Cancels the call (a cancelled aiJobQueue batch). Never sent.
+    signal?: AbortSignal;
+}
+
+export interface AiAnswer {
+    text: string; // Raw answer (JSON when a schema was given)
+    // Billed tokens as reported by the API; absent for answers that cost nothing
+    inputTokens?: number;
+    outputTokens?: number;
+}
+
+export interface AiProvider {
+    readonly type: AiProviderType;
+    // false = nothing leaves the browser (no PII exposure, no rate limits, no cost)
+    readonly remote: boolean;
+    generate(request: AiRequest): Promise<AiAnswer>;
+}
+
+// Build-time default for orgs that haven't chosen a provider (CI and air-gapped images set LOCAL)
+const DEFAULT_PROVIDER: AiProviderType = import.meta.env.VITE_AI_PROVIDER || 'GEMINI';
+
+const FIXTURES_STORAGE_KEY = 'founder_os_ai_fixtures';
+const RECORDING_LIMIT = 200;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Fixtures match on what the model would see, so recording and replay must use the same redaction settings
+export const hashAiRequest = async (request: AiRequest): Promise<string> => {
+    const parts = typeof request.contents === 'string' ? [{ text: request.contents }] : request.contents;
+    const canonical = JSON.stringify([request.operation, request.model, parts.map(p => 'text' in p ? p.text : `${p.inlineData.mimeType}:${p.inlineData.data}`)]);
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)));
+};
+
+// SHA-256 of the attached file's bytes (the same hash records keep as contentHash), so recordings can be matched to documents
+const attachedDocumentHash = async (request: AiRequest): Promise<string | undefined> => {
+    const file = typeof request.contents === 'string' ? undefined : request.contents.find(p => 'inlineData' in p);
+    if (!file || !('inlineData' in file)) return undefined;
+    const bytes = Uint8Array.from(atob(file.inlineData.data), c => c.charCodeAt(0));
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+// --- FIXTURES ---
+
+const recorded: AiFixture[] = [];
+
+export const getAiFixtures = (): AiFixture[] => {
+    try {
+        return JSON.parse(localStorage.getItem(FIXTURES_STORAGE_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+// Replaces the fixtures replayed by the LOCAL provider (e.g. a file exported from a recording session)
+export const loadAiFixtures = (fixtures: AiFixture[]) => {
+    if (!Array.isArray(fixtures) || fixtures.some(f => !f.operation || !f.requestHash || typeof f.response !== 'string')) {
+        throw new Error("Not an AI fixture file.");
+    }
+    localStorage.setItem(FIXTURES_STORAGE_KEY, JSON.stringify(fixtures));
+};
+
+export const clearAiFixtures = () => localStorage.removeItem(FIXTURES_STORAGE_KEY);
+
+// Answers the Gemini provider received in this browser session, newest last
+export const getRecordedAiFixtures = (): AiFixture[] => [...recorded];
+
+// --- GEMINI ---
+
+// The server refused the call because the org's monthly AI budget is spent
+export class AiBudgetExceededError extends Error {
+    constructor(message = "The organization's monthly AI budget is spent.") {
+        super(message);
+        this.name = 'AiBudgetExceededError';
+    }
+}
+
+type GenerateCall = Pick<AiRequest, 'operation' | 'model' | 'contents' | 'schema' | 'temperature'>;
+
+class GeminiProvider implements AiProvider {
+    readonly type = 'GEMINI' as const;
+    readonly remote = true;
+
+    // As long as aiGenerate may run (its timeoutSeconds), not the SDK's 70 s default
+    private call = httpsCallable<GenerateCall, Required<AiAnswer>>(functions, 'aiGenerate', { timeout: 300 * 1000 });
+
+    // The Functions SDK can't cancel a request: an aborted call is abandoned and its answer dropped
+    private callUntilAborted(data: GenerateCall, signal?: AbortSignal): Promise<Required<AiAnswer>> {
+        if (!signal) return this.call(data).then(result => result.data);
+        return new Promise((resolve, reject) => {
+            const onAbort = () => reject(new DOMException('The AI call was cancelled.', 'AbortError'));
+            if (signal.aborted) return onAbort();
+            const call = this.call(data).then(result => result.data);
+            signal.addEventListener('abort', onAbort, { once: true });
+            call.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    async generate(request: AiRequest): Promise<AiAnswer> {
+        const { operation, model, contents, schema, temperature } = request;
+        let response: Required<AiAnswer>;
+        try {
+            response = await this.callUntilAborted({ operation, model, contents, schema, temperature }, request.signal);
+        } catch (e: any) {
+            if (e?.code === 'functions/resource-exhausted') throw new AiBudgetExceededError(e.message);
+            throw e;
+        }
+        const text = response.text || '';
+        recorded.push({
+            operation: request.operation,
+            requestHash: await hashAiRequest(request),
+            response: text,
+            recordedAt: new Date().toISOString(),
+            prompt: request.prompt,
+            documentHash: await attachedDocumentHash(request)
+        });
+        if (recorded.length > RECORDING_LIMIT) recorded.shift();
+        return { text, inputTokens: response.inputTokens || 0, outputTokens: response.outputTokens || 0 };
+    }
+}
+
+// --- LOCAL: fixture replay, then rules ---
+
+class LocalProvider implements AiProvider {
+    readonly type = 'LOCAL' as const;
+    readonly remote = false;
+
+    async generate(request: AiRequest): Promise<AiAnswer> {
+        const requestHash = await hashAiRequest(request);
+        const fixture = getAiFixtures().find(f => f.operation === request.operation && f.requestHash === requestHash);
+        return { text: fixture ? fixture.response : localAnswer(request) };
+    }
+}
+
+export const createAiProvider = (type: AiProviderType): AiProvider =>
+    type === 'LOCAL' ? new LocalProvider() : new GeminiProvider();
+
+export const aiProviderFor = (settings?: AppSettings | null): AiProviderType => settings?.aiProvider || DEFAULT_PROVIDER;
@@ -0,0 +1,54 @@
+import { AiProviderType } from "../types";
+import { localStore, LOCAL_STORES } from "./localStore";
+import { contentHash } from "./attachmentStore";
+import { securityService, isEncryptedValue } from "./securityService";
+
+// Extraction results kept per browser, keyed by the org, the file's SHA-256 and the prompt version, so uploading the
+// same document again needs no AI call. Bumping an operation's prompt version retires its old entries.
+// Results hold the restored (unredacted) data, so they are only kept encrypted with the org's vault key:
+// with the vault locked nothing is read or written.
+interface AiCacheEntry {
+    id: string; // orgId:operation:v<prompt version>:<provider>:<content hash>
+    orgId: string;
+    operation: string;
+    result: string; // vault-encrypted JSON
+    createdAt: string;
+}
+
+// Hex SHA-256 of the decoded file (same hash the attachment store uses)
+export const fileContentHash = (base64Data: string, mimeType: string): Promise<string> =>
+    contentHash(`data:${mimeType || 'application/octet-stream'};base64,${base64Data}`);
+
+export const aiCacheKey = (orgId: string, operation: string, promptVersion: number, provider: AiProviderType, hash: string): string =>
+    `${orgId}:${operation}:v${promptVersion}:${provider}:${hash}`;
+
+const isEmptyResult = (result: unknown): boolean =>
+    result == null || (Array.isArray(result) ? result.length === 0 : typeof result === 'object' && Object.keys(result).length === 0);
+
+// Undefined for a miss, a locked vault or an entry written under a key this session doesn't hold
+const readEntry = async (key: string): Promise<unknown> => {
+    if (!securityService.isVaultUnlocked()) return undefined;
+    const entry = await localStore.get<AiCacheEntry>(LOCAL_STORES.AI_CACHE, key).catch(() => undefined);
+    if (!entry || !isEncryptedValue(entry.result)) return undefined;
+    return securityService.decryptField(entry.result).then(json => JSON.parse(json), () => undefined);
+};
+
+// Returns the cached result or computes and stores it; failures and empty answers are not cached
+export const withAiResultCache = async <T>(key: string, compute: () => Promise<T>): Promise<{ result: T; cached: boolean }> => {
+    const cachedResult = await readEntry(key);
+    if (cachedResult !== undefined) return { result: cachedResult as T, cached: true };
+
+    const result = await compute();
+    if (!isEmptyResult(result) && securityService.isVaultUnlocked()) {
+        const [orgId, operation] = key.split(':');
+        await securityService.encryptField(JSON.stringify(result))
+            .then(sealed => localStore.put<AiCacheEntry>(LOCAL_STORES.AI_CACHE, { id: key, orgId, operation, result: sealed, createdAt: new Date().toISOString() }))
+            .catch(e => console.warn("AI cache write failed", e));
+    }
+    return { result, cached: false };
+};
+
+export const countAiCacheEntries = async (): Promise<number> =>
+    (await localStore.getAll<AiCacheEntry>(LOCAL_STORES.AI_CACHE)).length;
+
+export const clearAiResultCache = () => localStore.clear(LOCAL_STORES.AI_CACHE);
@@ -0,0 +1,96 @@
+import { AiBudgetStatus, AiUsageDay, AiUsageTotals, ViewState } from "../types";
+
+// USD per million tokens at list price (images and PDFs are billed as input tokens, thinking as output)
+export const AI_MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00 }
+};
+
+// Unknown models are costed like the most expensive one so a budget is never undercounted
+const FALLBACK_PRICING = AI_MODEL_PRICING['gemini-2.5-pro'];
+
+// Spend past this share of the monthly budget is flagged in the status bar
+export const AI_BUDGET_WARNING_PERCENT = 80;
+
+// Module each extractor works for, so usage can be broken down the way the org sees the app
+export const AI_OPERATION_MODULES: Record<string, ViewState> = {
+    analyzeReceipt: ViewState.FINANCE,
+    parseBankStatement: ViewState.FINANCE,
+    suggestMatches: ViewState.FINANCE,
+    analyzeInvoiceTemplate: ViewState.INVOICES,
+    analyzeInbox: ViewState.OPS,
+    extractActionItems: ViewState.OPS,
+    extractActionItemsFromFile: ViewState.OPS,
+    parseTimesheet: ViewState.TIMESHEETS,
+    queryTimesheetData: ViewState.TIMESHEETS,
+    analyzeContract: ViewState.CONTRACTS,
+    queryContractData: ViewState.CONTRACTS,
+    generateDailyBriefing: ViewState.DASHBOARD
+};
+
+export const moduleForAiOperation = (operation: string): ViewState => AI_OPERATION_MODULES[operation] || ViewState.DASHBOARD;
+
+export const estimateAiCostUsd = (model: string, inputTokens: number, outputTokens: number): number => {
+    const price = AI_MODEL_PRICING[model] || FALLBACK_PRICING;
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+// Usage is bucketed by UTC day and month, like the rest of the app's ISO dates
+export const usageDayKey = (date = new Date()): string => date.toISOString().slice(0, 10);
+export const usageMonthKey = (date = new Date()): string => date.toISOString().slice(0, 7);
+
+export const emptyAiUsageTotals = (): AiUsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, costUsd: 0 });
+
+const addTotals = (sum: AiUsageTotals, totals?: Partial<AiUsageTotals>): AiUsageTotals => ({
+    calls: sum.calls + (totals?.calls || 0),
+    inputTokens: sum.inputTokens + (totals?.inputTokens || 0),
+    outputTokens: sum.outputTokens + (totals?.outputTokens || 0),
+    latencyMs: sum.latencyMs + (totals?.latencyMs || 0),
+    costUsd: sum.costUsd + (totals?.costUsd || 0)
+});
+
+export const dayTotals = (day: AiUsageDay): AiUsageTotals =>
+    Object.values(day.modules || {}).reduce((sum, totals) => addTotals(sum, totals), emptyAiUsageTotals());
+
+export interface AiUsageSummary {
+    total: AiUsageTotals;
+    byDay: (AiUsageTotals & { date: string })[];
+    byModule: (AiUsageTotals & { module: ViewState })[];
+    byModel: (AiUsageTotals & { model: string })[];
+}
+
+// Month view for the admin dashboard: days in order, modules and models by cost
+export const summarizeAiUsage = (days: AiUsageDay[]): AiUsageSummary => {
+    const modules = new Map<ViewState, AiUsageTotals>();
+    const models = new Map<string, AiUsageTotals>();
+    days.forEach(day => {
+        Object.entries(day.modules || {}).forEach(([module, totals]) =>
+            modules.set(module as ViewState, addTotals(modules.get(module as ViewState) || emptyAiUsageTotals(), totals)));
+        Object.entries(day.models || {}).forEach(([model, totals]) =>
+            models.set(model, addTotals(models.get(model) || emptyAiUsageTotals(), totals)));
+    });
+    const byDay = [...days].sort((a, b) => a.date.localeCompare(b.date)).map(day => ({ date: day.date, ...dayTotals(day) }));
+    return {
+        total: byDay.reduce((sum, day) => addTotals(sum, day), emptyAiUsageTotals()),
+        byDay,
+        byModule: Array.from(modules, ([module, totals]) => ({ module, ...totals })).sort((a, b) => b.costUsd - a.costUsd),
+        byModel: Array.from(models, ([model, totals]) => ({ model, ...totals })).sort((a, b) => b.costUsd - a.costUsd)
+    };
+};
+
+export const buildAiBudgetStatus = (month: string, budgetUsd: number | null | undefined, spentUsd: number): AiBudgetStatus => {
+    const budget = typeof budgetUsd === 'number' && budgetUsd >= 0 ? budgetUsd : null;
+    const percentUsed = budget === null ? 0 : budget > 0 ? (spentUsd / budget) * 100 : 100;
+    return {
+        month,
+        budgetUsd: budget,
+        spentUsd,
+        percentUsed,
+        nearLimit: budget !== null && percentUsed >= AI_BUDGET_WARNING_PERCENT,
+        exceeded: budget !== null && spentUsd >= budget
+    };
+};
+
+export const formatUsd = (value: number): string =>
+    value > 0 && value < 0.01 ? '< $0.01' : `$${value.toFixed(2)}`;
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { bankTransactionValidator, isAmbiguousAmount, isAmbiguousDate, receiptValidator, timesheetEntryValidator, toAmount, toIsoDate, toNumber } from './aiValidation';
+
+describe('toIsoDate', () => {
+    it('normalizes year-first dates', () => {
+        expect(toIsoDate('2024-03-07')).toBe('2024-03-07');
+        expect(toIsoDate('2024/3/7')).toBe('2024-03-07');
+        expect(toIsoDate('20240307')).toBe('2024-03-07');
+        expect(toIsoDate('2024-03-07T14:30:00Z')).toBe('2024-03-07');
+    });
+
+    it('reads day-first dates, and month-first when the day can\'t be a month', () => {
+        expect(toIsoDate('07.03.2024')).toBe('2024-03-07');
+        expect(toIsoDate('7/3/24')).toBe('2024-03-07');
+        expect(toIsoDate('03/27/2024')).toBe('2024-03-27');
+    });
+
+    it('falls back to Date for written-out dates', () => {
+        expect(toIsoDate('Jan 5, 2024')).toBe('2024-01-05');
+    });
+
+    it('rejects dates that don\'t exist and non-dates', () => {
+        expect(toIsoDate('2024-02-30')).toBeNull();
+        expect(toIsoDate('31.04.2024')).toBeNull();
+        expect(toIsoDate('soon')).toBeNull();
+        expect(toIsoDate('')).toBeNull();
+        expect(toIsoDate(20240307)).toBeNull();
+    });
+});
+
+describe('isAmbiguousDate', () => {
+    it('flags dates valid in both orders', () => {
+        expect(isAmbiguousDate('05/06/2024')).toBe(true);
+        expect(isAmbiguousDate('5.6.24')).toBe(true);
+    });
+
+    it('passes dates with only one reading', () => {
+        expect(isAmbiguousDate('05/05/2024')).toBe(false);
+        expect(isAmbiguousDate('13/06/2024')).toBe(false);
+        expect(isAmbiguousDate('06/13/2024')).toBe(false);
+        expect(isAmbiguousDate('2024-05-06')).toBe(false);
+    });
+});
+
+describe('toNumber', () => {
+    it('passes numbers through and rejects non-finite ones', () => {
+        expect(toNumber(12.5)).toBe(12.5);
+        expect(toNumber(Infinity)).toBeNull();
+        expect(toNumber(null)).toBeNull();
+        expect(toNumber('n/a')).toBeNull();
+    });
+
+    it('reads either decimal mark and thousands separators', () => {
+        expect(toNumber('1 234,50 kr')).toBe(1234.5);
+        expect(toNumber('1.234,50')).toBe(1234.5);
+        expect(toNumber('1,234.50')).toBe(1234.5);
+        expect(toNumber('1.234.567')).toBe(1234567);
+        expect(toNumber('1,234')).toBe(1234);
+        expect(toNumber('12,5')).toBe(12.5);
+        expect(toNumber('0.125')).toBe(0.125);
+    });
+
+    it('reads a minus at the number, around a currency, trailing or as parentheses', () => {
+        expect(toNumber('-12.50')).toBe(-12.5);
+        expect(toNumber('−12,50')).toBe(-12.5);
+        expect(toNumber('SEK -12.50')).toBe(-12.5);
+        expect(toNumber('-€12.50')).toBe(-12.5);
+        expect(toNumber('kr. - 12')).toBe(-12);
+        expect(toNumber('12.50-')).toBe(-12.5);
+        expect(toNumber('(12.50)')).toBe(-12.5);
+    });
+
+    it('ignores dashes elsewhere in the text', () => {
+        expect(toNumber('Ref-Nr 12')).toBe(12);
+        expect(toNumber('Pre-paid: 12.50')).toBe(12.5);
+        expect(toNumber('Total – 12.50')).toBe(12.5);
+        expect(toNumber('12 - 14')).toBe(1214);
+    });
+});
+
+describe('toAmount', () => {
+    it('reads a lone group as thousands in two-decimal currencies', () => {
+        expect(toAmount('1.234 kr')).toBe(1234);
+        expect(toAmount('1.234', 'SEK')).toBe(1234);
+        expect(toAmount('€1.234')).toBe(1234);
+        expect(toAmount('kr. 1.234')).toBe(1234);
+        expect(toAmount('-1.234', 'EUR')).toBe(-1234);
+    });
+
+    it('reads a lone group as decimals in three-decimal currencies', () => {
+        expect(toAmount('1.234', 'KWD')).toBe(1.234);
+        expect(toAmount('1,234 BHD')).toBe(1.234);
+    });
+
+    it('reads everything else like toNumber', () => {
+        expect(toAmount('1 234,50 kr')).toBe(1234.5);
+        expect(toAmount('12.50', 'SEK')).toBe(12.5);
+        expect(toAmount('0.125', 'SEK')).toBe(0.125);
+        expect(toAmount(99)).toBe(99);
+    });
+});
+
+describe('isAmbiguousAmount', () => {
+    it('flags a lone group without any currency', () => {
+        expect(isAmbiguousAmount('1.234')).toBe(true);
+        expect(isAmbiguousAmount('1,234')).toBe(true);
+    });
+
+    it('passes amounts with a currency or an unambiguous format', () => {
+        expect(isAmbiguousAmount('1.234', 'SEK')).toBe(false);
+        expect(isAmbiguousAmount('1.234 kr')).toBe(false);
+        expect(isAmbiguousAmount('1.234,50')).toBe(false);
+        expect(isAmbiguousAmount('12.50')).toBe(false);
+        expect(isAmbiguousAmount(1234)).toBe(false);
+    });
+});
+
+describe('validators', () => {
+    it('reads receipt amounts in the receipt\'s currency', () => {
+        const result = receiptValidator('EUR')({ vendor: 'Kafé', amount: '1.234 kr', vatAmount: '246,80', currency: 'SEK', date: '2024-03-07' });
+        expect(result.value).toMatchObject({ amount: 1234, vatAmount: 246.8, currency: 'SEK' });
+        expect(result.issues).toEqual([]);
+    });
+
+    it('asks the model to settle ambiguous amounts and dates', () => {
+        const receipt = receiptValidator('SEK')({ vendor: 'Kafé', amount: '1.234', date: '05/06/2024' });
+        expect(receipt.value).toMatchObject({ amount: 1234, date: '2024-06-05' });
+        expect(receipt.issues).toEqual(expect.arrayContaining([
+            expect.stringMatching(/^amount: "1.234" could be thousands or decimals/),
+            expect.stringMatching(/^date: "05\/06\/2024" could be day\/month or month\/day/)
+        ]));
+
+        const transaction = bankTransactionValidator({ date: '2024-03-07', amount: '-1.234', description: 'Rent' });
+        expect(transaction.value).toMatchObject({ amount: -1234 });
+        expect(transaction.issues).toEqual([expect.stringMatching(/^amount: /)]);
+
+        const row = timesheetEntryValidator({ date: '03/04/2024', hours: '7,5', employee: 'Anna' });
+        expect(row.value).toMatchObject({ date: '2024-04-03', hours: 7.5 });
+        expect(row.issues).toEqual([expect.stringMatching(/^date: /)]);
+    });
+});
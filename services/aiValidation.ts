@@ -0,0 +1,499 @@
+import { ActionItem, BankTransaction, CalendarEvent, ContractData, DynamicField, FieldEvidence, FieldType, InvoiceStructure, ReceiptData, ReceiptEvidenceField, ReconciliationSuggestion, TimesheetEntry } from "../types";
+
+// Model answers are checked before they become records: dates normalized to YYYY-MM-DD, numbers coerced from
+// strings like "1 234,50 kr", impossible values rejected. Issues are fed back to the model in a re-prompt;
+// a value that still has issues after the last attempt is used with defaults filled in, or dropped if unusable.
+export interface Validated<T> {
+    value: T | null; // null = unusable even with defaults
+    issues: string[];
+}
+
+export type Validator<T> = (raw: unknown) => Validated<T>;
+
+export class AiOutputValidationError extends Error {
+    constructor(message: string, readonly issues: string[]) {
+        super(message);
+        this.name = 'AiOutputValidationError';
+    }
+}
+
+// Re-prompts after the first answer (so up to three model calls per extraction)
+export const AI_REPAIR_ATTEMPTS = 2;
+
+const MIN_YEAR = 1990;
+const MAX_HOURS_PER_ENTRY = 24;
+const MAX_AMOUNT = 1e9;
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', 'kr': 'SEK', 'sek': 'SEK', 'nok': 'NOK', 'dkk': 'DKK' };
+
+// ISO 4217 currencies with three minor units
+const THREE_DECIMAL_CURRENCIES = ['BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND'];
+
+// DD/MM/YYYY-like dates, or MM/DD/YYYY
+const DAY_FIRST_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/;
+// A single separator followed by three digits: thousands group or three decimals
+const LONE_GROUP = /^[1-9]\d{0,2}[.,]\d{3}$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Fence-stripped JSON, or undefined if the answer isn't JSON at all
+export const parseModelJson = (text: string): unknown => {
+    try {
+        return JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+    } catch {
+        return undefined;
+    }
+};
+
+// --- COERCION ---
+
+const isoFromParts = (year: number, month: number, day: number): string | null => {
+    if (year < 100) year += 2000;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// YYYY-MM-DD (optionally with time), YYYY/MM/DD, YYYYMMDD, DD.MM.YYYY or DD/MM/YYYY (MM/DD when the day can't be a month),
+// or anything Date understands ("Jan 5, 2024"). null for non-dates such as 2024-02-30.
+export const toIsoDate = (value: unknown): string | null => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const text = value.trim();
+    let m = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/) || text.match(/^(\d{4})(\d{2})(\d{2})$/);
+    if (m) return isoFromParts(Number(m[1]), Number(m[2]), Number(m[3]));
+    m = text.match(DAY_FIRST_DATE);
+    if (m) {
+        const [first, second, year] = [Number(m[1]), Number(m[2]), Number(m[3])];
+        return second > 12 ? isoFromParts(year, first, second) : isoFromParts(year, second, first);
+    }
+    const parsed = new Date(text);
+    return isNaN(parsed.getTime()) ? null : isoFromParts(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+};
+
+// "05/06/2024" is a valid date read either way; toIsoDate reads it as DD/MM, so the model is asked to settle it
+export const isAmbiguousDate = (value: unknown): boolean => {
+    const m = typeof value === 'string' ? value.trim().match(DAY_FIRST_DATE) : null;
+    if (!m || m[1] === m[2]) return false;
+    const [first, second, year] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    return !!isoFromParts(year, second, first) && !!isoFromParts(year, first, second);
+};
+
+// Digits and separators; marks not followed by a digit belong to the text ("kr. 12", "12 kr.")
+const numericPart = (text: string): string => text.replace(/[.,](?!\d)/g, '').replace(/[^\d.,]/g, '');
+
+// Blank, a symbol like "kr" or "€", or an upper-case ISO code
+const isCurrencyAffix = (text: string): boolean => {
+    const affix = text.trim().replace(/\.$/, '');
+    return !affix || /^[A-Z]{3}$/.test(affix) || !!CURRENCY_SYMBOLS[affix.toLowerCase()];
+};
+
+// "(12.50)", a trailing minus ("12-"), or a minus right before the number with at most a currency around it
+// ("-12", "SEK -12", "−€12"); dashes elsewhere in the text ("Ref-Nr 12") don't make it negative
+const isNegative = (text: string): boolean => {
+    if (/^\(.*\)$/.test(text) || /\d\s*[-−]$/.test(text)) return true;
+    const m = text.match(/^([^\d\-−]*)[-−](\D*?)\d/);
+    return !!m && isCurrencyAffix(m[1]) && isCurrencyAffix(m[2]);
+};
+
+// Accepts numbers and strings with symbols, spaces, thousands separators and either decimal mark; "(12.50)" is negative.
+// A lone "1.234" is read as a decimal; money goes through toAmount, which knows the currency.
+export const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    let text = value.trim();
+    const negative = isNegative(text);
+    text = numericPart(text);
+    if (!/\d/.test(text)) return null;
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    if (lastComma > -1 && lastDot > -1) {
+        // The later mark is the decimal one: "1.234,50" / "1,234.50"
+        text = lastComma > lastDot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+    } else if (/^\d{1,3}([.,]\d{3}){2,}$/.test(text) || /^\d{1,3}(,\d{3})+$/.test(text)) {
+        // "1,234" and "1.234.567" group thousands; a single "1.234" stays a decimal
+        text = text.replace(/[.,]/g, '');
+    } else {
+        text = text.replace(',', '.');
+    }
+    const number = Number(text);
+    return Number.isFinite(number) ? (negative ? -number : number) : null;
+};
+
+// Currency written in the value itself ("1.234 kr", "USD 12")
+const currencyIn = (text: string): string | null => {
+    const marker = (text.match(/[$€£¥]|\b[A-Za-z]{2,3}\b/g) || []).find(isCurrencyAffix);
+    return marker ? toCurrencyCode(marker) : null;
+};
+
+const isLoneGroup = (value: unknown): value is string => typeof value === 'string' && LONE_GROUP.test(numericPart(value));
+
+// Money: a lone "1.234" / "1,234" is 1234 unless the currency (the given one, or one written in the value) has
+// three decimals, since no two-decimal currency writes amounts to a tenth of a cent
+export const toAmount = (value: unknown, currency?: string | null): number | null => {
+    if (!isLoneGroup(value)) return toNumber(value);
+    return THREE_DECIMAL_CURRENCIES.includes(currency || currencyIn(value) || '')
+        ? toNumber(value.replace(/(\d),(\d)/, '$1.$2'))
+        : toNumber(value.replace(/(\d)[.,](\d)/, '$1$2'));
+};
+
+// "1.234" with no currency to tell thousands from decimals; toAmount reads it as 1234
+export const isAmbiguousAmount = (value: unknown, currency?: string | null): boolean =>
+    isLoneGroup(value) && !currency && !currencyIn(value);
+
+export const toCurrencyCode = (value: unknown): string | null => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const text = value.trim();
+    if (/^[A-Za-z]{3}$/.test(text)) return text.toUpperCase();
+    return CURRENCY_SYMBOLS[text.toLowerCase()] || null;
+};
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isPlausibleDate = (iso: string, maxFutureDays: number): boolean => {
+    const time = new Date(iso).getTime();
+    return Number(iso.slice(0, 4)) >= MIN_YEAR && time <= Date.now() + maxFutureDays * 24 * 60 * 60 * 1000;
+};
+
+// Issues for values the coercion had to guess at, so the re-prompt can settle them
+const ambiguousDateIssues = (field: string, value: unknown): string[] =>
+    isAmbiguousDate(value) ? [`${field}: "${value}" could be day/month or month/day (use YYYY-MM-DD).`] : [];
+
+const ambiguousAmountIssues = (field: string, value: unknown, currency: string | null): string[] =>
+    isAmbiguousAmount(value, currency) ? [`${field}: "${value}" could be thousands or decimals (write it without thousands separators, e.g. 1234.00).`] : [];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Confidence clamped to 0-1; a box is kept only if it lies on the page (percentages)
+const toFieldEvidence = (raw: unknown): FieldEvidence | undefined => {
+    if (!isObject(raw)) return undefined;
+    const confidence = toNumber(raw.confidence);
+    if (confidence === null) return undefined;
+    const box = isObject(raw.box) ? raw.box : undefined;
+    const [top, left, width, height] = ['top', 'left', 'width', 'height'].map(k => toNumber(box?.[k]));
+    const validBox = top !== null && left !== null && width !== null && height !== null
+        && top >= 0 && left >= 0 && width > 0 && height > 0 && top < 100 && left < 100;
+    return {
+        confidence: clamp(confidence > 1 ? confidence / 100 : confidence, 0, 1),
+        ...(validBox ? { box: { top: top!, left: left!, width: Math.min(width!, 100 - left!), height: Math.min(height!, 100 - top!) } } : {})
+    };
+};
+
+// --- VALIDATORS PER EXTRACTED TYPE ---
+
+type ReceiptFields = Pick<ReceiptData, 'vendor' | 'amount' | 'currency' | 'date' | 'category' | 'description' | 'taxDeductible' | 'notes'> & Partial<Pick<ReceiptData, 'vatAmount' | 'tags' | 'fieldEvidence'>>;
+
+export const receiptValidator = (defaultCurrency: string): Validator<ReceiptFields> => raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object for the receipt.'] };
+    const issues: string[] = [];
+
+    const vendor = toText(raw.vendor);
+    if (!vendor) issues.push('vendor: missing.');
+
+    const currency = toCurrencyCode(raw.currency);
+    if (!currency) issues.push(raw.currency ? `currency: "${raw.currency}" is not an ISO 4217 code.` : 'currency: missing (use the ISO 4217 code, e.g. EUR).');
+
+    // Read in the currency the receipt will be saved in
+    const amount = toAmount(raw.amount, currency || defaultCurrency);
+    if (amount === null) issues.push(`amount: "${raw.amount}" is not a number.`);
+    else if (amount < 0 || amount > MAX_AMOUNT) issues.push(`amount: ${amount} is not a plausible receipt total.`);
+    issues.push(...ambiguousAmountIssues('amount', raw.amount, currency));
+
+    let vatAmount = raw.vatAmount == null || raw.vatAmount === '' ? undefined : toAmount(raw.vatAmount, currency || defaultCurrency) ?? undefined;
+    if (raw.vatAmount != null && raw.vatAmount !== '' && vatAmount === undefined) issues.push(`vatAmount: "${raw.vatAmount}" is not a number.`);
+    issues.push(...ambiguousAmountIssues('vatAmount', raw.vatAmount, currency));
+    if (vatAmount !== undefined && amount !== null && (vatAmount < 0 || vatAmount > amount)) {
+        issues.push(`vatAmount: ${vatAmount} can't exceed the total ${amount}.`);
+        vatAmount = undefined;
+    }
+
+    const date = toIsoDate(raw.date);
+    if (!date) issues.push(`date: "${raw.date}" is not a valid date (use YYYY-MM-DD).`);
+    else if (!isPlausibleDate(date, 31)) issues.push(`date: ${date} is too far in the past or future for a receipt.`);
+    issues.push(...ambiguousDateIssues('date', raw.date));
+
+    // Unusable without an amount; the rest can fall back to defaults
+    if (amount === null || amount < 0 || amount > MAX_AMOUNT) return { value: null, issues };
+
+    // Evidence is optional (text-only extractors have none); a value replaced by a default is never trusted
+    const fieldEvidence: Partial<Record<ReceiptEvidenceField, FieldEvidence>> = {};
+    const rawFields = isObject(raw.fields) ? raw.fields : {};
+    for (const field of ['vendor', 'amount', 'vatAmount', 'date'] as ReceiptEvidenceField[]) {
+        const evidence = toFieldEvidence(rawFields[field]);
+        if (evidence) fieldEvidence[field] = evidence;
+    }
+    const replaced: ReceiptEvidenceField[] = [
+        ...(!vendor ? ['vendor' as const] : []),
+        ...(!date || !isPlausibleDate(date, 31) ? ['date' as const] : []),
+        ...(raw.vatAmount != null && raw.vatAmount !== '' && vatAmount === undefined ? ['vatAmount' as const] : [])
+    ];
+    for (const field of replaced) fieldEvidence[field] = { ...fieldEvidence[field], confidence: 0 };
+
+    return {
+        value: {
+            vendor: vendor || 'Unknown vendor',
+            amount,
+            vatAmount,
+            currency: currency || defaultCurrency,
+            date: date && isPlausibleDate(date, 31) ? date : new Date().toISOString().split('T')[0],
+            category: toText(raw.category) || 'Uncategorized',
+            description: toText(raw.description) || vendor,
+            taxDeductible: raw.taxDeductible === true || raw.taxDeductible === 'true',
+            notes: toText(raw.notes),
+            tags: Array.isArray(raw.tags) ? raw.tags.map(toText).filter(Boolean) : undefined,
+            ...(Object.keys(fieldEvidence).length > 0 ? { fieldEvidence } : {})
+        },
+        issues
+    };
+};
+
+type TransactionFields = Pick<BankTransaction, 'date' | 'description' | 'amount'> & Partial<Pick<BankTransaction, 'currency'>>;
+
+export const bankTransactionValidator: Validator<TransactionFields> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object per transaction.'] };
+    const issues: string[] = [];
+    const date = toIsoDate(raw.date);
+    if (!date) issues.push(`date: "${raw.date}" is not a valid date (use YYYY-MM-DD).`);
+    else if (!isPlausibleDate(date, 7)) issues.push(`date: ${date} is outside any plausible statement period.`);
+    issues.push(...ambiguousDateIssues('date', raw.date));
+    const currency = raw.currency ? toCurrencyCode(raw.currency) : null;
+    if (raw.currency && !currency) issues.push(`currency: "${raw.currency}" is not an ISO 4217 code.`);
+    const amount = toAmount(raw.amount, currency);
+    if (amount === null) issues.push(`amount: "${raw.amount}" is not a number.`);
+    else if (Math.abs(amount) > MAX_AMOUNT) issues.push(`amount: ${amount} is not plausible.`);
+    issues.push(...ambiguousAmountIssues('amount', raw.amount, currency));
+    const description = toText(raw.description);
+    if (!description) issues.push('description: missing.');
+
+    if (!date || !isPlausibleDate(date, 7) || amount === null || Math.abs(amount) > MAX_AMOUNT) return { value: null, issues };
+    return { value: { date, amount, description, ...(currency ? { currency } : {}) }, issues };
+};
+
+type TimesheetFields = Pick<TimesheetEntry, 'date' | 'employee' | 'project' | 'task' | 'hours'>;
+
+export const timesheetEntryValidator: Validator<TimesheetFields> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object per timesheet row.'] };
+    const issues: string[] = [];
+    const date = toIsoDate(raw.date);
+    if (!date) issues.push(`date: "${raw.date}" is not a valid date (use YYYY-MM-DD).`);
+    else if (!isPlausibleDate(date, 366)) issues.push(`date: ${date} is not plausible for a timesheet.`);
+    issues.push(...ambiguousDateIssues('date', raw.date));
+    const hours = toNumber(raw.hours);
+    if (hours === null) issues.push(`hours: "${raw.hours}" is not a number.`);
+    else if (hours <= 0 || hours > MAX_HOURS_PER_ENTRY) issues.push(`hours: ${hours} must be more than 0 and at most ${MAX_HOURS_PER_ENTRY}.`);
+    const employee = toText(raw.employee);
+    if (!employee) issues.push('employee: missing.');
+
+    if (!date || !isPlausibleDate(date, 366) || hours === null || hours <= 0 || hours > MAX_HOURS_PER_ENTRY) return { value: null, issues };
+    return {
+        value: { date, hours, employee: employee || 'Unknown', project: toText(raw.project), task: toText(raw.task) },
+        issues
+    };
+};
+
+const PRIORITIES: ActionItem['priority'][] = ['High', 'Medium', 'Low'];
+const EVENT_TYPES: CalendarEvent['type'][] = ['Meeting', 'Flight', 'Hotel', 'Reminder'];
+const FIELD_TYPES: FieldType[] = ['text', 'date', 'number', 'textarea', 'currency'];
+const TEMPLATE_SECTIONS = ['header', 'company', 'client', 'footer'] as const;
+
+// One of the allowed values, matched case-insensitively
+const toChoice = <T extends string>(value: unknown, choices: readonly T[]): T | null =>
+    choices.find(c => c.toLowerCase() === toText(value).toLowerCase()) || null;
+
+const toTextList = (value: unknown): string[] => Array.isArray(value) ? value.map(toText).filter(Boolean) : [];
+
+// Full timestamp (events carry a time of day), or null
+const toIsoDateTime = (value: unknown): string | null => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const time = new Date(value.trim()).getTime();
+    return isNaN(time) ? null : new Date(time).toISOString();
+};
+
+type ActionItemFields = Pick<ActionItem, 'task' | 'assignee' | 'deadline' | 'priority'> & Partial<Pick<ActionItem, 'tags'>>;
+
+export const actionItemValidator: Validator<ActionItemFields> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object per task.'] };
+    const issues: string[] = [];
+    const task = toText(raw.task);
+    if (!task) issues.push('task: missing.');
+    const priority = toChoice(raw.priority, PRIORITIES);
+    if (!priority) issues.push(`priority: "${raw.priority}" must be one of ${PRIORITIES.join(', ')}.`);
+    issues.push(...ambiguousDateIssues('deadline', raw.deadline));
+
+    if (!task) return { value: null, issues };
+    return {
+        value: {
+            task,
+            assignee: toText(raw.assignee) || 'Unassigned',
+            // Deadlines like "next Friday" are kept as written when they can't be normalized
+            deadline: toIsoDate(raw.deadline) || toText(raw.deadline),
+            priority: priority || 'Medium',
+            tags: Array.isArray(raw.tags) ? toTextList(raw.tags) : undefined
+        },
+        issues
+    };
+};
+
+type CalendarEventFields = Omit<CalendarEvent, 'id'>;
+
+export const calendarEventValidator: Validator<CalendarEventFields> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object per event.'] };
+    const issues: string[] = [];
+    const title = toText(raw.title);
+    if (!title) issues.push('title: missing.');
+    const startTime = toIsoDateTime(raw.startTime);
+    if (!startTime) issues.push(`startTime: "${raw.startTime}" is not a valid date and time.`);
+    const endTime = raw.endTime ? toIsoDateTime(raw.endTime) : null;
+    if (raw.endTime && (!endTime || (startTime && endTime < startTime))) issues.push(`endTime: "${raw.endTime}" is not a time after the start.`);
+    const type = toChoice(raw.type, EVENT_TYPES);
+    if (!type) issues.push(`type: "${raw.type}" must be one of ${EVENT_TYPES.join(', ')}.`);
+
+    if (!title || !startTime) return { value: null, issues };
+    return {
+        value: {
+            title,
+            startTime,
+            endTime: endTime && endTime >= startTime ? endTime : startTime,
+            location: toText(raw.location),
+            type: type || 'Meeting',
+            attendees: Array.isArray(raw.attendees) ? toTextList(raw.attendees) : undefined,
+            description: toText(raw.description)
+        },
+        issues
+    };
+};
+
+type ContractFields = Pick<ContractData, 'summary' | 'keyConstraints' | 'expirationDate' | 'parties'>;
+
+export const contractValidator: Validator<ContractFields> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object for the contract.'] };
+    const issues: string[] = [];
+    const summary = toText(raw.summary);
+    if (!summary) issues.push('summary: missing.');
+    if (!Array.isArray(raw.keyConstraints)) issues.push('keyConstraints: expected an array of strings.');
+    if (!Array.isArray(raw.parties)) issues.push('parties: expected an array of strings.');
+    const expirationDate = raw.expirationDate ? toIsoDate(raw.expirationDate) : null;
+    if (raw.expirationDate && !expirationDate) issues.push(`expirationDate: "${raw.expirationDate}" is not a valid date (use YYYY-MM-DD).`);
+    issues.push(...ambiguousDateIssues('expirationDate', raw.expirationDate));
+    return {
+        value: {
+            summary,
+            keyConstraints: toTextList(raw.keyConstraints),
+            expirationDate: expirationDate || undefined,
+            parties: toTextList(raw.parties)
+        },
+        issues
+    };
+};
+
+export const reconciliationSuggestionValidator: Validator<ReconciliationSuggestion> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object per match.'] };
+    const issues: string[] = [];
+    const transactionId = toText(raw.transactionId);
+    const receiptId = toText(raw.receiptId);
+    if (!transactionId || !receiptId) issues.push('transactionId and receiptId: both are required.');
+    const confidence = toNumber(raw.confidence);
+    if (confidence === null) issues.push(`confidence: "${raw.confidence}" is not a number.`);
+
+    if (!transactionId || !receiptId || confidence === null) return { value: null, issues };
+    return { value: { transactionId, receiptId, confidence: clamp(confidence > 1 ? confidence / 100 : confidence, 0, 1), reasoning: toText(raw.reasoning) }, issues };
+};
+
+export type TemplateFieldFields = Omit<DynamicField, 'id'> & { section: typeof TEMPLATE_SECTIONS[number] };
+
+export const templateFieldValidator: Validator<TemplateFieldFields> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object per field.'] };
+    const issues: string[] = [];
+    const label = toText(raw.label);
+    if (!label) issues.push('label: missing.');
+    const section = toChoice(raw.section, TEMPLATE_SECTIONS);
+    if (!section) issues.push(`section: "${raw.section}" must be one of ${TEMPLATE_SECTIONS.join(', ')}.`);
+    const type = toChoice(raw.type, FIELD_TYPES);
+    if (!type) issues.push(`type: "${raw.type}" must be one of ${FIELD_TYPES.join(', ')}.`);
+    const geometry = isObject(raw.geometry) ? raw.geometry : {};
+    const [top, left, width] = ['top', 'left', 'width'].map(k => toNumber(geometry[k]));
+    const onPage = top !== null && left !== null && top >= 0 && top <= 100 && left >= 0 && left <= 100;
+    if (!onPage) issues.push('geometry: top and left must be percentages (0-100).');
+
+    if (!label || !section) return { value: null, issues };
+    return {
+        value: {
+            label,
+            section,
+            type: type || 'text',
+            defaultValue: toText(raw.defaultValue),
+            ...(onPage ? { geometry: { top: top!, left: left!, ...(width !== null && width > 0 ? { width: Math.min(width, 100 - left!) } : {}) } } : {})
+        },
+        issues
+    };
+};
+
+type TemplateColumns = InvoiceStructure['itemsColumns'];
+type TemplateColumnLayout = NonNullable<InvoiceStructure['columnLayout']>;
+
+export interface InvoiceLayoutFields {
+    templateName: string;
+    fields: TemplateFieldFields[];
+    itemsColumns?: TemplateColumns;
+    itemsTableTop?: number;
+    itemsTableLeft?: number;
+    itemsTableWidth?: number;
+    rowHeight?: number;
+    columnLayout?: TemplateColumnLayout;
+    contentTopOffset?: number;
+    contentLeftOffset?: number;
+}
+
+// Percentage on the page, or undefined (the caller falls back to its default layout)
+const toPercent = (value: unknown): number | undefined => {
+    const number = toNumber(value);
+    return number !== null && number >= 0 && number <= 100 ? number : undefined;
+};
+
+export const invoiceLayoutValidator: Validator<InvoiceLayoutFields> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['Expected a JSON object for the template.'] };
+    const fields = arrayOf(templateFieldValidator)(raw.allFields);
+    const issues = [...fields.issues];
+    const headers = isObject(raw.itemsTableHeaders) ? raw.itemsTableHeaders : null;
+    const itemsColumns = headers && (['description', 'quantity', 'price', 'total'] as const).every(k => toText(headers[k]))
+        ? { description: toText(headers.description), quantity: toText(headers.quantity), price: toText(headers.price), total: toText(headers.total) }
+        : undefined;
+    if (!itemsColumns) issues.push('itemsTableHeaders: needs description, quantity, price and total.');
+    const layout = isObject(raw.columnLayout) ? raw.columnLayout : null;
+    const [descriptionX, quantityX, priceX, totalX] = ['descriptionX', 'quantityX', 'priceX', 'totalX'].map(k => toPercent(layout?.[k]));
+    const columnLayout = descriptionX !== undefined && quantityX !== undefined && priceX !== undefined && totalX !== undefined
+        ? { descriptionX, quantityX, priceX, totalX }
+        : undefined;
+    if (!columnLayout) issues.push('columnLayout: needs descriptionX, quantityX, priceX and totalX as percentages.');
+    const itemsTableTop = toPercent(raw.itemsTableTop);
+    if (itemsTableTop === undefined) issues.push(`itemsTableTop: "${raw.itemsTableTop}" is not a percentage.`);
+    return {
+        value: {
+            templateName: toText(raw.templateName),
+            fields: fields.value || [],
+            itemsColumns,
+            itemsTableTop,
+            itemsTableLeft: toPercent(raw.itemsTableLeft),
+            itemsTableWidth: toPercent(raw.itemsTableWidth),
+            rowHeight: toPercent(raw.rowHeight),
+            columnLayout,
+            contentTopOffset: toNumber(raw.contentTopOffset) ?? undefined,
+            contentLeftOffset: toNumber(raw.contentLeftOffset) ?? undefined
+        },
+        issues
+    };
+};
+
+// Array answers: unusable rows are dropped, issues are prefixed with the row number the model can relate to
+export const arrayOf = <T>(validate: Validator<T>): Validator<T[]> => raw => {
+    if (!Array.isArray(raw)) return { value: null, issues: ['Expected a JSON array.'] };
+    const issues: string[] = [];
+    const value: T[] = [];
+    raw.forEach((item, i) => {
+        const result = validate(item);
+        issues.push(...result.issues.map(issue => `Row ${i + 1} ${issue}`));
+        if (result.value) value.push(result.value);
+    });
+    return { value, issues };
+};
@@ -0,0 +1,49 @@
+import { fileExtensionFor } from "./backupArchive";
+
+// Attachments (receipt scans, contract images) are stored once per org under the SHA-256 of their bytes
+export const THUMBNAIL_MAX_DIMENSION = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Unreferenced files are kept this long so undo and version restores can still bring them back
+export const ATTACHMENT_GC_GRACE_DAYS = 30;
+
+export const isInlineFile = (url: unknown): url is string => typeof url === 'string' && url.startsWith('data:');
+
+export const mimeTypeOf = (dataUrl: string): string => dataUrl.slice(5, dataUrl.indexOf(';')) || 'application/octet-stream';
+
+// Hex SHA-256 of the decoded file content (not the base64 text)
+export const contentHash = async (dataUrl: string): Promise<string> => {
+    const bytes = await (await fetch(dataUrl)).arrayBuffer();
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const attachmentPath = (orgId: string, hash: string, mimeType: string): string =>
+    `organizations/${orgId}/attachments/${hash}.${fileExtensionFor(mimeType)}`;
+
+// Ciphertext objects carry no file type; the ID includes the key they were encrypted with
+export const encryptedAttachmentPath = (orgId: string, id: string): string =>
+    `organizations/${orgId}/attachments/${id}.enc`;
+
+export const thumbnailPath = (orgId: string, hash: string): string =>
+    `organizations/${orgId}/attachments/${hash}_thumb.jpg`;
+
+// Downscaled JPEG for list views; null for non-images (PDFs) or when the browser can't decode the file
+export const createThumbnail = (dataUrl: string): Promise<string | null> => {
+    if (!mimeTypeOf(dataUrl).startsWith('image/') || typeof document === 'undefined') return Promise.resolve(null);
+    return new Promise(resolve => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.width * scale));
+            canvas.height = Math.max(1, Math.round(img.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return resolve(null);
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY));
+        };
+        img.onerror = () => resolve(null);
+        img.src = dataUrl;
+    });
+};
@@ -0,0 +1,110 @@
+import { BackupManifest, ImportMode, ImportModuleReport } from "../types";
+
+// Bump when the archive layout or record shapes change incompatibly; older archives stay importable
+export const BACKUP_SCHEMA_VERSION = 1;
+export const MANIFEST_FILE = 'manifest.json';
+export const SETTINGS_FILE = 'settings.json';
+
+// Records point at binaries inside the archive with this prefix instead of a Storage URL
+export const ARCHIVE_FILE_PREFIX = 'archive:';
+
+// Cross-module references that must follow an ID when it is remapped
+const REFERENCE_FIELDS: { key: string; field: string; target: string }[] = [
+    { key: 'founder_os_bank_txs', field: 'matchedReceiptId', target: 'founder_os_receipts' },
+    { key: 'founder_os_invoices', field: 'templateId', target: 'founder_os_invoice_templates' }
+];
+
+export class BackupValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupValidationError';
+    }
+}
+
+export const validateManifest = (raw: any): BackupManifest => {
+    if (!raw || raw.format !== 'founder-os-backup') {
+        throw new BackupValidationError("Not a FounderOS backup archive.");
+    }
+    if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion < 1) {
+        throw new BackupValidationError("Backup is missing a schema version.");
+    }
+    if (raw.schemaVersion > BACKUP_SCHEMA_VERSION) {
+        throw new BackupValidationError(`Backup schema v${raw.schemaVersion} is newer than this app supports (v${BACKUP_SCHEMA_VERSION}). Please update FounderOS first.`);
+    }
+    if (!raw.modules || typeof raw.modules !== 'object') {
+        throw new BackupValidationError("Backup manifest has no module index.");
+    }
+    return raw as BackupManifest;
+};
+
+export const fileExtensionFor = (mimeType: string): string => {
+    if (mimeType.includes('png')) return 'png';
+    if (mimeType.includes('webp')) return 'webp';
+    if (mimeType.includes('pdf')) return 'pdf';
+    return 'jpg';
+};
+
+// Content fingerprint ignoring service stamps and file locations (Storage URL vs archive path)
+const fingerprint = (record: any) => {
+    const { lastModified, modifiedBy, _createdAt, imageUrl, thumbnailUrl, _attachmentHash, ...rest } = record;
+    return JSON.stringify(Object.keys(rest).sort().map(k => [k, rest[k]]));
+};
+
+export interface ImportPlan {
+    records: Record<string, any[]>; // Final module contents to persist
+    report: Record<string, ImportModuleReport>;
+}
+
+// Decides, per module, which incoming records are created, remapped (ID collision with different content) or skipped
+export const planImport = (
+    existing: Record<string, any[]>,
+    incoming: Record<string, any[]>,
+    mode: ImportMode
+): ImportPlan => {
+    const idMaps: Record<string, Map<string, string>> = {};
+    const accepted: Record<string, any[]> = {};
+    const report: Record<string, ImportModuleReport> = {};
+
+    Object.entries(incoming).forEach(([key, items]) => {
+        const current = existing[key] || [];
+        const currentById = new Map(current.map(r => [r.id, r]));
+        const idMap = new Map<string, string>();
+        const stats: ImportModuleReport = { incoming: items.length, created: 0, remapped: 0, unchanged: 0, removed: 0 };
+        const kept: any[] = [];
+
+        items.forEach(item => {
+            if (!item || !item.id) return;
+            const clash = mode === 'merge' ? currentById.get(item.id) : undefined;
+            if (!clash) {
+                stats.created++;
+                kept.push(item);
+            } else if (fingerprint(clash) === fingerprint(item)) {
+                stats.unchanged++;
+            } else {
+                const newId = crypto.randomUUID();
+                idMap.set(item.id, newId);
+                stats.remapped++;
+                kept.push({ ...item, id: newId });
+            }
+        });
+
+        if (mode === 'replace') stats.removed = current.length;
+        idMaps[key] = idMap;
+        accepted[key] = kept;
+        report[key] = stats;
+    });
+
+    // Point references of imported records at their remapped targets
+    REFERENCE_FIELDS.forEach(({ key, field, target }) => {
+        const idMap = idMaps[target];
+        if (!accepted[key] || !idMap || idMap.size === 0) return;
+        accepted[key] = accepted[key].map(r => r[field] && idMap.has(r[field]) ? { ...r, [field]: idMap.get(r[field]) } : r);
+    });
+
+    const records: Record<string, any[]> = {};
+    Object.keys(accepted).forEach(key => {
+        records[key] = mode === 'replace' ? accepted[key] : [...accepted[key], ...(existing[key] || [])];
+    });
+
+    return { records, report };
+};
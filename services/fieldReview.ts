@@ -0,0 +1,32 @@
+import { ReceiptData, ReceiptEvidenceField } from "../types";
+
+// Extracted receipt fields below this confidence wait in the "needs review" queue until someone confirms them
+export const FIELD_REVIEW_THRESHOLD = 0.8;
+
+export const RECEIPT_EVIDENCE_FIELDS: { id: ReceiptEvidenceField; label: string }[] = [
+    { id: 'vendor', label: 'Vendor' },
+    { id: 'amount', label: 'Amount' },
+    { id: 'vatAmount', label: 'VAT' },
+    { id: 'date', label: 'Date' }
+];
+
+// Receipts without evidence (older uploads, most inbox imports) are never queued
+export const fieldsNeedingReview = (receipt: ReceiptData, threshold = FIELD_REVIEW_THRESHOLD): ReceiptEvidenceField[] =>
+    RECEIPT_EVIDENCE_FIELDS
+        .map(f => f.id)
+        .filter(field => {
+            const evidence = receipt.fieldEvidence?.[field];
+            return !!evidence && evidence.confidence < threshold && !receipt.reviewedFields?.includes(field);
+        });
+
+export const needsReview = (receipt: ReceiptData, threshold = FIELD_REVIEW_THRESHOLD): boolean =>
+    fieldsNeedingReview(receipt, threshold).length > 0;
+
+export const markFieldsReviewed = (receipt: ReceiptData, fields: ReceiptEvidenceField[]): ReceiptData => ({
+    ...receipt,
+    reviewedFields: Array.from(new Set([...(receipt.reviewedFields || []), ...fields]))
+});
+
+// Box outline colour by confidence band
+export const confidenceTone = (confidence: number, threshold = FIELD_REVIEW_THRESHOLD): 'good' | 'low' | 'poor' =>
+    confidence >= threshold ? 'good' : confidence >= threshold / 2 ? 'low' : 'poor';
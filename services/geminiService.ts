@@ -1,19 +1,28 @@
 
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ReceiptData, ActionItem, InboxAnalysisResult, CalendarEvent, IntegrationAccount, BankTransaction, ReconciliationSuggestion, TimesheetEntry, ContractData, InvoiceTemplate } from "../types";
+import { Type, Schema } from "@google/genai";
+import { AppSettings, AiFailedFile, ReceiptBatchResult, ReceiptData, ActionItem, InboxAnalysisResult, CalendarEvent, IntegrationAccount, BankTransaction, ReconciliationSuggestion, TimesheetEntry, ContractData, InvoiceTemplate } from "../types";
 import JSZip from 'jszip';
-
-// Use import.meta.env for Vite support, fallback to process.env for Node/Test environments if needed
-const API_KEY = import.meta.env.VITE_API_KEY || process.env.API_KEY;
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-const RECEIPT_MODEL = "gemini-2.5-flash";
-const OPS_MODEL = "gemini-2.5-flash";
-const BRIEFING_MODEL = "gemini-2.5-flash"; 
-const CONTRACT_MODEL = "gemini-2.5-flash";
+import { RedactionContext, beginRedaction, recordRedaction, isMaskableFile, decodeTextFile, requireUnredactedFileConsent } from "./piiRedaction";
+import { AiPart, AiProvider, AiRequest, AiAnswer, AiBudgetExceededError, createAiProvider, aiProviderFor } from "./aiProviders";
+import { aiJobQueue, AiJobCancelledError } from "./aiJobQueue";
+import { aiCacheKey, fileContentHash, withAiResultCache } from "./aiResultCache";
+import { Validated, Validator, TemplateFieldFields, AiOutputValidationError, AI_REPAIR_ATTEMPTS, parseModelJson, receiptValidator, bankTransactionValidator, timesheetEntryValidator, actionItemValidator, calendarEventValidator, contractValidator, reconciliationSuggestionValidator, invoiceLayoutValidator, arrayOf } from "./aiValidation";
+import { storageService } from "./storageService";
+import { RenderedPrompt, renderPrompt } from "./aiPrompts";
+
+let provider: AiProvider = createAiProvider(aiProviderFor());
+// Receipts whose currency the model can't tell are booked in the org's currency
+let defaultCurrency = 'USD';
+
+// Follows the org's choice of provider and currency (called by the App when settings load or change)
+export const configureAiProvider = (settings?: AppSettings | null) => {
+    const type = aiProviderFor(settings);
+    if (type !== provider.type) provider = createAiProvider(type);
+    defaultCurrency = settings?.currency || 'USD';
+};
 
 // --- Schemas ---
+// Changing a schema changes the answers: bump the version of the prompts that use it (aiPrompts.ts)
 
 const receiptSchema: Schema = {
   type: Type.OBJECT,
@@ -32,6 +41,42 @@ const receiptSchema: Schema = {
   required: ["vendor", "amount", "date", "description"]
 };
 
+const fieldEvidenceSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    confidence: { type: Type.NUMBER, description: "How certain the value is, 0-1" },
+    box: {
+      type: Type.OBJECT,
+      description: "Where the VALUE (not its label) is on the page",
+      properties: {
+        top: { type: Type.NUMBER, description: "Percentage 0-100" },
+        left: { type: Type.NUMBER, description: "Percentage 0-100" },
+        width: { type: Type.NUMBER, description: "Percentage 0-100" },
+        height: { type: Type.NUMBER, description: "Percentage 0-100" }
+      },
+      required: ["top", "left", "width", "height"]
+    }
+  },
+  required: ["confidence"]
+};
+
+// Uploaded documents also report per-field confidence and location (inbox emails have no page to point at)
+const receiptDocumentSchema: Schema = {
+  ...receiptSchema,
+  properties: {
+    ...receiptSchema.properties,
+    fields: {
+      type: Type.OBJECT,
+      properties: {
+        vendor: fieldEvidenceSchema,
+        amount: fieldEvidenceSchema,
+        vatAmount: fieldEvidenceSchema,
+        date: fieldEvidenceSchema
+      }
+    }
+  }
+};
+
 const actionItemSchema: Schema = {
   type: Type.OBJECT,
   properties: {
@@ -182,37 +227,121 @@ const MOCK_EMAILS_DATA = [
     { accountId: '2', content: "Subject: Software License\nTotal: $100.00\nVendor: Adobe\nDate: 2024-05-02" }
 ];
 
-const safeJSONParse = (text: string) => {
+// Past the org's monthly AI budget remote calls stop until the month ends or the budget is raised: they throw
+// AiBudgetExceededError and the user enters the data by hand (see aiFailureMessage)
+const assertWithinAiBudget = async () => {
+    if (provider.remote && (await storageService.getAiBudgetStatus()).exceeded) throw new AiBudgetExceededError();
+};
+
+// What to tell the user about a failed AI call: a spent budget means manual entry, anything else gets the caller's message
+export const aiFailureMessage = (error: unknown, fallback: string): string => {
+    for (let e: any = error; e; e = e.cause) {
+        if (e instanceof AiBudgetExceededError) return `${e.message} Enter the data by hand, or ask for a higher budget.`;
+    }
+    return fallback;
+};
+
+// Every model call goes through here: remote calls are metered (tokens, model, latency) against the org's budget.
+// The server has the last word on the budget; once it refuses, the cached budget status is reloaded.
+const generate = async (request: AiRequest): Promise<string> => {
+    await assertWithinAiBudget();
+    const active = provider;
+    const startedAt = Date.now();
+    let answer: AiAnswer;
     try {
-        const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
-        return JSON.parse(cleaned);
+        answer = await active.generate(request);
     } catch (e) {
-        console.error("JSON Parse Error", e);
-        return {};
+        if (e instanceof AiBudgetExceededError) storageService.refreshAiBudget();
+        throw e;
+    }
+    if (active.remote) {
+        storageService.recordAiUsage({
+            operation: request.operation,
+            model: request.model,
+            inputTokens: answer.inputTokens || 0,
+            outputTokens: answer.outputTokens || 0,
+            latencyMs: Date.now() - startedAt
+        });
+    }
+    return answer.text;
+};
+
+// The uploaded file as a prompt part. Text files are decoded and masked like the prompt; images and PDFs can't be,
+// so while redaction is on they only go to a remote model once the user agreed (and are counted in the log).
+const filePart = async (redaction: RedactionContext, base64Data: string, mimeType: string): Promise<AiPart> => {
+    if (redaction.enabled && isMaskableFile(mimeType)) {
+        return { text: `Attached file (${mimeType}):\n${redaction.redact(decodeTextFile(base64Data))}` };
+    }
+    if (redaction.enabled && provider.remote) {
+        await assertWithinAiBudget();
+        await requireUnredactedFileConsent(redaction.operation);
+        redaction.noteUnredactedFile();
+    }
+    return { inlineData: { mimeType, data: base64Data } };
+};
+
+// Prompts, models and temperatures live in the prompt registry (aiPrompts.ts); call sites add the files, schema and input
+const promptRequest = (prompt: RenderedPrompt, contents: AiRequest['contents'], options: Pick<AiRequest, 'schema' | 'input' | 'signal'> = {}): AiRequest => ({
+    operation: prompt.operation,
+    model: prompt.model,
+    temperature: prompt.temperature,
+    prompt: prompt.ref,
+    contents,
+    ...options
+});
+
+// File extractors: the same document (by SHA-256) with the same prompt version is only sent once per browser and org.
+// The key names the provider that answers: past the budget nothing answers, so nothing is cached.
+const cachedFileResult = async <T>(prompt: RenderedPrompt, base64Data: string, mimeType: string, compute: () => Promise<T>) => {
+    const hash = await fileContentHash(base64Data, mimeType);
+    const orgId = storageService.organizationId;
+    if (!orgId) return { result: await compute(), hash };
+    const { result } = await withAiResultCache(aiCacheKey(orgId, prompt.ref.name, prompt.ref.version, provider.type, hash), compute);
+    return { result, hash };
+};
+
+const validateAnswer = <T>(text: string, validate: Validator<T>): Validated<T> => {
+    const raw = parseModelJson(text);
+    return raw === undefined ? { value: null, issues: ['The answer was not valid JSON.'] } : validate(raw);
+};
+
+const withRepairNote = (contents: AiRequest['contents'], previous: string, issues: string[]): AiRequest['contents'] => {
+    const note = `\n\nYour previous answer failed validation:\n${issues.slice(0, 20).map(issue => `- ${issue}`).join('\n')}\n\nPrevious answer:\n${previous}\n\nReturn the corrected JSON only.`;
+    return typeof contents === 'string' ? contents + note : [...contents, { text: note }];
+};
+
+// Re-prompts with the validation issues until the answer is clean or the attempts run out; keeps the best answer.
+// The local provider would answer the same again, so it isn't re-prompted.
+const generateValidated = async <T>(request: AiRequest, validate: Validator<T>): Promise<Validated<T>> => {
+    const remote = provider.remote;
+    let text = await generate(request);
+    let best = validateAnswer(text, validate);
+    for (let attempt = 1; attempt <= AI_REPAIR_ATTEMPTS && best.issues.length > 0 && remote; attempt++) {
+        console.warn(`[AI] ${request.operation}: answer failed validation, re-prompting`, best.issues);
+        text = await generate({
+            ...request,
+            contents: withRepairNote(request.contents, text, best.issues),
+            prompt: request.prompt && { ...request.prompt, repairAttempt: attempt }
+        });
+        const result = validateAnswer(text, validate);
+        if (result.value !== null && (best.value === null || result.issues.length <= best.issues.length)) best = result;
     }
+    if (best.issues.length > 0) console.warn(`[AI] ${request.operation}: using answer with unresolved issues`, best.issues);
+    return best;
 };
 
 export const analyzeInvoiceTemplate = async (base64Data: string, mimeType: string): Promise<Partial<InvoiceTemplate>> => {
+    const redaction = beginRedaction('analyzeInvoiceTemplate');
     try {
-        const response = await ai.models.generateContent({
-            model: OPS_MODEL,
-            contents: [ // Pass as array
-                {
-                    parts: [
-                        { inlineData: { mimeType, data: base64Data } },
-                        { text: "Analyze this invoice to create a 'Form Filling' template overlay.\n\nInstructions:\n1. **Identify Variable Fields (Red Zones)**: Identify ONLY the values that change (e.g. the actual Date '2024-01-01', the actual Inv# '001', the Client Name). \n2. **Exclude Labels**: Do NOT include static labels (like 'Invoice No:', 'Bill To:', 'Total:') in the geometry. We want to keep the original labels visible on the background image.\n3. **Table Analysis**: Find the Y-position where the *headers end*. This is `itemsTableTop`. We will clear everything below this line to draw new rows, but keep the headers intact.\n4. **Column Mapping**: Identify X-positions for columns." }
-                    ]
-                }
-            ],
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: invoiceStructureSchema,
-                temperature: 0.1
-            }
-        });
-        
-        const parsed = safeJSONParse(response.text || "{}");
-        const allFields = parsed.allFields || [];
+        const prompt = renderPrompt('analyzeInvoiceTemplate');
+        const { value, issues } = await generateValidated(promptRequest(prompt, [
+            await filePart(redaction, base64Data, mimeType),
+            { text: prompt.text }
+        ], { schema: invoiceStructureSchema }), invoiceLayoutValidator);
+        if (!value) throw new AiOutputValidationError("Invoice template answer is unusable", issues);
+
+        const parsed = redaction.restore(value);
+        const allFields: TemplateFieldFields[] = parsed.fields;
 
         // Fallback
         if (allFields.length === 0) {
@@ -225,11 +354,11 @@ export const analyzeInvoiceTemplate = async (base64Data: string, mimeType: strin
         }
 
         const structure = {
-            header: allFields.filter((f: any) => f.section === 'header').map((f: any) => ({ ...f, id: crypto.randomUUID() })),
-            company: allFields.filter((f: any) => f.section === 'company').map((f: any) => ({ ...f, id: crypto.randomUUID() })),
-            client: allFields.filter((f: any) => f.section === 'client').map((f: any) => ({ ...f, id: crypto.randomUUID() })),
-            footer: allFields.filter((f: any) => f.section === 'footer').map((f: any) => ({ ...f, id: crypto.randomUUID() })),
-            itemsColumns: parsed.itemsTableHeaders || { description: 'Description', quantity: 'Qty', price: 'Price', total: 'Total' },
+            header: allFields.filter(f => f.section === 'header').map(f => ({ ...f, id: crypto.randomUUID() })),
+            company: allFields.filter(f => f.section === 'company').map(f => ({ ...f, id: crypto.randomUUID() })),
+            client: allFields.filter(f => f.section === 'client').map(f => ({ ...f, id: crypto.randomUUID() })),
+            footer: allFields.filter(f => f.section === 'footer').map(f => ({ ...f, id: crypto.randomUUID() })),
+            itemsColumns: parsed.itemsColumns || { description: 'Description', quantity: 'Qty', price: 'Price', total: 'Total' },
             itemsTableGeometry: { 
                 top: parsed.itemsTableTop || 40,
                 left: parsed.itemsTableLeft || 5,
@@ -252,6 +381,8 @@ export const analyzeInvoiceTemplate = async (base64Data: string, mimeType: strin
     } catch (e) {
         console.error("Template Analysis Error", e);
         throw e;
+    } finally {
+        recordRedaction(redaction);
     }
 }
 
@@ -265,68 +396,52 @@ export const suggestMatches = async (
 
     if (simpleTxs.length === 0 || simpleReceipts.length === 0) return [];
 
+    // Text prompts: PII is masked before sending and restored in the answer (see piiRedaction.ts)
+    const redaction = beginRedaction('suggestMatches');
     try {
-        const prompt = `
-            Act as an expert forensic accountant. I have a list of unmatched bank transactions and a list of receipts.
-            Find matches where the amount is roughly the same (within 5% variance for currency conversion or fees) AND the date is close (within 10 days).
-            Also consider vendor name fuzzy matching.
-            
-            Bank Transactions: ${JSON.stringify(simpleTxs)}
-            Receipts: ${JSON.stringify(simpleReceipts)}
-            
-            Return a JSON list of matches. Only include confident matches (>70%).
-        `;
-
-        const response = await ai.models.generateContent({
-            model: RECEIPT_MODEL,
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: reconciliationSchema,
-                temperature: 0.1
-            }
-        });
+        const prompt = renderPrompt('suggestMatches', { transactions: JSON.stringify(simpleTxs), receipts: JSON.stringify(simpleReceipts) });
+        const { value } = await generateValidated(promptRequest(prompt, redaction.redactPrompt(prompt.text), {
+            schema: reconciliationSchema,
+            input: { transactions: simpleTxs, receipts: simpleReceipts }
+        }), arrayOf(reconciliationSuggestionValidator));
 
-        return safeJSONParse(response.text || "[]");
+        return redaction.restore(value || []);
     } catch (e) {
+        if (e instanceof AiBudgetExceededError) throw e;
         console.error("Match Suggestion Error", e);
         return [];
+    } finally {
+        recordRedaction(redaction);
     }
 }
 
 export const parseBankStatement = async (base64Data: string, mimeType: string): Promise<BankTransaction[]> => {
+  const redaction = beginRedaction('parseBankStatement');
   try {
-    const response = await ai.models.generateContent({
-      model: RECEIPT_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Data
-            }
-          },
-          {
-            text: "Analyze this bank statement. Extract transaction rows. Use negative amounts for expenses, positive for income. Return JSON."
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: bankStatementSchema,
-        temperature: 0.1
-      }
+    const prompt = renderPrompt('parseBankStatement');
+    const { result: parsed, hash } = await cachedFileResult(prompt, base64Data, mimeType, async () => {
+      const { value, issues } = await generateValidated(promptRequest(prompt, [
+        await filePart(redaction, base64Data, mimeType),
+        { text: prompt.text }
+      ], {
+        schema: bankStatementSchema,
+        input: { mimeType, data: base64Data }
+      }), arrayOf(bankTransactionValidator));
+      if (!value) throw new AiOutputValidationError("Bank statement answer is unusable", issues);
+      return redaction.restore(value);
     });
-
-    const parsed = safeJSONParse(response.text || "[]");
-    return parsed.map((t: any) => ({
+    return parsed.map((t): BankTransaction => ({
       ...t,
+      currency: t.currency || defaultCurrency,
       id: crypto.randomUUID(),
-      status: 'Unreconciled'
+      status: 'Unreconciled',
+      sourceHash: hash
     }));
   } catch (error) {
     console.error("Bank Statement Analysis Error:", error);
-    throw new Error("Failed to parse bank statement.");
+    throw new Error("Failed to parse bank statement.", { cause: error });
+  } finally {
+    recordRedaction(redaction);
   }
 };
 
@@ -374,111 +489,110 @@ export const analyzeInbox = async (emailBodies: string[]): Promise<InboxAnalysis
       return { receipts: [], tasks: [], events: [] };
   }
 
+  const redaction = beginRedaction('analyzeInbox');
   try {
-    const response = await ai.models.generateContent({
-      model: OPS_MODEL,
-      contents: `You are an intelligent executive assistant. Process these emails and extract:
-      1. Financial Receipts (expenses, invoices) - Ensure VAT and Currency are extracted for accounting.
-      2. Calendar Events (meetings, flights, hotel stays)
-      3. Action Items (tasks, follow-ups)
-      4. Auto-tag items with useful labels like #Client, #Urgent, #Travel.
-      
-      EMAILS:
-      ${emailBodies.join('\n---\n')}
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: inboxAnalysisSchema,
-        temperature: 0.2
-      }
-    });
+    const prompt = renderPrompt('analyzeInbox', { emails: emailBodies.join('\n---\n') });
+    const text = await generate(promptRequest(prompt, redaction.redactPrompt(prompt.text), {
+      schema: inboxAnalysisSchema,
+      input: { emails: emailBodies }
+    }));
+
+    const raw = parseModelJson(text || "{}");
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new AiOutputValidationError("Inbox answer is not a JSON object", []);
+    const parsed = redaction.restore(raw as Record<string, unknown>);
+
+    // Rows are checked like uploads but not re-prompted: one bad row shouldn't resend the whole inbox
+    const receipts = arrayOf(receiptValidator(defaultCurrency))(parsed.receipts || []);
+    const tasks = arrayOf(actionItemValidator)(parsed.tasks || []);
+    const events = arrayOf(calendarEventValidator)(parsed.events || []);
+    const issues = [...receipts.issues, ...tasks.issues, ...events.issues];
+    if (issues.length > 0) console.warn("[AI] analyzeInbox: dropped or defaulted rows", issues);
 
-    const parsed = safeJSONParse(response.text || "{}");
-    
     return {
-      receipts: (parsed.receipts || []).map((r: any) => ({ 
+      receipts: (receipts.value || []).map(r => ({ 
           ...r, 
           id: crypto.randomUUID(), 
           source: 'Gmail',
           sourceUrl: 'https://mail.google.com/mail/u/0/#inbox',
-          currency: r.currency || 'USD' 
+          matchConfidence: 0
       })),
-      tasks: (parsed.tasks || []).map((t: any) => ({ ...t, id: crypto.randomUUID(), status: 'Pending', originEmail: 'Imported' })),
-      events: (parsed.events || []).map((e: any) => ({ ...e, id: crypto.randomUUID() })),
+      tasks: (tasks.value || []).map(t => ({ ...t, id: crypto.randomUUID(), source: 'Email', status: 'Pending', originEmail: 'Imported' })),
+      events: (events.value || []).map(e => ({ ...e, id: crypto.randomUUID() })),
     };
   } catch (error) {
     console.error("Inbox Analysis Error:", error);
-    throw new Error("Failed to analyze inbox.");
+    throw new Error("Failed to analyze inbox.", { cause: error });
+  } finally {
+    recordRedaction(redaction);
   }
 };
 
-export const analyzeReceipt = async (base64Data: string, mimeType: string, filename?: string): Promise<ReceiptData> => {
+export const analyzeReceipt = async (base64Data: string, mimeType: string, filename?: string, signal?: AbortSignal): Promise<ReceiptData> => {
+  const redaction = beginRedaction('analyzeReceipt');
   try {
-    const response = await ai.models.generateContent({
-      model: RECEIPT_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Data
-            }
-          },
-          {
-            text: "Analyze this document for accounting. Extract vendor, amount, currency, VAT Amount, date, and categorize. Create a formal Description for the ledger. Generate 2-3 relevant tags."
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: receiptSchema,
-        temperature: 0.1 
-      }
+    const prompt = renderPrompt('analyzeReceipt');
+    const { result: data, hash } = await cachedFileResult(prompt, base64Data, mimeType, async () => {
+      const { value, issues } = await generateValidated(promptRequest(prompt, [
+        await filePart(redaction, base64Data, mimeType),
+        { text: prompt.text }
+      ], {
+        schema: receiptDocumentSchema,
+        input: { mimeType, data: base64Data, filename },
+        signal
+      }), receiptValidator(defaultCurrency));
+      if (!value) throw new AiOutputValidationError("Receipt answer is unusable", issues);
+      return redaction.restore(value);
     });
-
-    const data = safeJSONParse(response.text || "{}");
     return {
       ...data,
       id: crypto.randomUUID(),
       imageUrl: mimeType.startsWith('image/') ? `data:${mimeType};base64,${base64Data}` : undefined,
       source: 'Upload',
       sourceUrl: filename || 'Upload',
-      currency: data.currency || 'USD'
+      matchConfidence: 0,
+      contentHash: hash
     };
   } catch (error) {
     console.error("Receipt Analysis Error:", error);
-    throw new Error(`Failed to analyze receipt: ${filename}`);
+    throw new Error(`Failed to analyze receipt: ${filename}`, { cause: error });
+  } finally {
+    recordRedaction(redaction);
   }
 };
 
-export const analyzeReceiptBatch = async (files: File[], onProgress?: (completed: number, total: number) => void): Promise<ReceiptData[]> => {
-    const results: ReceiptData[] = [];
-    let completed = 0;
-
-    const promises = files.map(async (file) => {
-        try {
-            const buffer = await file.arrayBuffer();
-            const base64 = btoa(new Uint8Array(buffer).reduce((data, byte) => data + String.fromCharCode(byte), ''));
-            const result = await analyzeReceipt(base64, file.type, file.name);
-            completed++;
-            if (onProgress) onProgress(completed, files.length);
-            return result;
-        } catch (e) {
-            console.error(`Failed to process ${file.name}`, e);
-            completed++;
-            if (onProgress) onProgress(completed, files.length);
-            return null;
+// A document to analyze as a receipt (also the shape kept for failed files, so a retry needs no re-upload)
+export type ReceiptDocument = Pick<AiFailedFile, 'name' | 'mimeType' | 'data'>;
+
+// Runs through the shared AI queue: limited concurrency, backoff on rate limits, cancellable via the signal
+export const analyzeReceiptDocuments = async (documents: ReceiptDocument[], onProgress?: (completed: number, total: number) => void, signal?: AbortSignal): Promise<ReceiptBatchResult> => {
+    const outcomes = await aiJobQueue.runBatch(documents, (doc, jobSignal) => analyzeReceipt(doc.data, doc.mimeType, doc.name, jobSignal), { signal, onProgress });
+    const result: ReceiptBatchResult = { receipts: [], failed: [] };
+    for (const outcome of outcomes) {
+        if ('result' in outcome) {
+            result.receipts.push(outcome.result);
+            continue;
         }
-    });
+        const cancelled = outcome.error instanceof AiJobCancelledError;
+        if (!cancelled) console.error(`Failed to process ${outcome.item.name}`, outcome.error);
+        result.failed.push({ ...outcome.item, error: aiFailureMessage(outcome.error, (outcome.error as Error)?.message || 'Unknown error'), cancelled });
+    }
+    return result;
+};
 
-    const analyzed = await Promise.all(promises);
-    return analyzed.filter(r => r !== null) as ReceiptData[];
+export const analyzeReceiptBatch = async (files: File[], onProgress?: (completed: number, total: number) => void, signal?: AbortSignal): Promise<ReceiptBatchResult> => {
+    const documents: ReceiptDocument[] = [];
+    for (const file of files) {
+        const buffer = await file.arrayBuffer();
+        const base64 = btoa(new Uint8Array(buffer).reduce((data, byte) => data + String.fromCharCode(byte), ''));
+        documents.push({ name: file.name, mimeType: file.type, data: base64 });
+    }
+    return analyzeReceiptDocuments(documents, onProgress, signal);
 };
 
-export const extractReceiptsFromZip = async (zipBuffer: ArrayBuffer, zipName: string, onProgress?: (completed: number, total: number) => void): Promise<ReceiptData[]> => {
+export const extractReceiptsFromZip = async (zipBuffer: ArrayBuffer, zipName: string, onProgress?: (completed: number, total: number) => void, signal?: AbortSignal): Promise<ReceiptBatchResult> => {
+    const documents: ReceiptDocument[] = [];
     try {
         const zip = await JSZip.loadAsync(zipBuffer);
-        const imageFiles: {name: string, data: string, type: string}[] = [];
 
         // 1. Extract valid files from Zip
         for (const filename of Object.keys(zip.files)) {
@@ -494,175 +608,139 @@ export const extractReceiptsFromZip = async (zipBuffer: ArrayBuffer, zipName: st
                 else if (lowerName.endsWith('webp')) type = 'image/webp';
                 else type = 'image/jpeg';
 
-                imageFiles.push({ name: filename, data: base64, type });
+                documents.push({ name: `${zipName}/${filename}`, data: base64, mimeType: type });
             }
         }
-
-        // 2. Process extracted files
-        const results: ReceiptData[] = [];
-        let completed = 0;
-        
-        const promises = imageFiles.map(async (file) => {
-            try {
-                const result = await analyzeReceipt(file.data, file.type, `${zipName}/${file.name}`);
-                completed++;
-                if (onProgress) onProgress(completed, imageFiles.length);
-                return result;
-            } catch (e) {
-                console.error(`Failed to analyze zip entry: ${file.name}`, e);
-                completed++;
-                if (onProgress) onProgress(completed, imageFiles.length);
-                return null;
-            }
-        });
-
-        const analyzed = await Promise.all(promises);
-        return analyzed.filter(r => r !== null) as ReceiptData[];
-
     } catch (e) {
         console.error("Zip Extraction Error", e);
         throw new Error("Failed to process Zip file");
     }
+
+    // 2. Process extracted files
+    return analyzeReceiptDocuments(documents, onProgress, signal);
 };
 
 export const extractActionItems = async (textLogs: string): Promise<ActionItem[]> => {
+  const redaction = beginRedaction('extractActionItems');
   try {
-    const response = await ai.models.generateContent({
-      model: OPS_MODEL,
-      contents: `Analyze the following communication logs (Slack/Email/Notes). Extract concrete action items, assignees, and priorities. Add context tags (e.g. #Dev, #Sales).\n\nLOGS:\n${textLogs}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: actionItemSchema
-        },
-        temperature: 0.3
-      }
-    });
+    const prompt = renderPrompt('extractActionItems', { logs: textLogs });
+    const { value, issues } = await generateValidated(promptRequest(prompt, redaction.redactPrompt(prompt.text), {
+      schema: {
+        type: Type.ARRAY,
+        items: actionItemSchema
+      },
+      input: { text: textLogs }
+    }), arrayOf(actionItemValidator));
+    if (!value) throw new AiOutputValidationError("Action item answer is unusable", issues);
 
-    const items = safeJSONParse(response.text || "[]");
-    return items.map((item: any) => ({
+    return redaction.restore(value).map(item => ({
       ...item,
       id: crypto.randomUUID(),
+      source: 'Meeting',
       status: 'Pending'
     }));
   } catch (error) {
     console.error("Ops Analysis Error:", error);
-    throw new Error("Failed to extract action items.");
+    throw new Error("Failed to extract action items.", { cause: error });
+  } finally {
+    recordRedaction(redaction);
   }
 };
 
 export const extractActionItemsFromFile = async (base64Data: string, mimeType: string): Promise<ActionItem[]> => {
+  const redaction = beginRedaction('extractActionItemsFromFile');
   try {
-    const response = await ai.models.generateContent({
-      model: OPS_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Data
-            }
-          },
-          {
-            text: "Analyze this document (meeting notes, spec sheet, or logs). Extract concrete action items, assignees, priorities, and tags."
-          }
-        ]
+    const prompt = renderPrompt('extractActionItemsFromFile');
+    const { value, issues } = await generateValidated(promptRequest(prompt, [
+      await filePart(redaction, base64Data, mimeType),
+      { text: prompt.text }
+    ], {
+      schema: {
+        type: Type.ARRAY,
+        items: actionItemSchema
       },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.ARRAY,
-            items: actionItemSchema
-        },
-        temperature: 0.3
-      }
-    });
+      input: { mimeType, data: base64Data }
+    }), arrayOf(actionItemValidator));
+    if (!value) throw new AiOutputValidationError("Action item answer is unusable", issues);
 
-    const items = safeJSONParse(response.text || "[]");
-    return items.map((item: any) => ({
+    return redaction.restore(value).map(item => ({
       ...item,
       id: crypto.randomUUID(),
+      source: 'File',
       status: 'Pending'
     }));
   } catch (error) {
     console.error("Ops File Analysis Error:", error);
-    throw new Error("Failed to extract action items from file.");
+    throw new Error("Failed to extract action items from file.", { cause: error });
+  } finally {
+    recordRedaction(redaction);
   }
 };
 
 export const parseTimesheet = async (data: string | object, mimeType: string): Promise<TimesheetEntry[]> => {
+    const redaction = beginRedaction('parseTimesheet');
     try {
-        const contents = (typeof data === 'object' || mimeType === 'application/json')
-            ? `Normalize this raw timesheet data into a standard JSON format. Raw Data: ${JSON.stringify(data)}`
-            : {
-                parts: [
-                    { inlineData: { mimeType, data: data as string } },
-                    { text: "Parse this timesheet image/pdf. Extract row-by-row entries including Date, Employee, Project, Task, Hours. Normalize date to YYYY-MM-DD." }
-                ]
-            };
-
-        const response = await ai.models.generateContent({
-            model: OPS_MODEL,
-            contents: contents,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: { type: Type.ARRAY, items: timesheetEntrySchema },
-                temperature: 0.1
-            }
-        });
-        const parsed = safeJSONParse(response.text || "[]");
-        return parsed.map((e: any) => ({ ...e, id: crypto.randomUUID() }));
+        const isStructured = typeof data === 'object' || mimeType === 'application/json';
+        const prompt = isStructured ? renderPrompt('parseTimesheetData', { data: JSON.stringify(data) }) : renderPrompt('parseTimesheetFile');
+        const contents = isStructured
+            ? redaction.redactPrompt(prompt.text)
+            : [
+                await filePart(redaction, data as string, mimeType),
+                { text: prompt.text }
+            ];
+
+        const { value, issues } = await generateValidated(promptRequest(prompt, contents, {
+            schema: { type: Type.ARRAY, items: timesheetEntrySchema },
+            input: { data, mimeType }
+        }), arrayOf(timesheetEntryValidator));
+        if (!value) throw new AiOutputValidationError("Timesheet answer is unusable", issues);
+        return redaction.restore(value).map(e => ({ ...e, id: crypto.randomUUID() }));
     } catch (e) {
         console.error("Timesheet Parsing Error", e);
-        throw new Error("Failed to parse timesheet");
+        throw new Error("Failed to parse timesheet", { cause: e });
+    } finally {
+        recordRedaction(redaction);
     }
 };
 
 export const analyzeContract = async (base64Data: string, mimeType: string): Promise<Omit<ContractData, 'id' | 'category' | 'name'>> => {
+    const redaction = beginRedaction('analyzeContract');
     try {
-        const response = await ai.models.generateContent({
-            model: CONTRACT_MODEL,
-            contents: {
-                parts: [
-                    { inlineData: { mimeType, data: base64Data } },
-                    { text: "Analyze this contract (image or pdf). Extract a summary, key constraints/deadlines, expiration date, and involved parties. Return structured JSON." }
-                ]
-            },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: contractAnalysisSchema,
-                temperature: 0.1
-            }
+        const prompt = renderPrompt('analyzeContract');
+        const { result: parsed, hash } = await cachedFileResult(prompt, base64Data, mimeType, async () => {
+            const { value, issues } = await generateValidated(promptRequest(prompt, [
+                await filePart(redaction, base64Data, mimeType),
+                { text: prompt.text }
+            ], {
+                schema: contractAnalysisSchema,
+                input: { mimeType, data: base64Data }
+            }), contractValidator);
+            if (!value) throw new AiOutputValidationError("Contract answer is unusable", issues);
+            return redaction.restore(value);
         });
-        const parsed = safeJSONParse(response.text || "{}");
         return {
-            summary: parsed.summary || "",
-            keyConstraints: parsed.keyConstraints || [],
-            expirationDate: parsed.expirationDate,
-            parties: parsed.parties || [],
+            ...parsed,
             uploadDate: new Date().toISOString(),
-            sourceUrl: ""
+            sourceUrl: "",
+            contentHash: hash
         };
     } catch (e) {
         console.error("Contract Analysis Error", e);
-        throw new Error("Failed to analyze contract");
+        throw new Error("Failed to analyze contract", { cause: e });
+    } finally {
+        recordRedaction(redaction);
     }
 };
 
 export const queryTimesheetData = async (entries: TimesheetEntry[], query: string): Promise<string> => {
-     const prompt = `
-        You are a timesheet analyst. Answer the user query based on the following data:
-        ${JSON.stringify(entries.slice(0, 500))} 
-        
-        Query: ${query}
-        Provide a concise, formatted summary.
-    `;
-    const response = await ai.models.generateContent({
-        model: OPS_MODEL,
-        contents: prompt
-    });
-    return response.text || "No data.";
+    const redaction = beginRedaction('queryTimesheetData');
+    const prompt = renderPrompt('queryTimesheetData', { entries: JSON.stringify(entries.slice(0, 500)), query });
+    try {
+        const text = await generate(promptRequest(prompt, redaction.redactPrompt(prompt.text), { input: { entries, query } }));
+        return redaction.restore(text || "No data.");
+    } finally {
+        recordRedaction(redaction);
+    }
 };
 
 export const queryContractData = async (contracts: ContractData[], query: string): Promise<string> => {
@@ -670,56 +748,33 @@ export const queryContractData = async (contracts: ContractData[], query: string
         `[Contract: ${c.name} (${c.category})] Expiration: ${c.expirationDate || 'N/A'}. Constraints: ${c.keyConstraints.join(', ')}. Summary: ${c.summary}`
     ).join('\n\n');
 
-    const prompt = `
-        You are a legal assistant. Answer the user query based on the contracts in your database.
-        
-        CONTRACTS DB:
-        ${context}
-        
-        USER QUERY: ${query}
-        
-        Answer clearly and reference specific contracts if applicable.
-    `;
-    const response = await ai.models.generateContent({
-        model: CONTRACT_MODEL,
-        contents: prompt
-    });
-    return response.text || "Unable to answer.";
+    const redaction = beginRedaction('queryContractData');
+    const prompt = renderPrompt('queryContractData', { contracts: context, query });
+    try {
+        const text = await generate(promptRequest(prompt, redaction.redactPrompt(prompt.text), { input: { contracts, query } }));
+        return redaction.restore(text || "Unable to answer.");
+    } finally {
+        recordRedaction(redaction);
+    }
 };
 
 export const generateDailyBriefing = async (receipts: ReceiptData[], tasks: ActionItem[]): Promise<string> => {
+  const redaction = beginRedaction('generateDailyBriefing');
   try {
     const receiptSummary = receipts.map(r => `${r.vendor}: ${r.amount} ${r.currency} (${r.category})`).join("\n");
     const taskSummary = tasks.filter(t => t.status === 'Pending').map(t => `[${t.priority}] ${t.task} (@${t.assignee}) #${t.tags?.join(' #')}`).join("\n");
 
-    const prompt = `
-      You are FounderOS, an intelligent business brain. 
-      Generate a concise, professional "Start-of-Day" executive briefing in Markdown.
-      
-      Recent Financials:
-      ${receiptSummary || "No recent receipts."}
-
-      Pending Action Items:
-      ${taskSummary || "No pending tasks."}
-
-      Structure the response with:
-      1. 🌞 **Morning Vibe Check**: One sentence summary of current status.
-      2. 🚨 **Urgent Attention**: High priority tasks or large expenses.
-      3. 💼 **Financial Snapshot**: Brief comment on spending.
-      4. ✅ **Recommended Focus**: What to do first.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: BRIEFING_MODEL,
-      contents: prompt,
-      config: {
-        temperature: 0.7
-      }
+    const prompt = renderPrompt('generateDailyBriefing', {
+      receipts: receiptSummary || "No recent receipts.",
+      tasks: taskSummary || "No pending tasks."
     });
+    const text = await generate(promptRequest(prompt, redaction.redactPrompt(prompt.text), { input: { receipts, tasks } }));
 
-    return response.text || "Unable to generate briefing.";
+    return redaction.restore(text || "Unable to generate briefing.");
   } catch (error) {
     console.error("Briefing Error:", error);
-    return "Failed to generate briefing due to an API error.";
+    return aiFailureMessage(error, "Failed to generate briefing due to an API error.");
+  } finally {
+    recordRedaction(redaction);
   }
 };
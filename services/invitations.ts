@@ -0,0 +1,48 @@
+import { Invitation } from "../types";
+
+// Invitation links carry a random token; only its SHA-256 is stored (as the invitation's ID), so the link can't be
+// reconstructed from the database and a leaked invitation list can't be redeemed
+export const INVITE_TTL_DAYS = 7;
+export const INVITE_QUERY_PARAM = 'invite';
+
+export class InvitationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvitationError';
+    }
+}
+
+// 256-bit token, base64url
+export const generateInviteToken = (): string =>
+    btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32)))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const hashInviteToken = async (token: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const inviteLink = (token: string): string =>
+    `${window.location.origin}${window.location.pathname}?${INVITE_QUERY_PARAM}=${encodeURIComponent(token)}`;
+
+export const inviteTokenFromUrl = (): string | null => new URLSearchParams(window.location.search).get(INVITE_QUERY_PARAM);
+
+export const clearInviteTokenFromUrl = () => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete(INVITE_QUERY_PARAM);
+    window.history.replaceState(null, '', url.toString());
+};
+
+export const isInvitationExpired = (invitation: Invitation, now = Date.now()): boolean => now >= invitation.expiresAt;
+
+// Why an invitation can't be redeemed, or null if it can
+export const invitationProblem = (invitation: Invitation | null, now = Date.now()): string | null => {
+    if (!invitation) return "This invitation link is invalid.";
+    if (invitation.status === 'Accepted') return "This invitation has already been used.";
+    if (invitation.status === 'Revoked') return "This invitation was revoked. Ask your admin for a new one.";
+    if (isInvitationExpired(invitation, now)) return "This invitation has expired. Ask your admin to resend it.";
+    return null;
+};
+
+export const inviteMailto = (invitation: Invitation, link: string): string =>
+    `mailto:${encodeURIComponent(invitation.email)}?subject=${encodeURIComponent(`Join ${invitation.organizationName || 'our workspace'} on FounderOS`)}` +
+    `&body=${encodeURIComponent(`Hi ${invitation.name},\n\nYou have been invited to join ${invitation.organizationName || 'our organization'} as ${invitation.role}.\nCreate your account here (valid for ${INVITE_TTL_DAYS} days):\n\n${link}\n`)}`;
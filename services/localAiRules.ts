@@ -0,0 +1,227 @@
+import { Type } from "@google/genai";
+import type { AiRequest } from "./aiProviders";
+
+// Deterministic answers of the LOCAL AI provider, one rule per extractor in geminiService. They read the request's
+// structured input and return the same JSON shape the model would, so the app stays usable (and testable) offline.
+// Scanned images and PDFs can't be read without a model: they come back as placeholders flagged for review.
+
+const OFFLINE_TAG = '#NeedsReview';
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'SEK', 'CAD', 'AUD'];
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', 'kr': 'SEK' };
+
+const decodeText = (base64: string): string => new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+
+const isTextFile = (mimeType: string) => mimeType.startsWith('text/') || mimeType === 'application/csv';
+
+// "1 234,50" and "1,234.50" both become 1234.5
+const parseAmount = (raw: string): number => {
+    const compact = raw.replace(/[\s ]/g, '');
+    const normalized = /,\d{1,2}$/.test(compact) ? compact.replace(/\./g, '').replace(',', '.') : compact.replace(/,/g, '');
+    const value = parseFloat(normalized);
+    return isNaN(value) ? 0 : value;
+};
+
+const findDate = (text: string): string | undefined => text.match(/\b(\d{4}-\d{2}-\d{2})/)?.[1];
+
+const findAmount = (text: string): number | undefined => {
+    const match = text.match(/(?:total|amount|summa|belopp|att betala)[^\d\n-]*(-?\d[\d\s.,]*\d|\d)/i);
+    return match ? parseAmount(match[1]) : undefined;
+};
+
+const findCurrency = (text: string): string | undefined => {
+    const code = CURRENCIES.find(c => new RegExp(`\\b${c}\\b`).test(text));
+    if (code) return code;
+    return Object.entries(CURRENCY_SYMBOLS).find(([symbol]) => text.includes(symbol))?.[1];
+};
+
+const field = (text: string, label: string): string | undefined =>
+    text.match(new RegExp(`^\\s*${label}:\\s*(.+)$`, 'im'))?.[1].trim();
+
+const hashtags = (text: string): string[] => Array.from(new Set(text.match(/#\w+/g) || []));
+
+const priorityOf = (text: string): 'High' | 'Medium' | 'Low' =>
+    /\b(urgent|asap|immediately|critical|today)\b/i.test(text) ? 'High' : /\b(eventually|someday|nice to have|low priority)\b/i.test(text) ? 'Low' : 'Medium';
+
+const daysBetween = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+
+const parseCsv = (text: string): Record<string, string>[] => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length < 2) return [];
+    const delimiter = lines[0].split(';').length > lines[0].split(',').length ? ';' : ',';
+    const split = (line: string) => line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const headers = split(lines[0]).map(h => h.toLowerCase());
+    return lines.slice(1).map(line => Object.fromEntries(split(line).map((cell, i) => [headers[i] || `col${i}`, cell])));
+};
+
+// First value whose (lowercased) key is one of the aliases
+const pick = (row: Record<string, any>, aliases: string[]): any => {
+    const key = Object.keys(row).find(k => aliases.includes(k.toLowerCase()));
+    return key ? row[key] : undefined;
+};
+
+// --- TEXT EXTRACTION ---
+
+const receiptFromText = (text: string, fallbackVendor = 'Unknown vendor') => {
+    const vendor = field(text, 'Vendor') || field(text, 'From')?.split('@')[1]?.split('.')[0] || fallbackVendor;
+    return {
+        vendor,
+        amount: findAmount(text) ?? 0,
+        currency: findCurrency(text),
+        date: findDate(text) || new Date().toISOString().split('T')[0],
+        category: 'Uncategorized',
+        description: field(text, 'Subject') || `Purchase from ${vendor}`,
+        taxDeductible: /tax deductible:\s*yes/i.test(text),
+        tags: hashtags(text).length ? hashtags(text) : ['#Inbox']
+    };
+};
+
+const actionItemsFromText = (text: string) => text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => /^(?:[-*•]\s*)?(?:\[ \]|todo\b|action\b|ai:)/i.test(line) || /\b(please|need to|must|follow up|make sure)\b/i.test(line))
+    .map(line => ({
+        task: line.replace(/^(?:[-*•]\s*)?(?:\[ \]\s*|todo:?\s*|action:?\s*|ai:\s*)/i, ''),
+        assignee: line.match(/@(\w+)/)?.[1] || line.match(/^(?:[-*•]\s*)?([A-Z][a-z]+) (?:will|to|should)\b/)?.[1],
+        deadline: findDate(line),
+        priority: priorityOf(line),
+        tags: hashtags(line)
+    }));
+
+const eventFromText = (text: string) => {
+    const startTime = field(text, 'Time') || field(text, 'When');
+    if (!startTime) return null;
+    const title = field(text, 'Subject') || 'Meeting';
+    return {
+        title,
+        startTime,
+        location: field(text, 'Location'),
+        type: /flight|boarding/i.test(text) ? 'Flight' : /hotel|check-in/i.test(text) ? 'Hotel' : /remind/i.test(text) ? 'Reminder' : 'Meeting',
+        description: field(text, 'Body')
+    };
+};
+
+// --- RULES PER EXTRACTOR ---
+
+const RULES: Record<string, (input: any) => unknown> = {
+    // Empty structure: analyzeInvoiceTemplate falls back to its default field layout
+    analyzeInvoiceTemplate: () => ({}),
+
+    suggestMatches: ({ transactions, receipts }: { transactions: any[]; receipts: any[] }) => {
+        const used = new Set<string>();
+        return transactions.flatMap(tx => {
+            const candidates = receipts
+                .filter(r => !used.has(r.id) && r.amt && r.date && tx.date)
+                .map(r => {
+                    const amountDiff = Math.abs(Math.abs(tx.amt) - Math.abs(r.amt)) / Math.abs(r.amt);
+                    const days = daysBetween(tx.date, r.date);
+                    return { r, amountDiff, days, confidence: Math.round((1 - amountDiff * 4 - days / 50) * 100) / 100 };
+                })
+                .filter(c => c.amountDiff <= 0.05 && c.days <= 10 && c.confidence > 0.7)
+                .sort((a, b) => b.confidence - a.confidence);
+            if (!candidates.length) return [];
+            const best = candidates[0];
+            used.add(best.r.id);
+            return [{ transactionId: tx.id, receiptId: best.r.id, confidence: best.confidence, reasoning: `Amount within ${(best.amountDiff * 100).toFixed(1)}%, ${Math.round(best.days)} day(s) apart` }];
+        });
+    },
+
+    parseBankStatement: ({ mimeType, data }: { mimeType: string; data: string }) => {
+        if (!isTextFile(mimeType)) return [];
+        return parseCsv(decodeText(data)).map(row => ({
+            date: pick(row, ['date', 'datum', 'bokföringsdag', 'transaction date']),
+            description: pick(row, ['description', 'text', 'beskrivning', 'rubrik', 'details']) || '',
+            amount: parseAmount(String(pick(row, ['amount', 'belopp', 'value']) ?? '0')),
+            currency: pick(row, ['currency', 'valuta'])
+        })).filter(row => row.date);
+    },
+
+    analyzeInbox: ({ emails }: { emails: string[] }) => ({
+        receipts: emails.filter(email => findAmount(email) !== undefined).map(email => receiptFromText(email)),
+        tasks: emails.flatMap(actionItemsFromText),
+        events: emails.map(eventFromText).filter(Boolean)
+    }),
+
+    analyzeReceipt: ({ mimeType, data, filename }: { mimeType: string; data: string; filename?: string }) => {
+        const name = (filename || 'Upload').split('/').pop()!.replace(/\.[^.]+$/, '');
+        if (isTextFile(mimeType)) return receiptFromText(decodeText(data), name);
+        return {
+            vendor: name,
+            amount: 0,
+            date: findDate(name) || new Date().toISOString().split('T')[0],
+            category: 'Uncategorized',
+            description: `${name} (not analyzed: offline AI provider)`,
+            tags: [OFFLINE_TAG]
+        };
+    },
+
+    extractActionItems: ({ text }: { text: string }) => actionItemsFromText(text),
+
+    extractActionItemsFromFile: ({ mimeType, data }: { mimeType: string; data: string }) =>
+        isTextFile(mimeType) ? actionItemsFromText(decodeText(data)) : [],
+
+    parseTimesheet: ({ data, mimeType }: { data: any; mimeType: string }) => {
+        const rows: any[] = typeof data === 'object'
+            ? (Array.isArray(data) ? data : data.entries || data.rows || data.data || [])
+            : isTextFile(mimeType) ? parseCsv(decodeText(data)) : [];
+        return rows.filter(row => row && typeof row === 'object').map(row => ({
+            date: pick(row, ['date', 'day', 'datum']),
+            employee: pick(row, ['employee', 'name', 'user', 'person', 'namn']),
+            project: pick(row, ['project', 'projekt', 'client']),
+            task: pick(row, ['task', 'description', 'activity', 'aktivitet']),
+            hours: parseAmount(String(pick(row, ['hours', 'duration', 'time', 'timmar']) ?? '0'))
+        })).filter(entry => entry.date && entry.hours);
+    },
+
+    analyzeContract: ({ mimeType, data }: { mimeType: string; data: string }) => {
+        if (!isTextFile(mimeType)) {
+            return { summary: 'Not analyzed: the offline AI provider cannot read scanned documents.', keyConstraints: [], parties: [] };
+        }
+        const text = decodeText(data);
+        const parties = text.match(/between\s+(.+?)\s+and\s+(.+?)(?:[,.(\n]|$)/i);
+        return {
+            summary: text.split(/(?<=\.)\s/)[0].slice(0, 300),
+            keyConstraints: text.split(/(?<=\.)\s/).filter(s => /\b(shall|must|notice|terminat|penalt)/i.test(s)).slice(0, 10),
+            expirationDate: text.match(/(?:expir\w*|until|ends?)\D{0,20}(\d{4}-\d{2}-\d{2})/i)?.[1],
+            parties: parties ? [parties[1], parties[2]] : []
+        };
+    },
+
+    queryTimesheetData: ({ entries, query }: { entries: any[]; query: string }) => {
+        const total = entries.reduce((sum, e) => sum + (Number(e.hours) || 0), 0);
+        const by = (key: string) => Object.entries(entries.reduce<Record<string, number>>((acc, e) => {
+            acc[e[key] || 'Unassigned'] = (acc[e[key] || 'Unassigned'] || 0) + (Number(e.hours) || 0);
+            return acc;
+        }, {})).sort((a, b) => b[1] - a[1]).map(([name, hours]) => `- ${name}: ${hours.toFixed(1)} h`).join('\n');
+        return `**Offline summary** for "${query}" (${entries.length} entries, ${total.toFixed(1)} h total)\n\n**By employee**\n${by('employee')}\n\n**By project**\n${by('project')}`;
+    },
+
+    queryContractData: ({ contracts, query }: { contracts: any[]; query: string }) => {
+        const words = query.toLowerCase().split(/\W+/).filter(w => w.length > 3);
+        const text = (c: any) => `${c.name} ${c.category} ${c.summary} ${(c.keyConstraints || []).join(' ')}`.toLowerCase();
+        const matches = contracts.filter(c => words.length === 0 || words.some(w => text(c).includes(w)));
+        if (!matches.length) return `No contracts match "${query}" (offline keyword search).`;
+        const sorted = /expir|renew|end/i.test(query)
+            ? [...matches].sort((a, b) => (a.expirationDate || '9999').localeCompare(b.expirationDate || '9999'))
+            : matches;
+        return `**Offline keyword search** for "${query}":\n\n` + sorted.map(c => `- **${c.name}** (${c.category}), expires ${c.expirationDate || 'N/A'}: ${c.summary}`).join('\n');
+    },
+
+    generateDailyBriefing: ({ receipts, tasks }: { receipts: any[]; tasks: any[] }) => {
+        const pending = tasks.filter(t => t.status === 'Pending');
+        const urgent = pending.filter(t => t.priority === 'High');
+        const largest = [...receipts].sort((a, b) => (b.amount || 0) - (a.amount || 0)).slice(0, 3);
+        const spend = receipts.reduce((sum, r) => sum + (Number(r.amount) || 0), 0);
+        return [
+            `1. 🌞 **Morning Vibe Check**: ${pending.length} open task(s), ${urgent.length} of them high priority.`,
+            `2. 🚨 **Urgent Attention**: ${urgent.length ? urgent.map(t => t.task).slice(0, 5).join('; ') : 'Nothing urgent.'}`,
+            `3. 💼 **Financial Snapshot**: ${receipts.length} receipt(s) totalling ${spend.toFixed(2)}. Largest: ${largest.map(r => `${r.vendor} ${r.amount} ${r.currency || ''}`.trim()).join(', ') || 'none'}.`,
+            `4. ✅ **Recommended Focus**: ${(urgent[0] || pending[0])?.task || 'Review your inbox and plan the week.'}`
+        ].join('\n\n');
+    }
+};
+
+export const localAnswer = (request: AiRequest): string => {
+    const rule = RULES[request.operation];
+    if (!rule) return request.schema ? (request.schema.type === Type.ARRAY ? '[]' : '{}') : 'The offline AI provider has no answer for this request.';
+    const answer = rule(request.input ?? {});
+    return typeof answer === 'string' ? answer : JSON.stringify(answer);
+};
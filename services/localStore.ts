@@ -0,0 +1,94 @@
+// Minimal IndexedDB wrapper used as the offline cache and durable write queue,
+// and as the only store of settings and activity for orgs that keep their data local.
+// Falls back to an in-memory map where IndexedDB is unavailable (private browsing, tests).
+
+const DB_NAME = 'founder_os_local';
+const DB_VERSION = 3;
+
+export const LOCAL_STORES = {
+    MODULES: 'modules',
+    SYNC_QUEUE: 'syncQueue',
+    AI_CACHE: 'aiCache',
+    SETTINGS: 'settings',
+    ACTIVITY: 'activity'
+} as const;
+
+export type LocalStoreName = typeof LOCAL_STORES[keyof typeof LOCAL_STORES];
+
+class LocalStore {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private memory: Map<string, Map<string, any>> = new Map();
+
+    private get hasIndexedDB(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    Object.values(LOCAL_STORES).forEach(name => {
+                        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+                    });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private async run<T>(store: LocalStoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(store, mode);
+            const request = action(tx.objectStore(store));
+            tx.oncomplete = () => resolve(request.result as T);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    private memoryStore(store: LocalStoreName): Map<string, any> {
+        if (!this.memory.has(store)) this.memory.set(store, new Map());
+        return this.memory.get(store)!;
+    }
+
+    async get<T>(store: LocalStoreName, id: string): Promise<T | undefined> {
+        if (!this.hasIndexedDB) return this.memoryStore(store).get(id);
+        return this.run<T | undefined>(store, 'readonly', s => s.get(id));
+    }
+
+    async getAll<T>(store: LocalStoreName): Promise<T[]> {
+        if (!this.hasIndexedDB) return Array.from(this.memoryStore(store).values());
+        return this.run<T[]>(store, 'readonly', s => s.getAll());
+    }
+
+    async put<T extends { id: string }>(store: LocalStoreName, value: T): Promise<void> {
+        if (!this.hasIndexedDB) {
+            this.memoryStore(store).set(value.id, value);
+            return;
+        }
+        await this.run(store, 'readwrite', s => s.put(value));
+    }
+
+    async delete(store: LocalStoreName, id: string): Promise<void> {
+        if (!this.hasIndexedDB) {
+            this.memoryStore(store).delete(id);
+            return;
+        }
+        await this.run(store, 'readwrite', s => s.delete(id));
+    }
+
+    async clear(store: LocalStoreName): Promise<void> {
+        if (!this.hasIndexedDB) {
+            this.memoryStore(store).clear();
+            return;
+        }
+        await this.run(store, 'readwrite', s => s.clear());
+    }
+}
+
+export const localStore = new LocalStore();
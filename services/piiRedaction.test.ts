@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { PII_CATEGORIES, RedactionContext } from './piiRedaction';
+import { PiiCategory } from '../types';
+
+const context = (categories: PiiCategory[] = PII_CATEGORIES.map(c => c.id)) => new RedactionContext('test', categories);
+const redact = (text: string) => context().redact(text);
+
+describe('personnummer', () => {
+    it('masks valid numbers in short and long form', () => {
+        expect(redact('Anställd 811218-9876')).toBe('Anställd [PNR_1]');
+        expect(redact('19811218-9876')).toBe('[PNR_1]');
+        expect(redact('198112189876')).toBe('[PNR_1]');
+        expect(redact('Över 100: 121212+1212')).toBe('Över 100: [PNR_1]');
+    });
+
+    it('masks samordningsnummer (day + 60)', () => {
+        expect(redact('701063-2391')).toBe('[PNR_1]');
+    });
+
+    it('masks numbers inside CSV fields', () => {
+        expect(redact('Anna,811218-9876,Stockholm')).toBe('Anna,[PNR_1],Stockholm');
+    });
+
+    it('keeps numbers with a wrong check digit or date', () => {
+        expect(redact('811218-9877')).toBe('811218-9877');
+        expect(redact('811318-9876')).toBe('811318-9876');
+        expect(redact('811200-9876')).toBe('811200-9876');
+    });
+});
+
+describe('IBAN', () => {
+    it('masks valid IBANs, compact and grouped', () => {
+        expect(redact('Pay to SE45 5000 0000 0583 9825 7466')).toBe('Pay to [IBAN_1]');
+        expect(redact('GB82WEST12345698765432')).toBe('[IBAN_1]');
+    });
+
+    it('leaves a following short word out of the match', () => {
+        expect(redact('GB82 WEST 1234 5698 7654 32 BIC')).toBe('[IBAN_1] BIC');
+    });
+
+    it('keeps IBANs failing mod-97', () => {
+        expect(redact('SE45 5000 0000 0583 9825 7467')).toBe('SE45 5000 0000 0583 9825 7467');
+    });
+});
+
+describe('card numbers', () => {
+    it('masks numbers passing Luhn', () => {
+        expect(redact('Visa 4111 1111 1111 1111')).toBe('Visa [CARD_1]');
+        expect(redact('5500-0000-0000-0004')).toBe('[CARD_1]');
+    });
+
+    it('keeps numbers failing Luhn', () => {
+        expect(redact('4111 1111 1111 1112')).toBe('4111 1111 1111 1112');
+    });
+});
+
+describe('email', () => {
+    it('masks addresses', () => {
+        expect(redact('Contact anna.svensson+ap@example.co.uk today')).toBe('Contact [EMAIL_1] today');
+    });
+});
+
+describe('phone', () => {
+    it('masks Swedish and international numbers', () => {
+        expect(redact('Ring 070-123 45 67')).toBe('Ring [PHONE_1]');
+        expect(redact('Tel 08-123 456 78')).toBe('Tel [PHONE_1]');
+        expect(redact('+46 70 123 45 67')).toBe('[PHONE_1]');
+        expect(redact('+44 (0)20 7946 0958')).toBe('[PHONE_1]');
+    });
+
+    it('keeps numbers too short to be a phone number', () => {
+        expect(redact('Box 0123')).toBe('Box 0123');
+    });
+});
+
+describe('false positives', () => {
+    it('keeps order and invoice numbers', () => {
+        expect(redact('Order #100234, invoice 2024-0042')).toBe('Order #100234, invoice 2024-0042');
+        // Ten digits that would pass as a personnummer without the separator
+        expect(redact('Order 8112189876')).toBe('Order 8112189876');
+        // Passes Luhn but no card network issues numbers starting with 1
+        expect(redact('Order 1000000000000008')).toBe('Order 1000000000000008');
+    });
+
+    it('keeps dates', () => {
+        const text = 'Dated 2024-05-06 10:30, due 05-06-2024 or 06.05.2024';
+        expect(redact(text)).toBe(text);
+    });
+
+    it('keeps 10-digit amounts that pass Luhn', () => {
+        expect(redact('Total 8112189876 kr')).toBe('Total 8112189876 kr');
+        expect(redact('Total 8112189876.00')).toBe('Total 8112189876.00');
+        expect(redact('Amount 12 345 678,00 SEK')).toBe('Amount 12 345 678,00 SEK');
+    });
+});
+
+describe('RedactionContext', () => {
+    it('gives the same value the same placeholder and restores the originals', () => {
+        const ctx = context();
+        const masked = ctx.redact('anna@example.se and 811218-9876, again anna@example.se, bob@example.se');
+        expect(masked).toBe('[EMAIL_1] and [PNR_1], again [EMAIL_1], [EMAIL_2]');
+        expect(ctx.restore({ to: '[EMAIL_2]', lines: ['[PNR_1]', '[CARD_9]'], total: 5 }))
+            .toEqual({ to: 'bob@example.se', lines: ['811218-9876', '[CARD_9]'], total: 5 });
+        expect(ctx.toLogEntry().counts).toEqual({ email: 2, personnummer: 1 });
+    });
+
+    it('masks strings anywhere in structured payloads', () => {
+        const ctx = context();
+        expect(ctx.redactValue({ rows: [{ email: 'anna@example.se', hours: 8 }], note: null }))
+            .toEqual({ rows: [{ email: '[EMAIL_1]', hours: 8 }], note: null });
+    });
+
+    it('only masks the enabled categories', () => {
+        expect(context(['email']).redact('anna@example.se 811218-9876')).toBe('[EMAIL_1] 811218-9876');
+        const disabled = context([]);
+        expect(disabled.enabled).toBe(false);
+        expect(disabled.redactPrompt('anna@example.se')).toBe('anna@example.se');
+    });
+
+    it('adds the placeholder note only when something was masked', () => {
+        const ctx = context();
+        expect(ctx.redactPrompt('Nothing personal')).toBe('Nothing personal');
+        expect(ctx.redactPrompt('Mail anna@example.se')).toMatch(/^Mail \[EMAIL_1\]\n\nNote: /);
+    });
+
+    it('returns values unchanged when nothing was masked', () => {
+        const answer = { text: '[EMAIL_1]' };
+        expect(context().restore(answer)).toBe(answer);
+    });
+});
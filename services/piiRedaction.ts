@@ -0,0 +1,240 @@
+import { PiiCategory, PiiRedactionSettings, RedactionLogEntry } from "../types";
+
+// Personal data is replaced by placeholders like [EMAIL_1] before a prompt leaves the browser and put back into
+// what the model returns. Text files are decoded and masked the same way. Images and PDFs can't be masked:
+// while redaction is on they are only sent once the user agreed, and are counted in the log.
+export const PII_CATEGORIES: { id: PiiCategory; label: string }[] = [
+    { id: 'personnummer', label: 'Personnummer' },
+    { id: 'iban', label: 'IBAN' },
+    { id: 'card', label: 'Card numbers' },
+    { id: 'email', label: 'Email addresses' },
+    { id: 'phone', label: 'Phone numbers' }
+];
+
+export const DEFAULT_PII_REDACTION: PiiRedactionSettings = {
+    enabled: true,
+    categories: PII_CATEGORIES.map(c => c.id)
+};
+
+const REDACTION_LOG_KEY = 'founder_os_redaction_log';
+const REDACTION_LOG_LIMIT = 200;
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+const passesLuhn = (digits: string): boolean => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+// YYMMDD-NNNC or YYYYMMDD[-]NNNC, Luhn over the last ten digits; day + 60 is a samordningsnummer
+const isPersonnummer = (match: string): boolean => {
+    const digits = onlyDigits(match).slice(-10);
+    const month = Number(digits.slice(2, 4));
+    const day = Number(digits.slice(4, 6));
+    return month >= 1 && month <= 12 && ((day >= 1 && day <= 31) || (day >= 61 && day <= 91)) && passesLuhn(digits);
+};
+
+// DD-MM-YYYY / MM-DD-YYYY, which the phone pattern would otherwise take for a number starting with 0
+const isDate = (match: string): boolean => {
+    const parts = /^(\d{2})-(\d{2})-(?:19|20)\d{2}$/.exec(match);
+    return !!parts && Number(parts[1]) <= 31 && Number(parts[2]) <= 31;
+};
+
+// ISO 13616 mod-97 check
+const isIban = (match: string): boolean => {
+    const compact = match.replace(/\s/g, '');
+    const rearranged = compact.slice(4) + compact.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+        const value = /\d/.test(char) ? char : (char.charCodeAt(0) - 55).toString();
+        for (const digit of value) remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+    return compact.length >= 15 && remainder === 1;
+};
+
+// Part of a match to mask, or null if it isn't the kind of value it looks like
+type Detector = { token: string; pattern: RegExp; accept: (match: string) => string | null };
+
+// Applied in this order: emails and account numbers first so the broad phone pattern can't split them
+const DETECTORS: Record<PiiCategory, Detector> = {
+    email: {
+        token: 'EMAIL',
+        pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+        accept: match => match
+    },
+    iban: {
+        token: 'IBAN',
+        pattern: /\b[A-Z]{2}\d{2}(?:[A-Z0-9]{11,30}|(?: [A-Z0-9]{4}){2,7}(?: [A-Z0-9]{1,3})?)\b/g,
+        // A trailing short group may be the next word (e.g. "BIC")
+        accept: match => isIban(match) ? match : isIban(match.replace(/ [A-Z0-9]{1,3}$/, '')) ? match.replace(/ [A-Z0-9]{1,3}$/, '') : null
+    },
+    personnummer: {
+        token: 'PNR',
+        // Ten bare digits are as likely an amount, order or OCR number, so the short form needs its separator
+        pattern: /(?<!\d)(?:(?:19|20)\d{6}[-+]?|\d{6}[-+])\d{4}(?!\d)/g,
+        accept: match => isPersonnummer(match) ? match : null
+    },
+    card: {
+        token: 'CARD',
+        // Payment card networks issue numbers starting with 2-6
+        pattern: /(?<!\d)[2-6](?:[ -]?\d){12,18}(?!\d)/g,
+        accept: match => passesLuhn(onlyDigits(match)) ? match : null
+    },
+    phone: {
+        token: 'PHONE',
+        pattern: /(?<![\w+])(?:\+\d{1,3}[ -]?|0)(?:\(0\))?\d{1,4}(?:[ -]?\d{2,4}){2,4}(?!\w)/g,
+        accept: match => onlyDigits(match).length >= 8 && onlyDigits(match).length <= 15 && !isDate(match) ? match : null
+    }
+};
+
+const DETECTION_ORDER: PiiCategory[] = ['email', 'iban', 'personnummer', 'card', 'phone'];
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|IBAN|PNR|CARD|PHONE)_\d+\]/g;
+
+const PLACEHOLDER_NOTE = "\n\nNote: values such as [EMAIL_1] or [PNR_1] are placeholders for redacted personal data. Copy them verbatim wherever the value belongs in your answer.";
+
+let activeSettings: PiiRedactionSettings = DEFAULT_PII_REDACTION;
+
+// Follows the org's settings (called by the App when they load or change)
+export const configurePiiRedaction = (settings?: PiiRedactionSettings) => {
+    activeSettings = settings || DEFAULT_PII_REDACTION;
+};
+
+// Placeholders of one AI call; the same value always gets the same placeholder so the model can relate them
+export class RedactionContext {
+    private originals = new Map<string, string>(); // placeholder -> value
+    private placeholders = new Map<string, string>(); // value -> placeholder
+    private counts: Partial<Record<PiiCategory, number>> = {};
+    private unredactedFiles = 0;
+
+    constructor(readonly operation: string, private categories: PiiCategory[]) {}
+
+    get enabled(): boolean {
+        return this.categories.length > 0;
+    }
+
+    redact(text: string): string {
+        return DETECTION_ORDER.filter(c => this.categories.includes(c)).reduce((current, category) => {
+            const detector = DETECTORS[category];
+            return current.replace(detector.pattern, match => {
+                const value = detector.accept(match);
+                if (!value) return match;
+                return this.placeholderFor(category, value) + match.slice(value.length);
+            });
+        }, text);
+    }
+
+    // Deep copy with every string masked (structured payloads such as timesheet rows)
+    redactValue<T>(value: T): T {
+        if (typeof value === 'string') return this.redact(value) as unknown as T;
+        if (Array.isArray(value)) return value.map(v => this.redactValue(v)) as unknown as T;
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redactValue(v)])) as T;
+        }
+        return value;
+    }
+
+    // Masked prompt, with a hint to keep the placeholders when anything was masked
+    redactPrompt(prompt: string): string {
+        const redacted = this.redact(prompt);
+        return this.originals.size > 0 ? redacted + PLACEHOLDER_NOTE : redacted;
+    }
+
+    noteUnredactedFile() {
+        this.unredactedFiles++;
+    }
+
+    // Puts the original values back into the model's answer (strings anywhere in parsed JSON)
+    restore<T>(value: T): T {
+        if (this.originals.size === 0) return value;
+        if (typeof value === 'string') return value.replace(PLACEHOLDER_PATTERN, p => this.originals.get(p) ?? p) as unknown as T;
+        if (Array.isArray(value)) return value.map(v => this.restore(v)) as unknown as T;
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.restore(v)])) as T;
+        }
+        return value;
+    }
+
+    toLogEntry(): RedactionLogEntry {
+        return {
+            id: crypto.randomUUID(),
+            operation: this.operation,
+            createdAt: new Date().toISOString(),
+            counts: { ...this.counts },
+            unredactedFiles: this.unredactedFiles
+        };
+    }
+
+    private placeholderFor(category: PiiCategory, value: string): string {
+        const existing = this.placeholders.get(value);
+        if (existing) return existing;
+        this.counts[category] = (this.counts[category] || 0) + 1;
+        const placeholder = `[${DETECTORS[category].token}_${this.counts[category]}]`;
+        this.placeholders.set(value, placeholder);
+        this.originals.set(placeholder, value);
+        return placeholder;
+    }
+}
+
+export const beginRedaction = (operation: string): RedactionContext =>
+    new RedactionContext(operation, activeSettings.enabled ? activeSettings.categories : []);
+
+// --- FILES ---
+
+// Plain-text uploads (CSV or TXT statements, timesheet exports) that can be decoded and masked like a prompt
+export const isMaskableFile = (mimeType: string): boolean =>
+    mimeType.startsWith('text/') || ['application/json', 'application/csv'].includes(mimeType);
+
+export const decodeTextFile = (base64Data: string): string =>
+    new TextDecoder().decode(Uint8Array.from(atob(base64Data), c => c.charCodeAt(0)));
+
+export class UnredactedFileError extends Error {
+    constructor(message = "This file can't be masked and was not sent to the AI model.") {
+        super(message);
+        this.name = 'UnredactedFileError';
+    }
+}
+
+type FileConsentHandler = (operation: string) => Promise<boolean>;
+let fileConsentHandler: FileConsentHandler | null = null;
+let fileConsent: Promise<boolean> | null = null;
+
+// The App asks the user; without a handler, files that can't be masked are refused while redaction is on
+export const configureUnredactedFileConsent = (handler: FileConsentHandler | null) => {
+    fileConsentHandler = handler;
+    fileConsent = null;
+};
+
+// Asked once per session so a batch of receipts doesn't prompt for every file; after a refusal the next upload asks again
+export const requireUnredactedFileConsent = async (operation: string) => {
+    if (!fileConsent) fileConsent = fileConsentHandler ? fileConsentHandler(operation) : Promise.resolve(false);
+    if (await fileConsent) return;
+    fileConsent = null;
+    throw new UnredactedFileError();
+};
+
+// --- REDACTION LOG (this browser, newest first) ---
+
+export const getRedactionLog = (): RedactionLogEntry[] => {
+    try {
+        return JSON.parse(localStorage.getItem(REDACTION_LOG_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+export const recordRedaction = (context: RedactionContext) => {
+    const entry = context.toLogEntry();
+    const masked = Object.entries(entry.counts).map(([category, count]) => `${count} ${category}`).join(', ');
+    console.info(`[PII] ${entry.operation}: ${masked || 'nothing'} masked${entry.unredactedFiles ? `, ${entry.unredactedFiles} file(s) sent unredacted` : ''}`);
+    localStorage.setItem(REDACTION_LOG_KEY, JSON.stringify([entry, ...getRedactionLog()].slice(0, REDACTION_LOG_LIMIT)));
+};
+
+export const clearRedactionLog = () => localStorage.removeItem(REDACTION_LOG_KEY);
@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { AI_PROMPTS } from './aiPrompts';
+import { EVALUATED_PROMPTS, evaluatePromptCorpus, fieldMatches, parsePromptEvalCorpus } from './promptEval';
+
+// Golden corpus: expected values per document plus recorded model answers for the current and earlier prompt versions.
+// Editing a prompt means recording fresh answers for its new version; a field that gets worse fails here.
+const corpus = parsePromptEvalCorpus(JSON.parse(readFileSync(new URL('./promptEval.corpus.json', import.meta.url), 'utf8')));
+
+// Accuracy the current prompts reach on the corpus (the known misses are listed in the test below)
+const MIN_ACCURACY = 0.9;
+
+describe('golden corpus', () => {
+    it('covers every evaluated prompt at its current version', async () => {
+        const report = await evaluatePromptCorpus(corpus);
+        expect(report.unknownPrompts).toEqual([]);
+        expect(report.prompts.map(p => p.prompt).sort()).toEqual([...EVALUATED_PROMPTS].sort());
+        for (const prompt of report.prompts) {
+            expect(prompt.currentVersion).toBe(AI_PROMPTS[prompt.prompt as keyof typeof AI_PROMPTS].version);
+            const current = prompt.versions.find(v => v.version === prompt.currentVersion)!;
+            expect(current.missingCases, `${prompt.prompt} v${prompt.currentVersion} has no recorded answer`).toEqual([]);
+        }
+    });
+
+    it('keeps the current prompts accurate and free of regressions', async () => {
+        const report = await evaluatePromptCorpus(corpus);
+        for (const prompt of report.prompts) {
+            const current = prompt.versions.find(v => v.version === prompt.currentVersion)!;
+            expect(current.accuracy, `${prompt.prompt} v${prompt.currentVersion}`).toBeGreaterThanOrEqual(MIN_ACCURACY);
+            expect(prompt.regressions.filter(r => r.toVersion === prompt.currentVersion)).toEqual([]);
+        }
+    });
+
+    it('reports the fields the recorded answers get wrong', async () => {
+        const report = await evaluatePromptCorpus(corpus);
+        const receipts = report.prompts.find(p => p.prompt === 'analyzeReceipt')!;
+        const current = receipts.versions.find(v => v.version === receipts.currentVersion)!;
+        expect(current.mismatches).toEqual([{ caseId: 'receipt-hotel', field: 'category', expected: 'Travel', actual: 'Lodging' }]);
+
+        // The previous versions scored worse: vendor names and signs of expenses
+        const previous = receipts.versions.find(v => v.version === receipts.currentVersion - 1)!;
+        expect(previous.accuracy).toBeLessThan(current.accuracy);
+        const bank = report.prompts.find(p => p.prompt === 'parseBankStatement')!;
+        expect(bank.versions[0].fields.amount.accuracy).toBeLessThan(bank.versions[bank.versions.length - 1].fields.amount.accuracy);
+    });
+
+    it('flags a field that got worse in a newer version', async () => {
+        const adobeHash = corpus.cases.find(c => c.id === 'receipt-adobe')!.documentHash;
+        const recorded = corpus.responses!.find(r => r.prompt?.name === 'analyzeReceipt' && r.prompt.version === 3 && r.documentHash === adobeHash)!;
+        const worse = { ...recorded, response: JSON.stringify({ ...JSON.parse(recorded.response), amount: 69.99 }) };
+        const report = await evaluatePromptCorpus(corpus, [...corpus.responses!.filter(r => r !== recorded), worse]);
+        const receipts = report.prompts.find(p => p.prompt === 'analyzeReceipt')!;
+        expect(receipts.regressions).toContainEqual(expect.objectContaining({ field: 'amount', fromVersion: 2, toVersion: 3 }));
+    });
+});
+
+describe('fieldMatches', () => {
+    it('compares amounts to the cent, dates after normalization and lists as sets', () => {
+        expect(fieldMatches(142.5, '142,50')).toBe(true);
+        expect(fieldMatches(142.5, 142.49)).toBe(false);
+        expect(fieldMatches('2024-06-03', '03.06.2024')).toBe(true);
+        expect(fieldMatches(['Acme AB', 'Founder OS Ltd'], ['founder os ltd', 'acme ab'])).toBe(true);
+        expect(fieldMatches(['Acme AB'], ['Acme AB', 'Other'])).toBe(false);
+        expect(fieldMatches(undefined, '')).toBe(true);
+    });
+});
@@ -0,0 +1,230 @@
+import { AiFixture, PromptEvalCase, PromptEvalCorpus, PromptEvalFieldScore, PromptEvalMismatch, PromptEvalRegression, PromptEvalReport, PromptEvalVersionResult } from "../types";
+import { AI_PROMPTS, isAiPromptName } from "./aiPrompts";
+import { Validator, parseModelJson, receiptValidator, bankTransactionValidator, timesheetEntryValidator, contractValidator, arrayOf, toIsoDate, toNumber } from "./aiValidation";
+import { fileContentHash } from "./aiResultCache";
+
+// Offline evaluation of prompt versions against a golden corpus: each case is a document with the values a correct
+// extraction yields, and each recorded answer (AiFixture stamped with prompt name, version and document hash) is
+// replayed through the same validation the app applies before it stores a record. Field accuracy is reported per
+// prompt version, and a field that scores lower than under the previous version is a regression.
+
+export class PromptEvalCorpusError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PromptEvalCorpusError';
+    }
+}
+
+type Row = Record<string, unknown>;
+
+interface PromptScorer {
+    fields: string[];
+    rows: boolean; // Answer is an array of rows
+    extract: (answer: string, defaultCurrency: string) => Row[] | null;
+}
+
+const validated = (validate: Validator<unknown>, answer: string): Row[] | null => {
+    const raw = parseModelJson(answer);
+    if (raw === undefined) return null;
+    const { value } = validate(raw);
+    if (value === null) return null;
+    return (Array.isArray(value) ? value : [value]) as Row[];
+};
+
+// Prompts with a structured answer that can be scored field by field
+const SCORERS: Record<string, PromptScorer> = {
+    analyzeReceipt: {
+        fields: ['vendor', 'amount', 'vatAmount', 'currency', 'date', 'category'],
+        rows: false,
+        extract: (answer, defaultCurrency) => validated(receiptValidator(defaultCurrency), answer)
+    },
+    parseBankStatement: {
+        fields: ['date', 'description', 'amount', 'currency'],
+        rows: true,
+        extract: answer => validated(arrayOf(bankTransactionValidator), answer)
+    },
+    parseTimesheetFile: {
+        fields: ['date', 'employee', 'project', 'task', 'hours'],
+        rows: true,
+        extract: answer => validated(arrayOf(timesheetEntryValidator), answer)
+    },
+    analyzeContract: {
+        fields: ['expirationDate', 'parties'],
+        rows: false,
+        extract: answer => validated(contractValidator, answer)
+    }
+};
+
+export const EVALUATED_PROMPTS = Object.keys(SCORERS);
+
+// --- FIELD COMPARISON ---
+
+const normalizeText = (value: unknown) => String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// Amounts to the cent, dates after normalization, text case- and whitespace-insensitive, lists as sets
+export const fieldMatches = (expected: unknown, actual: unknown): boolean => {
+    if (isBlank(expected)) return isBlank(actual);
+    if (typeof expected === 'number') {
+        const value = toNumber(actual);
+        return value !== null && Math.abs(value - expected) < 0.005;
+    }
+    if (Array.isArray(expected)) {
+        if (!Array.isArray(actual)) return false;
+        const want = new Set(expected.map(normalizeText));
+        const got = new Set(actual.map(normalizeText));
+        return want.size === got.size && [...want].every(v => got.has(v));
+    }
+    const expectedDate = toIsoDate(expected);
+    if (expectedDate && /^\d{4}-\d{2}-\d{2}$/.test(String(expected))) return toIsoDate(actual) === expectedDate;
+    return normalizeText(expected) === normalizeText(actual);
+};
+
+// --- CORPUS ---
+
+// Accepts a corpus file's parsed JSON; anything the harness can't use is rejected with the reason
+export const parsePromptEvalCorpus = (raw: unknown): PromptEvalCorpus => {
+    if (!raw || typeof raw !== 'object' || !Array.isArray((raw as any).cases)) {
+        throw new PromptEvalCorpusError("Not an evaluation corpus: expected an object with a `cases` array.");
+    }
+    const corpus = raw as PromptEvalCorpus;
+    const ids = new Set<string>();
+    corpus.cases.forEach((c, i) => {
+        if (!c || typeof c.id !== 'string' || typeof c.prompt !== 'string') throw new PromptEvalCorpusError(`Case ${i + 1}: needs an id and a prompt name.`);
+        if (ids.has(c.id)) throw new PromptEvalCorpusError(`Case ${c.id}: the id is used twice.`);
+        ids.add(c.id);
+        if (!c.documentHash && !c.document?.data) throw new PromptEvalCorpusError(`Case ${c.id}: needs a documentHash or the document itself.`);
+        if (!c.expected || typeof c.expected !== 'object') throw new PromptEvalCorpusError(`Case ${c.id}: expected values are missing.`);
+    });
+    if (corpus.responses !== undefined && !Array.isArray(corpus.responses)) throw new PromptEvalCorpusError("`responses` must be an array of recorded answers.");
+    return corpus;
+};
+
+const caseDocumentHash = async (c: PromptEvalCase): Promise<string> =>
+    c.documentHash || fileContentHash(c.document!.data, c.document!.mimeType);
+
+// First-attempt answers per prompt version and document; the newest recording wins
+const indexResponses = (responses: AiFixture[]): Map<string, AiFixture> => {
+    const index = new Map<string, AiFixture>();
+    responses
+        .filter(r => r.prompt && r.documentHash && !r.prompt.repairAttempt)
+        .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+        .forEach(r => index.set(`${r.prompt!.name}:${r.prompt!.version}:${r.documentHash}`, r));
+    return index;
+};
+
+// --- SCORING ---
+
+interface CaseResult {
+    caseId: string;
+    fields: Record<string, boolean>; // field -> matched, one entry per expected row value
+    mismatches: PromptEvalMismatch[];
+}
+
+const scoreCase = (c: PromptEvalCase, scorer: PromptScorer, rows: Row[] | null): CaseResult => {
+    const expectedRows = (Array.isArray(c.expected) ? c.expected : [c.expected]) as Row[];
+    const result: CaseResult = { caseId: c.id, fields: {}, mismatches: [] };
+    expectedRows.forEach((expected, i) => {
+        scorer.fields.filter(field => field in expected).forEach(field => {
+            const key = scorer.rows ? `${field}#${i}` : field;
+            const actual = rows?.[i]?.[field];
+            const matched = fieldMatches(expected[field], actual);
+            result.fields[key] = matched;
+            if (!matched) result.mismatches.push({ caseId: c.id, field: scorer.rows ? `${field} (row ${i + 1})` : field, expected: expected[field], actual: rows ? actual : '(unusable answer)' });
+        });
+    });
+    // Rows the model invented count against every field the case checks
+    if (scorer.rows && rows && rows.length > expectedRows.length) {
+        result.mismatches.push({ caseId: c.id, field: 'rows', expected: expectedRows.length, actual: rows.length });
+        scorer.fields.filter(field => expectedRows.some(row => field in row)).forEach(field => { result.fields[`${field}#extra`] = false; });
+    }
+    return result;
+};
+
+const fieldScores = (scorer: PromptScorer, results: CaseResult[]): Record<string, PromptEvalFieldScore> => {
+    const scores: Record<string, PromptEvalFieldScore> = {};
+    results.forEach(r => Object.entries(r.fields).forEach(([key, matched]) => {
+        const field = key.split('#')[0];
+        const score = scores[field] || (scores[field] = { correct: 0, total: 0, accuracy: 0 });
+        score.total++;
+        if (matched) score.correct++;
+    }));
+    Object.values(scores).forEach(s => { s.accuracy = s.total > 0 ? s.correct / s.total : 0; });
+    return Object.fromEntries(scorer.fields.filter(f => scores[f]).map(f => [f, scores[f]]));
+};
+
+const overallAccuracy = (scores: Record<string, PromptEvalFieldScore>) => {
+    const all = Object.values(scores);
+    const total = all.reduce((sum, s) => sum + s.total, 0);
+    return total > 0 ? all.reduce((sum, s) => sum + s.correct, 0) / total : 0;
+};
+
+// Each version against the previous one that has answers, on the cases both answered
+const findRegressions = (scorer: PromptScorer, versions: { version: number; results: CaseResult[] }[]): PromptEvalRegression[] => {
+    const regressions: PromptEvalRegression[] = [];
+    const answered = versions.filter(v => v.results.length > 0);
+    for (let i = 1; i < answered.length; i++) {
+        const [before, after] = [answered[i - 1], answered[i]];
+        const shared = new Set(before.results.map(r => r.caseId).filter(id => after.results.some(r => r.caseId === id)));
+        if (shared.size === 0) continue;
+        const beforeScores = fieldScores(scorer, before.results.filter(r => shared.has(r.caseId)));
+        const afterScores = fieldScores(scorer, after.results.filter(r => shared.has(r.caseId)));
+        Object.entries(beforeScores).forEach(([field, score]) => {
+            const next = afterScores[field]?.accuracy ?? 0;
+            if (next < score.accuracy - 1e-9) {
+                regressions.push({ field, fromVersion: before.version, toVersion: after.version, before: score.accuracy, after: next });
+            }
+        });
+    }
+    return regressions;
+};
+
+// Replays the recorded answers of every prompt version found for the corpus' documents
+export const evaluatePromptCorpus = async (corpus: PromptEvalCorpus, responses: AiFixture[] = corpus.responses || []): Promise<PromptEvalReport> => {
+    const index = indexResponses(responses);
+    const defaultCurrency = corpus.defaultCurrency || 'USD';
+    const unknownPrompts = new Set<string>();
+    const byPrompt = new Map<string, { c: PromptEvalCase; hash: string }[]>();
+
+    for (const c of corpus.cases) {
+        if (!isAiPromptName(c.prompt) || !SCORERS[c.prompt]) {
+            unknownPrompts.add(c.prompt);
+            continue;
+        }
+        byPrompt.set(c.prompt, [...(byPrompt.get(c.prompt) || []), { c, hash: await caseDocumentHash(c) }]);
+    }
+
+    const prompts = Array.from(byPrompt, ([prompt, cases]) => {
+        const scorer = SCORERS[prompt];
+        const currentVersion = AI_PROMPTS[prompt as keyof typeof AI_PROMPTS].version;
+        const recordedVersions = new Set<number>([currentVersion]);
+        responses.forEach(r => { if (r.prompt?.name === prompt) recordedVersions.add(r.prompt.version); });
+
+        const runs = Array.from(recordedVersions).sort((a, b) => a - b).map(version => {
+            const results: CaseResult[] = [];
+            const missingCases: string[] = [];
+            cases.forEach(({ c, hash }) => {
+                const answer = index.get(`${prompt}:${version}:${hash}`);
+                if (!answer) missingCases.push(c.id);
+                else results.push(scoreCase(c, scorer, scorer.extract(answer.response, defaultCurrency)));
+            });
+            return { version, results, missingCases };
+        });
+
+        const versions: PromptEvalVersionResult[] = runs.map(({ version, results, missingCases }) => {
+            const fields = fieldScores(scorer, results);
+            return {
+                version,
+                evaluatedCases: results.map(r => r.caseId),
+                missingCases,
+                fields,
+                accuracy: overallAccuracy(fields),
+                mismatches: results.flatMap(r => r.mismatches)
+            };
+        });
+        return { prompt, currentVersion, versions, regressions: findRegressions(scorer, runs) };
+    });
+
+    return { generatedAt: new Date().toISOString(), prompts, unknownPrompts: Array.from(unknownPrompts) };
+};
@@ -0,0 +1,303 @@
+// Minimal QR code encoder (ISO/IEC 18004): byte mode, error correction level M, versions 1-10.
+// Enough for otpauth:// enrollment URIs without shipping the secret to a third-party QR service.
+
+// Per version (index 0 unused), level M
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+const ECC_LEVEL_M_FORMAT_BITS = 0;
+
+export class QrCodeCapacityError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QrCodeCapacityError';
+    }
+}
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+const rawDataModules = (version: number): number => {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2;
+        result -= (25 * alignments - 10) * alignments - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+};
+
+const dataCodewords = (version: number): number =>
+    Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+
+// --- REED-SOLOMON over GF(2^8), polynomial 0x11D ---
+
+const gfMultiply = (x: number, y: number): number => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+};
+
+const rsDivisor = (degree: number): number[] => {
+    const result = new Array(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < result.length) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]): number[] => {
+    const result = divisor.map(() => 0);
+    for (const byte of data) {
+        const factor = byte ^ result.shift()!;
+        result.push(0);
+        divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor); });
+    }
+    return result;
+};
+
+// Splits the data into blocks, appends each block's error correction and interleaves them
+const addErrorCorrection = (data: number[], version: number): number[] => {
+    const blockCount = ERROR_CORRECTION_BLOCKS[version];
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+    const rawCodewords = Math.floor(rawDataModules(version) / 8);
+    const shortBlocks = blockCount - rawCodewords % blockCount;
+    const shortBlockLength = Math.floor(rawCodewords / blockCount);
+    const divisor = rsDivisor(eccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < blockCount; i++) {
+        const block = data.slice(k, k + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+        k += block.length;
+        const ecc = rsRemainder(block, divisor);
+        if (i < shortBlocks) block.push(0);
+        blocks.push(block.concat(ecc));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            // Skip the padding byte of short blocks
+            if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+        });
+    }
+    return result;
+};
+
+// --- MATRIX ---
+
+const alignmentPositions = (version: number): number[] => {
+    if (version === 1) return [];
+    const count = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+    const result = [6];
+    for (let pos = version * 4 + 10; result.length < count; pos -= step) result.splice(1, 0, pos);
+    return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (_x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+    (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+    (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+class QrMatrix {
+    readonly size: number;
+    modules: boolean[][];
+    private isFunction: boolean[][];
+
+    constructor(private version: number) {
+        this.size = version * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+        this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+        this.drawFunctionPatterns();
+    }
+
+    private setFunction(x: number, y: number, dark: boolean) {
+        this.modules[y][x] = dark;
+        this.isFunction[y][x] = true;
+    }
+
+    private drawFunctionPatterns() {
+        for (let i = 0; i < this.size; i++) {
+            this.setFunction(6, i, i % 2 === 0);
+            this.setFunction(i, 6, i % 2 === 0);
+        }
+        this.drawFinder(3, 3);
+        this.drawFinder(this.size - 4, 3);
+        this.drawFinder(3, this.size - 4);
+
+        const positions = alignmentPositions(this.version);
+        const last = positions.length - 1;
+        positions.forEach((x, i) => positions.forEach((y, j) => {
+            // The three corners next to finder patterns carry none
+            if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+        }));
+
+        this.drawFormatBits(0); // Reserved now, rewritten once the mask is chosen
+        this.drawVersion();
+    }
+
+    private drawFinder(x: number, y: number) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const xx = x + dx, yy = y + dy;
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+            }
+        }
+    }
+
+    drawFormatBits(mask: number) {
+        const data = (ECC_LEVEL_M_FORMAT_BITS << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+
+        for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+        this.setFunction(8, 7, getBit(bits, 6));
+        this.setFunction(8, 8, getBit(bits, 7));
+        this.setFunction(7, 8, getBit(bits, 8));
+        for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+        for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+        for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+        this.setFunction(8, this.size - 8, true); // Dark module
+    }
+
+    private drawVersion() {
+        if (this.version < 7) return;
+        let remainder = this.version;
+        for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+        const bits = (this.version << 12) | remainder;
+        for (let i = 0; i < 18; i++) {
+            const a = this.size - 11 + i % 3, b = Math.floor(i / 3);
+            this.setFunction(a, b, getBit(bits, i));
+            this.setFunction(b, a, getBit(bits, i));
+        }
+    }
+
+    // Zigzag placement in two-module columns from the bottom right, skipping the vertical timing column
+    drawCodewords(codewords: number[]) {
+        let i = 0;
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5;
+            for (let vertical = 0; vertical < this.size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? this.size - 1 - vertical : vertical;
+                    if (!this.isFunction[y][x] && i < codewords.length * 8) {
+                        this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+                        i++;
+                    }
+                }
+            }
+        }
+    }
+
+    // XOR is its own inverse, so applying the same mask twice removes it
+    applyMask(mask: number) {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.isFunction[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+            }
+        }
+    }
+
+    // Penalty rules of the standard: long runs, 2x2 blocks, finder look-alikes, dark/light imbalance
+    penalty(): number {
+        const m = this.modules, n = this.size;
+        let score = 0;
+        const lines = [
+            ...m,
+            ...Array.from({ length: n }, (_, x) => m.map(row => row[x]))
+        ];
+        const finderLike = [true, false, true, true, true, false, true];
+        for (const line of lines) {
+            let run = 1;
+            for (let i = 1; i <= n; i++) {
+                if (i < n && line[i] === line[i - 1]) {
+                    run++;
+                } else {
+                    if (run >= 5) score += 3 + (run - 5);
+                    run = 1;
+                }
+            }
+            for (let i = 0; i + 7 <= n; i++) {
+                if (!finderLike.every((dark, k) => line[i + k] === dark)) continue;
+                const lightBefore = i >= 4 && [1, 2, 3, 4].every(k => !line[i - k]);
+                const lightAfter = i + 11 <= n && [0, 1, 2, 3].every(k => !line[i + 7 + k]);
+                if (lightBefore || lightAfter) score += 40;
+            }
+        }
+        for (let y = 0; y < n - 1; y++) {
+            for (let x = 0; x < n - 1; x++) {
+                const color = m[y][x];
+                if (color === m[y][x + 1] && color === m[y + 1][x] && color === m[y + 1][x + 1]) score += 3;
+            }
+        }
+        const dark = m.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+        const total = n * n;
+        score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+        return score;
+    }
+}
+
+// Square module matrix (true = dark) for the UTF-8 bytes of the text, without the quiet zone
+export const encodeQrCode = (text: string): boolean[][] => {
+    const bytes = Array.from(new TextEncoder().encode(text));
+    const version = Array.from({ length: MAX_VERSION }, (_, i) => i + 1)
+        .find(v => 4 + (v < 10 ? 8 : 16) + bytes.length * 8 <= dataCodewords(v) * 8);
+    if (!version) throw new QrCodeCapacityError(`Text of ${bytes.length} bytes does not fit a version ${MAX_VERSION} QR code.`);
+
+    // Byte mode indicator, character count, data, terminator, then alternating pad bytes
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    append(0b0100, 4);
+    append(bytes.length, version < 10 ? 8 : 16);
+    bytes.forEach(b => append(b, 8));
+    const capacity = dataCodewords(version) * 8;
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - bits.length % 8) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+    const data: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+
+    const matrix = new QrMatrix(version);
+    matrix.drawCodewords(addErrorCorrection(data, version));
+
+    let bestMask = 0, bestPenalty = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        matrix.applyMask(mask);
+        matrix.drawFormatBits(mask);
+        const penalty = matrix.penalty();
+        if (penalty < bestPenalty) {
+            bestMask = mask;
+            bestPenalty = penalty;
+        }
+        matrix.applyMask(mask);
+    }
+    matrix.applyMask(bestMask);
+    matrix.drawFormatBits(bestMask);
+    return matrix.modules;
+};
@@ -0,0 +1,65 @@
+import { AppSettings } from "../types";
+
+// Bokföringslagen (7 kap. 2 §): verification material is kept until the end of the seventh year after the fiscal year
+export const LEGAL_RETENTION_YEARS = 7;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Service stamps on a trashed record; stripped again on restore. The legal hold (_legalHoldUntil) stays with the
+// record for good: the security rules only let Admins extend it, so a restore and trash again can't shorten it.
+export const TRASH_FIELDS = ['_deletedAt', '_deletedBy'];
+
+// Modules holding bookkeeping records and the field carrying the bookkeeping date
+const BOOKKEEPING_DATE_FIELDS: Record<string, string> = {
+    founder_os_receipts: 'date',
+    founder_os_bank_txs: 'date',
+    founder_os_invoices: 'systemDate'
+};
+
+export class RetentionViolationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RetentionViolationError';
+    }
+}
+
+export const isTrashed = (record: any): boolean => !!record?._deletedAt;
+
+export const isBookkeepingModule = (key: string): boolean => key in BOOKKEEPING_DATE_FIELDS;
+
+// Draft invoices never entered the books; everything else in a bookkeeping module did
+const isBookkept = (key: string, record: any): boolean =>
+    isBookkeepingModule(key) && !(key === 'founder_os_invoices' && record.status === 'Draft');
+
+// Epoch ms from which the record may be purged (0 = no legal hold)
+export const legalHoldUntil = (key: string, record: any): number => {
+    if (!record || !isBookkept(key, record)) return 0;
+    const raw = record[BOOKKEEPING_DATE_FIELDS[key]];
+    const dated = typeof raw === 'string' && raw ? raw : record._createdAt;
+    // Only ISO dates count (as in minimumLegalHold() in firestore.rules); others are held from today rather than released early
+    const year = typeof dated === 'string' && /^\d{4}-/.test(dated) ? parseInt(dated.slice(0, 4), 10) : new Date().getUTCFullYear();
+    // Stamped holds are never shortened, whatever the record's date says now
+    return Math.max(record._legalHoldUntil || 0, Date.UTC(year + LEGAL_RETENTION_YEARS + 1, 0, 1));
+};
+
+export const assertPurgeAllowed = (key: string, record: any, now = Date.now()) => {
+    const holdUntil = record._legalHoldUntil ?? legalHoldUntil(key, record);
+    if (holdUntil > now) {
+        throw new RetentionViolationError(`Record ${record.id} is bookkeeping material and must be kept until ${new Date(holdUntil).toISOString().split('T')[0]}.`);
+    }
+};
+
+export const trashRetentionDays = (settings: AppSettings | null, key: string): number =>
+    settings?.trashRetentionDays?.[key] ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+// Trashed records past their retention that the law no longer requires us to keep
+export const isPurgeDue = (key: string, record: any, settings: AppSettings | null, now = Date.now()): boolean => {
+    if (!isTrashed(record)) return false;
+    const expiresAt = new Date(record._deletedAt).getTime() + trashRetentionDays(settings, key) * 24 * 60 * 60 * 1000;
+    return expiresAt <= now && (record._legalHoldUntil ?? legalHoldUntil(key, record)) <= now;
+};
+
+export const stripTrashFields = (record: any) => {
+    const clean = { ...record };
+    TRASH_FIELDS.forEach(f => delete clean[f]);
+    return clean;
+};
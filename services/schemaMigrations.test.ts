@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { GROWTH_PLAN_DEFAULTS, SCHEMA_FIELD, SchemaMigrationError, currentSchemaVersion, migrateRecord, migrationsFor, needsMigration } from './schemaMigrations';
+
+const PLANS = 'founder_os_plans';
+const INVOICES = 'founder_os_invoices';
+const CONTRACTS = 'founder_os_contracts';
+
+const step = (key: string, version: number) => migrationsFor(key).find(s => s.version === version)!;
+
+describe('plans v1', () => {
+    it('backfills drivers without inventing a currency', () => {
+        const plan = step(PLANS, 1).up({ id: 'p1', name: 'Seed round', startingCash: 1000 });
+        expect(plan).toMatchObject({ id: 'p1', name: 'Seed round', startingCash: 1000, productGrowth: GROWTH_PLAN_DEFAULTS.productGrowth });
+        expect('currency' in plan).toBe(false);
+        expect(Object.values(plan)).not.toContain(undefined);
+    });
+
+    it('keeps the currency and drivers a plan already has', () => {
+        const plan = step(PLANS, 1).up({ id: 'p1', currency: 'SEK', fixedOpEx: 42 });
+        expect(plan.currency).toBe('SEK');
+        expect(plan.fixedOpEx).toBe(42);
+    });
+});
+
+describe('invoices v1', () => {
+    it('computes missing line totals and defaults offsets and field values', () => {
+        const invoice = step(INVOICES, 1).up({ id: 'i1', items: [{ unitPrice: 12.5, units: 4 }, { unitPrice: 10, units: 2, total: 15 }] });
+        expect(invoice.items.map((i: any) => i.total)).toEqual([50, 15]);
+        expect(invoice).toMatchObject({ dynamicValues: {}, contentTopOffset: 0, contentLeftOffset: 0 });
+    });
+
+    it('keeps existing values and tolerates invoices without items', () => {
+        const invoice = step(INVOICES, 1).up({ id: 'i2', dynamicValues: { ref: 'A' }, contentTopOffset: 3 });
+        expect(invoice).toMatchObject({ items: [], dynamicValues: { ref: 'A' }, contentTopOffset: 3, contentLeftOffset: 0 });
+    });
+});
+
+describe('contracts v1', () => {
+    it('defaults the list fields', () => {
+        expect(step(CONTRACTS, 1).up({ id: 'c1' })).toMatchObject({ keyConstraints: [], parties: [] });
+        expect(step(CONTRACTS, 1).up({ id: 'c2', parties: ['Acme'] }).parties).toEqual(['Acme']);
+    });
+});
+
+describe('migrateRecord', () => {
+    it('orders every chain by version', () => {
+        for (const key of [PLANS, INVOICES, CONTRACTS]) {
+            const versions = migrationsFor(key).map(s => s.version);
+            expect(versions).toEqual([...versions].sort((a, b) => a - b));
+            expect(currentSchemaVersion(key)).toBe(versions[versions.length - 1]);
+        }
+    });
+
+    it('runs the whole chain on unversioned records and stamps the version', () => {
+        for (const key of [PLANS, INVOICES, CONTRACTS]) {
+            const record = migrateRecord(key, { id: 'r1' });
+            expect(record[SCHEMA_FIELD]).toBe(currentSchemaVersion(key));
+            expect(needsMigration(key, record)).toBe(false);
+            expect(Object.values(record)).not.toContain(undefined);
+        }
+    });
+
+    it('is a no-op for current records, newer records and unknown keys', () => {
+        const current = { id: 'p1', [SCHEMA_FIELD]: currentSchemaVersion(PLANS) };
+        const newer = { id: 'p2', [SCHEMA_FIELD]: currentSchemaVersion(PLANS) + 1 };
+        expect(migrateRecord(PLANS, current)).toBe(current);
+        expect(migrateRecord(PLANS, newer)).toBe(newer);
+        expect(currentSchemaVersion('unknown')).toBe(0);
+        expect(needsMigration('unknown', { id: 'x' })).toBe(false);
+    });
+
+    it('names the record and step that failed', () => {
+        expect(() => migrateRecord(INVOICES, { id: 'bad', items: 'not a list' })).toThrow(SchemaMigrationError);
+        expect(() => migrateRecord(INVOICES, { id: 'bad', items: 'not a list' })).toThrow('founder_os_invoices record bad failed migration to v1');
+    });
+});
@@ -0,0 +1,107 @@
+import { GrowthPlan } from "../types";
+
+// Stored records carry the schema version they were written with; older ones are upgraded step by step on read
+export const SCHEMA_FIELD = '_schema';
+
+export interface SchemaMigration {
+    version: number; // Schema version the record has after this step
+    description: string;
+    up: (record: any) => any;
+}
+
+export const GROWTH_PLAN_DEFAULTS: GrowthPlan = {
+    id: 'default',
+    name: 'Hybrid AI Strategy 2025',
+    currency: 'USD',
+    startingCash: 250000,
+    createdAt: new Date().toISOString(),
+
+    // Consulting
+    consultingRevenue: 40000,
+    consultingGrowth: 5,
+    billableHeadcount: 2,
+    avgHourlyRate: 150,
+    utilization: 75,
+
+    // Product
+    productRevenue: 2000,
+    productGrowth: 15,
+    cloudCostPercent: 12, // High due to LLM inference
+
+    // OpEx
+    fixedOpEx: 15000,
+    marketingBudget: 3000,
+    salaryPerHead: 8000
+};
+
+// Ordered by version per module key. Steps must only add or reshape fields: a record is never migrated twice.
+const MIGRATIONS: Record<string, SchemaMigration[]> = {
+    founder_os_plans: [
+        {
+            version: 1,
+            description: 'Backfill growth-plan drivers added after the first release',
+            up: (plan) => {
+                // Plans from before multi-currency get the org currency from the planner instead of a USD default,
+                // so the key stays absent (Firestore rejects undefined values)
+                const { currency: _usd, ...defaults } = GROWTH_PLAN_DEFAULTS;
+                return { ...defaults, ...plan };
+            }
+        }
+    ],
+    founder_os_invoices: [
+        {
+            version: 1,
+            description: 'Normalize invoices saved before dynamic templates (line totals, offsets, field values)',
+            up: (invoice) => ({
+                ...invoice,
+                items: (invoice.items || []).map((item: any) => ({ ...item, total: item.total ?? (item.unitPrice || 0) * (item.units || 0) })),
+                dynamicValues: invoice.dynamicValues || {},
+                contentTopOffset: invoice.contentTopOffset ?? 0,
+                contentLeftOffset: invoice.contentLeftOffset ?? 0
+            })
+        }
+    ],
+    founder_os_contracts: [
+        {
+            version: 1,
+            description: 'Default list fields on contracts extracted before they were required',
+            up: (contract) => ({
+                ...contract,
+                keyConstraints: contract.keyConstraints || [],
+                parties: contract.parties || []
+            })
+        }
+    ]
+};
+
+export class SchemaMigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SchemaMigrationError';
+    }
+}
+
+export const migrationsFor = (key: string): SchemaMigration[] => MIGRATIONS[key] || [];
+
+export const currentSchemaVersion = (key: string): number => {
+    const steps = migrationsFor(key);
+    return steps.length > 0 ? steps[steps.length - 1].version : 0;
+};
+
+// Records written before versioning count as version 0; records from a newer client are left alone
+export const needsMigration = (key: string, record: any): boolean =>
+    !!record && (record[SCHEMA_FIELD] || 0) < currentSchemaVersion(key);
+
+export const migrateRecord = (key: string, record: any): any => {
+    if (!needsMigration(key, record)) return record;
+    const from = record[SCHEMA_FIELD] || 0;
+    return migrationsFor(key)
+        .filter(step => step.version > from)
+        .reduce((current, step) => {
+            try {
+                return { ...step.up(current), [SCHEMA_FIELD]: step.version };
+            } catch (e: any) {
+                throw new SchemaMigrationError(`${key} record ${record.id} failed migration to v${step.version}: ${e?.message || e}`);
+            }
+        }, record);
+};
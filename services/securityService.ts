@@ -1,11 +1,34 @@
 
-// World-Class Security Service using Web Crypto API (AES-GCM)
-// This ensures "Zero Knowledge" - we never store the raw password, only the derived key.
+// World-Class Security Service using Web Crypto API (AES-GCM, RSA-OAEP key wrapping)
+// This ensures "Zero Knowledge" - we never store the raw password or an unwrapped key.
+
+// Encrypted field values: enc:v1:{keyId}:{hex(iv + ciphertext)}
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+const PBKDF2_ITERATIONS = 100000;
+
+// Vault member entry that holds the org keys for the admin recovery code
+export const RECOVERY_MEMBER_ID = 'recovery';
+
+export class VaultLockedError extends Error {
+  constructor(message = "The encryption vault is locked. Unlock it with your account password.") {
+    super(message);
+    this.name = 'VaultLockedError';
+  }
+}
+
+export const isEncryptedValue = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{1,2}/g) || []).map(byte => parseInt(byte, 16)));
 
 export class SecurityService {
   private static instance: SecurityService;
-  private masterKey: CryptoKey | null = null;
-  private salt: Uint8Array | null = null;
+  // Org data keys by key ID (several are loaded while a rotation re-encrypts data)
+  private dataKeys: Map<string, CryptoKey> = new Map();
+  private activeKeyId: string | null = null;
+  // Private key of the vault member whose entry the keys were unwrapped from, for re-unwrapping them to share
+  private keyHolder: { memberId: string; privateKey: CryptoKey } | null = null;
 
   private constructor() {}
 
@@ -16,105 +39,170 @@ export class SecurityService {
     return SecurityService.instance;
   }
 
-  // 1. Generate a salt for new users
-  generateSalt(): string {
-    const salt = window.crypto.getRandomValues(new Uint8Array(16));
-    this.salt = salt;
-    return Array.from(salt).map(b => b.toString(16).padStart(2, '0')).join('');
-  }
+  // --- ORG DATA KEY (field-level encryption) ---
+  // Loaded keys are non-extractable: page scripts can use them but never read the raw key out.
+  // A random AES-GCM key encrypts the data. Each member holds an RSA key pair whose private half is wrapped with a key
+  // derived from their password; the org key is wrapped with each member's public key, so an admin can grant access
+  // without knowing anyone's password and a password change only re-wraps that member's private key.
 
-  loadSalt(hexSalt: string) {
-    const match = hexSalt.match(/.{1,2}/g);
-    if (match) {
-        this.salt = new Uint8Array(match.map(byte => parseInt(byte, 16)));
-    }
+  async generateDataKey(): Promise<{ keyId: string; key: CryptoKey }> {
+    const key = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+    return { keyId: crypto.randomUUID().slice(0, 8), key };
   }
 
-  // 2. Derive a Key from the User's Password (PBKDF2)
-  async deriveKey(password: string): Promise<boolean> {
-    if (!this.salt) throw new Error("Salt not initialized");
-
-    const enc = new TextEncoder();
-    const keyMaterial = await window.crypto.subtle.importKey(
-      "raw",
-      enc.encode(password),
-      { name: "PBKDF2" },
-      false,
-      ["deriveBits", "deriveKey"]
-    );
-
-    this.masterKey = await window.crypto.subtle.deriveKey(
-      {
-        name: "PBKDF2",
-        salt: this.salt,
-        iterations: 100000,
-        hash: "SHA-256"
-      },
+  private async deriveWrappingKey(secret: string, saltHex: string): Promise<CryptoKey> {
+    const keyMaterial = await window.crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "PBKDF2" }, false, ["deriveKey"]);
+    return window.crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt: fromHex(saltHex), iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
       keyMaterial,
       { name: "AES-GCM", length: 256 },
-      false, // Key is non-extractable
-      ["encrypt", "decrypt"]
+      false,
+      ["wrapKey", "unwrapKey"]
     );
-
-    return true;
   }
 
-  // 3. Encrypt Data
-  async encrypt(data: string): Promise<string> {
-    if (!this.masterKey) throw new Error("Vault locked");
+  // New member key pair; the private key comes back already wrapped with the secret (password or recovery code)
+  async generateMemberKeys(secret: string): Promise<{ publicKey: string; encryptedPrivateKey: string; salt: string }> {
+    const pair = await window.crypto.subtle.generateKey(
+      { name: "RSA-OAEP", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+      true,
+      ["wrapKey", "unwrapKey"]
+    );
+    const salt = toHex(window.crypto.getRandomValues(new Uint8Array(16)));
+    return {
+      publicKey: toHex(new Uint8Array(await window.crypto.subtle.exportKey("spki", pair.publicKey))),
+      encryptedPrivateKey: await this.wrapPrivateKey(pair.privateKey, secret, salt),
+      salt
+    };
+  }
 
+  private async wrapPrivateKey(privateKey: CryptoKey, secret: string, saltHex: string): Promise<string> {
     const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    const enc = new TextEncoder();
-    
-    const encryptedContent = await window.crypto.subtle.encrypt(
-      {
-        name: "AES-GCM",
-        iv: iv
-      },
-      this.masterKey,
-      enc.encode(data)
-    );
+    const wrapped = await window.crypto.subtle.wrapKey("pkcs8", privateKey, await this.deriveWrappingKey(secret, saltHex), { name: "AES-GCM", iv });
+    return toHex(iv) + toHex(new Uint8Array(wrapped));
+  }
 
-    // Combine IV and Ciphertext for storage
-    const encryptedArray = new Uint8Array(encryptedContent);
-    const buf = new Uint8Array(iv.length + encryptedArray.length);
-    buf.set(iv, 0);
-    buf.set(encryptedArray, iv.length);
+  // Null signals a wrong password / recovery code. Only a re-wrap needs the key extractable.
+  async unwrapPrivateKey(encryptedPrivateKey: string, secret: string, saltHex: string, extractable = false): Promise<CryptoKey | null> {
+    const data = fromHex(encryptedPrivateKey);
+    try {
+      return await window.crypto.subtle.unwrapKey(
+        "pkcs8", data.slice(12), await this.deriveWrappingKey(secret, saltHex),
+        { name: "AES-GCM", iv: data.slice(0, 12) }, { name: "RSA-OAEP", hash: "SHA-256" }, extractable, ["unwrapKey"]
+      );
+    } catch (e) {
+      return null;
+    }
+  }
 
-    return Array.from(buf).map(b => b.toString(16).padStart(2, '0')).join('');
+  // Same private key under a new secret (password change)
+  async rewrapPrivateKey(encryptedPrivateKey: string, currentSecret: string, saltHex: string, newSecret: string): Promise<{ encryptedPrivateKey: string; salt: string } | null> {
+    const privateKey = await this.unwrapPrivateKey(encryptedPrivateKey, currentSecret, saltHex, true);
+    if (!privateKey) return null;
+    const salt = toHex(window.crypto.getRandomValues(new Uint8Array(16)));
+    return { encryptedPrivateKey: await this.wrapPrivateKey(privateKey, newSecret, salt), salt };
   }
 
-  // 4. Decrypt Data
-  async decrypt(hexData: string): Promise<string | null> {
-    if (!this.masterKey) throw new Error("Vault locked");
+  async wrapDataKeyFor(key: CryptoKey, publicKeyHex: string): Promise<string> {
+    const publicKey = await window.crypto.subtle.importKey("spki", fromHex(publicKeyHex), { name: "RSA-OAEP", hash: "SHA-256" }, false, ["wrapKey"]);
+    return toHex(new Uint8Array(await window.crypto.subtle.wrapKey("raw", key, publicKey, { name: "RSA-OAEP" })));
+  }
 
+  // Extractable only to wrap the key for other members
+  async unwrapDataKeyWith(wrappedHex: string, privateKey: CryptoKey, extractable = false): Promise<CryptoKey | null> {
     try {
-        const match = hexData.match(/.{1,2}/g);
-        if (!match) return null;
-        
-        const dataArray = new Uint8Array(match.map(byte => parseInt(byte, 16)));
-        const iv = dataArray.slice(0, 12);
-        const ciphertext = dataArray.slice(12);
-
-        const decryptedContent = await window.crypto.subtle.decrypt(
-          {
-            name: "AES-GCM",
-            iv: iv
-          },
-          this.masterKey,
-          ciphertext
-        );
-
-        const dec = new TextDecoder();
-        return dec.decode(decryptedContent);
+      return await window.crypto.subtle.unwrapKey(
+        "raw", fromHex(wrappedHex), privateKey, { name: "RSA-OAEP" }, { name: "AES-GCM", length: 256 }, extractable, ["encrypt", "decrypt"]
+      );
     } catch (e) {
-        console.error("Decryption failed - likely wrong password", e);
-        return null; // Signals wrong password
+      return null;
+    }
+  }
+
+  // 25 random base32 characters, shown once to the admin, e.g. K7QM-2XHD-...
+  generateRecoveryCode(): string {
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    const chars = Array.from(window.crypto.getRandomValues(new Uint8Array(25))).map(b => alphabet[b % alphabet.length]);
+    return chars.join('').match(/.{1,5}/g)!.join('-');
+  }
+
+  normalizeRecoveryCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '').match(/.{1,5}/g)?.join('-') || '';
+  }
+
+  // IDs of the loaded org keys (active and retired)
+  getDataKeyIds(): string[] {
+    return [...this.dataKeys.keys()];
+  }
+
+  // A freshly generated (extractable) key is loaded as a non-extractable copy
+  async loadDataKey(keyId: string, key: CryptoKey, active = true) {
+    const loaded = key.extractable
+      ? await window.crypto.subtle.importKey("raw", await window.crypto.subtle.exportKey("raw", key), { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"])
+      : key;
+    this.dataKeys.set(keyId, loaded);
+    if (active) this.activeKeyId = keyId;
+  }
+
+  holdMemberKey(memberId: string, privateKey: CryptoKey) {
+    this.keyHolder = { memberId, privateKey };
+  }
+
+  getKeyHolderId(): string | null {
+    return this.keyHolder?.memberId ?? null;
+  }
+
+  // Extractable copies of the loaded keys for wrapping them to other members, unwrapped again from the holder's entry
+  async exportDataKeys(wrappedKeys: Record<string, string>): Promise<Map<string, CryptoKey>> {
+    if (!this.keyHolder) throw new VaultLockedError();
+    const keys = new Map<string, CryptoKey>();
+    for (const keyId of this.dataKeys.keys()) {
+      const key = wrappedKeys[keyId] && await this.unwrapDataKeyWith(wrappedKeys[keyId], this.keyHolder.privateKey, true);
+      if (!key) throw new VaultLockedError("The vault keys changed since you unlocked it. Lock and unlock it again.");
+      keys.set(keyId, key);
     }
+    return keys;
+  }
+
+  getActiveDataKey(): { keyId: string; key: CryptoKey } | null {
+    return this.activeKeyId ? { keyId: this.activeKeyId, key: this.dataKeys.get(this.activeKeyId)! } : null;
+  }
+
+  dropDataKey(keyId: string) {
+    this.dataKeys.delete(keyId);
+    if (this.activeKeyId === keyId) this.activeKeyId = null;
+  }
+
+  lockVault() {
+    this.dataKeys.clear();
+    this.activeKeyId = null;
+    this.keyHolder = null;
+  }
+
+  isVaultUnlocked(): boolean {
+    return this.activeKeyId !== null;
+  }
+
+  async encryptField(value: string): Promise<string> {
+    const active = this.getActiveDataKey();
+    if (!active) throw new VaultLockedError();
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, active.key, new TextEncoder().encode(value));
+    return `${ENCRYPTED_PREFIX}${active.keyId}:${toHex(iv)}${toHex(new Uint8Array(ciphertext))}`;
+  }
+
+  async decryptField(value: string): Promise<string> {
+    const [keyId, hex] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    const key = this.dataKeys.get(keyId);
+    if (!key) throw new VaultLockedError();
+    const data = fromHex(hex || '');
+    const plaintext = await window.crypto.subtle.decrypt({ name: "AES-GCM", iv: data.slice(0, 12) }, key, data.slice(12));
+    return new TextDecoder().decode(plaintext);
   }
 
-  isUnlocked(): boolean {
-      return this.masterKey !== null;
+  // Key ID an encrypted value was written with
+  keyIdOf(value: string): string {
+    return value.slice(ENCRYPTED_PREFIX.length).split(':')[0];
   }
 }
 
@@ -0,0 +1,56 @@
+import { UserSession } from "../types";
+
+// Idle timeout applies when the org hasn't chosen one; 0 disables it
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 60;
+export const IDLE_TIMEOUT_OPTIONS = [0, 15, 30, 60, 240, 480];
+// Session doc and User.lastActive are refreshed at most this often while the user is active
+export const SESSION_HEARTBEAT_MS = 60 * 1000;
+// A session that missed several heartbeats is shown as inactive (closed tab, device asleep)
+export const SESSION_STALE_MS = 10 * 60 * 1000;
+
+// Per browser: the session this device is signed in with, and when the user last interacted (shared by all tabs)
+export const SESSION_STORAGE_KEY = 'founder_os_session';
+export const LAST_INPUT_STORAGE_KEY = 'founder_os_last_input';
+
+export const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'wheel', 'visibilitychange'] as const;
+
+export const idleTimeoutMs = (minutes: number | undefined): number =>
+    (minutes ?? DEFAULT_IDLE_TIMEOUT_MINUTES) * 60 * 1000;
+
+export const isIdleExpired = (lastInput: number, timeoutMinutes: number | undefined, now = Date.now()): boolean => {
+    const timeout = idleTimeoutMs(timeoutMinutes);
+    return timeout > 0 && now - lastInput >= timeout;
+};
+
+export const isSessionActive = (session: UserSession, now = Date.now()): boolean =>
+    !session.endedAt && now - new Date(session.lastSeenAt).getTime() < SESSION_STALE_MS;
+
+export const formatIdleTimeout = (minutes: number): string =>
+    minutes === 0 ? 'Never' : minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+
+// Human-readable label from the user agent, e.g. "Firefox on Windows"
+export const describeDevice = (userAgent: string): string => {
+    const browser =
+        /Edg\//.test(userAgent) ? 'Edge' :
+        /OPR\//.test(userAgent) ? 'Opera' :
+        /Firefox\//.test(userAgent) ? 'Firefox' :
+        /Chrome\//.test(userAgent) ? 'Chrome' :
+        /Safari\//.test(userAgent) ? 'Safari' : 'Browser';
+    const os =
+        /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+        /Android/.test(userAgent) ? 'Android' :
+        /Windows/.test(userAgent) ? 'Windows' :
+        /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+        /CrOS/.test(userAgent) ? 'ChromeOS' :
+        /Linux/.test(userAgent) ? 'Linux' : 'unknown OS';
+    return `${browser} on ${os}`;
+};
+
+export const formatLastSeen = (iso: string | undefined, now = Date.now()): string => {
+    if (!iso) return 'Never';
+    const minutes = Math.floor((now - new Date(iso).getTime()) / 60000);
+    if (minutes < 2) return 'Just now';
+    if (minutes < 60) return `${minutes} min ago`;
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`;
+    return new Date(iso).toLocaleDateString();
+};
@@ -0,0 +1,121 @@
+import { ActivityLogEntry, ActivityQuery, ViewState } from "../types";
+import { db, auth } from "../src/firebaseConfig";
+import { doc, setDoc, collection, getDocs, query, where, orderBy, limit } from "firebase/firestore";
+import { localStore, LOCAL_STORES } from "./localStore";
+import { sanitizePayload } from "./storageRecords";
+
+const HISTORY_CACHE_LIMIT = 200;
+
+// Activity of a local-only org; the orgId lets one browser hold several orgs' logs
+interface LocalActivityEntry extends ActivityLogEntry {
+    orgId: string;
+}
+
+// What the activity log needs to know about the signed-in org and user
+export interface ActivityHost {
+    orgId(): string | null;
+    syncsRecords(): boolean;
+    // Modules the signed-in user may see; null = all
+    allowedModules(): ViewState[] | null;
+}
+
+// Org audit trail: organizations/{orgId}/activity in the cloud, IndexedDB for local-only orgs.
+// Record writes commit their entry in the record's own transaction (see StorageService.commitWithRevisionCheck).
+export class ActivityLog {
+    private recent: ActivityLogEntry[] = [];
+
+    constructor(private readonly host: ActivityHost) {}
+
+    // Called when another org is configured
+    reset() {
+        this.recent = [];
+    }
+
+    ref(id: string) {
+        return doc(db, "organizations", this.host.orgId()!, "activity", id);
+    }
+
+    build(tool: ViewState, action: ActivityLogEntry['action'], details: string, record?: Pick<ActivityLogEntry, 'collection' | 'recordId' | 'changes'>): ActivityLogEntry {
+        return {
+            id: crypto.randomUUID(),
+            tool,
+            action,
+            details,
+            timestamp: new Date().toISOString(),
+            userId: auth.currentUser?.uid || 'guest',
+            userEmail: auth.currentUser?.email || undefined,
+            ...record
+        };
+    }
+
+    log(tool: ViewState, action: ActivityLogEntry['action'], details: string, record?: Pick<ActivityLogEntry, 'collection' | 'recordId' | 'changes'>) {
+        const entry = this.build(tool, action, details, record);
+        this.recent = [entry, ...this.recent].slice(0, HISTORY_CACHE_LIMIT);
+
+        const orgId = this.host.orgId();
+        if (!orgId) return;
+        if (!this.host.syncsRecords()) {
+            localStore.put<LocalActivityEntry>(LOCAL_STORES.ACTIVITY, { ...entry, orgId })
+                .catch(e => console.error("[Audit] Failed to persist activity entry", e));
+            return;
+        }
+        if (!auth.currentUser) return;
+        setDoc(this.ref(entry.id), sanitizePayload(entry))
+            .catch(e => console.error("[Audit] Failed to persist activity entry", e));
+    }
+
+    // Synchronous view of the most recent entries (this session + last loadHistory)
+    getHistory(tool?: ViewState): ActivityLogEntry[] {
+        return tool ? this.recent.filter(e => e.tool === tool) : this.recent;
+    }
+
+    async loadHistory(tool?: ViewState): Promise<ActivityLogEntry[]> {
+        const entries = await this.query({ tool, limit: HISTORY_CACHE_LIMIT });
+        const known = new Set(entries.map(e => e.id));
+        this.recent = [...this.recent.filter(e => !known.has(e.id)), ...entries]
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+            .slice(0, HISTORY_CACHE_LIMIT);
+        return this.getHistory(tool);
+    }
+
+    async query(filter: ActivityQuery = {}): Promise<ActivityLogEntry[]> {
+        const orgId = this.host.orgId();
+        if (!orgId) return [];
+        if (!this.host.syncsRecords()) return this.queryLocal(orgId, filter);
+        if (!auth.currentUser) return [];
+        // The rules only return entries of modules the user may access, and a query has to say so up front
+        const allowed = this.host.allowedModules();
+        if (allowed && (allowed.length === 0 || (filter.tool && !allowed.includes(filter.tool)))) return [];
+        try {
+            const constraints = [
+                ...(filter.tool ? [where("tool", "==", filter.tool)] : allowed ? [where("tool", "in", allowed)] : []),
+                ...(filter.userId ? [where("userId", "==", filter.userId)] : []),
+                ...(filter.from ? [where("timestamp", ">=", filter.from)] : []),
+                // Inclusive end date: compare against the end of that day
+                ...(filter.to ? [where("timestamp", "<=", filter.to.length === 10 ? `${filter.to}T23:59:59.999Z` : filter.to)] : []),
+                orderBy("timestamp", "desc"),
+                limit(filter.limit || HISTORY_CACHE_LIMIT)
+            ];
+            const snapshot = await getDocs(query(collection(db, "organizations", orgId, "activity"), ...constraints));
+            return snapshot.docs.map(d => d.data() as ActivityLogEntry);
+        } catch (e) {
+            console.error("[Audit] Failed to query activity", e);
+            throw e;
+        }
+    }
+
+    // Same filters as the Firestore query, over the log of a local-only org
+    private async queryLocal(orgId: string, filter: ActivityQuery): Promise<ActivityLogEntry[]> {
+        const to = filter.to && filter.to.length === 10 ? `${filter.to}T23:59:59.999Z` : filter.to;
+        const entries = (await localStore.getAll<LocalActivityEntry>(LOCAL_STORES.ACTIVITY).catch(() => [] as LocalActivityEntry[]))
+            .filter(e => e.orgId === orgId
+                && (!filter.tool || e.tool === filter.tool)
+                && (!filter.userId || e.userId === filter.userId)
+                && (!filter.from || e.timestamp >= filter.from)
+                && (!to || e.timestamp <= to));
+        return entries
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+            .slice(0, filter.limit || HISTORY_CACHE_LIMIT)
+            .map(({ orgId, ...entry }) => entry);
+    }
+}
@@ -0,0 +1,71 @@
+import { StorageProviderType } from "../types";
+import { storage } from "../src/firebaseConfig";
+import { ref, uploadString, getDownloadURL, deleteObject, getMetadata } from "firebase/storage";
+
+// Where an org's module records and binary files (receipt scans, contract images) are kept.
+// Records either replicate to Firestore or stay in this browser's IndexedDB; files go to the adapter's object store.
+export interface StorageAdapter {
+    readonly type: StorageProviderType;
+    // false = air-gapped: records never leave IndexedDB (no sync queue, live updates, trash or version history)
+    readonly syncsRecords: boolean;
+    // Stores a data URL and returns the URL to keep on the record
+    putObject(path: string, dataUrl: string): Promise<string>;
+    deleteObject(url: string): Promise<void>;
+    // Stored size in bytes, for usage metering
+    statObject(url: string): Promise<number>;
+}
+
+// --- LOCAL: IndexedDB only ---
+
+class LocalStorageAdapter implements StorageAdapter {
+    readonly type = 'LOCAL' as const;
+    readonly syncsRecords = false;
+
+    // Files stay inline on the record, which itself lives in IndexedDB
+    async putObject(_path: string, dataUrl: string): Promise<string> {
+        return dataUrl;
+    }
+
+    async deleteObject(_url: string): Promise<void> {}
+
+    async statObject(_url: string): Promise<number> {
+        return 0; // Inline files are metered as part of the record
+    }
+}
+
+// --- FIREBASE: Firestore records + Firebase Storage files ---
+
+class FirebaseStorageAdapter implements StorageAdapter {
+    readonly type = 'FIREBASE' as const;
+    readonly syncsRecords = true;
+
+    async putObject(path: string, dataUrl: string): Promise<string> {
+        const storageRef = ref(storage, path);
+        await uploadString(storageRef, dataUrl, 'data_url');
+        return getDownloadURL(storageRef);
+    }
+
+    async deleteObject(url: string): Promise<void> {
+        await deleteObject(ref(storage, url));
+    }
+
+    async statObject(url: string): Promise<number> {
+        return (await getMetadata(ref(storage, url))).size;
+    }
+}
+
+export const createStorageAdapter = (type: StorageProviderType): StorageAdapter => {
+    switch (type) {
+        case 'LOCAL':
+            return new LocalStorageAdapter();
+        case 'FIREBASE':
+            return new FirebaseStorageAdapter();
+    }
+};
+
+// Orgs saved as 'GCS' (offered before there was a bucket adapter) always had their files in Firebase Storage
+export const resolveStorageProvider = (stored: string | null | undefined): StorageProviderType | null => {
+    if (stored === 'LOCAL' || stored === 'FIREBASE') return stored;
+    if (stored) console.warn(`[Storage] "${stored}" is not a storage provider; using Firebase, where this org's files are kept`);
+    return stored ? 'FIREBASE' : null;
+};
@@ -0,0 +1,119 @@
+import { ActivityLogEntry, StoredAttachment, ViewState } from "../types";
+import { db, auth } from "../src/firebaseConfig";
+import { doc, getDoc, collection, getDocs, query, where, runTransaction, Transaction, arrayUnion, arrayRemove, increment } from "firebase/firestore";
+import { securityService } from "./securityService";
+import { StorageAdapter } from "./storageAdapters";
+import { ATTACHMENT_GC_GRACE_DAYS, isInlineFile, mimeTypeOf, attachmentPath, encryptedAttachmentPath, thumbnailPath, createThumbnail } from "./attachmentStore";
+import { dataUrlBytes, formatBytes } from "./storageQuota";
+import { sanitizePayload } from "./storageRecords";
+
+export interface AttachmentHost {
+    orgId(): string | null;
+    adapter(): StorageAdapter;
+    logActivity(tool: ViewState, action: ActivityLogEntry['action'], details: string): void;
+}
+
+// Content-addressed, reference-counted files: organizations/{orgId}/attachments/{hash} points at the stored object
+// and lists the records using it. Records move their reference inside their own write transaction.
+export class AttachmentRegistry {
+    constructor(private readonly host: AttachmentHost) {}
+
+    private ref(hash: string) {
+        return doc(db, "organizations", this.host.orgId()!, "attachments", hash);
+    }
+
+    async get(hash: string): Promise<StoredAttachment | null> {
+        const snap = await getDoc(this.ref(hash));
+        return snap.exists() && snap.data().url ? snap.data() as StoredAttachment : null;
+    }
+
+    // Uploads the file and its thumbnail under the content hash. Concurrent uploads of the same content
+    // write the same object paths, and whichever registers first wins. Null when the upload failed.
+    async store(hash: string, dataUrl: string, encrypt = false): Promise<StoredAttachment | null> {
+        const orgId = this.host.orgId()!;
+        const mimeType = mimeTypeOf(dataUrl);
+        // Encrypted files are uploaded as the ciphertext text of their data URL, without a (plaintext) thumbnail
+        const payload = encrypt ? `data:application/octet-stream;base64,${btoa(await securityService.encryptField(dataUrl))}` : dataUrl;
+        const url = await this.upload(payload, encrypt ? encryptedAttachmentPath(orgId, hash) : attachmentPath(orgId, hash, mimeType));
+        if (isInlineFile(url)) {
+            // Sensitive files never fall back to living inline in the record
+            if (encrypt) throw new Error("Encrypted file upload failed.");
+            return null;
+        }
+
+        const thumbnail = encrypt ? null : await createThumbnail(dataUrl);
+        const thumbnailUrl = thumbnail ? await this.upload(thumbnail, thumbnailPath(orgId, hash)) : undefined;
+        const now = new Date().toISOString();
+        const attachment: StoredAttachment = {
+            hash,
+            url,
+            thumbnailUrl: thumbnailUrl && !isInlineFile(thumbnailUrl) ? thumbnailUrl : undefined,
+            mimeType,
+            bytes: dataUrlBytes(payload) + (thumbnail ? dataUrlBytes(thumbnail) : 0),
+            refs: [],
+            refCount: 0,
+            ...(encrypt ? { encrypted: true } : {}),
+            createdAt: now,
+            updatedAt: now
+        };
+
+        const ref = this.ref(hash);
+        return runTransaction(db, async (tx) => {
+            const current = await tx.get(ref);
+            if (current.exists() && current.data().url) return current.data() as StoredAttachment;
+            // Refs may already exist if a version restore pointed at this content after it was collected
+            tx.set(ref, sanitizePayload({ ...attachment, ...(current.exists() ? { refs: current.data().refs || [], refCount: current.data().refCount || 0 } : {}) }));
+            return attachment;
+        });
+    }
+
+    // Moves a record's reference from one attachment to another inside the record's own transaction
+    moveRef(tx: Transaction, recordRef: string, fromHash: string | undefined, toHash: string | undefined) {
+        if (fromHash === toHash) return;
+        const updatedAt = new Date().toISOString();
+        if (fromHash) tx.set(this.ref(fromHash), { refs: arrayRemove(recordRef), refCount: increment(-1), updatedAt }, { merge: true });
+        if (toHash) tx.set(this.ref(toHash), { refs: arrayUnion(recordRef), refCount: increment(1), updatedAt }, { merge: true });
+    }
+
+    // Deletes attachments no record (live or trashed) has referenced for the grace period
+    async collectOrphans(): Promise<{ files: number; bytes: number }> {
+        const orgId = this.host.orgId();
+        const adapter = this.host.adapter();
+        if (!auth.currentUser || !orgId || !adapter.syncsRecords) return { files: 0, bytes: 0 };
+        const cutoff = new Date(Date.now() - ATTACHMENT_GC_GRACE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const snapshot = await getDocs(query(collection(db, "organizations", orgId, "attachments"), where("refCount", "<=", 0)));
+        const candidates = snapshot.docs.map(d => d.data() as StoredAttachment).filter(a => a.updatedAt < cutoff);
+
+        let files = 0;
+        let bytes = 0;
+        for (const candidate of candidates) {
+            const ref = this.ref(candidate.hash);
+            // Re-checked in a transaction: a save may have picked the content up again since the query
+            const removed = await runTransaction(db, async (tx) => {
+                const current = await tx.get(ref);
+                if (!current.exists() || (current.data().refCount || 0) > 0) return null;
+                tx.delete(ref);
+                return current.data() as StoredAttachment;
+            });
+            if (!removed) continue;
+            await Promise.all([removed.url, removed.thumbnailUrl].filter((u): u is string => !!u).map(u =>
+                adapter.deleteObject(u).catch(e => console.warn(`[${adapter.type}] Failed to delete attachment ${removed.hash}`, e))
+            ));
+            files++;
+            bytes += removed.bytes || 0;
+        }
+
+        if (files > 0) this.host.logActivity(ViewState.SETTINGS, 'PURGE', `Collected ${files} orphaned attachments (${formatBytes(bytes)})`);
+        return { files, bytes };
+    }
+
+    private async upload(base64: string, path: string): Promise<string> {
+        const adapter = this.host.adapter();
+        try {
+            return await adapter.putObject(path, base64);
+        } catch (e) {
+            console.error(`[${adapter.type}] Upload failed, keeping file inline`, e);
+            return base64; // Fallback
+        }
+    }
+}
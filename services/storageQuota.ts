@@ -0,0 +1,53 @@
+import { DeviceTier, Organization } from "../types";
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Cloud storage allowance per subscription state
+export const SUBSCRIPTION_QUOTAS: Record<Organization['subscriptionStatus'], number> = {
+    Trial: 1 * GB,
+    Active: 25 * GB,
+    Churned: 250 * MB
+};
+
+// Uploads that push usage past this share of the quota ask for confirmation first
+export const QUOTA_WARNING_PERCENT = 90;
+
+// How much module data this device should keep cached locally
+export const DEVICE_CACHE_LIMITS: Record<DeviceTier, number> = {
+    'High-End': 2 * GB,
+    'Mid-Range': 1 * GB,
+    'Low-End': 256 * MB
+};
+
+export class QuotaExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+export const formatBytes = (bytes: number): string =>
+    bytes >= GB ? `${(bytes / GB).toFixed(2)} GB` : `${(bytes / MB).toFixed(1)} MB`;
+
+const utf8Length = (value: string): number => new TextEncoder().encode(value).length;
+
+// Firestore storage size rules: strings are UTF-8 bytes + 1, numbers 8, booleans/null 1, maps sum their field names + values
+const firestoreValueSize = (value: any): number => {
+    if (value === null || value === undefined || typeof value === 'boolean') return 1;
+    if (typeof value === 'number') return 8;
+    if (typeof value === 'string') return utf8Length(value) + 1;
+    if (Array.isArray(value)) return value.reduce((sum, v) => sum + firestoreValueSize(v), 0);
+    return Object.keys(value).reduce((sum, k) => sum + utf8Length(k) + 1 + firestoreValueSize(value[k]), 0);
+};
+
+// Document name (path segments + 16) + fields + 32 bytes of per-document overhead
+export const firestoreDocumentSize = (pathSegments: string[], data: any): number =>
+    pathSegments.reduce((sum, segment) => sum + utf8Length(segment) + 1, 16) + firestoreValueSize(data) + 32;
+
+// Decoded size of a base64 data URL
+export const dataUrlBytes = (dataUrl: string): number => {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.floor(base64.length * 3 / 4) - padding;
+};
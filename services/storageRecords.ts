@@ -0,0 +1,101 @@
+import { ActivityChange, ActivityLogEntry, RecordConflict, ViewState } from "../types";
+import { isEncryptedValue } from "./securityService";
+
+// Record plumbing shared by StorageService and the modules it calls into (sync queue, trash, attachments, vault, activity)
+
+// Module keys map to one Firestore collection per record type: organizations/{orgId}/{collection}/{recordId}
+const MODULE_COLLECTIONS: Record<string, { collection: string; tool: ViewState }> = {
+    founder_os_receipts: { collection: 'receipts', tool: ViewState.FINANCE },
+    founder_os_bank_txs: { collection: 'bankTransactions', tool: ViewState.FINANCE },
+    founder_os_tasks: { collection: 'tasks', tool: ViewState.OPS },
+    founder_os_events: { collection: 'events', tool: ViewState.OPS },
+    founder_os_accounts: { collection: 'accounts', tool: ViewState.SETTINGS },
+    founder_os_timesheets: { collection: 'timesheets', tool: ViewState.TIMESHEETS },
+    founder_os_contracts: { collection: 'contracts', tool: ViewState.CONTRACTS },
+    founder_os_plans: { collection: 'plans', tool: ViewState.PLANNING },
+    founder_os_invoices: { collection: 'invoices', tool: ViewState.INVOICES },
+    founder_os_invoice_templates: { collection: 'invoiceTemplates', tool: ViewState.INVOICES }
+};
+
+// Fields stamped by the service on every record; ignored when diffing for changes
+const LINEAGE_FIELDS = ['lastModified', 'modifiedBy', '_createdAt', '_rev', '_fileBytes', '_attachmentHash', '_schema'];
+
+export interface RecordWrite {
+    recordId: string;
+    record: any | null; // null = delete
+    audit: ActivityLogEntry;
+    baseRev?: number; // Overrides the revision this client last saw (used by undo/restore)
+    purge?: boolean; // Hard delete; a null record otherwise moves the record to Trash
+}
+
+export interface CommitResult {
+    conflicts: RecordConflict[];
+    applied: number;
+}
+
+// This device's copy of a module, one entry per org+module
+export interface CachedModule {
+    id: string;
+    orgId: string;
+    key: string;
+    items: any[];
+    cachedAt: string;
+}
+
+export const MODULE_KEYS = Object.keys(MODULE_COLLECTIONS);
+
+export const isModuleKey = (key: string): boolean => !!MODULE_COLLECTIONS[key];
+
+export const collectionForKey = (key: string): string => MODULE_COLLECTIONS[key]?.collection || key.replace(/^founder_os_/, '');
+
+export const toolForKey = (key: string): ViewState => MODULE_COLLECTIONS[key]?.tool || ViewState.DASHBOARD;
+
+// Firestore rejects undefined: nested undefined values are written as null, dates as ISO strings
+export const sanitizePayload = (obj: any): any => {
+    if (obj === null || obj === undefined) return null;
+    if (typeof obj !== 'object') return obj;
+    if (obj instanceof Date) return obj.toISOString();
+    if (Array.isArray(obj)) return obj.map(v => sanitizePayload(v));
+
+    const newObj: any = {};
+    for (const key in obj) {
+        const val = obj[key];
+        if (val === undefined) {
+            newObj[key] = null;
+        } else {
+            newObj[key] = sanitizePayload(val);
+        }
+    }
+    return newObj;
+};
+
+// Stable form of a record's content (lineage fields left out), for comparing it against the last persisted state
+export const serializeRecord = (item: any): string => {
+    const clean: any = {};
+    Object.keys(item).sort().forEach(k => {
+        if (!LINEAGE_FIELDS.includes(k)) clean[k] = item[k];
+    });
+    return JSON.stringify(sanitizePayload(clean));
+};
+
+export const getPath = (record: any, path: string): any => path.split('.').reduce((node, part) => node?.[part], record);
+
+// Copy of the record with the value at a dotted path replaced (missing parents are left alone)
+export const setPath = (record: any, path: string, value: any): any => {
+    const [head, ...rest] = path.split('.');
+    if (rest.length === 0) return { ...record, [head]: value };
+    if (!record?.[head] || typeof record[head] !== 'object') return record;
+    return { ...record, [head]: setPath(record[head], rest.join('.'), value) };
+};
+
+// Keeps audit entries small: inline images are replaced by a marker instead of copied into the log
+const auditValue = (value: any): any =>
+    typeof value === 'string' && value.startsWith('data:') ? '[inline file]' : isEncryptedValue(value) ? '[encrypted]' : value === undefined ? null : value;
+
+export const diffRecords = (before: any, after: any): ActivityChange[] => {
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    return Array.from(fields)
+        .filter(field => !LINEAGE_FIELDS.includes(field))
+        .filter(field => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after?.[field] ?? null))
+        .map(field => ({ field, before: auditValue(before?.[field]), after: auditValue(after?.[field]) }));
+};
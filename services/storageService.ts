@@ -1,28 +1,213 @@
 
-import { User, StorageProviderType, StorageStats, DeviceTier, ActivityLogEntry, ViewState, ScreenshotItem, AppSettings, Organization } from "../types";
-import { db, storage, auth, functions } from "../src/firebaseConfig";
-import { doc, getDoc, setDoc, updateDoc, collection, getDocs, deleteDoc, query, where, writeBatch } from "firebase/firestore";
-import { ref, uploadString, getDownloadURL, deleteObject } from "firebase/storage";
-import { sendPasswordResetEmail } from "firebase/auth";
+import { User, StorageProviderType, StorageStats, UploadQuotaCheck, SyncStatus, RecordConflict, RecordVersion, BulkOperation, StoredAttachment, VaultConfig, VaultMember, VaultUnlockResult, MfaEnrollmentOffer, MfaStatus, Invitation, UserSession, DeviceTier, ActivityLogEntry, ActivityQuery, ViewState, ScreenshotItem, AppSettings, Organization, BackupManifest, ImportMode, ImportReport, AiUsageCall, AiUsageDay, AiBudgetStatus } from "../types";
+import { db, auth, functions } from "../src/firebaseConfig";
+import { doc, getDoc, setDoc, updateDoc, collection, getDocs, deleteDoc, query, where, writeBatch, orderBy, limit, startAfter, QueryDocumentSnapshot, DocumentData, WriteBatch, runTransaction, onSnapshot } from "firebase/firestore";
+import { sendPasswordResetEmail, onAuthStateChanged, signOut } from "firebase/auth";
 import { httpsCallable } from "firebase/functions";
+import JSZip from 'jszip';
+import { isTrashed, legalHoldUntil } from "./retentionPolicy";
+import { localStore, LOCAL_STORES } from "./localStore";
+import { securityService, VaultLockedError } from "./securityService";
+import { StorageAdapter, createStorageAdapter, resolveStorageProvider } from "./storageAdapters";
+import { INVITE_TTL_DAYS, InvitationError, generateInviteToken, hashInviteToken, inviteLink, invitationProblem } from "./invitations";
+import { SESSION_STORAGE_KEY, SESSION_HEARTBEAT_MS, describeDevice } from "./sessions";
+import { SCHEMA_FIELD, currentSchemaVersion, needsMigration, migrateRecord, migrationsFor } from "./schemaMigrations";
+import { isInlineFile, contentHash } from "./attachmentStore";
+import { SUBSCRIPTION_QUOTAS, QUOTA_WARNING_PERCENT, DEVICE_CACHE_LIMITS, QuotaExceededError, formatBytes, firestoreDocumentSize, dataUrlBytes } from "./storageQuota";
+import { clearAiResultCache } from "./aiResultCache";
+import { estimateAiCostUsd, usageMonthKey, summarizeAiUsage, buildAiBudgetStatus, formatUsd } from "./aiUsage";
+import { BACKUP_SCHEMA_VERSION, MANIFEST_FILE, SETTINGS_FILE, ARCHIVE_FILE_PREFIX, BackupValidationError, validateManifest, fileExtensionFor, planImport } from "./backupArchive";
+import { MODULE_KEYS, CachedModule, CommitResult, RecordWrite, isModuleKey, collectionForKey, toolForKey, sanitizePayload, serializeRecord, diffRecords } from "./storageRecords";
+import { SyncQueue } from "./storageSync";
+import { ActivityLog } from "./storageActivity";
+import { AttachmentRegistry } from "./storageAttachments";
+import { RecordVault, redactChanges, hasEncryptedFields, hasEncryptedFiles } from "./storageVault";
+import { TrashBin } from "./storageTrash";
 
 const STORAGE_KEYS = {
     ACTIVITY_LOG: 'founder_os_activity_log',
-    GLOBAL_SETTINGS: 'founder_os_global_settings'
+    GLOBAL_SETTINGS: 'founder_os_global_settings',
+    STORAGE_PROVIDER: 'founder_os_storage_provider' // Per org, so an air-gapped org boots LOCAL before settings load
 };
 
+// Org-wide policies (see changesPrivilegedSettings() in firestore.rules): shared through Firestore even by local-only orgs,
+// so every member's device and the security rules follow them
+const POLICY_SETTINGS_FIELDS: (keyof AppSettings)[] = ['mfaRequiredRoles', 'sessionIdleTimeoutMinutes', 'piiRedaction', 'aiProvider', 'aiConcurrency', 'storageProvider', 'trashRetentionDays'];
+
+const FIRESTORE_BATCH_LIMIT = 500;
+const TRANSACTION_CHUNK = 150; // Records per optimistic-concurrency transaction (each also writes an audit entry and a version)
+const DEFAULT_PAGE_SIZE = 200;
+const STATS_TTL_MS = 5 * 60 * 1000; // Full usage recount at most this often; saves adjust it in between
+
+// Metered footprint of one stored record: its Firestore document plus the uploaded file it points at
+interface RecordUsage {
+    docBytes: number;
+    fileUrl?: string;
+    fileBytes?: number; // Unknown until stat'ed for files uploaded before metering existed
+}
+
+// Settings of a local-only org, one entry per org
+interface CachedSettings {
+    id: string;
+    settings: AppSettings;
+    savedAt: string;
+}
+
+export type PageCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface RecordPage<T> {
+    items: T[];
+    nextCursor: PageCursor | null;
+}
+
+const pickPolicySettings = (settings: Partial<AppSettings>): Partial<AppSettings> =>
+    Object.fromEntries(POLICY_SETTINGS_FIELDS.filter(field => settings[field] !== undefined).map(field => [field, settings[field]]));
+
+// Module keys and their collections are part of this service's surface (backups, settings screens)
+export { MODULE_KEYS, collectionForKey };
+
 class StorageService {
     private currentOrgId: string | null = null;
-    private saveQueue: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    // Last persisted state per module (recordId -> serialized record), used to compute incremental writes
+    private snapshots: Map<string, Map<string, string>> = new Map();
+    // Revision of each record as last seen by this client; writes only succeed if the server still has it
+    private revisions: Map<string, Map<string, number>> = new Map();
+    private conflicts: RecordConflict[] = [];
+    private conflictListeners: Set<(conflicts: RecordConflict[]) => void> = new Set();
+    private moduleListeners: Map<string, Set<(items: any[]) => void>> = new Map();
+    private remoteUnsubscribers: Map<string, () => void> = new Map();
+    // Bulk operation announced by a module; tags the versions written by its next save so it can be undone
+    private pendingOperations: Map<string, { id: string; label: string }> = new Map();
+    private migratedKeys: Set<string> = new Set();
+    // Serialized module state last handed to/from the UI; identical saves are skipped
+    private lastKnown: Map<string, string> = new Map();
+    // Modules whose UI state came from this device (cache or nothing) instead of the cloud: the record IDs it showed.
+    // Records missing from a save count as deleted only if they are listed; the rest were never seen here.
+    private localBaselines: Map<string, Set<string>> = new Map();
+    // Creation stamps of records the UI added this session (module key -> recordId -> stamp); the UI state doesn't
+    // carry them, so every later save of the record reuses the first one instead of reordering it
+    private createdStamps: Map<string, Map<string, string>> = new Map();
     private _deviceTier: DeviceTier = 'Mid-Range';
+    private adapter: StorageAdapter = createStorageAdapter('FIREBASE');
+    // Storage metering: module key -> recordId -> footprint, kept current by loads and writes
+    private usage: Map<string, Map<string, RecordUsage>> = new Map();
+    private organization: Organization | null = null;
+    private lastStats: { stats: StorageStats; computedAt: number } | null = null;
+    // AI spend this month: re-read from the org's daily aggregates now and then, this session's calls added as they happen
+    private aiSpend: { month: string; spentUsd: number; loadedAt: number } | null = null;
+    private aiSpendLoad: Promise<void> | null = null;
+    private aiBudgetListeners: Set<(status: AiBudgetStatus) => void> = new Set();
+    // Viewers can't write module data (enforced by the security rules); their edits stay in memory
+    private readOnly = false;
+    private admin = false;
+    // Modules the signed-in user may see; null = all (Admins, or profiles without an access list)
+    private allowedModules: ViewState[] | null = null;
+    private lastHeartbeat = 0;
+
+    // Parts of the service kept in their own modules; each sees the org and the record write path through its host
+    private readonly sync = new SyncQueue({
+        orgId: () => this.currentOrgId,
+        adapter: () => this.adapter,
+        canReachCloud: () => this.canReachCloud,
+        knownIdsFor: key => this.localBaselines.get(key),
+        hasCloudBaseline: key => this.snapshots.has(key),
+        fetchRemote: key => this.fetchRemote(key),
+        performCloudSave: (key, data, knownIds) => this.performCloudSave(key, data, knownIds),
+        sealLocalRecords: (key, items) => this.vault.sealLocalRecords(key, items),
+        openLocalRecords: (key, items) => this.vault.openLocalRecords(key, items)
+    });
+    private readonly activity = new ActivityLog({
+        orgId: () => this.currentOrgId,
+        syncsRecords: () => this.adapter.syncsRecords,
+        allowedModules: () => this.allowedModules
+    });
+    private readonly attachments = new AttachmentRegistry({
+        orgId: () => this.currentOrgId,
+        adapter: () => this.adapter,
+        logActivity: (tool, action, details) => this.logActivity(tool, action, details)
+    });
+    private readonly vault = new RecordVault({
+        orgId: () => this.currentOrgId,
+        isAdmin: () => this.admin,
+        getSystemUsers: () => this.getSystemUsers(),
+        logActivity: (tool, action, details) => this.logActivity(tool, action, details),
+        flushQueue: () => this.flushQueue(),
+        reencryptAll: () => this.reencryptAll()
+    });
+    private readonly trash = new TrashBin({
+        orgId: () => this.currentOrgId,
+        adapter: () => this.adapter,
+        isAdmin: () => this.admin,
+        loadGlobalSettings: () => this.loadGlobalSettings(),
+        recordRef: (colName, id) => this.recordRef(colName, id),
+        readRecords: (key, raw) => this.readRecords(key, raw),
+        trackPersisted: (key, items, reset) => this.trackPersisted(key, items, reset),
+        commit: (key, writes) => this.commitWithRevisionCheck(key, writes),
+        raiseConflicts: conflicts => this.raiseConflicts(conflicts),
+        fetchRemote: key => this.fetchRemote(key),
+        publishRemoteState: (key, items) => this.publishRemoteState(key, items),
+        buildActivityEntry: (tool, action, details, record) => this.activity.build(tool, action, details, record)
+    });
 
     constructor() {
         this._deviceTier = this.detectDeviceTier();
+
+        // Replay queued writes whenever the signed-in session comes back (the queue itself watches connectivity)
+        onAuthStateChanged(auth, (firebaseUser) => {
+            if (!firebaseUser) return;
+            this.flushQueue();
+            this.moduleListeners.forEach((_, key) => this.ensureRemoteListener(key));
+        });
     }
 
     configure(user: User) {
+        if (this.currentOrgId !== user.organizationId) {
+            this.snapshots.clear();
+            this.revisions.clear();
+            this.conflicts = [];
+            this.remoteUnsubscribers.forEach(stop => stop());
+            this.remoteUnsubscribers.clear();
+            this.migratedKeys.clear();
+            this.activity.reset();
+            this.lastKnown.clear();
+            this.localBaselines.clear();
+            this.createdStamps.clear();
+            this.usage.clear();
+            this.organization = null;
+            this.lastStats = null;
+            this.aiSpend = null;
+            this.vault.reset();
+        }
         this.currentOrgId = user.organizationId;
-        console.log(`[Storage] Configured for Organization: ${this.currentOrgId}`);
+        this.readOnly = user.role === 'Viewer';
+        this.admin = user.role === 'Admin' || user.role === 'SuperAdmin';
+        this.allowedModules = this.admin || !Array.isArray(user.allowedModules) ? null : user.allowedModules;
+        const provider = resolveStorageProvider(localStorage.getItem(`${STORAGE_KEYS.STORAGE_PROVIDER}:${this.currentOrgId}`));
+        if (provider && provider !== this.adapter.type) this.adapter = createStorageAdapter(provider);
+        console.log(`[Storage] Configured for Organization: ${this.currentOrgId} (${this.adapter.type})`);
+        this.sync.refreshStatus();
+        this.moduleListeners.forEach((_, key) => this.ensureRemoteListener(key));
+    }
+
+    // Switches the org's storage backend; settings without a provider keep the current one
+    applyStorageSettings(settings: AppSettings) {
+        const provider = resolveStorageProvider(settings.storageProvider);
+        if (!provider || !this.currentOrgId) return;
+        const wasSyncing = this.adapter.syncsRecords;
+        this.adapter = createStorageAdapter(provider);
+        localStorage.setItem(`${STORAGE_KEYS.STORAGE_PROVIDER}:${this.currentOrgId}`, provider);
+
+        if (wasSyncing && !this.adapter.syncsRecords) {
+            this.remoteUnsubscribers.forEach(stop => stop());
+            this.remoteUnsubscribers.clear();
+        } else if (!wasSyncing && this.adapter.syncsRecords) {
+            this.moduleListeners.forEach((_, key) => this.ensureRemoteListener(key));
+            this.flushQueue();
+        }
+    }
+
+    getStorageProvider(): StorageProviderType {
+        return this.adapter.type;
     }
 
     private detectDeviceTier(): DeviceTier {
@@ -39,47 +224,26 @@ class StorageService {
         return auth.currentUser?.uid || 'guest';
     }
 
-    // --- HELPER: Sanitize Payload for Firestore ---
-    private sanitizePayload(obj: any): any {
-        if (obj === null || obj === undefined) return null;
-        if (typeof obj !== 'object') return obj;
-        if (obj instanceof Date) return obj.toISOString();
-        if (Array.isArray(obj)) return obj.map(v => this.sanitizePayload(v));
-        
-        const newObj: any = {};
-        for (const key in obj) {
-            const val = obj[key];
-            if (val === undefined) {
-                newObj[key] = null;
-            } else {
-                newObj[key] = this.sanitizePayload(val);
-            }
-        }
-        return newObj;
-    }
-
     // --- TENANT MANAGEMENT (Super Admin) ---
 
-    async createOrganization(name: string, adminEmail: string, adminName: string): Promise<string> {
+    // New tenant plus an invitation for its first Admin, who joins by creating an account from the returned link
+    async createOrganization(name: string, adminEmail: string, adminName: string): Promise<{ orgId: string; invitation: Invitation; link: string }> {
         const orgId = crypto.randomUUID();
-        const batch = writeBatch(db);
-
-        // 1. Create Organization Doc
-        const orgRef = doc(db, "organizations", orgId);
         const newOrg: Organization = {
             id: orgId,
             name,
             subscriptionStatus: 'Trial',
             createdAt: new Date().toISOString()
         };
-        batch.set(orgRef, newOrg);
+        await setDoc(doc(db, "organizations", orgId), newOrg);
 
-        // 2. Note: We do NOT create the user here in Auth because we can't create users for others easily without Admin SDK.
-        // We will just return the OrgID so the UI can proceed to create the user profile or trigger an invite.
-        // But for consistency with the request, we can create the User Profile in Firestore waiting for them to claim it.
-        
-        await batch.commit();
-        return orgId;
+        const { invitation, link } = await this.createInvitation({
+            email: adminEmail,
+            name: adminName || 'Admin',
+            role: 'Admin',
+            allowedModules: Object.values(ViewState)
+        }, newOrg);
+        return { orgId, invitation, link };
     }
 
     async getOrganizations(): Promise<Organization[]> {
@@ -99,7 +263,16 @@ class StorageService {
         if (!this.currentOrgId) return;
         try {
             const settingsRef = doc(db, "organizations", this.currentOrgId, "config", "global_settings");
-            await setDoc(settingsRef, this.sanitizePayload(settings), { merge: true });
+            if (settings.storageProvider === 'LOCAL') {
+                // Local-only orgs keep their settings on this device; only the org-wide policies are shared
+                await localStore.put<CachedSettings>(LOCAL_STORES.SETTINGS, { id: this.currentOrgId, settings: await this.vault.encryptSettings(settings), savedAt: new Date().toISOString() });
+                if (auth.currentUser) {
+                    setDoc(settingsRef, sanitizePayload(pickPolicySettings(settings)), { merge: true })
+                        .catch(e => console.error("Error sharing settings policies:", e));
+                }
+                return;
+            }
+            await setDoc(settingsRef, sanitizePayload(await this.vault.encryptSettings(settings)), { merge: true });
         } catch (e) {
             console.error("Error saving global settings:", e);
             throw e;
@@ -108,16 +281,18 @@ class StorageService {
 
     async loadGlobalSettings(): Promise<AppSettings | null> {
         if (!this.currentOrgId) return null;
+        const cached = this.adapter.syncsRecords ? undefined
+            : await localStore.get<CachedSettings>(LOCAL_STORES.SETTINGS, this.currentOrgId).catch(() => undefined);
+        const local = cached && { ...cached, settings: await this.vault.decryptSettings(cached.settings) };
         try {
             const settingsRef = doc(db, "organizations", this.currentOrgId, "config", "global_settings");
             const snap = await getDoc(settingsRef);
-            if (snap.exists()) {
-                return snap.data() as AppSettings;
-            }
-            return null;
+            const shared = snap.exists() ? await this.vault.decryptSettings(snap.data() as AppSettings) : null;
+            // Policies changed by another Admin (including a switch back to the cloud) apply on this device too
+            return local ? { ...local.settings, ...pickPolicySettings(shared || {}) } : shared;
         } catch (e) {
             console.error("Error loading global settings:", e);
-            return null;
+            return local?.settings || null;
         }
     }
 
@@ -150,13 +325,21 @@ class StorageService {
             const existingSnap = await getDoc(userRef);
             const existingData = existingSnap.exists() ? existingSnap.data() : {};
 
-            const safeUser = this.sanitizePayload({
+            // Only the MFA functions change mfaVerified; a stale copy from the admin list must not overwrite it
+            const safeUser = sanitizePayload({
                 ...existingData,
                 ...user,
+                mfaVerified: existingSnap.exists() ? existingData.mfaVerified ?? false : user.mfaVerified,
                 updatedAt: new Date().toISOString()
             });
 
             await setDoc(userRef, safeUser, { merge: true });
+
+            // Suspended users lose their wrapped copies of the org encryption key and are signed out everywhere
+            if (user.status === 'Suspended' && existingData.status !== 'Suspended') {
+                await this.revokeVaultAccess(userId);
+                await this.revokeAllSessions({ ...user, id: userId });
+            }
         } catch (e) {
             console.error("Error saving user profile:", e);
             throw e;
@@ -166,26 +349,117 @@ class StorageService {
     async deleteSystemUser(userId: string): Promise<void> {
         try {
             await deleteDoc(doc(db, "users", userId));
+            await this.vault.deleteMember(userId);
         } catch (e) {
             console.error("Error deleting user:", e);
             throw e;
         }
     }
 
-    async sendUserInvite(user: User, method: 'email' | 'phone' = 'email'): Promise<boolean> {
-        if (method === 'email' && user.email) {
-            try {
-                await sendPasswordResetEmail(auth, user.email);
-            } catch (e: any) {
-                if (e.code === 'auth/user-not-found') {
-                    // In a real app, triggers backend creation. 
-                    console.log("User not in Auth yet. Profile created in Firestore.");
-                }
-            }
-            await this.saveSystemUser({ ...user, status: 'Pending Validation', verificationSentAt: new Date().toISOString() });
-            return true;
+    // --- INVITATIONS ---
+    // Invitees create their own account from the link; the token only exists in the link (see invitations.ts)
+
+    private invitationRef(id: string) {
+        return doc(db, "invitations", id);
+    }
+
+    async createInvitation(
+        details: Pick<Invitation, 'email' | 'name' | 'role' | 'allowedModules' | 'department'>,
+        organization?: Organization
+    ): Promise<{ invitation: Invitation; link: string }> {
+        const org = organization || await this.loadOrganization();
+        if (!org) throw new InvitationError("No organization to invite to.");
+        if (details.role === 'SuperAdmin') throw new InvitationError("SuperAdmins can't be invited.");
+        const token = generateInviteToken();
+        const invitation: Invitation = {
+            ...details,
+            id: await hashInviteToken(token),
+            organizationId: org.id,
+            organizationName: org.name,
+            email: details.email.trim().toLowerCase(),
+            status: 'Pending',
+            invitedBy: auth.currentUser?.email || undefined,
+            createdAt: new Date().toISOString(),
+            expiresAt: Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000
+        };
+        await setDoc(this.invitationRef(invitation.id), sanitizePayload(invitation));
+        if (org.id === this.currentOrgId) this.logActivity(ViewState.ADMIN, 'CREATE', `Invited ${invitation.email} as ${invitation.role}`);
+        return { invitation, link: inviteLink(token) };
+    }
+
+    // Pending and expired invitations of the current org, newest first
+    async listInvitations(): Promise<Invitation[]> {
+        if (!this.currentOrgId) return [];
+        try {
+            const snapshot = await getDocs(query(
+                collection(db, "invitations"),
+                where("organizationId", "==", this.currentOrgId),
+                where("status", "==", 'Pending')
+            ));
+            return snapshot.docs.map(d => d.data() as Invitation).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        } catch (e) {
+            console.error("Error fetching invitations:", e);
+            return [];
         }
-        return false;
+    }
+
+    async revokeInvitation(invitation: Invitation): Promise<void> {
+        await updateDoc(this.invitationRef(invitation.id), {
+            status: 'Revoked',
+            revokedAt: new Date().toISOString(),
+            revokedBy: auth.currentUser?.email || null
+        });
+        this.logActivity(ViewState.ADMIN, 'DELETE', `Revoked invitation for ${invitation.email}`);
+    }
+
+    // The old link stops working; a new one with a fresh expiry replaces it
+    async resendInvitation(invitation: Invitation): Promise<{ invitation: Invitation; link: string }> {
+        await this.revokeInvitation(invitation);
+        const { email, name, role, allowedModules, department } = invitation;
+        return this.createInvitation({ email, name, role, allowedModules, department });
+    }
+
+    // Looked up before sign-up, so anyone holding the token may read it
+    async getInvitation(token: string): Promise<Invitation | null> {
+        try {
+            const snap = await getDoc(this.invitationRef(await hashInviteToken(token)));
+            return snap.exists() ? snap.data() as Invitation : null;
+        } catch (e) {
+            console.error("Error loading invitation:", e);
+            return null;
+        }
+    }
+
+    // Called right after the invitee's account was created (or signed in without a profile): creates the profile
+    // with the pre-assigned role and modules and marks the invitation used, atomically
+    async acceptInvitation(token: string, name?: string): Promise<User> {
+        const fbUser = auth.currentUser;
+        if (!fbUser) throw new InvitationError("Sign in to accept the invitation.");
+        const invitation = await this.getInvitation(token);
+        const problem = invitationProblem(invitation);
+        if (problem) throw new InvitationError(problem);
+        if ((fbUser.email || '').toLowerCase() !== invitation!.email) {
+            throw new InvitationError(`This invitation is for ${invitation!.email}.`);
+        }
+
+        const user: User = {
+            id: fbUser.uid,
+            organizationId: invitation!.organizationId,
+            email: invitation!.email,
+            name: name || invitation!.name,
+            role: invitation!.role,
+            allowedModules: invitation!.allowedModules,
+            department: invitation!.department,
+            status: 'Active',
+            mfaVerified: false,
+            isEmailVerified: fbUser.emailVerified,
+            invitationId: invitation!.id
+        };
+        const batch = writeBatch(db);
+        batch.set(doc(db, "users", fbUser.uid), sanitizePayload(user));
+        batch.update(this.invitationRef(invitation!.id), { status: 'Accepted', acceptedAt: new Date().toISOString(), acceptedBy: fbUser.uid });
+        await batch.commit();
+        return user;
     }
 
     async initiatePasswordReset(email: string): Promise<boolean> {
@@ -197,119 +471,1415 @@ class StorageService {
         }
     }
 
-    // --- DATA PERSISTENCE (Scoped to Organization) ---
+    // --- MULTI-FACTOR AUTHENTICATION (TOTP) ---
+    // Asked for by the sign-in screen after the password step. Codes are checked by the MFA functions, which keep the
+    // secret out of the browser's reach and mark the sign-in in the token; the security rules require that mark.
 
-    // Debounced Save
-    save(key: string, data: any): void {
-        const debounceMs = 2000;
-        if (this.saveQueue.has(key)) {
-            clearTimeout(this.saveQueue.get(key)!);
+    // What a user who just passed the password step still has to do; errors propagate so sign-in fails closed
+    async getMfaStatus(): Promise<MfaStatus> {
+        const { data } = await httpsCallable<void, MfaStatus>(functions, 'mfaStatus')();
+        return data;
+    }
+
+    // New secret and backup codes; nothing is active until confirmMfaEnrollment sees a valid code from the app
+    async beginMfaEnrollment(): Promise<MfaEnrollmentOffer> {
+        const { data } = await httpsCallable<void, MfaEnrollmentOffer>(functions, 'mfaBeginEnrollment')();
+        return data;
+    }
+
+    async confirmMfaEnrollment(code: string): Promise<boolean> {
+        const { data } = await httpsCallable<{ code: string }, { verified: boolean }>(functions, 'mfaConfirmEnrollment')({ code });
+        if (data.verified) await this.refreshMfaToken();
+        return data.verified;
+    }
+
+    // A current TOTP code or an unused backup code (which is consumed); null if neither matches
+    async verifyMfa(code: string): Promise<'totp' | 'backup' | null> {
+        const { data } = await httpsCallable<{ code: string }, { method: 'totp' | 'backup' | null }>(functions, 'mfaVerify')({ code });
+        if (data.method) await this.refreshMfaToken();
+        return data.method;
+    }
+
+    // The claim marking this sign-in as verified only reaches Firestore with a fresh ID token
+    private async refreshMfaToken() {
+        await auth.currentUser?.getIdToken(true);
+    }
+
+    // Admin: removes the user's authenticator; they enroll again at the next sign-in if their role requires MFA
+    async resetMfa(user: User): Promise<void> {
+        if (!user.id) return;
+        await httpsCallable<{ userId: string }, void>(functions, 'mfaReset')({ userId: user.id });
+        this.logActivity(ViewState.ADMIN, 'EDIT', `Reset two-factor authentication for ${user.email}`);
+    }
+
+    // --- SESSIONS & DEVICES ---
+    // One document per signed-in browser (users/{uid}/sessions/{id}). A heartbeat keeps it and User.lastActive fresh;
+    // ending it from another device or by an Admin signs that browser out through watchSession.
+
+    private sessionRef(userId: string, sessionId: string) {
+        return doc(db, "users", userId, "sessions", sessionId);
+    }
+
+    getCurrentSessionId(): string | null {
+        return localStorage.getItem(SESSION_STORAGE_KEY);
+    }
+
+    async startSession(user: User): Promise<string | null> {
+        const fbUser = auth.currentUser;
+        if (!fbUser) return null;
+        const now = new Date().toISOString();
+        const session: UserSession = {
+            id: crypto.randomUUID(),
+            userId: fbUser.uid,
+            organizationId: user.organizationId,
+            device: describeDevice(navigator.userAgent),
+            userAgent: navigator.userAgent,
+            createdAt: now,
+            lastSeenAt: now
+        };
+        try {
+            await setDoc(this.sessionRef(fbUser.uid, session.id), session);
+            await updateDoc(doc(db, "users", fbUser.uid), { lastActive: now });
+        } catch (e) {
+            console.error("[Session] Failed to register session", e);
+        }
+        localStorage.setItem(SESSION_STORAGE_KEY, session.id);
+        this.lastHeartbeat = Date.now();
+        return session.id;
+    }
+
+    // A sign-in restored from this browser only counts while its session is open and the profile isn't suspended
+    async resumeSession(): Promise<boolean> {
+        await auth.authStateReady();
+        const fbUser = auth.currentUser;
+        const sessionId = this.getCurrentSessionId();
+        if (!fbUser || !sessionId) return false;
+        try {
+            const [sessionSnap, profileSnap] = await Promise.all([
+                getDoc(this.sessionRef(fbUser.uid, sessionId)),
+                getDoc(doc(db, "users", fbUser.uid))
+            ]);
+            if (!sessionSnap.exists() || (sessionSnap.data() as UserSession).endedAt) return false;
+            return profileSnap.exists() && (profileSnap.data() as User).status !== 'Suspended';
+        } catch (e) {
+            // Offline: keep working from the cache; watchSession catches a revocation once connected
+            console.warn("[Session] Could not verify session", e);
+            return true;
+        }
+    }
+
+    // Called on user input; writes at most once per SESSION_HEARTBEAT_MS
+    async touchSession(): Promise<void> {
+        const fbUser = auth.currentUser;
+        const sessionId = this.getCurrentSessionId();
+        if (!fbUser || !sessionId || !this.sync.online) return;
+        if (Date.now() - this.lastHeartbeat < SESSION_HEARTBEAT_MS) return;
+        this.lastHeartbeat = Date.now();
+        const now = new Date().toISOString();
+        try {
+            await updateDoc(this.sessionRef(fbUser.uid, sessionId), { lastSeenAt: now });
+            await updateDoc(doc(db, "users", fbUser.uid), { lastActive: now });
+        } catch (e) {
+            console.warn("[Session] Heartbeat failed", e);
+        }
+    }
+
+    // Notifies when this browser's session is ended elsewhere (another device or an Admin)
+    watchSession(onEnded: (reason: UserSession['endReason']) => void): () => void {
+        let stop: (() => void) | null = null;
+        let cancelled = false;
+        auth.authStateReady().then(() => {
+            const fbUser = auth.currentUser;
+            const sessionId = this.getCurrentSessionId();
+            if (cancelled || !fbUser || !sessionId) return;
+            stop = onSnapshot(this.sessionRef(fbUser.uid, sessionId), snap => {
+                if (snap.metadata.fromCache) return;
+                const session = snap.exists() ? snap.data() as UserSession : null;
+                if (!session || session.endedAt) onEnded(session?.endReason || 'revoked');
+            }, e => console.warn("[Session] Watch failed", e));
+        });
+        return () => {
+            cancelled = true;
+            stop?.();
+        };
+    }
+
+    // Signs this browser out; the session doc is closed unless it already was (revoked remotely)
+    async endSession(reason: UserSession['endReason'] = 'signed-out'): Promise<void> {
+        const fbUser = auth.currentUser;
+        const sessionId = this.getCurrentSessionId();
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+        // Cached AI extractions hold the org's data in readable form once the vault opens them
+        await clearAiResultCache().catch(e => console.warn("[Session] Could not clear the AI cache", e));
+        if (fbUser && sessionId && reason !== 'revoked' && this.sync.online) {
+            await updateDoc(this.sessionRef(fbUser.uid, sessionId), { endedAt: new Date().toISOString(), endReason: reason })
+                .catch(e => console.warn("[Session] Could not close session", e));
+        }
+        await signOut(auth).catch(e => console.error("[Session] Sign-out failed", e));
+    }
+
+    // Newest first, including recently ended sessions
+    async listSessions(userId: string): Promise<UserSession[]> {
+        try {
+            const snapshot = await getDocs(query(collection(db, "users", userId, "sessions"), orderBy("lastSeenAt", "desc"), limit(50)));
+            return snapshot.docs.map(d => d.data() as UserSession);
+        } catch (e) {
+            console.error("Error fetching sessions:", e);
+            return [];
+        }
+    }
+
+    async revokeSession(userId: string, sessionId: string): Promise<void> {
+        await updateDoc(this.sessionRef(userId, sessionId), {
+            endedAt: new Date().toISOString(),
+            endReason: 'revoked',
+            endedBy: auth.currentUser?.email || null
+        });
+    }
+
+    // Sign-out everywhere: the revokeSessions function ends every open session and revokes the user's tokens, so a copied
+    // token stops working too. Keeping this device signed in means ending the other sessions only (Firebase can't revoke
+    // single tokens); their browsers drop out within seconds through watchSession.
+    async revokeAllSessions(user: User, exceptSessionId?: string): Promise<number> {
+        const userId = user.id || this.uid;
+        let revoked: number;
+        if (exceptSessionId) {
+            const open = (await this.listSessions(userId)).filter(s => !s.endedAt && s.id !== exceptSessionId);
+            await this.commitInChunks(open.map(s => (batch: WriteBatch) => batch.update(this.sessionRef(userId, s.id), {
+                endedAt: new Date().toISOString(),
+                endReason: 'revoked',
+                endedBy: auth.currentUser?.email || null
+            })));
+            revoked = open.length;
+        } else {
+            revoked = (await httpsCallable<{ userId: string }, { revoked: number }>(functions, 'revokeSessions')({ userId })).data.revoked;
         }
+        if (userId !== auth.currentUser?.uid && revoked > 0) {
+            this.logActivity(ViewState.ADMIN, 'EDIT', `Signed out ${user.email} everywhere (${revoked} session${revoked === 1 ? '' : 's'})`);
+        }
+        return revoked;
+    }
 
-        const timeout = setTimeout(async () => {
-            await this.performCloudSave(key, data);
-            this.saveQueue.delete(key);
-        }, debounceMs);
+    // --- DATA PERSISTENCE (Scoped to Organization; queue and replay in storageSync.ts) ---
+
+    // Local-first Save: the module state is cached and queued durably right away, the cloud write is debounced
+    save(key: string, data: any): void {
+        if (!this.currentOrgId || !Array.isArray(data) || this.readOnly) return;
+        // Modules are only written after they were read this session, so empty initial UI state never clobbers stored data
+        if (!this.lastKnown.has(key)) return;
+        const serialized = JSON.stringify(data);
+        if (this.lastKnown.get(key) === serialized) return;
+        this.lastKnown.set(key, serialized);
 
-        this.saveQueue.set(key, timeout);
+        this.sync.queue(this.currentOrgId, key, this.stampCreation(key, data));
     }
 
-    private async performCloudSave(key: string, data: any) {
+    // New records keep the array order (newest first) via a descending creation stamp, fixed when first saved,
+    // so the cached copy, the queue and retention all see the same value as the cloud
+    private stampCreation(key: string, data: any[]): any[] {
+        const stamps = this.createdStamps.get(key) || new Map<string, string>();
+        this.createdStamps.set(key, stamps);
+        const now = Date.now();
+        return data.map((item, index) => {
+            if (!item || typeof item !== 'object' || !item.id || item._createdAt) return item;
+            if (!stamps.has(item.id)) stamps.set(item.id, new Date(now - index).toISOString());
+            return { ...item, _createdAt: stamps.get(item.id) };
+        });
+    }
+
+    private get canReachCloud(): boolean {
+        return !!auth.currentUser && !!this.currentOrgId && this.sync.online && this.adapter.syncsRecords;
+    }
+
+    // Replays queued module writes to Firestore; safe to call repeatedly
+    flushQueue(): Promise<void> {
+        return this.sync.flush();
+    }
+
+    // Direct cloud writes (e.g. imports) supersede anything still queued for that module
+    private async markSynced(key: string, data: any[]) {
+        const items = await this.vault.sealLocalRecords(key, data);
+        await localStore.put<CachedModule>(LOCAL_STORES.MODULES, { id: `${this.currentOrgId}:${key}`, orgId: this.currentOrgId!, key, items, cachedAt: new Date().toISOString() });
+        this.lastKnown.set(key, JSON.stringify(data));
+        this.localBaselines.delete(key);
+        await this.sync.discard(key);
+    }
+
+    // --- SYNC STATUS ---
+
+    getSyncStatus(): SyncStatus {
+        return this.sync.getStatus();
+    }
+
+    subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+        return this.sync.subscribe(listener);
+    }
+
+    // --- CLOUD WRITES ---
+
+    private async performCloudSave(key: string, data: any, knownIds?: string[]) {
         if (!auth.currentUser || !this.currentOrgId) return;
+        if (!Array.isArray(data)) {
+            console.warn(`[Cloud] Ignoring non-array payload for ${key}`);
+            return;
+        }
 
         try {
-            // Process images
-            let processedData = data;
             const lineageMeta = {
                 lastModified: new Date().toISOString(),
                 modifiedBy: auth.currentUser.email
             };
+            const baseline = this.snapshots.get(key);
+            // Records with an unresolved conflict are held back until the user picks a version
+            const held = new Set(this.conflicts.filter(c => c.moduleKey === key).map(c => c.recordId));
+            const next = new Map<string, string>();
+            const upserts: any[] = [];
 
-            if (Array.isArray(data)) {
-                processedData = await Promise.all(data.map(async (item) => {
-                    let itemWithMeta = typeof item === 'object' ? { ...item, ...lineageMeta } : item;
-                    // Image handling (upload base64 to Storage)
-                    if (itemWithMeta.imageUrl && itemWithMeta.imageUrl.startsWith('data:')) {
-                        const url = await this.uploadBase64ToStorage(itemWithMeta.imageUrl, `organizations/${this.currentOrgId}/images/${crypto.randomUUID()}.jpg`);
-                        itemWithMeta = { ...itemWithMeta, imageUrl: url };
-                    }
-                    return itemWithMeta;
-                }));
+            data.forEach((item, index) => {
+                if (!item || typeof item !== 'object' || !item.id) return;
+                const serialized = serializeRecord(item);
+                if (held.has(item.id)) {
+                    if (baseline?.has(item.id)) next.set(item.id, baseline.get(item.id)!);
+                    return;
+                }
+                next.set(item.id, serialized);
+                if (baseline?.get(item.id) !== serialized) {
+                    // Stamped by save(); the fallback only covers entries queued before stamps were kept
+                    upserts.push({ _createdAt: item._createdAt || new Date(Date.now() - index).toISOString(), [SCHEMA_FIELD]: currentSchemaVersion(key), ...item });
+                }
+            });
+
+            // Deletes are only inferred against a state we actually loaded or saved, never against an empty startup array,
+            // and for an edit of the local copy only among the records that copy held
+            const seen = knownIds && new Set(knownIds);
+            const deletes = baseline ? Array.from(baseline.keys()).filter(id => !next.has(id) && !held.has(id) && (!seen || seen.has(id))) : [];
+            held.forEach(id => { if (baseline?.has(id) && !next.has(id)) next.set(id, baseline.get(id)!); });
+            if (seen) baseline?.forEach((value, id) => { if (!next.has(id) && !seen.has(id)) next.set(id, value); });
+            if (upserts.length === 0 && deletes.length === 0) return;
+
+            // Inline files are hashed first: content the org already stores is neither re-uploaded nor charged again.
+            // Files of encrypted modules are addressed per data key, so a key rotation stores them anew.
+            const encryptFiles = hasEncryptedFiles(key) && !!(await this.vault.load());
+            const dataKey = securityService.getActiveDataKey();
+            if (encryptFiles && !dataKey && upserts.some(item => isInlineFile(item.imageUrl))) throw new VaultLockedError();
+            const hashes = await Promise.all(upserts.map(async item => {
+                if (!isInlineFile(item.imageUrl)) return null;
+                const hash = await contentHash(item.imageUrl);
+                return encryptFiles ? `${hash}-${dataKey!.keyId}` : hash;
+            }));
+            const known = new Map<string, StoredAttachment | null>();
+            for (const hash of new Set(hashes.filter((h): h is string => !!h))) {
+                known.set(hash, await this.attachments.get(hash));
             }
+            const newFileBytes = Array.from(known.entries())
+                .filter(([, existing]) => !existing)
+                .reduce((sum, [hash]) => sum + dataUrlBytes(upserts[hashes.indexOf(hash)].imageUrl), 0);
+            await this.assertWithinQuota(newFileBytes);
 
-            // Save to Organization Collection
-            // Mapping friendly keys to collection names if needed, but 'modules/{key}' works for document-based blobs
-            const docRef = doc(db, "organizations", this.currentOrgId, "modules", key);
-            
-            const safePayload = this.sanitizePayload(Array.isArray(processedData) ? { items: processedData, ...lineageMeta } : { ...processedData, ...lineageMeta });
-            
-            await setDoc(docRef, safePayload);
-            console.log(`[Cloud] Synced ${key} to Org ${this.currentOrgId}`);
+            const uploads = new Map<string, Promise<StoredAttachment | null>>();
+            const processed = await Promise.all(upserts.map(async (item, i) => {
+                const itemWithMeta = { ...item, ...lineageMeta };
+                const hash = hashes[i];
+                if (!hash) return itemWithMeta;
+                if (!uploads.has(hash)) uploads.set(hash, known.get(hash) ? Promise.resolve(known.get(hash)!) : this.attachments.store(hash, item.imageUrl, encryptFiles));
+                const attachment = await uploads.get(hash)!;
+                // Upload failed: the file stays inline and is retried on the next save
+                if (!attachment) return itemWithMeta;
+                return {
+                    ...itemWithMeta,
+                    imageUrl: attachment.url,
+                    thumbnailUrl: attachment.thumbnailUrl,
+                    ...(attachment.encrypted ? { imageEncrypted: true } : {}),
+                    _attachmentHash: hash,
+                    _fileBytes: attachment.bytes
+                };
+            }));
+            const stored = await Promise.all(processed.map(item => this.vault.encryptRecordFields(key, item)));
+
+            const colName = collectionForKey(key);
+            const previous = (id: string) => baseline?.has(id) ? JSON.parse(baseline.get(id)!) : null;
+            const writes: RecordWrite[] = [
+                ...processed.map((item, i) => ({
+                    recordId: item.id,
+                    record: stored[i],
+                    audit: previous(item.id)
+                        ? this.activity.build(toolForKey(key), 'EDIT', `Updated ${colName} record`, { collection: colName, recordId: item.id, changes: redactChanges(key, diffRecords(previous(item.id), item)) })
+                        : this.activity.build(toolForKey(key), 'CREATE', `Created ${colName} record`, { collection: colName, recordId: item.id, changes: redactChanges(key, diffRecords(null, item)) })
+                })),
+                ...deletes.map(id => ({
+                    recordId: id,
+                    record: null,
+                    audit: this.activity.build(toolForKey(key), 'DELETE', `Moved ${colName} record to trash`, { collection: colName, recordId: id, changes: redactChanges(key, diffRecords(previous(id), null)) })
+                }))
+            ];
+
+            const operation = this.pendingOperations.get(key);
+            const { conflicts, applied } = await this.commitWithRevisionCheck(key, writes, { operationId: operation?.id });
+            if (operation) {
+                this.pendingOperations.delete(key);
+                if (applied > 0) await this.recordBulkOperation(key, operation.id, operation.label, applied);
+            }
+
+            // Conflicting records keep the server's version as the baseline until resolved
+            conflicts.forEach(c => {
+                if (c.theirs) next.set(c.recordId, serializeRecord(c.theirs));
+                else next.delete(c.recordId);
+            });
+            this.snapshots.set(key, next);
+            if (conflicts.length > 0) this.raiseConflicts(conflicts);
+            console.log(`[Cloud] Synced ${key} to Org ${this.currentOrgId} (${processed.length} upserted, ${deletes.length} trashed, ${conflicts.length} conflicts)`);
 
         } catch (e) {
             console.error(`[Cloud] Save failed for ${key}`, e);
+            throw e;
         }
     }
 
-    private async uploadBase64ToStorage(base64: string, path: string): Promise<string> {
+    // --- OPTIMISTIC CONCURRENCY ---
+
+    // Writes each record only if the server revision still matches the one this client based its edit on.
+    // Record + audit entry commit in the same transaction; stale records come back as conflicts.
+    // Deletes are soft (the document stays, stamped as trashed) unless the write asks for a purge.
+    private async commitWithRevisionCheck(key: string, writes: RecordWrite[], options: { force?: boolean; operationId?: string } = {}): Promise<CommitResult> {
+        const colName = collectionForKey(key);
+        const revs = this.revisions.get(key) || new Map<string, number>();
+        this.revisions.set(key, revs);
+        const conflicts: RecordConflict[] = [];
+        let appliedCount = 0;
+
+        for (let i = 0; i < writes.length; i += TRANSACTION_CHUNK) {
+            const chunk = writes.slice(i, i + TRANSACTION_CHUNK);
+            const applied = await runTransaction(db, async (tx) => {
+                // Transactions may re-run: results are rebuilt on every attempt
+                const attemptConflicts: RecordConflict[] = [];
+                const attemptApplied: { recordId: string; rev: number | null; stored?: any }[] = [];
+                const remote = await Promise.all(chunk.map(w => tx.get(this.recordRef(colName, w.recordId))));
+
+                chunk.forEach((w, idx) => {
+                    const snap = remote[idx];
+                    const remoteData = snap.exists() ? snap.data() : null;
+                    const remoteLive = remoteData && !isTrashed(remoteData) ? remoteData : null;
+                    const remoteRev = remoteData ? (remoteData._rev || 0) : 0;
+                    const baseRev = w.baseRev ?? (revs.get(w.recordId) || 0);
+                    const ref = this.recordRef(colName, w.recordId);
+
+                    if (!w.record && !(w.purge ? remoteData : remoteLive)) return; // Already gone (or trashed) remotely
+                    if (!options.force && remoteRev !== baseRev) {
+                        attemptConflicts.push({
+                            id: crypto.randomUUID(),
+                            moduleKey: key,
+                            collection: colName,
+                            recordId: w.recordId,
+                            mine: w.record,
+                            theirs: remoteLive,
+                            theirsModifiedBy: remoteData ? (remoteData._deletedBy || remoteData.modifiedBy) : undefined,
+                            detectedAt: new Date().toISOString()
+                        });
+                        return;
+                    }
+                    if (w.record) {
+                        // A stamped legal hold outlives any edit (see keepsLegalHold() in firestore.rules)
+                        const hold = remoteData?._legalHoldUntil !== undefined ? { _legalHoldUntil: remoteData._legalHoldUntil } : {};
+                        const stored = sanitizePayload({ ...w.record, ...hold, _rev: remoteRev + 1 });
+                        tx.set(ref, stored);
+                        attemptApplied.push({ recordId: w.recordId, rev: remoteRev + 1, stored });
+                    } else if (w.purge) {
+                        tx.delete(ref);
+                        attemptApplied.push({ recordId: w.recordId, rev: null });
+                    } else {
+                        const stored = sanitizePayload({
+                            ...remoteData,
+                            _deletedAt: w.audit.timestamp,
+                            _deletedBy: auth.currentUser?.email,
+                            _legalHoldUntil: legalHoldUntil(key, remoteData),
+                            _rev: remoteRev + 1
+                        });
+                        tx.set(ref, stored);
+                        attemptApplied.push({ recordId: w.recordId, rev: remoteRev + 1, stored });
+                    }
+                    tx.set(this.activity.ref(w.audit.id), sanitizePayload(w.audit));
+                    this.attachments.moveRef(tx, `${colName}/${w.recordId}`, remoteData?._attachmentHash, w.record ? w.record._attachmentHash : w.purge ? undefined : remoteData?._attachmentHash);
+
+                    const version: RecordVersion = {
+                        id: crypto.randomUUID(),
+                        moduleKey: key,
+                        collection: colName,
+                        recordId: w.recordId,
+                        revBefore: remoteRev,
+                        revAfter: w.purge ? null : remoteRev + 1,
+                        before: remoteLive,
+                        timestamp: w.audit.timestamp,
+                        userId: this.uid,
+                        userEmail: auth.currentUser?.email || undefined,
+                        operationId: options.operationId
+                    };
+                    tx.set(this.versionRef(version.id), sanitizePayload(version));
+                });
+                return { conflicts: attemptConflicts, applied: attemptApplied };
+            });
+
+            applied.applied.forEach(a => a.rev === null ? revs.delete(a.recordId) : revs.set(a.recordId, a.rev));
+            this.meterRecords(key, applied.applied.filter(a => a.stored).map(a => a.stored), applied.applied.filter(a => !a.stored).map(a => a.recordId));
+            applied.conflicts.forEach(c => c.theirs ? revs.set(c.recordId, c.theirs._rev || 0) : revs.delete(c.recordId));
+            conflicts.push(...applied.conflicts);
+            appliedCount += applied.applied.length;
+        }
+        return { conflicts, applied: appliedCount };
+    }
+
+    private raiseConflicts(conflicts: RecordConflict[]) {
+        const incoming = new Set(conflicts.map(c => `${c.moduleKey}:${c.recordId}`));
+        this.conflicts = [...this.conflicts.filter(c => !incoming.has(`${c.moduleKey}:${c.recordId}`)), ...conflicts];
+        this.conflictListeners.forEach(l => l(this.conflicts));
+    }
+
+    getConflicts(): RecordConflict[] {
+        return this.conflicts;
+    }
+
+    subscribeConflicts(listener: (conflicts: RecordConflict[]) => void): () => void {
+        this.conflictListeners.add(listener);
+        listener(this.conflicts);
+        return () => { this.conflictListeners.delete(listener); };
+    }
+
+    // Persists the version the user picked (theirs, mine or a field-level merge); null keeps the record deleted
+    async resolveConflict(conflictId: string, resolution: any | null): Promise<void> {
+        const conflict = this.conflicts.find(c => c.id === conflictId);
+        if (!conflict || !auth.currentUser) return;
+
+        const colName = conflict.collection;
+        const record = resolution ? { ...resolution, id: conflict.recordId, lastModified: new Date().toISOString(), modifiedBy: auth.currentUser.email } : null;
+        await this.commitWithRevisionCheck(conflict.moduleKey, [{
+            recordId: conflict.recordId,
+            record,
+            audit: this.activity.build(toolForKey(conflict.moduleKey), record ? 'EDIT' : 'DELETE', `Resolved edit conflict on ${colName} record`, {
+                collection: colName,
+                recordId: conflict.recordId,
+                changes: diffRecords(conflict.theirs, record)
+            })
+        }], { force: true });
+
+        const baseline = this.snapshots.get(conflict.moduleKey);
+        if (baseline) {
+            if (record) baseline.set(conflict.recordId, serializeRecord(record));
+            else baseline.delete(conflict.recordId);
+        }
+        this.conflicts = this.conflicts.filter(c => c.id !== conflictId);
+        this.conflictListeners.forEach(l => l(this.conflicts));
+
+        // Push the resolved state to the UI even though it originated locally
+        const items = await this.fetchRemote<any>(conflict.moduleKey);
+        this.publishRemoteState(conflict.moduleKey, items);
+    }
+
+    // --- VERSION HISTORY & UNDO ---
+
+    private versionRef(id: string) {
+        return doc(db, "organizations", this.currentOrgId!, "versions", id);
+    }
+
+    private bulkOperationRef(id: string) {
+        return doc(db, "organizations", this.currentOrgId!, "bulkOperations", id);
+    }
+
+    // Call right before applying a mass change (search/replace, bulk delete) to a module's state
+    beginBulkOperation(key: string, label: string): string {
+        const id = crypto.randomUUID();
+        this.pendingOperations.set(key, { id, label });
+        return id;
+    }
+
+    private async recordBulkOperation(key: string, id: string, label: string, recordCount: number) {
+        const operation: BulkOperation = {
+            id,
+            moduleKey: key,
+            label,
+            timestamp: new Date().toISOString(),
+            userId: this.uid,
+            userEmail: auth.currentUser?.email || undefined,
+            recordCount,
+            undone: false
+        };
+        await setDoc(this.bulkOperationRef(id), sanitizePayload(operation));
+    }
+
+    // Writes queued by the debounce must reach the server before history is rewritten
+    private flushPendingSaves(): Promise<void> {
+        return this.sync.flushPending();
+    }
+
+    async getRecordVersions(key: string, recordId: string): Promise<RecordVersion[]> {
+        if (!auth.currentUser || !this.currentOrgId || !this.adapter.syncsRecords) return [];
+        const snapshot = await getDocs(query(
+            collection(db, "organizations", this.currentOrgId, "versions"),
+            where("moduleKey", "==", key),
+            where("recordId", "==", recordId),
+            orderBy("timestamp", "desc")
+        ));
+        return snapshot.docs.map(d => d.data() as RecordVersion);
+    }
+
+    async getBulkOperations(max = 20): Promise<BulkOperation[]> {
+        if (!auth.currentUser || !this.currentOrgId || !this.adapter.syncsRecords) return [];
+        const snapshot = await getDocs(query(collection(db, "organizations", this.currentOrgId, "bulkOperations"), orderBy("timestamp", "desc"), limit(max)));
+        return snapshot.docs.map(d => d.data() as BulkOperation);
+    }
+
+    // Reverts every record touched by the most recent (not yet undone) bulk operation in the org
+    async undoLastBulkOperation(): Promise<BulkOperation | null> {
+        if (!auth.currentUser || !this.currentOrgId || !this.adapter.syncsRecords) return null;
+        await this.flushPendingSaves();
+
+        const snapshot = await getDocs(query(
+            collection(db, "organizations", this.currentOrgId, "bulkOperations"),
+            where("undone", "==", false),
+            orderBy("timestamp", "desc"),
+            limit(1)
+        ));
+        if (snapshot.empty) return null;
+        const operation = snapshot.docs[0].data() as BulkOperation;
+
+        // Filtering on the module lets the security rules check the user's access to it
+        const versions = (await getDocs(query(
+            collection(db, "organizations", this.currentOrgId, "versions"),
+            where("moduleKey", "==", operation.moduleKey),
+            where("operationId", "==", operation.id)
+        )))
+            .docs.map(d => d.data() as RecordVersion);
+        const writes = this.revertWrites(operation.moduleKey, versions, `Undid "${operation.label}"`);
+        const { conflicts } = await this.commitWithRevisionCheck(operation.moduleKey, writes);
+        if (conflicts.length > 0) this.raiseConflicts(conflicts);
+
+        await updateDoc(this.bulkOperationRef(operation.id), { undone: true, undoneAt: new Date().toISOString(), undoneBy: auth.currentUser.email });
+        this.publishRemoteState(operation.moduleKey, await this.fetchRemote(operation.moduleKey));
+        return operation;
+    }
+
+    // Rewinds a module to how it looked at the end of the given day (YYYY-MM-DD); the restore itself is undoable
+    async restoreModuleToDate(key: string, date: string): Promise<{ restored: number; conflicts: number }> {
+        if (!auth.currentUser || !this.currentOrgId) throw new Error("Sign in to restore module data.");
+        if (!this.adapter.syncsRecords) throw new Error("Version history is only kept for organizations that sync to the cloud.");
+        await this.flushPendingSaves();
+
+        const cutoff = `${date}T23:59:59.999Z`;
+        const current = await this.fetchRemote<any>(key);
+        const versions = (await getDocs(query(
+            collection(db, "organizations", this.currentOrgId, "versions"),
+            where("moduleKey", "==", key),
+            where("timestamp", ">", cutoff),
+            orderBy("timestamp", "asc")
+        ))).docs.map(d => d.data() as RecordVersion);
+
+        // Only the latest revision matters as base; reverting to a state equal to the current one is skipped
+        const currentById = new Map(current.map(r => [r.id, r]));
+        const writes = this.revertWrites(key, versions, `Restored to ${date}`).filter(w => {
+            const now = currentById.get(w.recordId);
+            if (!w.record) return !!now;
+            return !now || serializeRecord(now) !== serializeRecord(w.record);
+        });
+        if (writes.length === 0) return { restored: 0, conflicts: 0 };
+
+        const operationId = crypto.randomUUID();
+        const { conflicts, applied } = await this.commitWithRevisionCheck(key, writes, { operationId });
+        if (applied > 0) await this.recordBulkOperation(key, operationId, `Restore ${collectionForKey(key)} to ${date}`, applied);
+        if (conflicts.length > 0) this.raiseConflicts(conflicts);
+
+        this.publishRemoteState(key, await this.fetchRemote(key));
+        return { restored: applied, conflicts: conflicts.length };
+    }
+
+    // Earliest version after a point holds the state before it; the latest holds the revision to build on
+    private revertWrites(key: string, versions: RecordVersion[], reason: string): RecordWrite[] {
+        const colName = collectionForKey(key);
+        const byRecord = new Map<string, { first: RecordVersion; last: RecordVersion }>();
+        [...versions].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).forEach(v => {
+            const entry = byRecord.get(v.recordId);
+            byRecord.set(v.recordId, { first: entry?.first || v, last: v });
+        });
+
+        return Array.from(byRecord.values()).map(({ first, last }) => ({
+            recordId: first.recordId,
+            record: first.before,
+            baseRev: last.revAfter ?? 0,
+            audit: this.activity.build(toolForKey(key), first.before ? 'EDIT' : 'DELETE', `${reason} (${colName} record)`, {
+                collection: colName,
+                recordId: first.recordId,
+                changes: diffRecords(null, first.before)
+            })
+        }));
+    }
+
+    // --- TRASH & RETENTION (see storageTrash.ts) ---
+
+    loadTrash<T>(key: string): Promise<T[]> {
+        return this.trash.load<T>(key);
+    }
+
+    listExpiredTrash(key: string, trashed?: any[]): Promise<string[]> {
+        return this.trash.listExpired(key, trashed);
+    }
+
+    get isAdmin(): boolean {
+        return this.admin;
+    }
+
+    get organizationId(): string | null {
+        return this.currentOrgId;
+    }
+
+    purgeExpiredTrash(key: string): Promise<number> {
+        return this.trash.purgeExpired(key);
+    }
+
+    restoreFromTrash(key: string, recordIds: string[]): Promise<number> {
+        return this.trash.restore(key, recordIds);
+    }
+
+    purgeFromTrash(key: string, recordIds: string[], reason?: string): Promise<number> {
+        return this.trash.purge(key, recordIds, reason);
+    }
+
+    // --- LIVE UPDATES ---
+
+    // Streams remote changes of a module (other users' edits) into the UI without a reload
+    subscribe<T>(key: string, onChange: (items: T[]) => void): () => void {
+        if (!this.moduleListeners.has(key)) this.moduleListeners.set(key, new Set());
+        const listeners = this.moduleListeners.get(key)!;
+        listeners.add(onChange as (items: any[]) => void);
+        this.ensureRemoteListener(key);
+
+        return () => {
+            listeners.delete(onChange as (items: any[]) => void);
+            if (listeners.size === 0) {
+                this.remoteUnsubscribers.get(key)?.();
+                this.remoteUnsubscribers.delete(key);
+            }
+        };
+    }
+
+    private ensureRemoteListener(key: string) {
+        if (!auth.currentUser || !this.currentOrgId || !this.adapter.syncsRecords || this.remoteUnsubscribers.has(key)) return;
+        const q = query(collection(db, "organizations", this.currentOrgId, collectionForKey(key)), orderBy('_createdAt', 'desc'));
+        let latest = 0;
+        const stop = onSnapshot(q, async (snapshot) => {
+            // Ignore our own optimistic echoes and don't clobber edits that are still on their way to the server
+            if (snapshot.metadata.hasPendingWrites || this.sync.hasUnsentEdits(key)) return;
+            const seq = ++latest;
+            const docs = await this.readRecords(key, snapshot.docs.map(d => d.data()));
+            if (seq !== latest) return; // A newer snapshot arrived while decrypting
+            this.trackPersisted(key, docs.filter(isTrashed), false);
+            const items = docs.filter(d => !isTrashed(d));
+            if (JSON.stringify(items) === this.lastKnown.get(key)) return;
+            this.publishRemoteState(key, items);
+        }, (e) => console.error(`[Cloud] Live updates failed for ${key}`, e));
+        this.remoteUnsubscribers.set(key, stop);
+    }
+
+    private publishRemoteState(key: string, items: any[]) {
+        this.trackPersisted(key, items, true);
+        this.lastKnown.set(key, JSON.stringify(items));
+        this.localBaselines.delete(key);
+        if (this.currentOrgId) {
+            const orgId = this.currentOrgId;
+            const id = `${orgId}:${key}`;
+            this.vault.sealLocalRecords(key, items)
+                .then(sealed => localStore.put<CachedModule>(LOCAL_STORES.MODULES, { id, orgId, key, items: sealed, cachedAt: new Date().toISOString() }))
+                .catch(e => console.error(`[Local] Failed to cache ${key}`, e));
+        }
+        this.moduleListeners.get(key)?.forEach(l => l(items));
+    }
+
+    // Remembers what the server holds (content + revision) as the baseline for the next incremental save.
+    // Revisions are never reset: trashed records keep theirs so a restore or re-import of the same ID isn't a conflict.
+    private trackPersisted(key: string, items: any[], reset: boolean) {
+        const known = reset ? new Map<string, string>() : (this.snapshots.get(key) || new Map<string, string>());
+        const revs = this.revisions.get(key) || new Map<string, number>();
+        if (reset) this.usage.delete(key);
+        this.meterRecords(key, items);
+        items.forEach((item: any) => {
+            revs.set(item.id, item._rev || 0);
+            if (isTrashed(item)) known.delete(item.id);
+            else known.set(item.id, serializeRecord(item));
+        });
+        this.snapshots.set(key, known);
+        this.revisions.set(key, revs);
+    }
+
+    private recordRef(colName: string, id: string) {
+        return doc(db, "organizations", this.currentOrgId!, colName, id);
+    }
+
+    private async commitInChunks(ops: ((batch: WriteBatch) => void)[]) {
+        for (let i = 0; i < ops.length; i += FIRESTORE_BATCH_LIMIT) {
+            const batch = writeBatch(db);
+            ops.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach(op => op(batch));
+            await batch.commit();
+        }
+    }
+
+    // --- ATTACHMENTS (see storageAttachments.ts) ---
+
+    collectOrphanedAttachments(): Promise<{ files: number; bytes: number }> {
+        return this.attachments.collectOrphans();
+    }
+
+    // --- LOADING ---
+
+    // Offline-first Load: unsynced local edits win, then the cloud, then the last cached copy
+    async load<T>(key: string): Promise<T[]> {
+        if (!this.currentOrgId) return [];
+        const id = `${this.currentOrgId}:${key}`;
+
+        const pending = await this.sync.pendingEntry(key).catch(() => undefined);
+        if (pending) {
+            const data = await this.vault.openLocalRecords(key, pending.data);
+            this.setLocalBaseline(key, data, pending.knownIds);
+            this.flushQueue();
+            return data as T[];
+        }
+
+        if (this.canReachCloud) {
+            try {
+                const items = await this.fetchRemote<T>(key);
+                await this.vault.sealLocalRecords(key, items)
+                    .then(sealed => localStore.put<CachedModule>(LOCAL_STORES.MODULES, { id, orgId: this.currentOrgId!, key, items: sealed, cachedAt: new Date().toISOString() }))
+                    .catch(e => console.error(`[Local] Failed to cache ${key}`, e));
+                this.lastKnown.set(key, JSON.stringify(items));
+                this.localBaselines.delete(key);
+                return items;
+            } catch (e) {
+                console.error(`[Cloud] Load failed for ${key}, serving local cache`, e);
+            }
+        }
+        const cached = await this.loadCached<T>(key);
+        if (cached) return cached;
+        // Nothing stored on this device either: edits still save, as additions to whatever the cloud holds
+        this.setLocalBaseline(key, [], []);
+        return [];
+    }
+
+    // Baseline for saves of a module shown from this device's copy; knownIds undefined = the copy was a cloud state
+    private setLocalBaseline(key: string, items: any[], knownIds: string[] | undefined) {
+        this.lastKnown.set(key, JSON.stringify(items));
+        if (knownIds) this.localBaselines.set(key, new Set(knownIds));
+        else this.localBaselines.delete(key);
+    }
+
+    // Immediate read of the local copy (pending edits or last cloud snapshot), without touching the network
+    async loadCached<T>(key: string): Promise<T[] | null> {
+        if (!this.currentOrgId) return null;
+        const id = `${this.currentOrgId}:${key}`;
         try {
-            const storageRef = ref(storage, path);
-            await uploadString(storageRef, base64, 'data_url');
-            return await getDownloadURL(storageRef);
+            const pending = await this.sync.pendingEntry(key);
+            if (pending) {
+                const data = await this.vault.openLocalRecords(key, pending.data);
+                this.setLocalBaseline(key, data, pending.knownIds);
+                return data as T[];
+            }
+            const cached = await localStore.get<CachedModule>(LOCAL_STORES.MODULES, id);
+            if (!cached) return null;
+            const items = await this.readRecords(key, cached.items);
+            this.setLocalBaseline(key, items, items.map((item: any) => item?.id).filter(Boolean));
+            return items as T[];
         } catch (e) {
-            return base64; // Fallback
+            console.error(`[Local] Cache read failed for ${key}`, e);
+            return null;
         }
     }
 
-    async load<T>(key: string): Promise<T[]> {
-        if (!auth.currentUser || !this.currentOrgId) return [];
+    private async fetchRemote<T>(key: string): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: PageCursor | null = null;
+        do {
+            const page: RecordPage<T> = await this.loadPage<T>(key, { cursor });
+            items.push(...page.items);
+            cursor = page.nextCursor;
+        } while (cursor);
+        return items;
+    }
+
+    async loadPage<T>(key: string, options: { pageSize?: number; cursor?: PageCursor | null } = {}): Promise<RecordPage<T>> {
+        if (!auth.currentUser || !this.currentOrgId || !this.adapter.syncsRecords) return { items: [], nextCursor: null };
+        await this.migrateLegacyModule(key);
+
+        const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+        const constraints = [orderBy('_createdAt', 'desc'), ...(options.cursor ? [startAfter(options.cursor)] : []), limit(pageSize)];
+        const snapshot = await getDocs(query(collection(db, "organizations", this.currentOrgId, collectionForKey(key)), ...constraints));
+        const docs = await this.readRecords(key, snapshot.docs.map(d => d.data()));
+
+        // Track what is persisted so the next save only writes the difference
+        this.trackPersisted(key, docs, !options.cursor);
+
+        // Trashed records are filtered client-side, so a page can hold fewer than pageSize items
+        return {
+            items: docs.filter(d => !isTrashed(d)) as T[],
+            nextCursor: snapshot.docs.length === pageSize ? snapshot.docs[snapshot.docs.length - 1] : null
+        };
+    }
+
+    // --- ENCRYPTION VAULT (see storageVault.ts) ---
+
+    loadVault(): Promise<VaultConfig | null> {
+        return this.vault.load();
+    }
+
+    isVaultLocked(): boolean {
+        return this.vault.isLocked();
+    }
+
+    unlockVault(password: string, passwordVerified = false): Promise<VaultUnlockResult> {
+        return this.vault.unlock(password, passwordVerified);
+    }
+
+    unlockWithRecoveryCode(code: string): Promise<VaultUnlockResult> {
+        return this.vault.unlockWithRecoveryCode(code);
+    }
+
+    lockVault() {
+        securityService.lockVault();
+    }
+
+    setupVault(password: string): Promise<{ records: number; files: number; recoveryCode: string }> {
+        return this.vault.setup(password);
+    }
+
+    regenerateRecoveryCode(): Promise<string> {
+        return this.vault.regenerateRecoveryCode();
+    }
+
+    listVaultMembers(): Promise<VaultMember[]> {
+        return this.vault.listMembers();
+    }
+
+    grantVaultAccess(userIds?: string[]): Promise<number> {
+        return this.vault.grantAccess(userIds);
+    }
+
+    revokeVaultAccess(userId: string): Promise<void> {
+        return this.vault.revokeAccess(userId);
+    }
+
+    rotateVaultKey(): Promise<{ records: number; files: number }> {
+        return this.vault.rotateKey();
+    }
+
+    changePassword(currentPassword: string, newPassword: string): Promise<void> {
+        return this.vault.changePassword(currentPassword, newPassword);
+    }
+
+    openFile(url: string, encrypted?: boolean): Promise<string> {
+        return this.vault.openFile(url, encrypted);
+    }
+
+    // Brings settings, designated record fields and files of every module to the active data key
+    private async reencryptAll(): Promise<{ records: number; files: number }> {
+        const active = securityService.getActiveDataKey();
+        if (!active) throw new VaultLockedError();
+        await this.flushPendingSaves();
+        const result = { records: 0, files: 0 };
+
+        const settings = await this.loadGlobalSettings();
+        if (settings) await this.saveGlobalSettings(settings);
+        const resealed = await this.vault.resealLocalCache();
+        // Records of local-only orgs never reach Firestore; the cached copy is all there is
+        if (!this.adapter.syncsRecords) return { ...result, records: resealed };
+
+        for (const key of MODULE_KEYS.filter(k => hasEncryptedFields(k) || hasEncryptedFiles(k))) {
+            const colName = collectionForKey(key);
+            const snapshot = await getDocs(collection(db, "organizations", this.currentOrgId!, colName));
+            const writes: RecordWrite[] = [];
+            const replacedFiles: string[] = [];
+
+            for (const raw of snapshot.docs.map(d => d.data())) {
+                let record = raw;
+                if (!this.vault.fieldsCurrent(key, raw, active.keyId)) {
+                    record = await this.vault.encryptRecordFields(key, await this.vault.decryptRecordFields(key, raw));
+                }
+                const fileCurrent = !record.imageUrl || (record.imageEncrypted && record._attachmentHash?.endsWith(`-${active.keyId}`));
+                if (hasEncryptedFiles(key) && !fileCurrent) {
+                    const plain = isInlineFile(record.imageUrl) ? record.imageUrl : await this.openFile(record.imageUrl, record.imageEncrypted);
+                    const id = `${await contentHash(plain)}-${active.keyId}`;
+                    const attachment = (await this.attachments.get(id)) || (await this.attachments.store(id, plain, true))!;
+                    // Files from before content addressing belong to this record alone and are deleted once replaced
+                    if (!record._attachmentHash && !isInlineFile(record.imageUrl)) replacedFiles.push(record.imageUrl);
+                    const { thumbnailUrl, ...rest } = record;
+                    record = { ...rest, imageUrl: attachment.url, imageEncrypted: true, _attachmentHash: id, _fileBytes: attachment.bytes };
+                    result.files++;
+                }
+                if (record === raw) continue;
+                writes.push({
+                    recordId: raw.id,
+                    record,
+                    baseRev: raw._rev || 0,
+                    audit: this.activity.build(toolForKey(key), 'EDIT', `Encrypted ${colName} record with key ${active.keyId}`, { collection: colName, recordId: raw.id })
+                });
+            }
+            if (writes.length === 0) continue;
+
+            const { conflicts, applied } = await this.commitWithRevisionCheck(key, writes);
+            if (conflicts.length > 0) this.raiseConflicts(conflicts);
+            result.records += applied;
+            await Promise.all(replacedFiles.map(url => this.adapter.deleteObject(url).catch(e => console.warn(`[${this.adapter.type}] Failed to delete plaintext file`, e))));
+            this.publishRemoteState(key, await this.fetchRemote(key));
+        }
+        return result;
+    }
+
+    // Upgrade + decryption of records as they come out of storage
+    private async readRecords(key: string, raw: any[]): Promise<any[]> {
+        const upgraded = this.upgradeRecords(key, raw);
+        if (!hasEncryptedFields(key)) return upgraded;
+        return Promise.all(upgraded.map(record => this.vault.decryptRecordFields(key, record)));
+    }
+
+    // --- SCHEMA MIGRATIONS ---
+
+    // Upgrade on read: the UI and the save baseline only ever see current-schema records.
+    // Upgraded records reach the server with the next edit or the bulk upgrade below.
+    private upgradeRecords(key: string, records: any[]): any[] {
+        if (migrationsFor(key).length === 0) return records;
+        return records.map(record => {
+            try {
+                return migrateRecord(key, record);
+            } catch (e) {
+                console.error(`[Schema] Serving ${key} record ${record.id} unmigrated`, e);
+                return record;
+            }
+        });
+    }
+
+    // Number of stored records per module that are behind the current schema (trashed ones included)
+    async getPendingMigrations(): Promise<Record<string, number>> {
+        const pending: Record<string, number> = {};
+        if (!auth.currentUser || !this.currentOrgId || !this.adapter.syncsRecords) return pending;
+        for (const key of MODULE_KEYS.filter(k => migrationsFor(k).length > 0)) {
+            const snapshot = await getDocs(collection(db, "organizations", this.currentOrgId, collectionForKey(key)));
+            pending[key] = snapshot.docs.filter(d => needsMigration(key, d.data())).length;
+        }
+        return pending;
+    }
+
+    // Admin bulk action: rewrites every outdated record at the current schema. Each module is one undoable bulk operation.
+    async migrateAllRecords(): Promise<{ migrated: number; failed: number; conflicts: number }> {
+        const result = { migrated: 0, failed: 0, conflicts: 0 };
+        if (!auth.currentUser || !this.currentOrgId || !this.adapter.syncsRecords) return result;
+        await this.flushPendingSaves();
+
+        for (const key of MODULE_KEYS.filter(k => migrationsFor(k).length > 0)) {
+            const colName = collectionForKey(key);
+            const snapshot = await getDocs(collection(db, "organizations", this.currentOrgId, colName));
+            const writes: RecordWrite[] = [];
+            snapshot.docs.map(d => d.data()).filter(r => needsMigration(key, r)).forEach(raw => {
+                try {
+                    const record = migrateRecord(key, raw);
+                    writes.push({
+                        recordId: raw.id,
+                        record,
+                        baseRev: raw._rev || 0,
+                        audit: this.activity.build(toolForKey(key), 'EDIT', `Migrated ${colName} record to schema v${record[SCHEMA_FIELD]}`, { collection: colName, recordId: raw.id, changes: diffRecords(raw, record) })
+                    });
+                } catch (e) {
+                    console.error(`[Schema] Skipping ${key} record ${raw.id}`, e);
+                    result.failed++;
+                }
+            });
+            if (writes.length === 0) continue;
+
+            const operationId = crypto.randomUUID();
+            const { conflicts, applied } = await this.commitWithRevisionCheck(key, writes, { operationId });
+            if (applied > 0) await this.recordBulkOperation(key, operationId, `Schema migration (${colName})`, applied);
+            if (conflicts.length > 0) this.raiseConflicts(conflicts);
+            result.migrated += applied;
+            result.conflicts += conflicts.length;
+            this.publishRemoteState(key, await this.fetchRemote(key));
+        }
+        return result;
+    }
+
+    // --- LEGACY MIGRATION: split organizations/{orgId}/modules/{key} blobs into per-record documents ---
+
+    private async migrateLegacyModule(key: string) {
+        if (!this.currentOrgId || this.migratedKeys.has(key)) return;
         try {
-            const docRef = doc(db, "organizations", this.currentOrgId, "modules", key);
-            const snapshot = await getDoc(docRef);
+            const legacyRef = doc(db, "organizations", this.currentOrgId, "modules", key);
+            const snapshot = await getDoc(legacyRef);
             if (snapshot.exists()) {
-                const data = snapshot.data();
-                return (data.items || data) as T[];
+                const items: any[] = Array.isArray(snapshot.data().items) ? snapshot.data().items : [];
+                const colName = collectionForKey(key);
+                const now = Date.now();
+                await this.commitInChunks([
+                    ...items.filter(item => item && item.id).map((item, index) => (batch: WriteBatch) =>
+                        batch.set(this.recordRef(colName, item.id), sanitizePayload({ _createdAt: new Date(now - index).toISOString(), ...item }))
+                    ),
+                    (batch: WriteBatch) => batch.delete(legacyRef)
+                ]);
+                console.log(`[Migration] Split ${items.length} ${key} records out of legacy module document`);
             }
-            return [];
+            this.migratedKeys.add(key);
         } catch (e) {
-            console.error(`[Cloud] Load failed for ${key}`, e);
-            return [];
+            console.error(`[Migration] Failed to migrate legacy module ${key}`, e);
         }
     }
 
-    async getStats(): Promise<StorageStats> {
+    // --- STORAGE METERING & QUOTAS ---
+
+    private meterRecords(key: string, records: any[], removedIds: string[] = []) {
+        if (!this.currentOrgId) return;
+        const colName = collectionForKey(key);
+        const metered = this.usage.get(key) || new Map<string, RecordUsage>();
+        records.forEach(record => {
+            const hostedFile = typeof record.imageUrl === 'string' && !record.imageUrl.startsWith('data:') ? record.imageUrl : undefined;
+            metered.set(record.id, {
+                docBytes: firestoreDocumentSize(['organizations', this.currentOrgId!, colName, record.id], record),
+                fileUrl: hostedFile,
+                fileBytes: hostedFile ? record._fileBytes : 0
+            });
+        });
+        removedIds.forEach(id => metered.delete(id));
+        this.usage.set(key, metered);
+        if (this.lastStats) this.lastStats = { ...this.lastStats, stats: this.buildStats(this.lastStats.stats.quotaBytes) };
+    }
+
+    private buildStats(quotaBytes: number): StorageStats {
+        let usageBytes = 0;
+        // Records sharing an attachment share one stored file
+        const files = new Map<string, number>();
+        this.usage.forEach(records => records.forEach(r => {
+            usageBytes += r.docBytes;
+            if (r.fileUrl) files.set(r.fileUrl, r.fileBytes || 0);
+        }));
+        files.forEach(bytes => { usageBytes += bytes; });
         return {
-            usageBytes: 0,
-            quotaBytes: 1024 * 1024 * 1024,
-            percentUsed: 0,
+            usageBytes,
+            quotaBytes,
+            percentUsed: quotaBytes > 0 ? (usageBytes / quotaBytes) * 100 : 0,
             tier: this._deviceTier,
-            recommendedLimitBytes: 1024 * 1024 * 1024
+            recommendedLimitBytes: DEVICE_CACHE_LIMITS[this._deviceTier]
+        };
+    }
+
+    private async loadOrganization(): Promise<Organization | null> {
+        if (this.organization || !this.currentOrgId || !auth.currentUser) return this.organization;
+        try {
+            const snap = await getDoc(doc(db, "organizations", this.currentOrgId));
+            this.organization = snap.exists() ? snap.data() as Organization : null;
+        } catch (e) {
+            console.error("[Quota] Failed to load organization", e);
+        }
+        return this.organization;
+    }
+
+    // Org usage: every module's documents (including Trash) plus hosted files. Activity and version history are not metered.
+    async getStats(): Promise<StorageStats> {
+        if (this.lastStats && Date.now() - this.lastStats.computedAt < STATS_TTL_MS) return this.lastStats.stats;
+        if (!this.currentOrgId) return this.buildStats(SUBSCRIPTION_QUOTAS.Trial);
+
+        if (this.canReachCloud) {
+            for (const key of MODULE_KEYS) {
+                if (this.usage.has(key)) continue;
+                try {
+                    // Untouched modules are only read for metering; their baseline is reset when the module loads
+                    await this.fetchRemote(key);
+                } catch (e) {
+                    console.error(`[Quota] Failed to meter ${key}`, e);
+                }
+            }
+
+            // Files uploaded before metering carry no size: ask the object store once
+            const unknown: RecordUsage[] = [];
+            this.usage.forEach(records => records.forEach(r => { if (r.fileUrl && r.fileBytes === undefined) unknown.push(r); }));
+            await Promise.all(unknown.map(async r => {
+                r.fileBytes = await this.adapter.statObject(r.fileUrl!).catch(() => 0);
+            }));
+        } else {
+            // Air-gapped / offline: meter what this device holds
+            const cached = (await localStore.getAll<CachedModule>(LOCAL_STORES.MODULES).catch(() => [] as CachedModule[]))
+                .filter(m => m.orgId === this.currentOrgId);
+            cached.forEach(m => {
+                if (this.adapter.syncsRecords && this.usage.has(m.key)) return;
+                this.usage.delete(m.key);
+                this.meterRecords(m.key, m.items);
+            });
+        }
+
+        const organization = await this.loadOrganization();
+        const stats = this.buildStats(SUBSCRIPTION_QUOTAS[organization?.subscriptionStatus || 'Trial']);
+        this.lastStats = { stats, computedAt: Date.now() };
+        return stats;
+    }
+
+    // Call before accepting files from the user; blocks uploads past the quota and flags ones close to it
+    async checkUploadQuota(bytes: number): Promise<UploadQuotaCheck> {
+        const stats = await this.getStats();
+        const projectedBytes = stats.usageBytes + bytes;
+        const projectedPercent = stats.quotaBytes > 0 ? (projectedBytes / stats.quotaBytes) * 100 : 0;
+        return {
+            allowed: projectedBytes <= stats.quotaBytes,
+            nearLimit: projectedPercent >= QUOTA_WARNING_PERCENT,
+            projectedBytes,
+            projectedPercent,
+            quotaBytes: stats.quotaBytes
         };
     }
 
+    // Last line of defence for writes that bypassed the UI check (e.g. queued offline).
+    // Usage is counted first if it isn't known yet, so the first upload of a session is checked too.
+    private async assertWithinQuota(newBytes: number) {
+        if (newBytes === 0) return;
+        const { usageBytes, quotaBytes } = this.lastStats?.stats || await this.getStats();
+        if (usageBytes + newBytes > quotaBytes) {
+            throw new QuotaExceededError(`Storage quota exceeded: ${formatBytes(usageBytes + newBytes)} of ${formatBytes(quotaBytes)}. Empty Trash or upgrade the subscription.`);
+        }
+    }
+
+    // --- AI USAGE METERING & BUDGETS ---
+
+    // Adds a model call to this session's view of the month's spend. The aiGenerate function records it in the org's
+    // daily aggregate (clients can't write it), so the spend is re-read from there now and then.
+    recordAiUsage(call: AiUsageCall) {
+        const month = usageMonthKey();
+        if (this.aiSpend?.month !== month) return;
+        this.aiSpend.spentUsd += estimateAiCostUsd(call.model, call.inputTokens, call.outputTokens);
+        this.notifyAiBudget();
+    }
+
+    // Re-reads the spend and budget, e.g. after the server refused a call the local view still allowed
+    refreshAiBudget() {
+        if (this.aiSpend) this.aiSpend.loadedAt = 0;
+        this.organization = null;
+        this.notifyAiBudget();
+    }
+
+    // Daily aggregates of a month (YYYY-MM); SuperAdmins may pass another org
+    async getAiUsage(month: string, orgId = this.currentOrgId): Promise<AiUsageDay[]> {
+        if (!orgId || !auth.currentUser) return [];
+        const snapshot = await getDocs(query(collection(db, "organizations", orgId, "aiUsage"), where("month", "==", month)));
+        return snapshot.docs.map(d => d.data() as AiUsageDay);
+    }
+
+    // Checked before every remote model call, so it is cheap: spend and budget are re-read at most every few minutes
+    async getAiBudgetStatus(): Promise<AiBudgetStatus> {
+        const month = usageMonthKey();
+        const stale = !this.aiSpend || this.aiSpend.month !== month || Date.now() - this.aiSpend.loadedAt > STATS_TTL_MS;
+        if (stale && this.currentOrgId) {
+            if (!this.aiSpendLoad) this.aiSpendLoad = this.loadAiSpend(month).finally(() => { this.aiSpendLoad = null; });
+            await this.aiSpendLoad;
+        }
+        const organization = await this.loadOrganization();
+        return buildAiBudgetStatus(month, organization?.aiMonthlyBudgetUsd, this.aiSpend?.month === month ? this.aiSpend.spentUsd : 0);
+    }
+
+    private async loadAiSpend(month: string) {
+        let spentUsd = this.aiSpend?.month === month ? this.aiSpend.spentUsd : 0;
+        if (this.canReachCloud) {
+            try {
+                spentUsd = summarizeAiUsage(await this.getAiUsage(month)).total.costUsd;
+            } catch (e) {
+                console.error("[AI Usage] Failed to load this month's spend", e);
+            }
+            // Picks up a budget a SuperAdmin changed since the org was loaded
+            this.organization = null;
+        }
+        this.aiSpend = { month, spentUsd, loadedAt: Date.now() };
+        this.notifyAiBudget();
+    }
+
+    subscribeAiBudget(listener: (status: AiBudgetStatus) => void): () => void {
+        this.aiBudgetListeners.add(listener);
+        this.getAiBudgetStatus().then(listener);
+        return () => { this.aiBudgetListeners.delete(listener); };
+    }
+
+    private notifyAiBudget() {
+        if (this.aiBudgetListeners.size === 0) return;
+        this.getAiBudgetStatus().then(status => this.aiBudgetListeners.forEach(l => l(status)));
+    }
+
+    // SuperAdmins only (enforced by the rules); null removes the limit
+    async setAiMonthlyBudget(orgId: string, budgetUsd: number | null): Promise<void> {
+        await updateDoc(doc(db, "organizations", orgId), { aiMonthlyBudgetUsd: budgetUsd });
+        if (orgId !== this.currentOrgId) return;
+        if (this.organization) this.organization = { ...this.organization, aiMonthlyBudgetUsd: budgetUsd };
+        this.logActivity(ViewState.ADMIN, 'EDIT', budgetUsd === null ? 'Removed the monthly AI budget' : `Set the monthly AI budget to ${formatUsd(budgetUsd)}`);
+        this.notifyAiBudget();
+    }
+
+    // Moves every record of a module to Trash (restorable until its retention runs out).
+    // Local-only orgs have no Trash: their copy is deleted.
     async clearUserCache(type: string) {
         if (!auth.currentUser || !this.currentOrgId) return;
-        await deleteDoc(doc(db, "organizations", this.currentOrgId, "modules", type));
+        if (this.adapter.syncsRecords) {
+            const live = await this.fetchRemote<any>(type);
+            const colName = collectionForKey(type);
+            const { conflicts } = await this.commitWithRevisionCheck(type, live.map(item => ({
+                recordId: item.id,
+                record: null,
+                audit: this.activity.build(toolForKey(type), 'DELETE', `Moved ${colName} record to trash (module cleared)`, { collection: colName, recordId: item.id, changes: diffRecords(item, null) })
+            })));
+            if (conflicts.length > 0) this.raiseConflicts(conflicts);
+        } else {
+            this.logActivity(toolForKey(type), 'DELETE', `Deleted all ${collectionForKey(type)} records (module cleared)`);
+        }
+        this.snapshots.set(type, new Map());
+
+        await localStore.delete(LOCAL_STORES.MODULES, `${this.currentOrgId}:${type}`);
+        await clearAiResultCache();
+        this.lastKnown.set(type, '[]');
+        await this.sync.discard(type);
     }
 
-    // --- ACTIVITY LOGGING ---
+    // --- ACTIVITY LOGGING (see storageActivity.ts) ---
 
-    logActivity(tool: ViewState, action: ActivityLogEntry['action'], details: string) {
-        // Implementation omitted for brevity, would push to 'activity' collection under Org
+    logActivity(tool: ViewState, action: ActivityLogEntry['action'], details: string, record?: Pick<ActivityLogEntry, 'collection' | 'recordId' | 'changes'>) {
+        this.activity.log(tool, action, details, record);
     }
 
+    // Synchronous view of the most recent entries (this session + last loadHistory)
     getHistory(tool?: ViewState): ActivityLogEntry[] {
-        return []; 
+        return this.activity.getHistory(tool);
+    }
+
+    loadHistory(tool?: ViewState): Promise<ActivityLogEntry[]> {
+        return this.activity.loadHistory(tool);
+    }
+
+    queryActivity(filter: ActivityQuery = {}): Promise<ActivityLogEntry[]> {
+        return this.activity.query(filter);
     }
 
     // --- BACKUP ---
 
-    async exportAllData(): Promise<string> {
-        return JSON.stringify({ meta: "Cloud Export", orgId: this.currentOrgId });
+    // Versioned ZIP: manifest.json, settings.json, modules/{collection}.json and files/* for referenced images
+    async exportAllData(): Promise<Blob> {
+        if (!auth.currentUser || !this.currentOrgId) throw new Error("Sign in to export organization data.");
+
+        const zip = new JSZip();
+        const manifest: BackupManifest = {
+            format: 'founder-os-backup',
+            schemaVersion: BACKUP_SCHEMA_VERSION,
+            exportedAt: new Date().toISOString(),
+            exportedBy: auth.currentUser.email,
+            orgId: this.currentOrgId,
+            modules: {},
+            files: []
+        };
+        const packedFiles = new Map<string, string>(); // source URL -> archive reference
+        let total = 0;
+
+        for (const key of MODULE_KEYS) {
+            const records = await this.load<any>(key);
+            const packed = await Promise.all(records.map(async ({ imageEncrypted, ...r }) => {
+                if (typeof r.imageUrl !== 'string' || !r.imageUrl) return r;
+                // Archives hold decrypted files so they restore without the org key; imports encrypt them again
+                const source = imageEncrypted ? await this.openFile(r.imageUrl, true) : r.imageUrl;
+                return { ...r, imageUrl: await this.packFile(zip, source, packedFiles, manifest) };
+            }));
+            const file = `modules/${collectionForKey(key)}.json`;
+            zip.file(file, JSON.stringify(packed, null, 2));
+            manifest.modules[key] = { file, count: packed.length };
+            total += packed.length;
+        }
+
+        const settings = await this.loadGlobalSettings();
+        if (settings) zip.file(SETTINGS_FILE, JSON.stringify(settings, null, 2));
+        zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+        this.logActivity(ViewState.SETTINGS, 'EXPORT', `Exported organization backup (${total} records, ${manifest.files.length} files)`);
+        return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
     }
 
-    async importAllData(jsonString: string): Promise<boolean> {
-        return true; 
+    private async packFile(zip: JSZip, url: string, packed: Map<string, string>, manifest: BackupManifest): Promise<string> {
+        if (packed.has(url)) return packed.get(url)!;
+        try {
+            // fetch() resolves both Storage download URLs and inline data: URLs
+            const blob = await (await fetch(url)).blob();
+            const path = `files/${crypto.randomUUID()}.${fileExtensionFor(blob.type)}`;
+            zip.file(path, blob);
+            manifest.files.push(path);
+            packed.set(url, `${ARCHIVE_FILE_PREFIX}${path}`);
+            return packed.get(url)!;
+        } catch (e) {
+            console.warn(`[Backup] Could not fetch attachment, keeping original reference`, e);
+            return url;
+        }
+    }
+
+    private async unpackFile(zip: JSZip, reference: string): Promise<string | undefined> {
+        const file = zip.file(reference.slice(ARCHIVE_FILE_PREFIX.length));
+        if (!file) return undefined;
+        const ext = reference.split('.').pop() || 'jpg';
+        const mimeType = ext === 'pdf' ? 'application/pdf' : `image/${ext === 'jpg' ? 'jpeg' : ext}`;
+        // Inline data URLs are uploaded to Storage by the regular save pipeline
+        return `data:${mimeType};base64,${await file.async('base64')}`;
+    }
+
+    async importAllData(archive: Blob, options: { mode: ImportMode; dryRun?: boolean }): Promise<ImportReport> {
+        if (!auth.currentUser || !this.currentOrgId) throw new Error("Sign in to import organization data.");
+
+        const zip = await JSZip.loadAsync(archive);
+        const manifestFile = zip.file(MANIFEST_FILE);
+        if (!manifestFile) throw new BackupValidationError("Archive has no manifest.json.");
+        const manifest = validateManifest(JSON.parse(await manifestFile.async('string')));
+
+        const warnings: string[] = [];
+        const incoming: Record<string, any[]> = {};
+        for (const [key, entry] of Object.entries(manifest.modules)) {
+            if (!isModuleKey(key)) {
+                warnings.push(`Skipped unknown module "${key}".`);
+                continue;
+            }
+            const file = zip.file(entry.file);
+            const parsed = file ? JSON.parse(await file.async('string')) : null;
+            if (!Array.isArray(parsed)) {
+                warnings.push(`Module file ${entry.file} is missing or malformed.`);
+                continue;
+            }
+            incoming[key] = this.upgradeRecords(key, parsed); // Archives from older versions are brought to the current schema
+        }
+
+        const missingFiles = Object.values(incoming).flat()
+            .filter(r => typeof r?.imageUrl === 'string' && r.imageUrl.startsWith(ARCHIVE_FILE_PREFIX) && !zip.file(r.imageUrl.slice(ARCHIVE_FILE_PREFIX.length)));
+        if (missingFiles.length > 0) warnings.push(`${missingFiles.length} records reference files missing from the archive; their images will be dropped.`);
+
+        const existing: Record<string, any[]> = {};
+        for (const key of Object.keys(incoming)) {
+            existing[key] = await this.load<any>(key);
+        }
+        const plan = planImport(existing, incoming, options.mode);
+
+        const report: ImportReport = {
+            mode: options.mode,
+            dryRun: !!options.dryRun,
+            schemaVersion: manifest.schemaVersion,
+            exportedAt: manifest.exportedAt,
+            sourceOrgId: manifest.orgId,
+            modules: plan.report,
+            files: manifest.files.length,
+            warnings
+        };
+        if (options.dryRun) return report;
+
+        for (const [key, records] of Object.entries(plan.records)) {
+            const unpacked = this.stampCreation(key, await Promise.all(records.map(async (r) =>
+                typeof r.imageUrl === 'string' && r.imageUrl.startsWith(ARCHIVE_FILE_PREFIX) ? { ...r, imageUrl: await this.unpackFile(zip, r.imageUrl) } : r
+            )));
+            if (options.mode === 'replace') await this.clearUserCache(key);
+            // Local-only orgs: the device copy written by markSynced is the whole store
+            if (this.adapter.syncsRecords) await this.performCloudSave(key, unpacked);
+            await this.markSynced(key, unpacked);
+        }
+
+        const settingsFile = zip.file(SETTINGS_FILE);
+        if (settingsFile) {
+            const imported = JSON.parse(await settingsFile.async('string')) as AppSettings;
+            const current = options.mode === 'merge' ? await this.loadGlobalSettings() : null;
+            await this.saveGlobalSettings(current ? { ...imported, ...current } : imported);
+        }
+
+        const created = Object.values(plan.report).reduce((sum, m) => sum + m.created + m.remapped, 0);
+        this.logActivity(ViewState.SETTINGS, 'IMPORT', `Imported backup from ${manifest.exportedAt} (${options.mode}, ${created} records written)`);
+        return report;
     }
 }
 
@@ -0,0 +1,187 @@
+import { SyncStatus } from "../types";
+import { localStore, LOCAL_STORES } from "./localStore";
+import { VaultLockedError } from "./securityService";
+import { StorageAdapter } from "./storageAdapters";
+import { CachedModule } from "./storageRecords";
+
+const SAVE_DEBOUNCE_MS = 2000;
+const MAX_SYNC_ATTEMPTS = 3;
+
+// Durable copy of the latest unsynced module state; one entry per org+module, newest write wins
+export interface SyncQueueEntry {
+    id: string;
+    orgId: string;
+    key: string;
+    data: any[];
+    queuedAt: string;
+    attempts: number;
+    status: 'pending' | 'failed';
+    lastError?: string;
+    knownIds?: string[]; // Set when the edit was based on the local copy: the only records it may delete
+}
+
+export interface SyncHost {
+    orgId(): string | null;
+    adapter(): StorageAdapter;
+    canReachCloud(): boolean;
+    // Record IDs the module's local copy showed when it wasn't a cloud state (see StorageService.localBaselines)
+    knownIdsFor(key: string): Set<string> | undefined;
+    hasCloudBaseline(key: string): boolean;
+    fetchRemote(key: string): Promise<any[]>;
+    performCloudSave(key: string, data: any[], knownIds?: string[]): Promise<void>;
+    sealLocalRecords(key: string, items: any[]): Promise<any[]>;
+    openLocalRecords(key: string, items: any[]): Promise<any[]>;
+}
+
+// Local-first writes: each module state is cached and queued in IndexedDB right away and replayed to the cloud
+// (debounced, and again whenever connectivity or the session comes back)
+export class SyncQueue {
+    private debounceTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    private pendingEnqueues: Map<string, Promise<void>> = new Map();
+    private queuedKeys: Set<string> = new Set();
+    private flushing: Promise<void> | null = null;
+    private status: SyncStatus = { online: typeof navigator === 'undefined' ? true : navigator.onLine, pending: 0, failed: 0 };
+    private listeners: Set<(status: SyncStatus) => void> = new Set();
+
+    constructor(private readonly host: SyncHost) {
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => { this.updateStatus({ online: true }); this.flush(); });
+            window.addEventListener('offline', () => this.updateStatus({ online: false }));
+        }
+    }
+
+    // Chained, so a slower encryption of an earlier state can't overwrite a later one
+    queue(orgId: string, key: string, data: any[]) {
+        const queued = (this.pendingEnqueues.get(key) || Promise.resolve()).then(() => this.enqueue(orgId, key, data));
+        this.pendingEnqueues.set(key, queued);
+
+        if (this.debounceTimers.has(key)) {
+            clearTimeout(this.debounceTimers.get(key)!);
+        }
+        const timeout = setTimeout(async () => {
+            await queued;
+            await this.flush();
+            this.debounceTimers.delete(key);
+        }, SAVE_DEBOUNCE_MS);
+        this.debounceTimers.set(key, timeout);
+    }
+
+    private async enqueue(orgId: string, key: string, data: any[]) {
+        const id = `${orgId}:${key}`;
+        const queuedAt = new Date().toISOString();
+        try {
+            data = await this.host.sealLocalRecords(key, data);
+            await localStore.put<CachedModule>(LOCAL_STORES.MODULES, { id, orgId, key, items: data, cachedAt: queuedAt });
+            // In LOCAL mode the cached copy is the only copy; nothing to replicate
+            if (!this.host.adapter().syncsRecords) return;
+            const knownIds = this.host.knownIdsFor(key);
+            await localStore.put<SyncQueueEntry>(LOCAL_STORES.SYNC_QUEUE, {
+                id, orgId, key, data, queuedAt, attempts: 0, status: 'pending',
+                ...(knownIds ? { knownIds: Array.from(knownIds) } : {})
+            });
+        } catch (e) {
+            console.error(`[Local] Failed to queue ${key}`, e);
+        }
+        await this.refreshStatus();
+    }
+
+    // Replays queued module writes to Firestore; safe to call repeatedly
+    flush(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.replay().finally(() => { this.flushing = null; });
+        }
+        return this.flushing;
+    }
+
+    // Writes queued by the debounce must reach the server before history is rewritten
+    async flushPending() {
+        await Promise.all(this.pendingEnqueues.values());
+        this.debounceTimers.forEach(timer => clearTimeout(timer));
+        this.debounceTimers.clear();
+        await this.flush();
+    }
+
+    private async replay() {
+        if (!this.host.canReachCloud()) return;
+        const entries = (await localStore.getAll<SyncQueueEntry>(LOCAL_STORES.SYNC_QUEUE)).filter(e => e.orgId === this.host.orgId());
+
+        for (const entry of entries) {
+            try {
+                // A replay after reload needs the cloud baseline to infer deletes correctly
+                if (!this.host.hasCloudBaseline(entry.key)) await this.host.fetchRemote(entry.key);
+                await this.host.performCloudSave(entry.key, await this.host.openLocalRecords(entry.key, entry.data), entry.knownIds);
+                const latest = await localStore.get<SyncQueueEntry>(LOCAL_STORES.SYNC_QUEUE, entry.id);
+                if (latest?.queuedAt === entry.queuedAt) await localStore.delete(LOCAL_STORES.SYNC_QUEUE, entry.id);
+                this.updateStatus({ lastSyncedAt: new Date().toISOString(), lastError: undefined });
+            } catch (e: any) {
+                // Not a failed attempt: the entry waits until someone unlocks the vault
+                if (e instanceof VaultLockedError) {
+                    this.updateStatus({ lastError: e.message });
+                    continue;
+                }
+                const latest = await localStore.get<SyncQueueEntry>(LOCAL_STORES.SYNC_QUEUE, entry.id);
+                if (latest?.queuedAt === entry.queuedAt) {
+                    const attempts = latest.attempts + 1;
+                    await localStore.put<SyncQueueEntry>(LOCAL_STORES.SYNC_QUEUE, {
+                        ...latest,
+                        attempts,
+                        status: attempts >= MAX_SYNC_ATTEMPTS ? 'failed' : 'pending',
+                        lastError: e?.message || String(e)
+                    });
+                }
+                this.updateStatus({ lastError: e?.message || String(e) });
+            }
+        }
+        await this.refreshStatus();
+    }
+
+    // Unsynced state of a module in the current org, if any
+    pendingEntry(key: string): Promise<SyncQueueEntry | undefined> {
+        return localStore.get<SyncQueueEntry>(LOCAL_STORES.SYNC_QUEUE, `${this.host.orgId()}:${key}`);
+    }
+
+    // Drops what is queued for a module, e.g. when a direct cloud write superseded it
+    async discard(key: string) {
+        await localStore.delete(LOCAL_STORES.SYNC_QUEUE, `${this.host.orgId()}:${key}`);
+        await this.refreshStatus();
+    }
+
+    // Remote snapshots would clobber edits still on their way to the server
+    hasUnsentEdits(key: string): boolean {
+        return this.debounceTimers.has(key) || this.queuedKeys.has(key);
+    }
+
+    // --- STATUS ---
+
+    get online(): boolean {
+        return this.status.online;
+    }
+
+    getStatus(): SyncStatus {
+        return this.status;
+    }
+
+    subscribe(listener: (status: SyncStatus) => void): () => void {
+        this.listeners.add(listener);
+        listener(this.status);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private updateStatus(patch: Partial<SyncStatus>) {
+        this.status = { ...this.status, ...patch };
+        this.listeners.forEach(l => l(this.status));
+    }
+
+    async refreshStatus() {
+        try {
+            const entries = (await localStore.getAll<SyncQueueEntry>(LOCAL_STORES.SYNC_QUEUE)).filter(e => e.orgId === this.host.orgId());
+            this.queuedKeys = new Set(entries.map(e => e.key));
+            this.updateStatus({
+                pending: entries.filter(e => e.status === 'pending').length,
+                failed: entries.filter(e => e.status === 'failed').length
+            });
+        } catch (e) {
+            console.error("[Local] Failed to read sync queue", e);
+        }
+    }
+}
@@ -0,0 +1,113 @@
+import { ActivityLogEntry, AppSettings, RecordConflict, ViewState } from "../types";
+import { db, auth } from "../src/firebaseConfig";
+import { DocumentReference, getDoc, collection, getDocs, query, where, orderBy } from "firebase/firestore";
+import { isTrashed, assertPurgeAllowed, isPurgeDue, stripTrashFields } from "./retentionPolicy";
+import { StorageAdapter } from "./storageAdapters";
+import { isInlineFile } from "./attachmentStore";
+import { CommitResult, RecordWrite, collectionForKey, toolForKey, diffRecords } from "./storageRecords";
+
+// The record write path of StorageService, which restores and purges go through like any other edit
+export interface TrashHost {
+    orgId(): string | null;
+    adapter(): StorageAdapter;
+    isAdmin(): boolean;
+    loadGlobalSettings(): Promise<AppSettings | null>;
+    recordRef(colName: string, id: string): DocumentReference;
+    readRecords(key: string, raw: any[]): Promise<any[]>;
+    trackPersisted(key: string, items: any[], reset: boolean): void;
+    commit(key: string, writes: RecordWrite[]): Promise<CommitResult>;
+    raiseConflicts(conflicts: RecordConflict[]): void;
+    fetchRemote(key: string): Promise<any[]>;
+    publishRemoteState(key: string, items: any[]): void;
+    buildActivityEntry(tool: ViewState, action: ActivityLogEntry['action'], details: string, record?: Pick<ActivityLogEntry, 'collection' | 'recordId' | 'changes'>): ActivityLogEntry;
+}
+
+// Deleted records of cloud orgs stay in their collection stamped _deletedAt (see retentionPolicy.ts) until they are
+// restored or purged. Local-only orgs have no Trash.
+export class TrashBin {
+    constructor(private readonly host: TrashHost) {}
+
+    private get available(): boolean {
+        return !!auth.currentUser && !!this.host.orgId() && this.host.adapter().syncsRecords;
+    }
+
+    // Trashed records of a module, newest first. Read-only, so Viewers can open the Trash too;
+    // records past their retention stay until an Admin purges them (purgeExpired).
+    async load<T>(key: string): Promise<T[]> {
+        if (!this.available) return [];
+        const snapshot = await getDocs(query(
+            collection(db, "organizations", this.host.orgId()!, collectionForKey(key)),
+            where("_deletedAt", "!=", null),
+            orderBy("_deletedAt", "desc")
+        ));
+        const trashed = await this.host.readRecords(key, snapshot.docs.map(d => d.data()));
+        this.host.trackPersisted(key, trashed, false);
+        return trashed as T[];
+    }
+
+    // IDs of trashed records past the org's retention and any legal hold
+    async listExpired(key: string, trashed?: any[]): Promise<string[]> {
+        const settings = await this.host.loadGlobalSettings();
+        return (trashed || await this.load<any>(key)).filter(r => isPurgeDue(key, r, settings)).map(r => r.id);
+    }
+
+    // Admin action: permanently deletes what listExpired returns
+    async purgeExpired(key: string): Promise<number> {
+        if (!this.host.isAdmin()) throw new Error("Only Admins can purge expired records.");
+        const expired = await this.listExpired(key);
+        return expired.length > 0 ? this.purge(key, expired, 'Retention expired') : 0;
+    }
+
+    private async loadTrashed(key: string, recordIds: string[]): Promise<any[]> {
+        const colName = collectionForKey(key);
+        return (await Promise.all(recordIds.map(id => getDoc(this.host.recordRef(colName, id)))))
+            .filter(snap => snap.exists() && isTrashed(snap.data()))
+            .map(snap => snap.data());
+    }
+
+    async restore(key: string, recordIds: string[]): Promise<number> {
+        if (!this.available || recordIds.length === 0) return 0;
+        const colName = collectionForKey(key);
+        const trashed = await this.loadTrashed(key, recordIds);
+
+        const { conflicts, applied } = await this.host.commit(key, trashed.map(item => {
+            const record = { ...stripTrashFields(item), lastModified: new Date().toISOString(), modifiedBy: auth.currentUser!.email };
+            return {
+                recordId: item.id,
+                record,
+                baseRev: item._rev || 0,
+                audit: this.host.buildActivityEntry(toolForKey(key), 'RESTORE', `Restored ${colName} record from trash`, { collection: colName, recordId: item.id, changes: diffRecords(null, record) })
+            };
+        }));
+        if (conflicts.length > 0) this.host.raiseConflicts(conflicts);
+
+        this.host.publishRemoteState(key, await this.host.fetchRemote(key));
+        return applied;
+    }
+
+    // Permanently deletes trashed records; bookkeeping material inside its legal retention window is refused
+    async purge(key: string, recordIds: string[], reason = 'Purged from trash'): Promise<number> {
+        if (!this.available || recordIds.length === 0) return 0;
+        const colName = collectionForKey(key);
+        const trashed = await this.loadTrashed(key, recordIds);
+        trashed.forEach(item => assertPurgeAllowed(key, item));
+
+        const { conflicts, applied } = await this.host.commit(key, trashed.map(item => ({
+            recordId: item.id,
+            record: null,
+            purge: true,
+            baseRev: item._rev || 0,
+            audit: this.host.buildActivityEntry(toolForKey(key), 'PURGE', `${reason} (${colName} record)`, { collection: colName, recordId: item.id })
+        })));
+        if (conflicts.length > 0) this.host.raiseConflicts(conflicts);
+
+        // Shared attachments were released by the purge and are reclaimed by garbage collection;
+        // files uploaded before content addressing belong to this record alone and go right away (best effort)
+        const adapter = this.host.adapter();
+        const conflicted = new Set(conflicts.map(c => c.recordId));
+        await Promise.all(trashed
+            .filter(item => !conflicted.has(item.id) && !item._attachmentHash && item.imageUrl && !isInlineFile(item.imageUrl))
+            .map(item => adapter.deleteObject(item.imageUrl).catch(e => console.warn(`[${adapter.type}] Failed to delete file of ${item.id}`, e))));
+        return applied;
+    }
+}
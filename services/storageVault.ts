@@ -0,0 +1,433 @@
+import { ActivityChange, ActivityLogEntry, AppSettings, User, VaultConfig, VaultMember, VaultUnlockResult, ViewState } from "../types";
+import { db, auth } from "../src/firebaseConfig";
+import { doc, getDoc, setDoc, updateDoc, deleteDoc, collection, getDocs } from "firebase/firestore";
+import { reauthenticateWithCredential, EmailAuthProvider, updatePassword } from "firebase/auth";
+import { localStore, LOCAL_STORES } from "./localStore";
+import { securityService, isEncryptedValue, VaultLockedError, RECOVERY_MEMBER_ID } from "./securityService";
+import { isInlineFile } from "./attachmentStore";
+import { CachedModule, sanitizePayload, getPath, setPath } from "./storageRecords";
+
+// Sensitive values encrypted client-side with the org data key once the org has set up its vault
+const ENCRYPTED_SETTINGS_FIELDS: (keyof AppSettings)[] = ['iban', 'bankgiro', 'plusgiro', 'swish'];
+const ENCRYPTED_RECORD_FIELDS: Record<string, string[]> = {
+    founder_os_accounts: ['apiConfig.apiKey']
+};
+const ENCRYPTED_FILE_MODULES = ['founder_os_contracts'];
+
+export const hasEncryptedFields = (key: string): boolean => !!ENCRYPTED_RECORD_FIELDS[key];
+
+export const hasEncryptedFiles = (key: string): boolean => ENCRYPTED_FILE_MODULES.includes(key);
+
+// Encrypted fields never reach the activity log in plaintext
+export const redactChanges = (key: string, changes: ActivityChange[]): ActivityChange[] => {
+    const paths = ENCRYPTED_RECORD_FIELDS[key] || [];
+    return changes.map(change => paths.reduce((c, path) => {
+        const [head, ...rest] = path.split('.');
+        if (c.field !== head) return c;
+        const mask = (value: any) => rest.length === 0 ? (value ? '[encrypted]' : value) : getPath(value, rest.join('.')) ? setPath(value, rest.join('.'), '[encrypted]') : value;
+        return { ...c, before: mask(c.before), after: mask(c.after) };
+    }, change));
+};
+
+export interface VaultHost {
+    orgId(): string | null;
+    isAdmin(): boolean;
+    getSystemUsers(): Promise<User[]>;
+    logActivity(tool: ViewState, action: ActivityLogEntry['action'], details: string): void;
+    // Queued writes wait for an unlocked vault; replayed once it is
+    flushQueue(): Promise<void>;
+    // Brings stored settings, records and files to the active data key (see StorageService)
+    reencryptAll(): Promise<{ records: number; files: number }>;
+}
+
+// Designated fields and files are encrypted with a random org data key before they leave the browser.
+// The key is stored only wrapped per member (see securityService) and for the admin-held recovery code.
+// Values read while the vault is locked stay ciphertext and pass through saves untouched.
+// This device's cache and queue keep them encrypted too; ZIP backups hold the decrypted values (see README).
+export class RecordVault {
+    // undefined until looked up, null when the org hasn't set one up
+    private config: VaultConfig | null | undefined = undefined;
+
+    constructor(private readonly host: VaultHost) {}
+
+    // Called when another org is configured
+    reset() {
+        this.config = undefined;
+        securityService.lockVault();
+    }
+
+    private ref() {
+        return doc(db, "organizations", this.host.orgId()!, "config", "vault");
+    }
+
+    private memberRef(memberId: string) {
+        return doc(db, "organizations", this.host.orgId()!, "vaultMembers", memberId);
+    }
+
+    async load(): Promise<VaultConfig | null> {
+        if (this.config !== undefined || !this.host.orgId() || !auth.currentUser) return this.config ?? null;
+        try {
+            const snap = await getDoc(this.ref());
+            this.config = snap.exists() ? snap.data() as VaultConfig : null;
+        } catch (e) {
+            console.error("[Vault] Failed to load vault config", e);
+            return null;
+        }
+        return this.config;
+    }
+
+    isLocked(): boolean {
+        return !!this.config && !securityService.isVaultUnlocked();
+    }
+
+    private async getMember(memberId: string): Promise<VaultMember | null> {
+        const snap = await getDoc(this.memberRef(memberId));
+        return snap.exists() ? snap.data() as VaultMember : null;
+    }
+
+    // Loads every org key wrapped for the member; the vault's active key must be among them
+    private async loadMemberKeys(member: VaultMember, privateKey: CryptoKey, vault: VaultConfig): Promise<boolean> {
+        const active = member.wrappedKeys?.[vault.keyId];
+        const key = active && await securityService.unwrapDataKeyWith(active, privateKey);
+        if (!key) return false;
+        await securityService.loadDataKey(vault.keyId, key);
+        securityService.holdMemberKey(member.id, privateKey);
+        // Keys of an unfinished rotation stay readable
+        for (const keyId of vault.retiredKeyIds || []) {
+            const wrapped = member.wrappedKeys[keyId];
+            const retired = wrapped && await securityService.unwrapDataKeyWith(wrapped, privateKey);
+            if (retired) await securityService.loadDataKey(keyId, retired, false);
+        }
+        this.host.flushQueue();
+        return true;
+    }
+
+    // Called with the account password at sign-in. Members without a key pair are enrolled here and wait for an admin grant.
+    // passwordVerified: the password was just accepted by Firebase Auth, so a mismatch means it was reset by email;
+    // the old key pair is unrecoverable then and the member is re-enrolled (an admin re-grants access).
+    async unlock(password: string, passwordVerified = false): Promise<VaultUnlockResult> {
+        const vault = await this.load();
+        const user = auth.currentUser;
+        if (!vault || !user) return 'no-vault';
+
+        let member = await this.getMember(user.uid);
+        let privateKey = member && await securityService.unwrapPrivateKey(member.encryptedPrivateKey, password, member.salt);
+        if (!privateKey) {
+            if (member && !passwordVerified) return 'wrong-secret';
+            member = {
+                id: user.uid,
+                email: user.email || undefined,
+                ...(await securityService.generateMemberKeys(password)),
+                wrappedKeys: {},
+                updatedAt: new Date().toISOString()
+            };
+            await setDoc(this.memberRef(user.uid), sanitizePayload(member));
+            privateKey = await securityService.unwrapPrivateKey(member.encryptedPrivateKey, password, member.salt);
+        }
+        return privateKey && await this.loadMemberKeys(member, privateKey, vault) ? 'unlocked' : 'no-access';
+    }
+
+    async unlockWithRecoveryCode(code: string): Promise<VaultUnlockResult> {
+        const vault = await this.load();
+        if (!vault) return 'no-vault';
+        // Only Admins may read the recovery entry (see firestore.rules)
+        if (!this.host.isAdmin()) throw new Error("Only an Admin can unlock the vault with the recovery code.");
+        const recovery = await this.getMember(RECOVERY_MEMBER_ID);
+        if (!recovery) return 'no-access';
+        const privateKey = await securityService.unwrapPrivateKey(recovery.encryptedPrivateKey, securityService.normalizeRecoveryCode(code), recovery.salt);
+        if (!privateKey) return 'wrong-secret';
+        if (!(await this.loadMemberKeys(recovery, privateKey, vault))) return 'no-access';
+        this.host.logActivity(ViewState.SETTINGS, 'EDIT', 'Unlocked encryption vault with the recovery code');
+        return 'unlocked';
+    }
+
+    // Extractable copies of the loaded org keys, for wrapping them to another member
+    private async exportableDataKeys(): Promise<Map<string, CryptoKey>> {
+        const holderId = securityService.getKeyHolderId();
+        const holder = holderId && await this.getMember(holderId);
+        if (!holder) throw new VaultLockedError();
+        return securityService.exportDataKeys(holder.wrappedKeys || {});
+    }
+
+    // Recovery pseudo-member holding the given keys, wrapped with a fresh code that is returned once
+    private async createRecoveryMember(keys: Map<string, CryptoKey>): Promise<string> {
+        const code = securityService.generateRecoveryCode();
+        const member: VaultMember = {
+            id: RECOVERY_MEMBER_ID,
+            ...(await securityService.generateMemberKeys(securityService.normalizeRecoveryCode(code))),
+            wrappedKeys: {},
+            grantedBy: auth.currentUser?.email || undefined,
+            grantedAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+        };
+        for (const [keyId, key] of keys) {
+            member.wrappedKeys[keyId] = await securityService.wrapDataKeyFor(key, member.publicKey);
+        }
+        await setDoc(this.memberRef(RECOVERY_MEMBER_ID), sanitizePayload(member));
+        return code;
+    }
+
+    // Admin: creates the org data key and encrypts everything designated that is still stored in plaintext.
+    // The recovery code is only returned here and from regenerateRecoveryCode.
+    async setup(password: string): Promise<{ records: number; files: number; recoveryCode: string }> {
+        const user = auth.currentUser;
+        if (!user || !this.host.orgId()) throw new Error("Sign in to set up encryption.");
+        if (await this.load()) throw new Error("Encryption is already set up for this organization.");
+
+        const existing = await this.getMember(user.uid);
+        const admin: VaultMember = existing || {
+            id: user.uid,
+            email: user.email || undefined,
+            ...(await securityService.generateMemberKeys(password)),
+            wrappedKeys: {},
+            updatedAt: new Date().toISOString()
+        };
+        const privateKey = await securityService.unwrapPrivateKey(admin.encryptedPrivateKey, password, admin.salt);
+        if (!privateKey) throw new Error("Password is incorrect.");
+        // Only this extractable original is wrapped for the admin and the recovery code; the loaded copy isn't
+        const { keyId, key } = await securityService.generateDataKey();
+        await securityService.loadDataKey(keyId, key);
+        securityService.holdMemberKey(user.uid, privateKey);
+        await setDoc(this.memberRef(user.uid), sanitizePayload({
+            ...admin,
+            wrappedKeys: { [keyId]: await securityService.wrapDataKeyFor(key, admin.publicKey) },
+            grantedBy: user.email || undefined,
+            grantedAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+        }));
+        const recoveryCode = await this.createRecoveryMember(new Map([[keyId, key]]));
+
+        const vault: VaultConfig = { keyId, createdAt: new Date().toISOString(), createdBy: user.email || undefined };
+        await setDoc(this.ref(), sanitizePayload(vault));
+        this.config = vault;
+        const result = await this.host.reencryptAll();
+        this.host.logActivity(ViewState.SETTINGS, 'EDIT', `Enabled field encryption (${result.records} records, ${result.files} files encrypted)`);
+        return { ...result, recoveryCode };
+    }
+
+    // Admin: invalidates the previous recovery code
+    async regenerateRecoveryCode(): Promise<string> {
+        if (!securityService.isVaultUnlocked()) throw new VaultLockedError();
+        const code = await this.createRecoveryMember(await this.exportableDataKeys());
+        this.host.logActivity(ViewState.SETTINGS, 'EDIT', 'Generated a new vault recovery code');
+        return code;
+    }
+
+    async listMembers(): Promise<VaultMember[]> {
+        const orgId = this.host.orgId();
+        if (!orgId || !auth.currentUser) return [];
+        try {
+            const snapshot = await getDocs(collection(db, "organizations", orgId, "vaultMembers"));
+            return snapshot.docs.map(d => d.data() as VaultMember).filter(m => m.id !== RECOVERY_MEMBER_ID);
+        } catch (e) {
+            console.error("[Vault] Failed to list vault members", e);
+            return [];
+        }
+    }
+
+    // Admin: wraps the loaded org keys for enrolled members (default: every active user of the org). Returns the number granted.
+    async grantAccess(userIds?: string[]): Promise<number> {
+        if (!securityService.isVaultUnlocked()) throw new VaultLockedError();
+        const users = await this.host.getSystemUsers();
+        const eligible = new Set(users.filter(u => u.status !== 'Suspended').map(u => u.id));
+        const keys = await this.exportableDataKeys();
+        let granted = 0;
+        for (const member of await this.listMembers()) {
+            if (userIds ? !userIds.includes(member.id) : !eligible.has(member.id)) continue;
+            if (!member.revokedAt && [...keys.keys()].every(keyId => member.wrappedKeys?.[keyId])) continue;
+            const wrappedKeys: Record<string, string> = { ...(member.revokedAt ? {} : member.wrappedKeys) };
+            for (const [keyId, key] of keys) {
+                wrappedKeys[keyId] = await securityService.wrapDataKeyFor(key, member.publicKey);
+            }
+            const { revokedAt, revokedBy, ...rest } = member;
+            await setDoc(this.memberRef(member.id), sanitizePayload({
+                ...rest,
+                wrappedKeys,
+                grantedBy: auth.currentUser?.email || undefined,
+                grantedAt: new Date().toISOString(),
+                updatedAt: new Date().toISOString()
+            }));
+            this.host.logActivity(ViewState.SETTINGS, 'EDIT', `Granted vault access to ${member.email || member.id}`);
+            granted++;
+        }
+        return granted;
+    }
+
+    // Removes the member's wrapped keys. Data the member already read stays exposed; rotate the key to cut off copies.
+    async revokeAccess(userId: string): Promise<void> {
+        if (!this.host.orgId() || userId === RECOVERY_MEMBER_ID) return;
+        const member = await this.getMember(userId);
+        if (!member || member.revokedAt) return;
+        await setDoc(this.memberRef(userId), sanitizePayload({
+            ...member,
+            wrappedKeys: {},
+            revokedAt: new Date().toISOString(),
+            revokedBy: auth.currentUser?.email || undefined,
+            updatedAt: new Date().toISOString()
+        }));
+        this.host.logActivity(ViewState.SETTINGS, 'EDIT', `Revoked vault access for ${member.email || userId}`);
+    }
+
+    // A deleted user's key pair goes with the profile
+    async deleteMember(userId: string): Promise<void> {
+        if (this.host.orgId() && userId !== RECOVERY_MEMBER_ID) await deleteDoc(this.memberRef(userId));
+    }
+
+    // Admin: a new data key replaces the old one and all encrypted data is re-encrypted with it.
+    // Members keep the old key until that finished, so an interrupted rotation loses nothing; revoked members get neither.
+    async rotateKey(): Promise<{ records: number; files: number }> {
+        const vault = await this.load();
+        if (!vault) throw new Error("Encryption is not set up for this organization.");
+        if (!securityService.isVaultUnlocked()) throw new VaultLockedError();
+
+        const { keyId, key } = await securityService.generateDataKey();
+        const retiredKeyIds = securityService.getDataKeyIds();
+        const recovery = await this.getMember(RECOVERY_MEMBER_ID);
+        const holders = [...(await this.listMembers()).filter(m => !m.revokedAt && m.wrappedKeys?.[vault.keyId]), ...(recovery ? [recovery] : [])];
+        for (const member of holders) {
+            await updateDoc(this.memberRef(member.id), {
+                [`wrappedKeys.${keyId}`]: await securityService.wrapDataKeyFor(key, member.publicKey),
+                updatedAt: new Date().toISOString()
+            });
+        }
+        const rotating: VaultConfig = {
+            ...vault,
+            keyId,
+            retiredKeyIds,
+            rotatedAt: new Date().toISOString(),
+            rotatedBy: auth.currentUser?.email || undefined
+        };
+        await setDoc(this.ref(), sanitizePayload(rotating));
+        this.config = rotating;
+        await securityService.loadDataKey(keyId, key);
+
+        const result = await this.host.reencryptAll();
+        const { retiredKeyIds: _done, ...rotated } = rotating;
+        await setDoc(this.ref(), sanitizePayload(rotated));
+        this.config = rotated;
+        // Retired keys are removed from members re-read here, so a revocation during the rotation is kept
+        for (const holder of holders) {
+            const member = await this.getMember(holder.id);
+            if (!member) continue;
+            const wrappedKeys = Object.fromEntries(Object.entries(member.wrappedKeys || {}).filter(([id]) => !retiredKeyIds.includes(id)));
+            await updateDoc(this.memberRef(member.id), { wrappedKeys, updatedAt: new Date().toISOString() });
+        }
+        retiredKeyIds.forEach(id => securityService.dropDataKey(id));
+        this.host.logActivity(ViewState.SETTINGS, 'EDIT', `Rotated encryption key (${result.records} records, ${result.files} files re-encrypted)`);
+        return result;
+    }
+
+    // Changes the Firebase password and re-wraps this member's private key with it; the org keys stay as they are
+    async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+        const user = auth.currentUser;
+        if (!user?.email) throw new Error("Sign in to change your password.");
+        await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, currentPassword));
+        const member = this.host.orgId() ? await this.getMember(user.uid) : null;
+        const rewrapped = member && await securityService.rewrapPrivateKey(member.encryptedPrivateKey, currentPassword, member.salt, newPassword);
+        await updatePassword(user, newPassword);
+        if (member && rewrapped) {
+            await updateDoc(this.memberRef(user.uid), { ...rewrapped, updatedAt: new Date().toISOString() });
+        }
+    }
+
+    // --- FIELD ENCRYPTION ---
+
+    async encryptSettings(settings: AppSettings): Promise<AppSettings> {
+        if (!(await this.load())) return settings;
+        const encrypted: any = { ...settings };
+        for (const field of ENCRYPTED_SETTINGS_FIELDS) {
+            encrypted[field] = await this.encryptValue(settings[field]);
+        }
+        return encrypted;
+    }
+
+    async decryptSettings(settings: AppSettings): Promise<AppSettings> {
+        const decrypted: any = { ...settings };
+        for (const field of ENCRYPTED_SETTINGS_FIELDS) {
+            decrypted[field] = await this.decryptValue(settings[field]);
+        }
+        return decrypted;
+    }
+
+    async encryptRecordFields(key: string, record: any): Promise<any> {
+        const paths = ENCRYPTED_RECORD_FIELDS[key];
+        if (!paths || !(await this.load())) return record;
+        let encrypted = record;
+        for (const path of paths) {
+            const value = getPath(record, path);
+            if (value) encrypted = setPath(encrypted, path, await this.encryptValue(value));
+        }
+        return encrypted;
+    }
+
+    async decryptRecordFields(key: string, record: any): Promise<any> {
+        let decrypted = record;
+        for (const path of ENCRYPTED_RECORD_FIELDS[key] || []) {
+            const value = getPath(record, path);
+            if (isEncryptedValue(value)) decrypted = setPath(decrypted, path, await this.decryptValue(value));
+        }
+        return decrypted;
+    }
+
+    // Whether the designated fields of a stored record are encrypted with the given key (or empty)
+    fieldsCurrent(key: string, record: any, keyId: string): boolean {
+        return (ENCRYPTED_RECORD_FIELDS[key] || []).every(path => {
+            const value = getPath(record, path);
+            return !value || (isEncryptedValue(value) && securityService.keyIdOf(value) === keyId);
+        });
+    }
+
+    // Ciphertext under a retired key is re-encrypted with the active one; plaintext needs an unlocked vault
+    private async encryptValue(value: any): Promise<any> {
+        if (!value || typeof value !== 'string') return value;
+        if (isEncryptedValue(value)) {
+            const active = securityService.getActiveDataKey();
+            if (!active || securityService.keyIdOf(value) === active.keyId) return value;
+            value = await securityService.decryptField(value);
+        }
+        return securityService.encryptField(value);
+    }
+
+    // Locked vault: the ciphertext is kept as-is
+    private async decryptValue(value: any): Promise<any> {
+        if (!isEncryptedValue(value)) return value;
+        try {
+            return await securityService.decryptField(value);
+        } catch (e) {
+            if (!(e instanceof VaultLockedError)) console.error("[Vault] Failed to decrypt a field", e);
+            return value;
+        }
+    }
+
+    // Displayable URL for a stored file; encrypted files are downloaded and decrypted in the browser
+    async openFile(url: string, encrypted?: boolean): Promise<string> {
+        if (!encrypted || isInlineFile(url)) return url;
+        const ciphertext = await (await fetch(url)).text();
+        return securityService.decryptField(ciphertext);
+    }
+
+    // This device's cache and sync queue hold designated fields encrypted as well. Values typed while the vault
+    // is locked can't be, and stay as typed until a save with the vault unlocked.
+    async sealLocalRecords(key: string, items: any[]): Promise<any[]> {
+        if (!ENCRYPTED_RECORD_FIELDS[key]) return items;
+        return Promise.all(items.map(item => this.encryptRecordFields(key, item).catch(e => {
+            if (e instanceof VaultLockedError) return item;
+            throw e;
+        })));
+    }
+
+    async openLocalRecords(key: string, items: any[]): Promise<any[]> {
+        if (!ENCRYPTED_RECORD_FIELDS[key]) return items;
+        return Promise.all(items.map(item => this.decryptRecordFields(key, item)));
+    }
+
+    // Cached copies under a retired key would be unreadable once it is dropped. Returns the number of records resealed.
+    async resealLocalCache(): Promise<number> {
+        const modules = (await localStore.getAll<CachedModule>(LOCAL_STORES.MODULES))
+            .filter(m => m.orgId === this.host.orgId() && ENCRYPTED_RECORD_FIELDS[m.key]);
+        for (const cached of modules) {
+            await localStore.put<CachedModule>(LOCAL_STORES.MODULES, { ...cached, items: await this.sealLocalRecords(cached.key, cached.items) });
+        }
+        return modules.reduce((sum, m) => sum + m.items.length, 0);
+    }
+}
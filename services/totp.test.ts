@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, generateBackupCodes, generateHotp, generateTotp, generateTotpSecret, hashBackupCode, normalizeBackupCode, totpStep, totpUri, verifyTotp, BACKUP_CODE_COUNT, TOTP_PERIOD_SECONDS } from './totp';
+
+// RFC 4226 / RFC 6238 reference secret: ASCII "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const at = (seconds: number) => () => seconds * 1000;
+
+describe('base32', () => {
+    it('round-trips bytes', () => {
+        const bytes = new Uint8Array([0, 1, 2, 127, 128, 254, 255, 42, 7]);
+        expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('encodes the RFC secret', () => {
+        expect(base32Encode(new TextEncoder().encode('12345678901234567890'))).toBe(RFC_SECRET);
+    });
+
+    it('ignores case, spaces and dashes and rejects other characters', () => {
+        expect(base32Decode('gezd gnbv-gy3t')).toEqual(base32Decode('GEZDGNBVGY3T'));
+        expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character');
+    });
+
+    it('generates 160-bit secrets', () => {
+        const secret = generateTotpSecret();
+        expect(base32Decode(secret)).toHaveLength(20);
+        expect(generateTotpSecret()).not.toBe(secret);
+    });
+});
+
+describe('HOTP', () => {
+    it('matches the RFC 4226 test values', async () => {
+        const key = base32Decode(RFC_SECRET);
+        const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+        for (let counter = 0; counter < expected.length; counter++) {
+            expect(await generateHotp(key, counter)).toBe(expected[counter]);
+        }
+    });
+});
+
+describe('TOTP', () => {
+    it('matches the RFC 6238 SHA-1 test values', async () => {
+        const key = base32Decode(RFC_SECRET);
+        const expected: [number, string][] = [
+            [59, '94287082'], [1111111109, '07081804'], [1111111111, '14050471'],
+            [1234567890, '89005924'], [2000000000, '69279037'], [20000000000, '65353130']
+        ];
+        for (const [seconds, code] of expected) {
+            expect(await generateHotp(key, totpStep(seconds * 1000), 8)).toBe(code);
+            expect(await generateTotp(RFC_SECRET, at(seconds))).toBe(code.slice(-6));
+        }
+    });
+
+    it('accepts the current code and returns its time step', async () => {
+        const clock = at(1111111111);
+        const code = await generateTotp(RFC_SECRET, clock);
+        expect(await verifyTotp(RFC_SECRET, code, clock)).toBe(totpStep(clock()));
+        expect(await verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, clock)).toBe(totpStep(clock()));
+    });
+
+    it('absorbs one step of clock drift either way, but not more', async () => {
+        const now = 1111111111;
+        const previous = await generateTotp(RFC_SECRET, at(now - TOTP_PERIOD_SECONDS));
+        const next = await generateTotp(RFC_SECRET, at(now + TOTP_PERIOD_SECONDS));
+        const stale = await generateTotp(RFC_SECRET, at(now - 2 * TOTP_PERIOD_SECONDS));
+        expect(await verifyTotp(RFC_SECRET, previous, at(now))).toBe(totpStep(now * 1000) - 1);
+        expect(await verifyTotp(RFC_SECRET, next, at(now))).toBe(totpStep(now * 1000) + 1);
+        expect(await verifyTotp(RFC_SECRET, stale, at(now))).toBeNull();
+    });
+
+    it('rejects a code from a step that was already used', async () => {
+        const clock = at(1234567890);
+        const code = await generateTotp(RFC_SECRET, clock);
+        const step = await verifyTotp(RFC_SECRET, code, clock);
+        expect(step).not.toBeNull();
+        expect(await verifyTotp(RFC_SECRET, code, clock, step!)).toBeNull();
+    });
+
+    it('rejects malformed and wrong codes', async () => {
+        const clock = at(1234567890);
+        expect(await verifyTotp(RFC_SECRET, '', clock)).toBeNull();
+        expect(await verifyTotp(RFC_SECRET, '12345', clock)).toBeNull();
+        expect(await verifyTotp(RFC_SECRET, '1234567', clock)).toBeNull();
+        expect(await verifyTotp(RFC_SECRET, 'abcdef', clock)).toBeNull();
+        const code = await generateTotp(RFC_SECRET, clock);
+        const wrong = ((Number(code) + 1) % 1_000_000).toString().padStart(6, '0');
+        expect(await verifyTotp(RFC_SECRET, wrong, clock)).toBeNull();
+    });
+
+    it('builds the otpauth URI for the enrollment QR code', () => {
+        expect(totpUri(RFC_SECRET, 'ann@example.com')).toBe(
+            `otpauth://totp/FounderOS:ann%40example.com?secret=${RFC_SECRET}&issuer=FounderOS&algorithm=SHA1&digits=6&period=30`);
+    });
+});
+
+describe('backup codes', () => {
+    it('generates distinct XXXX-XXXX codes', () => {
+        const codes = generateBackupCodes();
+        expect(codes).toHaveLength(BACKUP_CODE_COUNT);
+        expect(new Set(codes).size).toBe(codes.length);
+        codes.forEach(code => expect(code).toMatch(/^[A-Z2-7]{4}-[A-Z2-7]{4}$/));
+    });
+
+    it('hashes the same code typed differently to the same value', async () => {
+        expect(normalizeBackupCode(' 4f7k-q2mx ')).toBe('4F7KQ2MX');
+        expect(await hashBackupCode('4f7k q2mx')).toBe(await hashBackupCode('4F7K-Q2MX'));
+        expect(await hashBackupCode('4F7K-Q2MX')).toMatch(/^[0-9a-f]{64}$/);
+        expect(await hashBackupCode('4F7K-Q2MA')).not.toBe(await hashBackupCode('4F7K-Q2MX'));
+    });
+});
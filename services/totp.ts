@@ -0,0 +1,95 @@
+// Time-based one-time passwords (RFC 6238, HMAC-SHA1 as used by authenticator apps)
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+// Codes from one step before/after are accepted to absorb clock drift between phone and browser
+export const TOTP_DRIFT_STEPS = 1;
+export const BACKUP_CODE_COUNT = 10;
+export const MFA_ISSUER = 'FounderOS';
+
+// Milliseconds since the epoch; injected so codes can be checked against fixed times
+export type Clock = () => number;
+export const systemClock: Clock = () => Date.now();
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (bytes: Uint8Array): string => {
+    let bits = 0, value = 0, output = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+};
+
+export const base32Decode = (input: string) => {
+    const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+    const bytes: number[] = [];
+    let bits = 0, value = 0;
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index < 0) throw new Error(`Invalid base32 character "${char}"`);
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+};
+
+// 160-bit shared secret, base32 like authenticator apps expect
+export const generateTotpSecret = (): string => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const totpStep = (now: number): number => Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+// HOTP (RFC 4226) value for a counter; TOTP uses the time step as counter
+export const generateHotp = async (secret: BufferSource, counter: number, digits = TOTP_DIGITS): Promise<string> => {
+    const message = new Uint8Array(8);
+    let rest = counter;
+    for (let i = 7; i >= 0; i--) {
+        message[i] = rest & 255;
+        rest = Math.floor(rest / 256);
+    }
+    const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+    const offset = hmac[hmac.length - 1] & 15;
+    const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+export const generateTotp = (secret: string, clock: Clock = systemClock): Promise<string> =>
+    generateHotp(base32Decode(secret), totpStep(clock()));
+
+// Time step the code belongs to, or null. Steps up to lastUsedStep are rejected so a code can't be replayed.
+export const verifyTotp = async (secret: string, code: string, clock: Clock = systemClock, lastUsedStep = -1): Promise<number | null> => {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+    const key = base32Decode(secret);
+    const current = totpStep(clock());
+    for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+        const step = current + drift;
+        if (step > lastUsedStep && await generateHotp(key, step) === normalized) return step;
+    }
+    return null;
+};
+
+// otpauth:// URI encoded in the enrollment QR code
+export const totpUri = (secret: string, account: string, issuer = MFA_ISSUER): string =>
+    `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+// Single-use codes for a lost phone, e.g. 4F7K-Q2MX; only their hashes are stored
+export const generateBackupCodes = (count = BACKUP_CODE_COUNT): string[] =>
+    Array.from({ length: count }, () => base32Encode(crypto.getRandomValues(new Uint8Array(5))).replace(/(.{4})/, '$1-'));
+
+export const normalizeBackupCode = (code: string): string => code.toUpperCase().replace(/[^A-Z2-7]/g, '');
+
+export const hashBackupCode = async (code: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeBackupCode(code)));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
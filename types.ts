@@ -13,7 +13,8 @@ export enum ViewState {
 
 export type IntegrationType = 'Gmail' | 'Outlook' | 'GDrive' | 'Local';
 
-export type StorageProviderType = 'LOCAL' | 'GCS' | 'FIREBASE';
+export type StorageProviderType = 'LOCAL' | 'FIREBASE';
+export type AiProviderType = 'GEMINI' | 'LOCAL';
 
 export type DeviceTier = 'High-End' | 'Mid-Range' | 'Low-End';
 
@@ -26,7 +27,9 @@ export interface Organization {
     name: string;
     subscriptionStatus: 'Active' | 'Trial' | 'Churned';
     createdAt: string;
+    ownerId?: string; // Auth UID of the user who registered the org (may create their own Admin profile)
     settings?: AppSettings;
+    aiMonthlyBudgetUsd?: number | null; // Set by SuperAdmins; unset = no limit
 }
 
 export interface StorageStats {
@@ -37,6 +40,103 @@ export interface StorageStats {
   recommendedLimitBytes: number;
 }
 
+export interface UploadQuotaCheck {
+  allowed: boolean; // false = the upload would exceed the org's quota
+  nearLimit: boolean; // allowed, but usage ends up past the warning threshold
+  projectedBytes: number;
+  projectedPercent: number;
+  quotaBytes: number;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number; // Module writes queued locally, not yet in the cloud
+  failed: number; // Writes that kept failing and need attention
+  lastSyncedAt?: string;
+  lastError?: string;
+}
+
+// Raised when a record changed remotely since this client last saw it
+export interface RecordConflict {
+  id: string;
+  moduleKey: string;
+  collection: string;
+  recordId: string;
+  mine: any | null; // null = deleted locally
+  theirs: any | null; // null = deleted remotely
+  theirsModifiedBy?: string;
+  detectedAt: string;
+}
+
+// Server state of a record captured right before each write (undo log)
+export interface RecordVersion {
+  id: string;
+  moduleKey: string;
+  collection: string;
+  recordId: string;
+  revBefore: number;
+  revAfter: number | null; // null = the write purged the record
+  before: any | null; // null = the record did not exist yet or was in Trash
+  timestamp: string;
+  userId: string;
+  userEmail?: string;
+  operationId?: string;
+}
+
+export interface BulkOperation {
+  id: string;
+  moduleKey: string;
+  label: string;
+  timestamp: string;
+  userId: string;
+  userEmail?: string;
+  recordCount: number;
+  undone: boolean;
+  undoneAt?: string;
+  undoneBy?: string;
+}
+
+// Org encryption vault (organizations/{orgId}/config/vault). Keys live wrapped in the members' documents.
+export interface VaultConfig {
+  keyId: string; // Active org data key
+  retiredKeyIds?: string[]; // Still wrapped for members until a rotation has re-encrypted all data
+  createdAt: string;
+  createdBy?: string;
+  rotatedAt?: string;
+  rotatedBy?: string;
+}
+
+// Key material per member (organizations/{orgId}/vaultMembers/{userId}); the recovery code is member "recovery"
+export interface VaultMember {
+  id: string;
+  email?: string;
+  publicKey: string; // Hex SPKI (RSA-OAEP)
+  encryptedPrivateKey: string; // Wrapped with a key derived from the member's password (or the recovery code)
+  salt: string;
+  wrappedKeys: Record<string, string>; // keyId -> org data key wrapped with publicKey; empty until granted or after revocation
+  grantedBy?: string;
+  grantedAt?: string;
+  revokedAt?: string;
+  revokedBy?: string;
+  updatedAt: string;
+}
+
+export type VaultUnlockResult = 'unlocked' | 'wrong-secret' | 'no-access' | 'no-vault';
+
+// Content-addressed file shared by every record that references the same bytes
+export interface StoredAttachment {
+  hash: string; // SHA-256 of the file content; also the document ID
+  url: string;
+  thumbnailUrl?: string;
+  mimeType: string;
+  bytes: number; // File + thumbnail
+  refs: string[]; // "{collection}/{recordId}" of referencing records (trashed ones included)
+  refCount: number;
+  encrypted?: boolean; // Stored as org-key ciphertext; the ID then ends in the key ID
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ApiConfig {
   clientId?: string;
   apiKey?: string;
@@ -50,7 +150,7 @@ export interface User {
   phoneNumber?: string;
   name: string;
   password?: string; // Hashed/Encrypted in storage
-  mfaVerified: boolean;
+  mfaVerified: boolean; // TOTP second factor enrolled (see MfaEnrollment)
   isEmailVerified?: boolean;
   isPhoneVerified?: boolean;
   resetToken?: string;
@@ -61,9 +161,63 @@ export interface User {
   status?: UserStatus;
   allowedModules?: ViewState[]; // Access Control List
   department?: string;
-  lastActive?: string;
+  lastActive?: string; // Last heartbeat from any of the user's signed-in devices
+  invitationId?: string; // Invitation redeemed to join the org
+}
+
+// One signed-in browser/device (users/{userId}/sessions/{sessionId}); ended on sign-out, idle timeout or by an Admin
+export interface UserSession {
+  id: string;
+  userId: string;
+  organizationId: string;
+  device: string; // e.g. "Chrome on macOS"
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+  endedAt?: string;
+  endReason?: 'signed-out' | 'idle' | 'revoked';
+  endedBy?: string; // Email of the Admin who revoked it
+}
+
+// Pending membership (invitations/{sha256(token)}); redeemed at signup with the token from the invite link
+export interface Invitation {
+  id: string;
+  organizationId: string;
+  organizationName?: string;
+  email: string; // Lowercase; the account must be created with this address
+  name: string;
+  role: UserRole;
+  allowedModules: ViewState[];
+  department?: string;
+  status: 'Pending' | 'Accepted' | 'Revoked';
+  invitedBy?: string;
+  createdAt: string;
+  expiresAt: number; // Epoch ms (compared in security rules)
+  acceptedAt?: string;
+  acceptedBy?: string; // Auth UID of the new member
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
+// TOTP second factor (users/{userId}/security/mfa), read and written by the MFA functions only
+export interface MfaEnrollment {
+  secret: string; // Base32 shared secret
+  backupCodeHashes: string[]; // SHA-256 of the unused backup codes
+  lastUsedStep: number; // Newest accepted time step; older codes are rejected as replays
+  enrolledAt: string;
+  failedAttempts?: number; // Wrong codes in a row
+  lockedUntil?: number; // Epoch ms; no codes are checked before then
 }
 
+// Shown once while enrolling; the server keeps only the secret and the backup code hashes
+export interface MfaEnrollmentOffer {
+  secret: string;
+  uri: string; // otpauth:// URI for the QR code
+  backupCodes: string[];
+}
+
+export type MfaStatus = 'not-required' | 'enroll' | 'verify';
+
 export interface AppSettings {
   country: string;
   language: string;
@@ -89,13 +243,166 @@ export interface AppSettings {
   iban?: string;
   bic?: string;
 
-  // Cloud Storage Config
-  gcpConfig?: {
-      bucketName: string;
-      projectId: string;
-      folderPath?: string;
-      autoSync: boolean;
-  };
+  // Data Retention (days a deleted record stays in Trash, keyed by module storage key)
+  trashRetentionDays?: Record<string, number>;
+
+  // Storage Backend (per org): where module records and files live
+  storageProvider?: StorageProviderType;
+
+  // Security: roles that must sign in with a second factor (TOTP)
+  mfaRequiredRoles?: UserRole[];
+  // Security: minutes without input before a session signs out (0 = never)
+  sessionIdleTimeoutMinutes?: number;
+
+  // Privacy: personal data masked before documents and prompts are sent to the AI model
+  piiRedaction?: PiiRedactionSettings;
+
+  // AI Backend (per org): Gemini, or the offline rule/fixture stand-in for CI and air-gapped installs
+  aiProvider?: AiProviderType;
+  // AI calls in flight at once across all batch jobs (lower it when the API key hits rate limits)
+  aiConcurrency?: number;
+}
+
+// --- AI PRIVACY ---
+
+export type PiiCategory = 'personnummer' | 'iban' | 'card' | 'email' | 'phone';
+
+export interface PiiRedactionSettings {
+  enabled: boolean;
+  categories: PiiCategory[];
+}
+
+// One AI call: what was masked (counts only, never the values) and which files went out as-is
+export interface RedactionLogEntry {
+  id: string;
+  operation: string; // geminiService function
+  createdAt: string;
+  counts: Partial<Record<PiiCategory, number>>;
+  unredactedFiles: number; // Images/PDFs the user agreed to send unmasked
+}
+
+// Registered prompt (services/aiPrompts.ts) a request was built from
+export interface AiPromptRef {
+  name: string;
+  version: number;
+  repairAttempt?: number; // Set on re-prompts after a failed validation
+}
+
+// Recorded model answer, replayed by the LOCAL AI provider for an identical request
+export interface AiFixture {
+  operation: string;
+  requestHash: string; // SHA-256 of model, prompt text and attached files
+  response: string;
+  recordedAt: string;
+  prompt?: AiPromptRef;
+  documentHash?: string; // SHA-256 of the attached file (same as a record's contentHash)
+}
+
+// --- PROMPT EVALUATION ---
+
+// Golden case: a document and the values a correct extraction yields. Array prompts (bank rows, timesheet
+// entries) expect an array of rows, compared in order.
+export interface PromptEvalCase {
+  id: string;
+  prompt: string; // Registered prompt name, e.g. 'analyzeReceipt'
+  documentHash?: string; // Identifies the document; computed from `document` when absent
+  document?: { name?: string; mimeType: string; data: string };
+  expected: Record<string, unknown> | Record<string, unknown>[];
+}
+
+export interface PromptEvalCorpus {
+  cases: PromptEvalCase[];
+  responses?: AiFixture[]; // Recorded answers to replay; the browser's fixtures and recordings are used when absent
+  defaultCurrency?: string;
+}
+
+export interface PromptEvalFieldScore {
+  correct: number;
+  total: number;
+  accuracy: number; // 0-1
+}
+
+export interface PromptEvalMismatch {
+  caseId: string;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface PromptEvalVersionResult {
+  version: number;
+  evaluatedCases: string[];
+  missingCases: string[]; // No recorded answer for this version
+  fields: Record<string, PromptEvalFieldScore>;
+  accuracy: number;
+  mismatches: PromptEvalMismatch[];
+}
+
+export interface PromptEvalRegression {
+  field: string;
+  fromVersion: number;
+  toVersion: number;
+  before: number; // Accuracy on the cases both versions answered
+  after: number;
+}
+
+export interface PromptEvalReport {
+  generatedAt: string;
+  prompts: {
+    prompt: string;
+    currentVersion: number;
+    versions: PromptEvalVersionResult[];
+    regressions: PromptEvalRegression[];
+  }[];
+  unknownPrompts: string[]; // Case prompts that aren't registered or can't be scored
+}
+
+// A document the AI batch could not analyze; keeps the content so it can be retried without re-uploading
+export interface AiFailedFile {
+  name: string;
+  mimeType: string;
+  data: string; // Base64
+  error: string;
+  cancelled?: boolean;
+}
+
+export interface ReceiptBatchResult {
+  receipts: ReceiptData[];
+  failed: AiFailedFile[];
+}
+
+// One model call as metered: tokens as reported by the provider, latency as seen by the browser
+export interface AiUsageCall {
+  operation: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
+export interface AiUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number; // Sum over the calls
+  costUsd: number; // Estimated from list prices
+}
+
+// Daily aggregate per org (organizations/{org}/aiUsage/{YYYY-MM-DD}), keyed by module and by model
+export interface AiUsageDay {
+  date: string; // YYYY-MM-DD (UTC)
+  month: string; // YYYY-MM
+  modules: Partial<Record<ViewState, AiUsageTotals>>;
+  models: Record<string, AiUsageTotals>;
+}
+
+export interface AiBudgetStatus {
+  month: string;
+  budgetUsd: number | null; // null = no limit
+  spentUsd: number;
+  percentUsed: number;
+  nearLimit: boolean;
+  exceeded: boolean; // Remote calls are replaced by the offline rules until the month ends or the budget is raised
 }
 
 // --- DYNAMIC INVOICE SCHEMA ---
@@ -197,10 +504,27 @@ export interface ReceiptData {
   taxDeductible: boolean;
   notes: string;
   imageUrl?: string;
+  thumbnailUrl?: string;
   sourceUrl?: string;
   matchConfidence: number;
   source?: string;
   tags?: string[];
+  contentHash?: string; // SHA-256 of the uploaded file; a re-upload links to this record instead of duplicating it
+  fieldEvidence?: Partial<Record<ReceiptEvidenceField, FieldEvidence>>; // Per extracted field, from the receipt extractor
+  reviewedFields?: ReceiptEvidenceField[]; // Confirmed or corrected by a person, so no longer in the review queue
+}
+
+export type ReceiptEvidenceField = 'vendor' | 'amount' | 'vatAmount' | 'date';
+
+// How sure the extractor is about one value and where on the document it read it
+export interface FieldEvidence {
+  confidence: number; // 0-1
+  box?: {
+    top: number; // Percentage (0-100)
+    left: number; // Percentage (0-100)
+    width: number; // Percentage (0-100)
+    height: number; // Percentage (0-100)
+  };
 }
 
 export interface BankTransaction {
@@ -215,6 +539,7 @@ export interface BankTransaction {
   comments?: string;
   aiSuggestion?: string;
   sourceFile?: string;
+  sourceHash?: string; // SHA-256 of the statement file the row was parsed from
 }
 
 export interface ActionItem {
@@ -265,8 +590,11 @@ export interface ContractData {
   parties: string[];
   sourceUrl?: string;
   imageUrl?: string;
+  thumbnailUrl?: string;
+  imageEncrypted?: boolean; // imageUrl points at ciphertext; open it via storageService.openFile
   uploadDate: string;
   status?: 'Review' | 'Validated';
+  contentHash?: string; // SHA-256 of the uploaded file
 }
 
 export interface GrowthPlan {
@@ -363,12 +691,32 @@ export interface ReconciliationSuggestion {
     reasoning: string;
 }
 
+export interface ActivityChange {
+    field: string;
+    before: any;
+    after: any;
+}
+
 export interface ActivityLogEntry {
     id: string;
     tool: ViewState;
-    action: 'IMPORT' | 'EXPORT' | 'EDIT' | 'DELETE' | 'CREATE';
+    action: 'IMPORT' | 'EXPORT' | 'EDIT' | 'DELETE' | 'CREATE' | 'RESTORE' | 'PURGE';
     details: string;
     timestamp: string;
+    // Audit Trail (who / which record / what changed)
+    userId?: string;
+    userEmail?: string;
+    collection?: string;
+    recordId?: string;
+    changes?: ActivityChange[];
+}
+
+export interface ActivityQuery {
+    tool?: ViewState;
+    userId?: string;
+    from?: string; // ISO date (inclusive)
+    to?: string; // ISO date (inclusive)
+    limit?: number;
 }
 
 export interface ScreenshotItem {
@@ -379,3 +727,37 @@ export interface ScreenshotItem {
     label: string;
     sizeBytes: number;
 }
+
+
+// --- BACKUP ARCHIVE ---
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupManifest {
+    format: 'founder-os-backup';
+    schemaVersion: number;
+    exportedAt: string;
+    exportedBy?: string | null;
+    orgId: string;
+    modules: Record<string, { file: string; count: number }>;
+    files: string[];
+}
+
+export interface ImportModuleReport {
+    incoming: number;
+    created: number;
+    remapped: number;
+    unchanged: number;
+    removed: number;
+}
+
+export interface ImportReport {
+    mode: ImportMode;
+    dryRun: boolean;
+    schemaVersion: number;
+    exportedAt: string;
+    sourceOrgId: string;
+    modules: Record<string, ImportModuleReport>;
+    files: number;
+    warnings: string[];
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the service helpers; the security rules suite needs the emulator (npm run test:rules)
+export default defineConfig({
+  test: {
+    include: ['services/**/*.test.ts'],
+    environment: 'node',
+    passWithNoTests: true
+  }
+})
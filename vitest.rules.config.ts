@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+// Runs inside `firebase emulators:exec`, which points the SDK at the Firestore emulator
+export default defineConfig({
+  test: {
+    include: ['firestore.rules.test.ts'],
+    environment: 'node',
+    testTimeout: 20000,
+    fileParallelism: false
+  }
+})